@@ -0,0 +1,424 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import type { AssignmentRule } from "../../../lib/db/schema";
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string;
+  available: boolean;
+}
+
+const CITIES = ["Chandigarh", "Mohali", "Zirakpur", "Panchkula", "Other"];
+const PROPERTY_TYPES = ["Apartment", "Villa", "Plot", "Office", "Retail"];
+const SOURCES = ["Website", "Referral", "Walk-in", "Call", "Other"];
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400";
+
+const emptyForm = {
+  name: "",
+  city: "",
+  propertyType: "",
+  source: "",
+  priority: "0",
+  assigneeIds: [] as string[],
+};
+
+export default function AssignmentRulesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const isAdmin = session?.user?.role === "admin";
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [rulesResponse, usersResponse] = await Promise.all([
+        fetch("/api/assignment-rules"),
+        fetch("/api/users"),
+      ]);
+
+      if (!rulesResponse.ok || !usersResponse.ok) {
+        throw new Error("Failed to fetch assignment rules");
+      }
+
+      setRules((await rulesResponse.json()).rules);
+      setUsers((await usersResponse.json()).users);
+    } catch (error) {
+      console.error("Error fetching assignment rules:", error);
+      setError("Failed to load assignment rules. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated" && isAdmin) {
+      fetchData();
+    }
+  }, [status, isAdmin, fetchData]);
+
+  const userLabel = (id: string) => {
+    const user = users.find((u) => u.id === id);
+    if (!user) return "Unknown user";
+    const label = user.name || user.email;
+    return user.available ? label : `${label} (unavailable)`;
+  };
+
+  const toggleAssignee = (id: string) => {
+    setForm((prev) => ({
+      ...prev,
+      assigneeIds: prev.assigneeIds.includes(id)
+        ? prev.assigneeIds.filter((assigneeId) => assigneeId !== id)
+        : [...prev.assigneeIds, id],
+    }));
+  };
+
+  const createRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/assignment-rules", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: form.name,
+          city: form.city || null,
+          propertyType: form.propertyType || null,
+          source: form.source || null,
+          priority: parseInt(form.priority) || 0,
+          assigneeIds: form.assigneeIds,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to create rule"
+        );
+      }
+
+      setForm(emptyForm);
+      await fetchData();
+    } catch (error) {
+      console.error("Error creating assignment rule:", error);
+      setError(error instanceof Error ? error.message : "Failed to create rule");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleActive = async (rule: AssignmentRule) => {
+    setError("");
+
+    try {
+      const response = await fetch(`/api/assignment-rules/${rule.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ active: !rule.active }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update rule");
+      }
+
+      setRules(rules.map((r) => (r.id === rule.id ? data : r)));
+    } catch (error) {
+      console.error("Error updating assignment rule:", error);
+      setError(error instanceof Error ? error.message : "Failed to update rule");
+    }
+  };
+
+  const deleteRule = async (rule: AssignmentRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    setError("");
+
+    try {
+      const response = await fetch(`/api/assignment-rules/${rule.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete rule");
+      }
+
+      setRules(rules.filter((r) => r.id !== rule.id));
+    } catch (error) {
+      console.error("Error deleting assignment rule:", error);
+      setError(error instanceof Error ? error.message : "Failed to delete rule");
+    }
+  };
+
+  const describeCriteria = (rule: AssignmentRule) => {
+    const criteria = [rule.city, rule.propertyType, rule.source].filter(
+      Boolean
+    );
+    return criteria.length > 0 ? criteria.join(" · ") : "Every new lead";
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NavigationHeader currentPage="admin" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-5xl mx-auto p-6">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">
+              Assignment Rules
+            </h1>
+            <div className="flex justify-between items-start gap-4">
+              <p className="text-purple-600">
+                New and imported leads go to the next available user of the
+                first matching rule, in priority order. Leads that match no
+                rule stay with whoever created them.
+              </p>
+              <Button variant="outline" asChild>
+                <Link href="/admin/users">← Users &amp; Teams</Link>
+              </Button>
+            </div>
+          </div>
+
+          {!isAdmin ? (
+            <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+              <p className="text-gray-600">
+                Only admins can manage assignment rules.
+              </p>
+            </div>
+          ) : loading ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading rules...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-red-800 text-sm">{error}</p>
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                  Rules
+                </h2>
+                {rules.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No rules yet. New leads are owned by their creator.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {rules.map((rule) => (
+                      <li
+                        key={rule.id}
+                        className="flex items-start justify-between gap-4 py-3"
+                      >
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {rule.name}
+                            <span className="ml-2 text-xs text-gray-500">
+                              priority {rule.priority}
+                            </span>
+                            {!rule.active && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs">
+                                Paused
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-sm text-purple-700">
+                            {describeCriteria(rule)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Rotates between{" "}
+                            {rule.assigneeIds.map(userLabel).join(", ")}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => toggleActive(rule)}
+                          >
+                            {rule.active ? "Pause" : "Resume"}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteRule(rule)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <form
+                onSubmit={createRule}
+                className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 space-y-4"
+              >
+                <h2 className="text-xl font-semibold text-gray-800">
+                  New Rule
+                </h2>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Name *
+                    </label>
+                    <Input
+                      value={form.name}
+                      onChange={(e) =>
+                        setForm({ ...form, name: e.target.value })
+                      }
+                      placeholder="e.g. Mohali villas"
+                      maxLength={100}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Priority
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={1000}
+                      value={form.priority}
+                      onChange={(e) =>
+                        setForm({ ...form, priority: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      City
+                    </label>
+                    <select
+                      value={form.city}
+                      onChange={(e) =>
+                        setForm({ ...form, city: e.target.value })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="">Any city</option>
+                      {CITIES.map((city) => (
+                        <option key={city} value={city}>
+                          {city}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Property Type
+                    </label>
+                    <select
+                      value={form.propertyType}
+                      onChange={(e) =>
+                        setForm({ ...form, propertyType: e.target.value })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="">Any property type</option>
+                      {PROPERTY_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Source
+                    </label>
+                    <select
+                      value={form.source}
+                      onChange={(e) =>
+                        setForm({ ...form, source: e.target.value })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="">Any source</option>
+                      {SOURCES.map((source) => (
+                        <option key={source} value={source}>
+                          {source}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">
+                    Assign in turn to *
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {users.map((user) => (
+                      <label
+                        key={user.id}
+                        className="flex items-center gap-2 text-sm text-gray-700"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={form.assigneeIds.includes(user.id)}
+                          onChange={() => toggleAssignee(user.id)}
+                        />
+                        {userLabel(user.id)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={
+                    isSubmitting ||
+                    form.name.trim().length < 2 ||
+                    form.assigneeIds.length === 0
+                  }
+                >
+                  {isSubmitting ? "Saving..." : "Add Rule"}
+                </Button>
+              </form>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
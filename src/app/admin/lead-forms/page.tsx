@@ -0,0 +1,392 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import type { LeadFormResponse } from "../../../lib/lead-forms";
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400";
+
+const emptyForm = {
+  name: "",
+  defaultOwnerId: "",
+};
+
+export default function LeadFormsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [forms, setForms] = useState<LeadFormResponse[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [openSnippetId, setOpenSnippetId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const isAdmin = session?.user?.role === "admin";
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [formsResponse, usersResponse] = await Promise.all([
+        fetch("/api/lead-forms"),
+        fetch("/api/users"),
+      ]);
+
+      if (!formsResponse.ok || !usersResponse.ok) {
+        throw new Error("Failed to fetch lead forms");
+      }
+
+      setForms((await formsResponse.json()).forms);
+      setUsers((await usersResponse.json()).users);
+    } catch (error) {
+      console.error("Error fetching lead forms:", error);
+      setError("Failed to load lead forms. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated" && isAdmin) {
+      fetchData();
+    }
+  }, [status, isAdmin, fetchData]);
+
+  const userLabel = (id: string) => {
+    const user = users.find((u) => u.id === id);
+    return user ? user.name || user.email : "Unknown user";
+  };
+
+  const createForm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/lead-forms", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to create form"
+        );
+      }
+
+      setForm(emptyForm);
+      setForms(
+        [...forms, data].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setOpenSnippetId(data.id);
+    } catch (error) {
+      console.error("Error creating lead form:", error);
+      setError(error instanceof Error ? error.message : "Failed to create form");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateForm = async (
+    leadForm: LeadFormResponse,
+    changes: { active?: boolean; defaultOwnerId?: string }
+  ) => {
+    setError("");
+
+    try {
+      const response = await fetch(`/api/lead-forms/${leadForm.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update form");
+      }
+
+      setForms(forms.map((f) => (f.id === leadForm.id ? data : f)));
+    } catch (error) {
+      console.error("Error updating lead form:", error);
+      setError(error instanceof Error ? error.message : "Failed to update form");
+    }
+  };
+
+  const deleteForm = async (leadForm: LeadFormResponse) => {
+    if (
+      !confirm(
+        `Delete the form "${leadForm.name}"? Websites using it will stop sending leads.`
+      )
+    ) {
+      return;
+    }
+    setError("");
+
+    try {
+      const response = await fetch(`/api/lead-forms/${leadForm.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete form");
+      }
+
+      setForms(forms.filter((f) => f.id !== leadForm.id));
+    } catch (error) {
+      console.error("Error deleting lead form:", error);
+      setError(error instanceof Error ? error.message : "Failed to delete form");
+    }
+  };
+
+  const copySnippet = async (leadForm: LeadFormResponse) => {
+    try {
+      await navigator.clipboard.writeText(leadForm.snippet);
+      setCopiedId(leadForm.id);
+    } catch (error) {
+      console.error("Error copying snippet:", error);
+      setError("Couldn't copy the snippet. Select it and copy it instead.");
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NavigationHeader currentPage="admin" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-5xl mx-auto p-6">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">
+              Lead Forms
+            </h1>
+            <div className="flex justify-between items-start gap-4">
+              <p className="text-purple-600">
+                Paste a form into your website and its enquiries arrive as
+                Website leads, tagged with the visit&apos;s UTM parameters.
+                Assignment rules still apply; leads they don&apos;t pick up go
+                to the form&apos;s owner. Enquiries from existing leads are
+                noted on their history instead of creating a duplicate.
+              </p>
+              <Button variant="outline" asChild>
+                <Link href="/admin/users">← Users &amp; Teams</Link>
+              </Button>
+            </div>
+          </div>
+
+          {!isAdmin ? (
+            <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+              <p className="text-gray-600">
+                Only admins can manage lead forms.
+              </p>
+            </div>
+          ) : loading ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading forms...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-red-800 text-sm">{error}</p>
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                  Forms
+                </h2>
+                {forms.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No forms yet. Create one below to get its embed code.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {forms.map((leadForm) => (
+                      <li key={leadForm.id} className="py-3 space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">
+                              {leadForm.name}
+                              {!leadForm.active && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs">
+                                  Paused
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-gray-500 break-all">
+                              POST {leadForm.endpoint}
+                            </p>
+                            <label className="flex items-center gap-2 mt-1 text-xs text-gray-700">
+                              Default owner
+                              <select
+                                value={leadForm.defaultOwnerId}
+                                onChange={(e) =>
+                                  updateForm(leadForm, {
+                                    defaultOwnerId: e.target.value,
+                                  })
+                                }
+                                className="h-8 rounded-md border border-purple-200 bg-white px-2 text-xs"
+                              >
+                                {users.map((user) => (
+                                  <option key={user.id} value={user.id}>
+                                    {userLabel(user.id)}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                          </div>
+                          <div className="flex gap-2 shrink-0">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                setOpenSnippetId(
+                                  openSnippetId === leadForm.id
+                                    ? null
+                                    : leadForm.id
+                                )
+                              }
+                            >
+                              {openSnippetId === leadForm.id
+                                ? "Hide Code"
+                                : "Embed Code"}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                updateForm(leadForm, {
+                                  active: !leadForm.active,
+                                })
+                              }
+                            >
+                              {leadForm.active ? "Pause" : "Resume"}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteForm(leadForm)}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </div>
+                        {openSnippetId === leadForm.id && (
+                          <div className="space-y-2">
+                            <textarea
+                              readOnly
+                              value={leadForm.snippet}
+                              rows={12}
+                              onFocus={(e) => e.target.select()}
+                              className="w-full rounded-md border border-purple-200 bg-gray-50 p-2 font-mono text-xs"
+                              aria-label={`Embed code for ${leadForm.name}`}
+                            />
+                            <Button
+                              size="sm"
+                              onClick={() => copySnippet(leadForm)}
+                            >
+                              {copiedId === leadForm.id
+                                ? "Copied"
+                                : "Copy to Clipboard"}
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <form
+                onSubmit={createForm}
+                className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 space-y-4"
+              >
+                <h2 className="text-xl font-semibold text-gray-800">
+                  New Form
+                </h2>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Name *
+                    </label>
+                    <Input
+                      value={form.name}
+                      onChange={(e) =>
+                        setForm({ ...form, name: e.target.value })
+                      }
+                      placeholder="e.g. Homepage enquiry"
+                      maxLength={100}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Default owner *
+                    </label>
+                    <select
+                      value={form.defaultOwnerId}
+                      onChange={(e) =>
+                        setForm({ ...form, defaultOwnerId: e.target.value })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="">Pick a user</option>
+                      {users.map((user) => (
+                        <option key={user.id} value={user.id}>
+                          {userLabel(user.id)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={
+                    isSubmitting ||
+                    form.name.trim().length < 2 ||
+                    !form.defaultOwnerId
+                  }
+                >
+                  {isSubmitting ? "Saving..." : "Create Form"}
+                </Button>
+              </form>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
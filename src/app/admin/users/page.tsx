@@ -0,0 +1,511 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import type {
+  Organization,
+  Team,
+  UserRole,
+} from "../../../lib/db/schema";
+
+interface InviteRow {
+  id: string;
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+}
+
+interface UserRow {
+  id: string;
+  name: string | null;
+  email: string;
+  role: UserRole;
+  teamId: string | null;
+  available: boolean;
+}
+
+const ROLES: { value: UserRole; label: string }[] = [
+  { value: "admin", label: "Admin" },
+  { value: "manager", label: "Manager" },
+  { value: "agent", label: "Agent" },
+];
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400";
+
+export default function AdminUsersPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [organizationName, setOrganizationName] = useState("");
+  const [invites, setInvites] = useState<InviteRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newTeam, setNewTeam] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<UserRole>("agent");
+  const [inviteNotice, setInviteNotice] = useState("");
+  const [error, setError] = useState("");
+
+  const isAdmin = session?.user?.role === "admin";
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const responses = await Promise.all([
+        fetch("/api/users"),
+        fetch("/api/teams"),
+        fetch("/api/organizations"),
+        fetch("/api/organizations/invites"),
+      ]);
+
+      if (responses.some((response) => !response.ok)) {
+        throw new Error("Failed to fetch users");
+      }
+
+      const [usersData, teamsData, organizationData, invitesData] =
+        await Promise.all(responses.map((response) => response.json()));
+
+      setUsers(usersData.users);
+      setTeams(teamsData.teams);
+      setOrganization(organizationData);
+      setOrganizationName(organizationData.name);
+      setInvites(invitesData.invites);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      setError("Failed to load users. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated" && isAdmin) {
+      fetchData();
+    }
+  }, [status, isAdmin, fetchData]);
+
+  const updateUser = async (
+    user: UserRow,
+    changes: Partial<Pick<UserRow, "role" | "teamId" | "available">>
+  ) => {
+    setError("");
+
+    try {
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update user");
+      }
+
+      setUsers(users.map((u) => (u.id === user.id ? data : u)));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      setError(error instanceof Error ? error.message : "Failed to update user");
+    }
+  };
+
+  const createTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    try {
+      const response = await fetch("/api/teams", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name: newTeam }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to create team"
+        );
+      }
+
+      setTeams(
+        [...teams, data].sort((a: Team, b: Team) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setNewTeam("");
+    } catch (error) {
+      console.error("Error creating team:", error);
+      setError(error instanceof Error ? error.message : "Failed to create team");
+    }
+  };
+
+  const renameOrganization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    try {
+      const response = await fetch("/api/organizations", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name: organizationName }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message ||
+            data.error ||
+            "Failed to rename organization"
+        );
+      }
+
+      setOrganization(data);
+    } catch (error) {
+      console.error("Error renaming organization:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to rename organization"
+      );
+    }
+  };
+
+  const sendInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setInviteNotice("");
+
+    try {
+      const response = await fetch("/api/organizations/invites", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to send invite"
+        );
+      }
+
+      setInvites([data, ...invites.filter((i) => i.email !== data.email)]);
+      setInviteEmail("");
+      setInviteNotice(
+        data.emailSent
+          ? `Invite sent to ${data.email}`
+          : `The email could not be sent. Share this link with ${data.email}: ${data.inviteUrl}`
+      );
+    } catch (error) {
+      console.error("Error sending invite:", error);
+      setError(error instanceof Error ? error.message : "Failed to send invite");
+    }
+  };
+
+  const revokeInvite = async (invite: InviteRow) => {
+    setError("");
+
+    try {
+      const response = await fetch(`/api/organizations/invites/${invite.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to revoke invite");
+      }
+
+      setInvites(invites.filter((i) => i.id !== invite.id));
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to revoke invite"
+      );
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NavigationHeader currentPage="admin" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-5xl mx-auto p-6">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">
+              Users &amp; Teams
+            </h1>
+            <div className="flex justify-between items-start gap-4">
+              <p className="text-purple-600">
+                Admins can edit everything, managers can edit their team&apos;s
+                leads, and agents can edit only their own
+              </p>
+              {isAdmin && (
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" asChild>
+                    <Link href="/admin/assignment">Assignment Rules</Link>
+                  </Button>
+                  <Button variant="outline" asChild>
+                    <Link href="/admin/lead-forms">Lead Forms</Link>
+                  </Button>
+                  <Button variant="outline" asChild>
+                    <Link href="/admin/webhooks">Webhooks</Link>
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {!isAdmin ? (
+            <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+              <p className="text-gray-600">
+                Only admins can manage users and teams.
+              </p>
+            </div>
+          ) : loading ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading users...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-red-800 text-sm">{error}</p>
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                  Organization
+                </h2>
+                <form onSubmit={renameOrganization} className="flex gap-2">
+                  <Input
+                    aria-label="Organization name"
+                    value={organizationName}
+                    onChange={(e) => setOrganizationName(e.target.value)}
+                    maxLength={100}
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={
+                      organizationName.trim().length < 2 ||
+                      organizationName.trim() === organization?.name
+                    }
+                  >
+                    Rename
+                  </Button>
+                </form>
+              </div>
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                  Invite Users
+                </h2>
+                <form onSubmit={sendInvite} className="flex gap-2 mb-4">
+                  <Input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="colleague@example.com"
+                    required
+                  />
+                  <select
+                    aria-label="Role for the invited user"
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as UserRole)}
+                    className={`${selectClassName} max-w-[140px]`}
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role.value} value={role.value}>
+                        {role.label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button type="submit" disabled={!inviteEmail.trim()}>
+                    Send Invite
+                  </Button>
+                </form>
+                {inviteNotice && (
+                  <p className="text-sm text-purple-700 mb-4 break-all">
+                    {inviteNotice}
+                  </p>
+                )}
+                {invites.length === 0 ? (
+                  <p className="text-sm text-gray-500">No pending invites.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {invites.map((invite) => (
+                      <li
+                        key={invite.id}
+                        className="flex items-center justify-between py-2"
+                      >
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {invite.email}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {ROLES.find((role) => role.value === invite.role)
+                              ?.label}{" "}
+                            · expires{" "}
+                            {new Date(invite.expiresAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeInvite(invite)}
+                        >
+                          Revoke
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                  Teams
+                </h2>
+                <form onSubmit={createTeam} className="flex gap-2 mb-4">
+                  <Input
+                    value={newTeam}
+                    onChange={(e) => setNewTeam(e.target.value)}
+                    placeholder="New team name"
+                    maxLength={100}
+                  />
+                  <Button type="submit" disabled={newTeam.trim().length < 2}>
+                    Add Team
+                  </Button>
+                </form>
+                {teams.length === 0 ? (
+                  <p className="text-sm text-gray-500">No teams yet.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {teams.map((team) => (
+                      <span
+                        key={team.id}
+                        className="px-3 py-1 rounded-full bg-purple-100 text-purple-800 text-sm"
+                      >
+                        {team.name} (
+                        {users.filter((u) => u.teamId === team.id).length})
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gradient-to-r from-purple-50 to-indigo-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        User
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Role
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Team
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Takes New Leads
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {users.map((user) => (
+                      <tr key={user.id}>
+                        <td className="px-6 py-4">
+                          <div className="text-sm font-medium text-gray-900">
+                            {user.name || "-"}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {user.email}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <select
+                            aria-label={`Role for ${user.email}`}
+                            value={user.role}
+                            onChange={(e) =>
+                              updateUser(user, {
+                                role: e.target.value as UserRole,
+                              })
+                            }
+                            className={selectClassName}
+                          >
+                            {ROLES.map((role) => (
+                              <option key={role.value} value={role.value}>
+                                {role.label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-6 py-4">
+                          <select
+                            aria-label={`Team for ${user.email}`}
+                            value={user.teamId || ""}
+                            onChange={(e) =>
+                              updateUser(user, {
+                                teamId: e.target.value || null,
+                              })
+                            }
+                            className={selectClassName}
+                          >
+                            <option value="">No team</option>
+                            {teams.map((team) => (
+                              <option key={team.id} value={team.id}>
+                                {team.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-6 py-4">
+                          <input
+                            type="checkbox"
+                            aria-label={`${user.email} takes new leads`}
+                            checked={user.available}
+                            onChange={(e) =>
+                              updateUser(user, { available: e.target.checked })
+                            }
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
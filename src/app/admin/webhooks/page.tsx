@@ -0,0 +1,543 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+} from "../../../lib/db/schema";
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "buyer.created": "Lead created",
+  "buyer.status_changed": "Status changed",
+  "buyer.converted": "Lead converted",
+  "buyer.deleted": "Lead deleted",
+};
+
+const WEBHOOK_EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+const STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  pending: "bg-amber-100 text-amber-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const emptyForm = {
+  url: "",
+  events: ["buyer.created"] as WebhookEvent[],
+};
+
+export default function WebhooksPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingLog, setLoadingLog] = useState(false);
+  const [shownSecretId, setShownSecretId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const isAdmin = session?.user?.role === "admin";
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const response = await fetch("/api/webhooks");
+      if (!response.ok) {
+        throw new Error("Failed to fetch webhooks");
+      }
+      setEndpoints((await response.json()).endpoints);
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      setError("Failed to load webhooks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated" && isAdmin) {
+      fetchEndpoints();
+    }
+  }, [status, isAdmin, fetchEndpoints]);
+
+  const fetchDeliveries = async (endpointId: string) => {
+    setLoadingLog(true);
+
+    try {
+      const response = await fetch(`/api/webhooks/${endpointId}/deliveries`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch deliveries");
+      }
+      setDeliveries((await response.json()).deliveries);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      setError("Failed to load the delivery log. Please try again.");
+    } finally {
+      setLoadingLog(false);
+    }
+  };
+
+  const toggleLog = (endpoint: WebhookEndpoint) => {
+    if (openLogId === endpoint.id) {
+      setOpenLogId(null);
+      return;
+    }
+    setOpenLogId(endpoint.id);
+    setDeliveries([]);
+    fetchDeliveries(endpoint.id);
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setForm({
+      ...form,
+      events: form.events.includes(event)
+        ? form.events.filter((e) => e !== event)
+        : [...form.events, event],
+    });
+  };
+
+  const createEndpoint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to add webhook"
+        );
+      }
+
+      setForm(emptyForm);
+      setEndpoints([...endpoints, data]);
+      setShownSecretId(data.id);
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      setError(error instanceof Error ? error.message : "Failed to add webhook");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateEndpoint = async (
+    endpoint: WebhookEndpoint,
+    changes: { active?: boolean; events?: WebhookEvent[] }
+  ) => {
+    setError("");
+
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to update webhook"
+        );
+      }
+
+      setEndpoints(endpoints.map((e) => (e.id === endpoint.id ? data : e)));
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to update webhook"
+      );
+    }
+  };
+
+  const deleteEndpoint = async (endpoint: WebhookEndpoint) => {
+    if (
+      !confirm(
+        `Delete the webhook for ${endpoint.url}? Its delivery log goes with it.`
+      )
+    ) {
+      return;
+    }
+    setError("");
+
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete webhook");
+      }
+
+      setEndpoints(endpoints.filter((e) => e.id !== endpoint.id));
+      if (openLogId === endpoint.id) setOpenLogId(null);
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to delete webhook"
+      );
+    }
+  };
+
+  const retryDelivery = async (delivery: WebhookDelivery) => {
+    setError("");
+
+    try {
+      const response = await fetch(
+        `/api/webhooks/${delivery.endpointId}/deliveries/${delivery.id}/retry`,
+        { method: "POST" }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to retry delivery");
+      }
+
+      setDeliveries(deliveries.map((d) => (d.id === delivery.id ? data : d)));
+    } catch (error) {
+      console.error("Error retrying webhook delivery:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to retry delivery"
+      );
+    }
+  };
+
+  const renderDeliveryLog = (endpoint: WebhookEndpoint) => (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => fetchDeliveries(endpoint.id)}
+          disabled={loadingLog}
+        >
+          {loadingLog ? "Refreshing..." : "Refresh"}
+        </Button>
+      </div>
+      {deliveries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {loadingLog ? "Loading deliveries..." : "Nothing sent yet."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto border border-purple-100 rounded-md">
+          <table className="min-w-full text-xs">
+            <thead className="bg-purple-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Time</th>
+                <th className="px-3 py-2 text-left font-medium">Event</th>
+                <th className="px-3 py-2 text-left font-medium">Status</th>
+                <th className="px-3 py-2 text-left font-medium">Attempts</th>
+                <th className="px-3 py-2 text-left font-medium">Response</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id}>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {EVENT_LABELS[delivery.event]}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <span
+                      className={`px-2 py-0.5 rounded-full ${
+                        STATUS_STYLES[delivery.status]
+                      }`}
+                    >
+                      {delivery.status}
+                    </span>
+                    {delivery.status === "pending" &&
+                      delivery.attempts > 0 && (
+                        <span className="ml-1 text-gray-500">
+                          next{" "}
+                          {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                        </span>
+                      )}
+                  </td>
+                  <td className="px-3 py-2">{delivery.attempts}</td>
+                  <td className="px-3 py-2 text-gray-600 break-all">
+                    {delivery.lastError ?? delivery.responseStatus ?? "—"}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {delivery.status !== "pending" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => retryDelivery(delivery)}
+                      >
+                        {delivery.status === "failed" ? "Retry" : "Resend"}
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NavigationHeader currentPage="admin" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-5xl mx-auto p-6">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">Webhooks</h1>
+            <div className="flex justify-between items-start gap-4">
+              <p className="text-purple-600">
+                Send lead events to other systems as they happen. Each delivery
+                is a signed JSON POST; ones that fail are retried with
+                increasing delays for about 15 hours before being given up on.
+              </p>
+              <Button variant="outline" asChild>
+                <Link href="/admin/users">← Users &amp; Teams</Link>
+              </Button>
+            </div>
+          </div>
+
+          {!isAdmin ? (
+            <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+              <p className="text-gray-600">Only admins can manage webhooks.</p>
+            </div>
+          ) : loading ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading webhooks...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-red-800 text-sm">{error}</p>
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                  Endpoints
+                </h2>
+                {endpoints.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No webhooks yet. Add an endpoint below.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {endpoints.map((endpoint) => (
+                      <li key={endpoint.id} className="py-3 space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900 break-all">
+                              {endpoint.url}
+                              {!endpoint.active && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs">
+                                  Paused
+                                </span>
+                              )}
+                            </p>
+                            <div className="flex flex-wrap gap-3 mt-1">
+                              {WEBHOOK_EVENTS.map((event) => (
+                                <label
+                                  key={event}
+                                  className="flex items-center gap-1 text-xs text-gray-700"
+                                >
+                                  <input
+                                    type="checkbox"
+                                    checked={endpoint.events.includes(event)}
+                                    disabled={
+                                      endpoint.events.length === 1 &&
+                                      endpoint.events.includes(event)
+                                    }
+                                    onChange={() =>
+                                      updateEndpoint(endpoint, {
+                                        events: endpoint.events.includes(event)
+                                          ? endpoint.events.filter(
+                                              (e) => e !== event
+                                            )
+                                          : [...endpoint.events, event],
+                                      })
+                                    }
+                                  />
+                                  {EVENT_LABELS[event]}
+                                </label>
+                              ))}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              Signing secret:{" "}
+                              {shownSecretId === endpoint.id ? (
+                                <code className="break-all">
+                                  {endpoint.secret}
+                                </code>
+                              ) : (
+                                "••••••••"
+                              )}{" "}
+                              <button
+                                type="button"
+                                className="text-purple-600 hover:underline"
+                                onClick={() =>
+                                  setShownSecretId(
+                                    shownSecretId === endpoint.id
+                                      ? null
+                                      : endpoint.id
+                                  )
+                                }
+                              >
+                                {shownSecretId === endpoint.id
+                                  ? "Hide"
+                                  : "Show"}
+                              </button>
+                            </p>
+                          </div>
+                          <div className="flex gap-2 shrink-0">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => toggleLog(endpoint)}
+                            >
+                              {openLogId === endpoint.id
+                                ? "Hide Log"
+                                : "Delivery Log"}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                updateEndpoint(endpoint, {
+                                  active: !endpoint.active,
+                                })
+                              }
+                            >
+                              {endpoint.active ? "Pause" : "Resume"}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteEndpoint(endpoint)}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </div>
+                        {openLogId === endpoint.id &&
+                          renderDeliveryLog(endpoint)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <form
+                onSubmit={createEndpoint}
+                className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 space-y-4"
+              >
+                <h2 className="text-xl font-semibold text-gray-800">
+                  New Endpoint
+                </h2>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    URL *
+                  </label>
+                  <Input
+                    type="url"
+                    value={form.url}
+                    onChange={(e) => setForm({ ...form, url: e.target.value })}
+                    placeholder="https://example.com/hooks/esahayak"
+                    maxLength={500}
+                  />
+                </div>
+
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">
+                    Events *
+                  </p>
+                  <div className="flex flex-wrap gap-4">
+                    {WEBHOOK_EVENTS.map((event) => (
+                      <label
+                        key={event}
+                        className="flex items-center gap-2 text-sm text-gray-700"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={form.events.includes(event)}
+                          onChange={() => toggleEvent(event)}
+                        />
+                        {EVENT_LABELS[event]}
+                        <code className="text-xs text-gray-500">{event}</code>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={
+                    isSubmitting || !form.url.trim() || form.events.length === 0
+                  }
+                >
+                  {isSubmitting ? "Saving..." : "Add Webhook"}
+                </Button>
+              </form>
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 space-y-2 text-sm text-gray-700">
+                <h2 className="text-xl font-semibold text-gray-800">
+                  Verifying Deliveries
+                </h2>
+                <p>
+                  Each request carries <code>X-Webhook-Event</code>,{" "}
+                  <code>X-Webhook-Id</code> (the same for every retry of an
+                  event), <code>X-Webhook-Timestamp</code> and{" "}
+                  <code>X-Webhook-Signature</code> headers. The signature is{" "}
+                  <code>sha256=</code> followed by the hex HMAC-SHA256 of{" "}
+                  <code>&lt;timestamp&gt;.&lt;raw body&gt;</code>, keyed with
+                  the endpoint&apos;s signing secret. Recompute it, compare, and
+                  reject old timestamps.
+                </p>
+                <p>
+                  Answer with any 2xx status within 10 seconds; anything else
+                  counts as a failure and is retried.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { apiKeys } from "@/lib/db/schema";
+import { toApiKeyResponse } from "@/lib/api-keys";
+import { and, eq, isNull } from "drizzle-orm";
+
+// Revokes the key; it stops working at once but stays in the list
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(apiKeys.id, params.id),
+          eq(apiKeys.userId, session.user.id),
+          isNull(apiKeys.revokedAt)
+        )
+      )
+      .returning();
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toApiKeyResponse(apiKey));
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
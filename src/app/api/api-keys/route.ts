@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { apiKeys } from "@/lib/db/schema";
+import { apiKeySchema } from "@/lib/validations/api-key";
+import { generateApiKey, toApiKeyResponse } from "@/lib/api-keys";
+import { and, desc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// The signed-in user's own keys, revoked ones included
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const keys = await db
+      .select()
+      .from(apiKeys)
+      .where(
+        and(
+          eq(apiKeys.userId, session.user.id),
+          eq(apiKeys.organizationId, session.user.organizationId)
+        )
+      )
+      .orderBy(desc(apiKeys.createdAt));
+
+    return NextResponse.json({ keys: keys.map(toApiKeyResponse) });
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// The key itself is only ever returned here; afterwards only its hash is
+// kept
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = apiKeySchema.parse(body);
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values({
+        ...validatedData,
+        prefix,
+        keyHash,
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+      })
+      .returning();
+
+    return NextResponse.json(
+      { ...toApiKeyResponse(apiKey), key },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating API key:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
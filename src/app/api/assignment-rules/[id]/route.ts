@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { assignmentRules } from "@/lib/db/schema";
+import { updateAssignmentRuleSchema } from "@/lib/validations/assignment";
+import { areOrganizationMembers } from "@/lib/organizations";
+import { and, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+function ruleInOrganization(organizationId: string, ruleId: string) {
+  return and(
+    eq(assignmentRules.id, ruleId),
+    eq(assignmentRules.organizationId, organizationId)
+  );
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage assignment rules" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateAssignmentRuleSchema.parse(body);
+
+    if (
+      validatedData.assigneeIds &&
+      !(await areOrganizationMembers(
+        session.user.organizationId,
+        validatedData.assigneeIds
+      ))
+    ) {
+      return NextResponse.json(
+        { error: "Assignee not found" },
+        { status: 404 }
+      );
+    }
+
+    const [rule] = await db
+      .update(assignmentRules)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(ruleInOrganization(session.user.organizationId, params.id))
+      .returning();
+
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error("Error updating assignment rule:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage assignment rules" },
+        { status: 403 }
+      );
+    }
+
+    const [rule] = await db
+      .delete(assignmentRules)
+      .where(ruleInOrganization(session.user.organizationId, params.id))
+      .returning({ id: assignmentRules.id });
+
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Rule deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting assignment rule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { assignmentRules } from "@/lib/db/schema";
+import { assignmentRuleSchema } from "@/lib/validations/assignment";
+import { areOrganizationMembers } from "@/lib/organizations";
+import { asc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Rules in evaluation order
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage assignment rules" },
+        { status: 403 }
+      );
+    }
+
+    const rules = await db
+      .select()
+      .from(assignmentRules)
+      .where(eq(assignmentRules.organizationId, session.user.organizationId))
+      .orderBy(asc(assignmentRules.priority), asc(assignmentRules.createdAt));
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Error fetching assignment rules:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage assignment rules" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = assignmentRuleSchema.parse(body);
+
+    if (
+      !(await areOrganizationMembers(
+        session.user.organizationId,
+        validatedData.assigneeIds
+      ))
+    ) {
+      return NextResponse.json(
+        { error: "Assignee not found" },
+        { status: 404 }
+      );
+    }
+
+    const [rule] = await db
+      .insert(assignmentRules)
+      .values({
+        ...validatedData,
+        organizationId: session.user.organizationId,
+      })
+      .returning();
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error("Error creating assignment rule:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,11 +5,13 @@ import { eq } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
 import crypto from "crypto";
 import { CustomDrizzleAdapter } from "@/lib/auth/custom-adapter";
+import { ensureMembership } from "@/lib/organizations";
 
 // Simple in-memory token store (in production, use Redis or database table)
 const customTokenStore = new Map<string, {
   email: string;
   name?: string;
+  inviteToken?: string;
   expires: Date;
   used: boolean;
 }>();
@@ -26,7 +28,7 @@ const cleanupExpiredTokens = () => {
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, name } = await request.json();
+    const { email, name, inviteToken } = await request.json();
     
     if (!email) {
       return NextResponse.json(
@@ -48,6 +50,7 @@ export async function POST(request: NextRequest) {
     customTokenStore.set(token, {
       email,
       name,
+      inviteToken,
       expires,
       used: false
     });
@@ -163,6 +166,9 @@ export async function GET(request: NextRequest) {
       console.log("✅ User email verified:", user.email);
     }
 
+    // Join the inviting organization, or start a new one
+    await ensureMembership(user, tokenData.inviteToken);
+
     // Create a session using the adapter (ensures proper NextAuth compatibility)
     const adapter = CustomDrizzleAdapter();
     const sessionToken = uuidv4();
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import nodemailer from "nodemailer";
+import { getBaseUrl, sendEmail } from "@/lib/email";
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,29 +15,7 @@ export async function POST(request: NextRequest) {
     console.log("📧 Sending custom verification email to:", email);
 
     // Create custom verification URL with robust environment handling
-    let baseUrl = 'http://localhost:3000'; // fallback
-    
-    if (process.env.NEXTAUTH_URL) {
-      let nextAuthUrl = process.env.NEXTAUTH_URL.trim();
-      
-      // Handle malformed environment variable (sometimes it includes the variable name)
-      if (nextAuthUrl.startsWith('NEXTAUTH_URL=')) {
-        nextAuthUrl = nextAuthUrl.replace('NEXTAUTH_URL=', '');
-      }
-      
-      baseUrl = nextAuthUrl;
-      // Remove trailing slash if present
-      if (baseUrl.endsWith('/')) {
-        baseUrl = baseUrl.slice(0, -1);
-      }
-    } else if (process.env.VERCEL_URL) {
-      baseUrl = `https://${process.env.VERCEL_URL.trim()}`;
-    } else {
-      // Production fallback - use the known Vercel URL
-      if (process.env.NODE_ENV === 'production') {
-        baseUrl = 'https://e-sahayak-lead-management-system.vercel.app';
-      }
-    }
+    const baseUrl = getBaseUrl();
     
     console.log("🌍 Environment check:");
     console.log("  NEXTAUTH_URL:", JSON.stringify(process.env.NEXTAUTH_URL));
@@ -57,20 +35,9 @@ export async function POST(request: NextRequest) {
     
     console.log("✨ Custom verify URL:", verifyUrl);
 
-    // Create email transporter
-    const transport = nodemailer.createTransport({
-      host: process.env.EMAIL_SERVER_HOST!,
-      port: parseInt(process.env.EMAIL_SERVER_PORT!),
-      auth: {
-        user: process.env.EMAIL_SERVER_USER!,
-        pass: process.env.EMAIL_SERVER_PASSWORD!,
-      },
-    });
-
     // Send email
-    const result = await transport.sendMail({
+    await sendEmail({
       to: email,
-      from: process.env.EMAIL_FROM!,
       subject: `Welcome to ESahayak - Verify your account`,
       text: `Welcome to ESahayak!
 
@@ -102,11 +69,6 @@ Welcome to the team!`,
       `,
     });
 
-    const failed = result.rejected.concat(result.pending).filter(Boolean);
-    if (failed.length) {
-      throw new Error(`Email(s) (${failed.join(", ")}) could not be sent`);
-    }
-
     console.log("✅ Custom verification email sent successfully");
 
     return NextResponse.json({
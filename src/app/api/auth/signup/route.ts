@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { signupSchema } from "@/lib/validations/buyer";
+import { findPendingInvite } from "@/lib/organizations";
 import { authDb } from "@/lib/db";
 import { users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
@@ -11,6 +12,25 @@ export async function POST(request: NextRequest) {
     // Validate input data
     const validatedData = signupSchema.parse(body);
 
+    // Invited users must sign up with the address the invite was sent to
+    if (validatedData.inviteToken) {
+      const invite = await findPendingInvite(validatedData.inviteToken);
+
+      if (!invite) {
+        return NextResponse.json(
+          { message: "This invite is invalid or has expired" },
+          { status: 400 }
+        );
+      }
+
+      if (invite.email.toLowerCase() !== validatedData.email.toLowerCase()) {
+        return NextResponse.json(
+          { message: `This invite is for ${invite.email}` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Note: User creation is handled by our custom verification system
     
     // Return success - the frontend will then trigger NextAuth signIn
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import {
+  buyers,
+  buyerActivities,
+  users,
+} from "../../../../../lib/db/schema";
+import { createActivitySchema } from "../../../../../lib/validations/activity";
+import { getBuyerPermissions } from "../../../../../lib/auth/permissions";
+import { buyerInOrganization } from "../../../../../lib/buyers/query";
+import { desc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Most recent first
+    const activities = await db
+      .select({
+        activity: buyerActivities,
+        loggedByName: users.name,
+        loggedByEmail: users.email,
+      })
+      .from(buyerActivities)
+      .innerJoin(buyers, eq(buyerActivities.buyerId, buyers.id))
+      .leftJoin(users, eq(buyerActivities.loggedBy, users.id))
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .orderBy(desc(buyerActivities.occurredAt));
+
+    return NextResponse.json({
+      activities: activities.map(
+        ({ activity, loggedByName, loggedByEmail }) => ({
+          ...activity,
+          loggedByName: loggedByName || loggedByEmail,
+        })
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching activities:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = createActivitySchema.parse(body);
+
+    const [buyer] = await db
+      .select({ id: buyers.id, ownerId: buyers.ownerId })
+      .from(buyers)
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!buyer) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    const permissions = await getBuyerPermissions(session.user, buyer);
+    if (!permissions.canEdit) {
+      return NextResponse.json(
+        { error: "You don't have permission to log activity on this lead" },
+        { status: 403 }
+      );
+    }
+
+    const [activity] = await db
+      .insert(buyerActivities)
+      .values({
+        buyerId: buyer.id,
+        type: validatedData.type,
+        outcome: validatedData.outcome || null,
+        occurredAt: validatedData.occurredAt || new Date(),
+        durationMinutes: validatedData.durationMinutes ?? null,
+        notes: validatedData.notes || null,
+        loggedBy: session.user.id,
+      })
+      .returning();
+
+    return NextResponse.json(activity, { status: 201 });
+  } catch (error) {
+    console.error("Error creating activity:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
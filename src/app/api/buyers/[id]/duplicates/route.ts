@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import { buyers } from "../../../../../lib/db/schema";
+import { findDuplicateBuyers } from "../../../../../lib/buyers/duplicates";
+import { buyerInOrganization } from "../../../../../lib/buyers/query";
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [buyer] = await db
+      .select()
+      .from(buyers)
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!buyer) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    const [duplicates] = await findDuplicateBuyers(
+      buyer.organizationId,
+      [buyer],
+      { excludeIds: [buyer.id] }
+    );
+
+    return NextResponse.json({ duplicates });
+  } catch (error) {
+    console.error("Error finding duplicate buyers:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
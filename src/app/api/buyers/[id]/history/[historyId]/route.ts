@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../../lib/auth/config";
+import { db } from "../../../../../../lib/db";
+import { buyers } from "../../../../../../lib/db/schema";
+import { buyerInOrganization } from "../../../../../../lib/buyers/query";
+import {
+  getChangedFields,
+  loadBuyerAsOf,
+} from "../../../../../../lib/buyers/revert";
+
+// The buyer as it looked right after this history entry
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; historyId: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [buyer] = await db
+      .select()
+      .from(buyers)
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!buyer) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    const asOf = await loadBuyerAsOf(buyer, params.historyId);
+
+    if (!asOf) {
+      return NextResponse.json(
+        { error: "History entry not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      changedAt: asOf.entry.changedAt,
+      buyer: asOf.snapshot,
+      // Fields a revert to this point would change
+      changedFields: getChangedFields(buyer, asOf.snapshot),
+    });
+  } catch (error) {
+    console.error("Error loading buyer version:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
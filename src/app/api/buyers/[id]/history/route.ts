@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import { buyers, buyerHistory, users } from "../../../../../lib/db/schema";
+import { buyerHistoryQuerySchema } from "../../../../../lib/validations/buyer";
+import { buyerInOrganization } from "../../../../../lib/buyers/query";
+import {
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+} from "../../../../../lib/buyers/history";
+import { and, desc, eq, sql, SQL } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// One page of a buyer's change history, newest first
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = buyerHistoryQuerySchema.parse({
+      cursor: searchParams.get("cursor") || undefined,
+      limit: searchParams.get("limit") || undefined,
+      field: searchParams.get("field") || undefined,
+      changedBy: searchParams.get("changedBy") || undefined,
+    });
+
+    const [buyer] = await db
+      .select({ id: buyers.id })
+      .from(buyers)
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!buyer) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    const conditions: (SQL | undefined)[] = [
+      eq(buyerHistory.buyerId, buyer.id),
+    ];
+
+    if (query.cursor) {
+      const cursor = decodeHistoryCursor(query.cursor);
+      if (!cursor) {
+        return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+      }
+      conditions.push(
+        sql`(${buyerHistory.changedAt}, ${buyerHistory.id}) < (${cursor.changedAt}::timestamp, ${cursor.id}::uuid)`
+      );
+    }
+
+    if (query.field) {
+      conditions.push(sql`${buyerHistory.diff}::jsonb ? ${query.field}`);
+    }
+
+    if (query.changedBy) {
+      conditions.push(eq(buyerHistory.changedBy, query.changedBy));
+    }
+
+    // One extra row tells us whether there is another page
+    const rows = await db
+      .select({
+        id: buyerHistory.id,
+        changedAt: buyerHistory.changedAt,
+        cursorAt: sql<string>`${buyerHistory.changedAt}::text`,
+        diff: buyerHistory.diff,
+        changedBy: buyerHistory.changedBy,
+        changedByName: users.name,
+        changedByEmail: users.email,
+      })
+      .from(buyerHistory)
+      .leftJoin(users, eq(buyerHistory.changedBy, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(buyerHistory.changedAt), desc(buyerHistory.id))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return NextResponse.json({
+      history: page.map((entry) => ({
+        id: entry.id,
+        changedAt: entry.changedAt,
+        diff: entry.diff,
+        changedBy: entry.changedBy,
+        changedByName: entry.changedByName || entry.changedByEmail,
+      })),
+      nextCursor:
+        rows.length > query.limit && last
+          ? encodeHistoryCursor(last.cursorAt, last.id)
+          : null,
+    });
+  } catch (error) {
+    console.error("Error fetching buyer history:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import { buyers, buyerHistory } from "../../../../../lib/db/schema";
+import { reassignBuyerSchema } from "../../../../../lib/validations/buyer";
+import { isStaleUpdate } from "../../../../../lib/buyers/history";
+import { buyerInOrganization } from "../../../../../lib/buyers/query";
+import {
+  canAssignTo,
+  getBuyerPermissions,
+} from "../../../../../lib/auth/permissions";
+import { isOrganizationMember } from "../../../../../lib/organizations";
+import {
+  buyerEvents,
+  dispatchWebhookEvents,
+} from "../../../../../lib/webhooks";
+import { eq } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { ZodError } from "zod";
+
+// Hand a buyer to another user in the organization
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = reassignBuyerSchema.parse(body);
+
+    const [currentBuyer] = await db
+      .select()
+      .from(buyers)
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!currentBuyer) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    const permissions = await getBuyerPermissions(session.user, currentBuyer);
+    if (!permissions.canReassign) {
+      return NextResponse.json(
+        { error: "You don't have permission to reassign this lead" },
+        { status: 403 }
+      );
+    }
+
+    if (
+      !(await isOrganizationMember(
+        session.user.organizationId,
+        validatedData.ownerId
+      ))
+    ) {
+      return NextResponse.json(
+        { error: "New owner not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAssignTo(session.user, validatedData.ownerId))) {
+      return NextResponse.json(
+        { error: "You can only assign leads to members of your team" },
+        { status: 403 }
+      );
+    }
+
+    if (isStaleUpdate(currentBuyer, validatedData.updatedAt)) {
+      return NextResponse.json(
+        {
+          error:
+            "Record has been changed by someone else. Please refresh and try again.",
+          currentUpdatedAt: currentBuyer.updatedAt,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (currentBuyer.ownerId === validatedData.ownerId) {
+      return NextResponse.json(currentBuyer);
+    }
+
+    const updatedBuyer = await db.transaction(async (tx) => {
+      const [result] = await tx
+        .update(buyers)
+        .set({ ownerId: validatedData.ownerId, updatedAt: new Date() })
+        .where(eq(buyers.id, currentBuyer.id))
+        .returning();
+
+      await tx.insert(buyerHistory).values({
+        id: uuidv4(),
+        buyerId: currentBuyer.id,
+        changedBy: session.user.id,
+        organizationId: currentBuyer.organizationId,
+        diff: {
+          ownerId: { old: currentBuyer.ownerId, new: validatedData.ownerId },
+        },
+      });
+
+      return result;
+    });
+
+    await dispatchWebhookEvents(
+      currentBuyer.organizationId,
+      buyerEvents(currentBuyer, updatedBuyer)
+    );
+
+    return NextResponse.json(updatedBuyer);
+  } catch (error) {
+    console.error("Error reassigning buyer:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import { buyers, buyerHistory } from "../../../../../lib/db/schema";
+import {
+  revertBuyerSchema,
+  updateBuyerSchema,
+} from "../../../../../lib/validations/buyer";
+import {
+  buildBuyerDiff,
+  isStaleUpdate,
+} from "../../../../../lib/buyers/history";
+import {
+  getChangedFields,
+  loadBuyerAsOf,
+  toUpdateInput,
+} from "../../../../../lib/buyers/revert";
+import { buyerInOrganization } from "../../../../../lib/buyers/query";
+import { validateStageRequirements } from "../../../../../lib/pipeline";
+import {
+  buyerEvents,
+  dispatchWebhookEvents,
+} from "../../../../../lib/webhooks";
+import { getBuyerPermissions } from "../../../../../lib/auth/permissions";
+import {
+  checkRateLimit,
+  buyerMutationRateLimiter,
+} from "../../../../../lib/rate-limit";
+import { eq } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { ZodError } from "zod";
+
+/**
+ * Roll some or all fields back to how they were right after a history
+ * entry. This is an undo, so pipeline transition rules don't apply, but the
+ * restored record must still pass the normal edit validation.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await checkRateLimit(
+      request,
+      buyerMutationRateLimiter
+    );
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = revertBuyerSchema.parse(body);
+
+    const [currentBuyer] = await db
+      .select()
+      .from(buyers)
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!currentBuyer) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    const permissions = await getBuyerPermissions(session.user, currentBuyer);
+    if (!permissions.canEdit) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit this lead" },
+        { status: 403 }
+      );
+    }
+
+    if (isStaleUpdate(currentBuyer, validatedData.updatedAt)) {
+      return NextResponse.json(
+        {
+          error:
+            "Record has been changed by someone else. Please refresh and try again.",
+          currentUpdatedAt: currentBuyer.updatedAt,
+        },
+        { status: 409 }
+      );
+    }
+
+    const asOf = await loadBuyerAsOf(currentBuyer, validatedData.historyId);
+
+    if (!asOf) {
+      return NextResponse.json(
+        { error: "History entry not found" },
+        { status: 404 }
+      );
+    }
+
+    const fields = getChangedFields(currentBuyer, asOf.snapshot).filter(
+      (field) => !validatedData.fields || validatedData.fields.includes(field)
+    );
+
+    if (fields.length === 0) {
+      return NextResponse.json(currentBuyer);
+    }
+
+    const updates: Partial<typeof currentBuyer> = Object.fromEntries(
+      fields.map((field) => [field, asOf.snapshot[field]])
+    );
+    const restored = { ...currentBuyer, ...updates };
+
+    updateBuyerSchema.parse(toUpdateInput(restored));
+
+    const stageIssues = validateStageRequirements(restored);
+    if (stageIssues.length > 0) {
+      return NextResponse.json(
+        { error: "Validation failed", details: stageIssues },
+        { status: 400 }
+      );
+    }
+
+    const diff = buildBuyerDiff(currentBuyer, updates);
+    diff.reverted = { old: null, new: asOf.entry.changedAt };
+
+    const updatedBuyer = await db.transaction(async (tx) => {
+      const [result] = await tx
+        .update(buyers)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(buyers.id, currentBuyer.id))
+        .returning();
+
+      await tx.insert(buyerHistory).values({
+        id: uuidv4(),
+        buyerId: currentBuyer.id,
+        changedBy: session.user.id,
+        organizationId: currentBuyer.organizationId,
+        diff,
+      });
+
+      return result;
+    });
+
+    await dispatchWebhookEvents(
+      currentBuyer.organizationId,
+      buyerEvents(currentBuyer, updatedBuyer)
+    );
+
+    return NextResponse.json(updatedBuyer);
+  } catch (error) {
+    console.error("Error reverting buyer:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,16 @@ import { authOptions } from "../../../../lib/auth/config";
 import { db } from "../../../../lib/db";
 import { buyers, buyerHistory } from "../../../../lib/db/schema";
 import { updateBuyerSchema } from "../../../../lib/validations/buyer";
-import { eq, desc } from "drizzle-orm";
+import { buildBuyerDiff, isStaleUpdate } from "../../../../lib/buyers/history";
+import { validateStatusChange } from "../../../../lib/pipeline";
+import { getBuyerPermissions } from "../../../../lib/auth/permissions";
+import { buyerInOrganization } from "../../../../lib/buyers/query";
+import { moveToTrash } from "../../../../lib/buyers/trash";
+import {
+  buyerEvents,
+  dispatchWebhookEvents,
+} from "../../../../lib/webhooks";
+import { eq } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
 
 export async function GET(
@@ -21,33 +30,23 @@ export async function GET(
 
     const buyerId = params.id;
 
-    // Get buyer with history
     const [buyer] = await db
       .select()
       .from(buyers)
-      .where(eq(buyers.id, buyerId))
+      .where(buyerInOrganization(session.user.organizationId, buyerId))
       .limit(1);
 
     if (!buyer) {
       return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
     }
 
-    // Get buyer history (last 5 changes)
-    const history = await db
-      .select({
-        id: buyerHistory.id,
-        changedAt: buyerHistory.changedAt,
-        diff: buyerHistory.diff,
-        changedBy: buyerHistory.changedBy,
-      })
-      .from(buyerHistory)
-      .where(eq(buyerHistory.buyerId, buyerId))
-      .orderBy(desc(buyerHistory.changedAt))
-      .limit(5);
+    // History is paged separately via GET /api/buyers/[id]/history
+    // Lets the UI hide actions the user can't perform
+    const permissions = await getBuyerPermissions(session.user, buyer);
 
     return NextResponse.json({
       buyer,
-      history,
+      permissions,
     });
   } catch (error: any) {
     console.error("Error fetching buyer:", error);
@@ -80,71 +79,64 @@ export async function PUT(
     const [currentBuyer] = await db
       .select()
       .from(buyers)
-      .where(eq(buyers.id, buyerId))
+      .where(buyerInOrganization(session.user.organizationId, buyerId))
       .limit(1);
 
     if (!currentBuyer) {
       return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
     }
 
-    // Check ownership
-    if (currentBuyer.ownerId !== session.user.id) {
+    const permissions = await getBuyerPermissions(session.user, currentBuyer);
+    if (!permissions.canEdit) {
       return NextResponse.json(
-        { error: "You can only edit your own leads" },
+        { error: "You don't have permission to edit this lead" },
         { status: 403 }
       );
     }
 
     // Check for concurrency issues (if updatedAt is provided)
-    if (validatedData.updatedAt) {
-      const providedTime = new Date(validatedData.updatedAt).getTime();
-      const currentTime = new Date(currentBuyer.updatedAt).getTime();
-
-      if (providedTime !== currentTime) {
-        return NextResponse.json(
-          {
-            error:
-              "Record has been changed by someone else. Please refresh and try again.",
-            currentUpdatedAt: currentBuyer.updatedAt,
-          },
-          { status: 409 }
-        );
-      }
+    if (isStaleUpdate(currentBuyer, validatedData.updatedAt)) {
+      return NextResponse.json(
+        {
+          error:
+            "Record has been changed by someone else. Please refresh and try again.",
+          currentUpdatedAt: currentBuyer.updatedAt,
+        },
+        { status: 409 }
+      );
     }
 
-    // Create diff for history tracking
-    const diff: Record<string, { old: any; new: any }> = {};
-
-    Object.keys(validatedData).forEach((key) => {
-      if (key === "updatedAt") return; // Skip updatedAt from diff
-
-      const newValue = (validatedData as any)[key];
-      const oldValue = (currentBuyer as any)[key];
-
-      // Compare values (handle arrays separately)
-      const isChanged = Array.isArray(newValue)
-        ? JSON.stringify(newValue) !== JSON.stringify(oldValue)
-        : newValue !== oldValue;
-
-      if (isChanged) {
-        diff[key] = {
-          old: oldValue,
-          new: newValue,
-        };
-      }
-    });
-
     // Prepare update data
     const updateData = {
       ...validatedData,
       email: validatedData.email === "" ? null : validatedData.email,
       notes: validatedData.notes === "" ? null : validatedData.notes,
+      dropReason:
+        validatedData.dropReason === "" ? null : validatedData.dropReason,
       updatedAt: new Date(),
     };
 
     // Remove fields we don't want to update directly
     delete (updateData as any).updatedAt; // Will be set automatically
 
+    // Enforce the lead pipeline (allowed transitions and required fields)
+    const pipelineIssues = validateStatusChange(currentBuyer, {
+      ...currentBuyer,
+      ...Object.fromEntries(
+        Object.entries(updateData).filter(([, value]) => value !== undefined)
+      ),
+    });
+
+    if (pipelineIssues.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid status change", details: pipelineIssues },
+        { status: 400 }
+      );
+    }
+
+    // Create diff for history tracking
+    const diff = buildBuyerDiff(currentBuyer, updateData);
+
     // Update buyer
     const [updatedBuyer] = await db
       .update(buyers)
@@ -161,17 +153,23 @@ export async function PUT(
         id: uuidv4(),
         buyerId: buyerId,
         changedBy: session.user.id,
+        organizationId: currentBuyer.organizationId,
         diff: diff,
       });
     }
 
+    await dispatchWebhookEvents(
+      currentBuyer.organizationId,
+      buyerEvents(currentBuyer, updatedBuyer)
+    );
+
     return NextResponse.json(updatedBuyer);
   } catch (error: any) {
     console.error("Error updating buyer:", error);
 
     if (error.name === "ZodError") {
       return NextResponse.json(
-        { error: "Validation failed", details: error.errors },
+        { error: "Validation failed", details: error.issues },
         { status: 400 }
       );
     }
@@ -201,25 +199,30 @@ export async function DELETE(
     const [currentBuyer] = await db
       .select()
       .from(buyers)
-      .where(eq(buyers.id, buyerId))
+      .where(buyerInOrganization(session.user.organizationId, buyerId))
       .limit(1);
 
     if (!currentBuyer) {
       return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
     }
 
-    // Check ownership
-    if (currentBuyer.ownerId !== session.user.id) {
+    const permissions = await getBuyerPermissions(session.user, currentBuyer);
+    if (!permissions.canDelete) {
       return NextResponse.json(
-        { error: "You can only delete your own leads" },
+        { error: "You don't have permission to delete this lead" },
         { status: 403 }
       );
     }
 
-    // Delete buyer (history will be cascade deleted)
-    await db.delete(buyers).where(eq(buyers.id, buyerId));
+    // Soft delete; the buyer can be restored from the trash until it is
+    // purged
+    await moveToTrash(currentBuyer, session.user.id);
+
+    await dispatchWebhookEvents(currentBuyer.organizationId, [
+      { event: "buyer.deleted", buyer: currentBuyer },
+    ]);
 
-    return NextResponse.json({ message: "Buyer deleted successfully" });
+    return NextResponse.json({ message: "Buyer moved to trash" });
   } catch (error: any) {
     console.error("Error deleting buyer:", error);
     return NextResponse.json(
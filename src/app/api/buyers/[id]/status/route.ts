@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import { buyers, buyerHistory } from "../../../../../lib/db/schema";
+import { statusChangeSchema } from "../../../../../lib/validations/buyer";
+import {
+  buildBuyerDiff,
+  isStaleUpdate,
+} from "../../../../../lib/buyers/history";
+import { validateStatusChange } from "../../../../../lib/pipeline";
+import { getBuyerPermissions } from "../../../../../lib/auth/permissions";
+import { buyerInOrganization } from "../../../../../lib/buyers/query";
+import {
+  buyerEvents,
+  dispatchWebhookEvents,
+} from "../../../../../lib/webhooks";
+import { eq } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { ZodError } from "zod";
+
+// Status-only update used by the board view. Applies the same ownership,
+// optimistic-concurrency and pipeline checks as PUT /api/buyers/[id].
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = statusChangeSchema.parse(body);
+
+    const [currentBuyer] = await db
+      .select()
+      .from(buyers)
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!currentBuyer) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    const permissions = await getBuyerPermissions(session.user, currentBuyer);
+    if (!permissions.canEdit) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit this lead" },
+        { status: 403 }
+      );
+    }
+
+    if (isStaleUpdate(currentBuyer, validatedData.updatedAt)) {
+      return NextResponse.json(
+        {
+          error:
+            "Record has been changed by someone else. Please refresh and try again.",
+          currentUpdatedAt: currentBuyer.updatedAt,
+        },
+        { status: 409 }
+      );
+    }
+
+    const updateData = {
+      status: validatedData.status,
+      ...(validatedData.visitDate !== undefined && {
+        visitDate: validatedData.visitDate,
+      }),
+      ...(validatedData.dropReason !== undefined && {
+        dropReason: validatedData.dropReason || null,
+      }),
+    };
+
+    const pipelineIssues = validateStatusChange(currentBuyer, {
+      ...currentBuyer,
+      ...updateData,
+    });
+
+    if (pipelineIssues.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid status change", details: pipelineIssues },
+        { status: 400 }
+      );
+    }
+
+    const diff = buildBuyerDiff(currentBuyer, updateData);
+
+    if (Object.keys(diff).length === 0) {
+      return NextResponse.json(currentBuyer);
+    }
+
+    const [updatedBuyer] = await db
+      .update(buyers)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(buyers.id, currentBuyer.id))
+      .returning();
+
+    await db.insert(buyerHistory).values({
+      id: uuidv4(),
+      buyerId: currentBuyer.id,
+      changedBy: session.user.id,
+      organizationId: currentBuyer.organizationId,
+      diff,
+    });
+
+    await dispatchWebhookEvents(
+      currentBuyer.organizationId,
+      buyerEvents(currentBuyer, updatedBuyer)
+    );
+
+    return NextResponse.json(updatedBuyer);
+  } catch (error) {
+    console.error("Error changing buyer status:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../../lib/auth/config";
+import { db } from "../../../../../../lib/db";
+import { buyers, buyerTasks } from "../../../../../../lib/db/schema";
+import { updateTaskSchema } from "../../../../../../lib/validations/task";
+import { getBuyerPermissions } from "../../../../../../lib/auth/permissions";
+import { buyerInOrganization } from "../../../../../../lib/buyers/query";
+import { isOrganizationMember } from "../../../../../../lib/organizations";
+import { and, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+async function getTaskWithOwner(
+  organizationId: string,
+  buyerId: string,
+  taskId: string
+) {
+  const [result] = await db
+    .select({ task: buyerTasks, ownerId: buyers.ownerId })
+    .from(buyerTasks)
+    .innerJoin(buyers, eq(buyerTasks.buyerId, buyers.id))
+    .where(
+      and(
+        eq(buyerTasks.id, taskId),
+        buyerInOrganization(organizationId, buyerId)
+      )
+    )
+    .limit(1);
+
+  return result;
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateTaskSchema.parse(body);
+
+    const current = await getTaskWithOwner(
+      session.user.organizationId,
+      params.id,
+      params.taskId
+    );
+
+    if (!current) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // Assignees can always work their own tasks
+    if (current.task.assigneeId !== session.user.id) {
+      const permissions = await getBuyerPermissions(session.user, current);
+      if (!permissions.canEdit) {
+        return NextResponse.json(
+          { error: "You don't have permission to update tasks on this lead" },
+          { status: 403 }
+        );
+      }
+    }
+
+    if (
+      validatedData.assigneeId &&
+      !(await isOrganizationMember(
+        session.user.organizationId,
+        validatedData.assigneeId
+      ))
+    ) {
+      return NextResponse.json(
+        { error: "Assignee not found" },
+        { status: 404 }
+      );
+    }
+
+    const updateData: Partial<typeof buyerTasks.$inferInsert> = {
+      ...validatedData,
+      notes:
+        validatedData.notes === undefined
+          ? undefined
+          : validatedData.notes || null,
+      updatedAt: new Date(),
+    };
+
+    if (validatedData.done !== undefined) {
+      updateData.completedAt = validatedData.done
+        ? current.task.completedAt || new Date()
+        : null;
+    }
+
+    const [task] = await db
+      .update(buyerTasks)
+      .set(updateData)
+      .where(eq(buyerTasks.id, params.taskId))
+      .returning();
+
+    return NextResponse.json(task);
+  } catch (error) {
+    console.error("Error updating task:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const current = await getTaskWithOwner(
+      session.user.organizationId,
+      params.id,
+      params.taskId
+    );
+
+    if (!current) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (current.task.createdBy !== session.user.id) {
+      const permissions = await getBuyerPermissions(session.user, current);
+      if (!permissions.canEdit) {
+        return NextResponse.json(
+          { error: "You don't have permission to delete tasks on this lead" },
+          { status: 403 }
+        );
+      }
+    }
+
+    await db.delete(buyerTasks).where(eq(buyerTasks.id, params.taskId));
+
+    return NextResponse.json({ message: "Task deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting task:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
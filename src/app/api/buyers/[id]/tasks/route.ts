@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import { buyers, buyerTasks, users } from "../../../../../lib/db/schema";
+import { createTaskSchema } from "../../../../../lib/validations/task";
+import { getBuyerPermissions } from "../../../../../lib/auth/permissions";
+import { buyerInOrganization } from "../../../../../lib/buyers/query";
+import { isOrganizationMember } from "../../../../../lib/organizations";
+import { asc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Open tasks first, soonest due at the top
+    const tasks = await db
+      .select({
+        task: buyerTasks,
+        assigneeName: users.name,
+        assigneeEmail: users.email,
+      })
+      .from(buyerTasks)
+      .innerJoin(buyers, eq(buyerTasks.buyerId, buyers.id))
+      .leftJoin(users, eq(buyerTasks.assigneeId, users.id))
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .orderBy(asc(buyerTasks.done), asc(buyerTasks.dueAt));
+
+    return NextResponse.json({
+      tasks: tasks.map(({ task, assigneeName, assigneeEmail }) => ({
+        ...task,
+        assigneeName: assigneeName || assigneeEmail,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching tasks:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = createTaskSchema.parse(body);
+
+    const [buyer] = await db
+      .select({ id: buyers.id, ownerId: buyers.ownerId })
+      .from(buyers)
+      .where(buyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!buyer) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    const permissions = await getBuyerPermissions(session.user, buyer);
+    if (!permissions.canEdit) {
+      return NextResponse.json(
+        { error: "You don't have permission to add tasks to this lead" },
+        { status: 403 }
+      );
+    }
+
+    if (
+      validatedData.assigneeId &&
+      !(await isOrganizationMember(
+        session.user.organizationId,
+        validatedData.assigneeId
+      ))
+    ) {
+      return NextResponse.json(
+        { error: "Assignee not found" },
+        { status: 404 }
+      );
+    }
+
+    const [task] = await db
+      .insert(buyerTasks)
+      .values({
+        buyerId: buyer.id,
+        title: validatedData.title,
+        type: validatedData.type,
+        dueAt: validatedData.dueAt,
+        assigneeId: validatedData.assigneeId || session.user.id,
+        createdBy: session.user.id,
+        notes: validatedData.notes || null,
+      })
+      .returning();
+
+    return NextResponse.json(task, { status: 201 });
+  } catch (error) {
+    console.error("Error creating task:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
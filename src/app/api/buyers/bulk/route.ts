@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../lib/auth/config";
+import { db } from "../../../../lib/db";
+import { buyers, buyerHistory } from "../../../../lib/db/schema";
+import { bulkActionSchema } from "../../../../lib/validations/buyer";
+import { buildBuyerDiff } from "../../../../lib/buyers/history";
+import { moveToTrash } from "../../../../lib/buyers/trash";
+import {
+  buildBulkUpdate,
+  BulkActionResult,
+} from "../../../../lib/buyers/bulk";
+import {
+  canAssignTo,
+  loadOwners,
+  permissionsFor,
+} from "../../../../lib/auth/permissions";
+import { isOrganizationMember } from "../../../../lib/organizations";
+import {
+  buyerEvents,
+  dispatchWebhookEvents,
+  BuyerEvent,
+} from "../../../../lib/webhooks";
+import {
+  checkRateLimit,
+  buyerMutationRateLimiter,
+} from "../../../../lib/rate-limit";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { ZodError } from "zod";
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await checkRateLimit(
+      request,
+      buyerMutationRateLimiter
+    );
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = bulkActionSchema.parse(body);
+
+    if (input.action === "reassign") {
+      if (
+        !(await isOrganizationMember(
+          session.user.organizationId,
+          input.ownerId
+        ))
+      ) {
+        return NextResponse.json(
+          { error: "New owner not found" },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAssignTo(session.user, input.ownerId))) {
+        return NextResponse.json(
+          { error: "You can only assign leads to members of your team" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const ids = [...new Set(input.ids)];
+    const found = await db
+      .select()
+      .from(buyers)
+      .where(
+        and(
+          inArray(buyers.id, ids),
+          eq(buyers.organizationId, session.user.organizationId),
+          isNull(buyers.deletedAt)
+        )
+      );
+    const buyersById = new Map(found.map((buyer) => [buyer.id, buyer]));
+    const owners = await loadOwners(found.map((buyer) => buyer.ownerId));
+
+    const results: BulkActionResult[] = [];
+    // Sent once every row has been applied
+    const events: BuyerEvent[] = [];
+
+    // Rows are applied one at a time so a failure only affects that row
+    for (const id of ids) {
+      const buyer = buyersById.get(id);
+
+      if (!buyer) {
+        results.push({ id, success: false, error: "Buyer not found" });
+        continue;
+      }
+
+      const permissions = permissionsFor(
+        session.user,
+        owners.get(buyer.ownerId) || { id: buyer.ownerId, teamId: null }
+      );
+      const allowed =
+        input.action === "delete"
+          ? permissions.canDelete
+          : input.action === "reassign"
+            ? permissions.canReassign
+            : permissions.canEdit;
+
+      if (!allowed) {
+        results.push({
+          id,
+          success: false,
+          error: "You don't have permission to change this lead",
+        });
+        continue;
+      }
+
+      try {
+        if (input.action === "delete") {
+          // Moved to the trash, as in DELETE /api/buyers/[id]
+          await moveToTrash(buyer, session.user.id);
+          events.push({ event: "buyer.deleted", buyer });
+          results.push({ id, success: true });
+          continue;
+        }
+
+        const { updates, error } = buildBulkUpdate(buyer, input);
+        if (error !== undefined) {
+          results.push({ id, success: false, error });
+          continue;
+        }
+
+        const diff = buildBuyerDiff(buyer, updates);
+        if (Object.keys(diff).length === 0) {
+          results.push({ id, success: true });
+          continue;
+        }
+
+        const updatedBuyer = await db.transaction(async (tx) => {
+          const [updated] = await tx
+            .update(buyers)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(buyers.id, id))
+            .returning();
+
+          await tx.insert(buyerHistory).values({
+            id: uuidv4(),
+            buyerId: id,
+            changedBy: session.user.id,
+            organizationId: buyer.organizationId,
+            diff,
+          });
+
+          return updated;
+        });
+
+        events.push(...buyerEvents(buyer, updatedBuyer));
+        results.push({ id, success: true });
+      } catch (error) {
+        console.error(`Error applying bulk ${input.action} to ${id}:`, error);
+        results.push({ id, success: false, error: "Internal server error" });
+      }
+    }
+
+    await dispatchWebhookEvents(session.user.organizationId, events);
+
+    const succeeded = results.filter((result) => result.success).length;
+
+    return NextResponse.json({
+      action: input.action,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    });
+  } catch (error) {
+    console.error("Error applying bulk action:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,40 @@
+import { PassThrough, Readable } from "node:stream";
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "../../../../lib/auth/config";
-import { db } from "../../../../lib/db";
-import { buyers } from "../../../../lib/db/schema";
 import {
-  buyerFiltersSchema,
-  stringifyTags,
-} from "../../../../lib/validations/buyer";
-import { eq, and, or, ilike, desc, asc } from "drizzle-orm";
-import Papa from "papaparse";
-
+  parseBuyerFilters,
+  buildBuyerWhere,
+} from "../../../../lib/buyers/query";
+import {
+  iterateBuyers,
+  buyersToCsv,
+  buyersToJson,
+  writeBuyersXlsx,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  EXPORT_JSON_END,
+} from "../../../../lib/buyers/export";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  ExportLayout,
+} from "../../../../lib/buyers/export-columns";
+import {
+  getSavedView,
+  applySavedViewFilters,
+} from "../../../../lib/buyers/views";
+import { db } from "../../../../lib/db";
+import { exportTemplates } from "../../../../lib/db/schema";
+import { exportLayoutSchema } from "../../../../lib/validations/export";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+
+/**
+ * `format` picks csv (default), xlsx, json or ndjson. `template` starts from
+ * a saved export template; `columns` (comma-separated, in order) and
+ * `labels` (JSON of column -> header) override it. Without any of them the
+ * default columns are written with their own names as headers.
+ */
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -18,164 +43,149 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { searchParams } = new URL(request.url);
-
-    // Parse filters (same as in the main buyers API)
-    const search = searchParams.get("search") || undefined;
-    const city = searchParams.get("city") || undefined;
-    const propertyType = searchParams.get("propertyType") || undefined;
-    const status = searchParams.get("status") || undefined;
-    const timeline = searchParams.get("timeline") || undefined;
-    const sortBy = searchParams.get("sortBy") || "updatedAt";
-    const sortOrder = searchParams.get("sortOrder") || "desc";
-
-    const filters = buyerFiltersSchema.parse({
-      page: 1,
-      limit: 10000, // Large limit for export (we'll export all matching records)
-      search,
-      city,
-      propertyType,
-      status,
-      timeline,
-      sortBy,
-      sortOrder,
-    });
-
-    // Build where conditions (same logic as main buyers API)
-    const conditions = [];
+    let { searchParams } = new URL(request.url);
 
-    if (filters.search) {
-      conditions.push(
-        or(
-          ilike(buyers.fullName, `%${filters.search}%`),
-          ilike(buyers.phone, `%${filters.search}%`),
-          ilike(buyers.email, `%${filters.search}%`)
-        )
+    // `view` exports a saved view; other parameters refine it
+    const viewId = searchParams.get("view");
+    let viewName: string | undefined;
+    if (viewId) {
+      const view = await getSavedView(
+        session.user.organizationId,
+        session.user.id,
+        z.string().uuid().parse(viewId)
       );
-    }
 
-    if (filters.city) {
-      conditions.push(eq(buyers.city, filters.city));
-    }
+      if (!view) {
+        return NextResponse.json({ error: "View not found" }, { status: 404 });
+      }
 
-    if (filters.propertyType) {
-      conditions.push(eq(buyers.propertyType, filters.propertyType));
+      viewName = view.name;
+      searchParams = applySavedViewFilters(view.filters, searchParams);
     }
 
-    if (filters.status) {
-      conditions.push(eq(buyers.status, filters.status));
-    }
+    const format = z
+      .enum(EXPORT_FORMATS)
+      .default("csv")
+      .parse(searchParams.get("format") || undefined);
+
+    let layout: ExportLayout = { columns: DEFAULT_EXPORT_COLUMNS, labels: {} };
+    const templateId = searchParams.get("template");
+    if (templateId) {
+      const [template] = await db
+        .select()
+        .from(exportTemplates)
+        .where(
+          and(
+            eq(exportTemplates.id, z.string().uuid().parse(templateId)),
+            eq(exportTemplates.organizationId, session.user.organizationId)
+          )
+        )
+        .limit(1);
 
-    if (filters.timeline) {
-      conditions.push(eq(buyers.timeline, filters.timeline));
+      if (!template) {
+        return NextResponse.json(
+          { error: "Export template not found" },
+          { status: 404 }
+        );
+      }
+
+      layout = exportLayoutSchema.parse(template);
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-    // Build order by clause
-    let orderClause;
-    switch (filters.sortBy) {
-      case "fullName":
-        orderClause =
-          filters.sortOrder === "asc"
-            ? asc(buyers.fullName)
-            : desc(buyers.fullName);
-        break;
-      case "phone":
-        orderClause =
-          filters.sortOrder === "asc" ? asc(buyers.phone) : desc(buyers.phone);
-        break;
-      case "city":
-        orderClause =
-          filters.sortOrder === "asc" ? asc(buyers.city) : desc(buyers.city);
-        break;
-      case "propertyType":
-        orderClause =
-          filters.sortOrder === "asc"
-            ? asc(buyers.propertyType)
-            : desc(buyers.propertyType);
-        break;
-      case "status":
-        orderClause =
-          filters.sortOrder === "asc"
-            ? asc(buyers.status)
-            : desc(buyers.status);
-        break;
-      case "updatedAt":
-      default:
-        orderClause =
-          filters.sortOrder === "asc"
-            ? asc(buyers.updatedAt)
-            : desc(buyers.updatedAt);
-        break;
+    const columnsParam = searchParams.get("columns");
+    const labelsParam = searchParams.get("labels");
+    let labels: unknown = layout.labels;
+    if (labelsParam) {
+      try {
+        labels = JSON.parse(labelsParam);
+      } catch {
+        return NextResponse.json(
+          { error: "labels must be a JSON object" },
+          { status: 400 }
+        );
+      }
     }
+    layout = exportLayoutSchema.parse({
+      columns: columnsParam ? columnsParam.split(",") : layout.columns,
+      labels,
+    });
 
-    // Get all matching buyers
-    const buyersList = await db
-      .select()
-      .from(buyers)
-      .where(whereClause)
-      .orderBy(orderClause);
+    // Same filters as the main buyers API; paging is ignored so every match is exported
+    const filters = parseBuyerFilters(searchParams, {
+      cursor: undefined,
+      limit: 10,
+    });
+    const whereClause = buildBuyerWhere(session.user.organizationId, filters);
+
+    const chunks = iterateBuyers(whereClause, filters, layout.columns);
+    const firstChunk = await chunks.next();
 
-    if (buyersList.length === 0) {
+    if (firstChunk.done) {
       return NextResponse.json(
         { error: "No buyers found matching the current filters" },
         { status: 404 }
       );
     }
 
-    // Transform data for CSV export
-    const csvData = buyersList.map((buyer) => ({
-      fullName: buyer.fullName,
-      email: buyer.email || "",
-      phone: buyer.phone,
-      city: buyer.city,
-      propertyType: buyer.propertyType,
-      bhk: buyer.bhk || "",
-      purpose: buyer.purpose,
-      budgetMin: buyer.budgetMin || "",
-      budgetMax: buyer.budgetMax || "",
-      timeline: buyer.timeline,
-      source: buyer.source,
-      notes: buyer.notes || "",
-      tags: stringifyTags(buyer.tags || []),
-      status: buyer.status,
-      createdAt: buyer.createdAt.toISOString(),
-      updatedAt: buyer.updatedAt.toISOString(),
-    }));
-
-    // Generate CSV
-    const csv = Papa.unparse(csvData, {
-      header: true,
-      columns: [
-        "fullName",
-        "email",
-        "phone",
-        "city",
-        "propertyType",
-        "bhk",
-        "purpose",
-        "budgetMin",
-        "budgetMax",
-        "timeline",
-        "source",
-        "notes",
-        "tags",
-        "status",
-        "createdAt",
-        "updatedAt",
-      ],
-    });
+    let stream: ReadableStream<Uint8Array>;
+
+    if (format === "xlsx") {
+      // The workbook is written a sheet per status, each with its own query
+      await chunks.return(undefined);
+
+      const output = new PassThrough();
+      writeBuyersXlsx(whereClause, filters, layout, output).catch((error) => {
+        console.error("Error writing XLSX export:", error);
+        output.destroy(error);
+      });
+      stream = Readable.toWeb(output) as ReadableStream<Uint8Array>;
+    } else {
+      // Each pull writes one chunk, so a slow download slows the queries
+      // down instead of buffering the whole export in memory
+      const encoder = new TextEncoder();
+      let first = true;
+      stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const chunk = first ? firstChunk : await chunks.next();
+
+          if (chunk.done) {
+            if (format === "json") {
+              controller.enqueue(encoder.encode(EXPORT_JSON_END));
+            }
+            controller.close();
+            return;
+          }
+
+          controller.enqueue(
+            encoder.encode(
+              format === "csv"
+                ? buyersToCsv(chunk.value, layout, first)
+                : buyersToJson(chunk.value, layout, format, first)
+            )
+          );
+          first = false;
+        },
+        async cancel() {
+          await chunks.return(undefined);
+        },
+      });
+    }
 
     // Generate filename with timestamp
     const timestamp = new Date().toISOString().split("T")[0];
-    const filename = `buyers-export-${timestamp}.csv`;
+    const prefix = viewName
+      ? viewName
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "") || "buyers-export"
+      : "buyers-export";
+    const filename = `${prefix}-${timestamp}.${format}`;
 
     // Set response headers for file download
-    const response = new NextResponse(csv, {
+    const response = new NextResponse(stream, {
       status: 200,
       headers: {
-        "Content-Type": "text/csv",
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
         "Content-Disposition": `attachment; filename="${filename}"`,
         "Cache-Control": "no-cache",
       },
@@ -183,11 +193,11 @@ export async function GET(request: NextRequest) {
 
     return response;
   } catch (error: any) {
-    console.error("Error exporting CSV:", error);
+    console.error("Error exporting buyers:", error);
 
     if (error.name === "ZodError") {
       return NextResponse.json(
-        { error: "Invalid query parameters", details: error.errors },
+        { error: "Invalid query parameters", details: error.issues },
         { status: 400 }
       );
     }
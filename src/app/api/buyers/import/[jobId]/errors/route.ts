@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../../lib/auth/config";
+import { db } from "../../../../../../lib/db";
+import { importJobs } from "../../../../../../lib/db/schema";
+import {
+  canViewImportJob,
+  importJobInOrganization,
+} from "../../../../../../lib/imports";
+import Papa from "papaparse";
+
+// Every row error of an import job as a CSV, to fix up and re-import
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [job] = await db
+      .select()
+      .from(importJobs)
+      .where(importJobInOrganization(session.user.organizationId, params.jobId))
+      .limit(1);
+
+    if (!job || !canViewImportJob(session.user, job)) {
+      return NextResponse.json(
+        { error: "Import job not found" },
+        { status: 404 }
+      );
+    }
+
+    const csv = Papa.unparse(
+      job.errors.map((error) => ({
+        row: error.row,
+        field: error.field,
+        message: error.message,
+        value: String(error.value ?? ""),
+      })),
+      { header: true, columns: ["row", "field", "message", "value"] }
+    );
+
+    const baseName = job.fileName
+      .replace(/\.(csv|xlsx|json|ndjson|jsonl)$/i, "")
+      .replace(/[^\w.-]+/g, "-");
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${baseName}-errors.csv"`,
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting import errors:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import { importJobs } from "../../../../../lib/db/schema";
+import {
+  canViewImportJob,
+  importJobInOrganization,
+  isImportJobStalled,
+  runImportJob,
+  toImportJobResponse,
+} from "../../../../../lib/imports";
+
+// Polling a stalled job restarts its worker
+export const maxDuration = 60;
+
+// Progress of an import job
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [job] = await db
+      .select()
+      .from(importJobs)
+      .where(importJobInOrganization(session.user.organizationId, params.jobId))
+      .limit(1);
+
+    if (!job || !canViewImportJob(session.user, job)) {
+      return NextResponse.json(
+        { error: "Import job not found" },
+        { status: 404 }
+      );
+    }
+
+    // The worker that started this job was cut off (e.g. the function timed
+    // out); pick up from the last recorded batch
+    if (isImportJobStalled(job)) {
+      after(() => runImportJob(job.id));
+    }
+
+    return NextResponse.json(toImportJobResponse(job));
+  } catch (error) {
+    console.error("Error fetching import job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
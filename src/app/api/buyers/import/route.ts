@@ -1,30 +1,40 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "../../../../lib/auth/config";
 import { db } from "../../../../lib/db";
-import { buyers, buyerHistory } from "../../../../lib/db/schema";
+import { importJobs } from "../../../../lib/db/schema";
 import {
-  csvBuyerSchema,
-  parseCsvTags,
-} from "../../../../lib/validations/buyer";
-import Papa from "papaparse";
-import { v4 as uuidv4 } from "uuid";
-
-interface CsvValidationError {
-  row: number;
-  field: string;
-  message: string;
-  value: any;
-}
-
-interface CsvImportResult {
-  totalRows: number;
-  validRows: number;
-  errorRows: number;
-  errors: CsvValidationError[];
-  importedIds: string[];
-}
-
+  IMPORT_MAX_FILE_BYTES,
+  IMPORT_MAX_ROWS,
+  previewImport,
+  runImportJob,
+  toImportJobResponse,
+} from "../../../../lib/imports";
+import {
+  detectImportFormat,
+  readImportFile,
+  toImportCsv,
+} from "../../../../lib/imports/formats";
+import {
+  applyImportMapping,
+  IMPORT_HEADERS,
+  IMPORT_REQUIRED_FIELDS,
+} from "../../../../lib/imports/mapping";
+import {
+  importMappingSchema,
+  importOptionsSchema,
+} from "../../../../lib/validations/import";
+import { ZodError } from "zod";
+
+// Dry runs happen in the request, and the job's first run right after it
+export const maxDuration = 60;
+
+// Store the upload as an import job; rows are validated and inserted in the
+// background. Poll GET /api/buyers/import/[jobId] for progress. An optional
+// `mapping` field (JSON, source column -> buyer field) lets files use their
+// own headers. `mode=upsert` updates leads that match by phone or email
+// instead of creating new ones, and `dryRun=true` answers with what would be
+// created, updated or skipped without importing anything.
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -35,206 +45,148 @@ export async function POST(request: NextRequest) {
 
     const formData = await request.formData();
     const file = formData.get("file") as File;
+    const options = importOptionsSchema.parse({
+      mode: formData.get("mode") ?? undefined,
+      dryRun: formData.get("dryRun") ?? undefined,
+    });
 
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
     }
 
-    if (file.type !== "text/csv" && !file.name.endsWith(".csv")) {
+    const format = detectImportFormat(file.name);
+
+    if (!format) {
       return NextResponse.json(
-        { error: "Invalid file type. Please upload a CSV file." },
+        {
+          error:
+            "Invalid file type. Please upload a CSV, Excel (.xlsx), JSON or NDJSON file.",
+        },
         { status: 400 }
       );
     }
 
-    const fileContent = await file.text();
-
-    // Parse CSV
-    const parseResult = Papa.parse(fileContent, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => header.trim(),
-    });
-
-    if (parseResult.errors.length > 0) {
+    if (file.size > IMPORT_MAX_FILE_BYTES) {
       return NextResponse.json(
-        { error: "Invalid CSV format", details: parseResult.errors },
+        { error: "File is too large. Maximum size is 5 MB." },
         { status: 400 }
       );
     }
 
-    const rows = parseResult.data as any[];
-
-    if (rows.length === 0) {
-      return NextResponse.json({ error: "CSV file is empty" }, { status: 400 });
-    }
+    // Read up front so format and header problems are reported right away
+    const fileData = await file.arrayBuffer();
+    const table = await readImportFile(fileData, format);
 
-    if (rows.length > 200) {
+    if (table.errors.length > 0) {
       return NextResponse.json(
-        { error: "CSV file contains too many rows. Maximum 200 rows allowed." },
+        {
+          error: `Invalid ${format.toUpperCase()} file`,
+          details: table.errors.map((message) => ({ message })),
+        },
         { status: 400 }
       );
     }
 
-    // Expected headers
-    const expectedHeaders = [
-      "fullName",
-      "email",
-      "phone",
-      "city",
-      "propertyType",
-      "bhk",
-      "purpose",
-      "budgetMin",
-      "budgetMax",
-      "timeline",
-      "source",
-      "notes",
-      "tags",
-      "status",
-    ];
-
-    const csvHeaders = Object.keys(rows[0]);
-    const missingHeaders = expectedHeaders.filter(
-      (header) => !csvHeaders.includes(header)
-    );
+    const rows = table.rows;
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "File is empty" }, { status: 400 });
+    }
 
-    if (missingHeaders.length > 0) {
+    if (rows.length > IMPORT_MAX_ROWS) {
       return NextResponse.json(
         {
-          error: "Missing required CSV headers",
-          missingHeaders,
-          expectedHeaders,
+          error: `File contains too many rows. Maximum ${IMPORT_MAX_ROWS} rows allowed.`,
         },
         { status: 400 }
       );
     }
 
-    // Validate and prepare data
-    const validRows: any[] = [];
-    const errors: CsvValidationError[] = [];
-
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      const rowNumber = i + 2; // +2 because we skip header and array is 0-indexed
-
-      try {
-        // Transform and validate row data
-        const transformedRow = {
-          fullName: row.fullName?.trim() || "",
-          email: row.email?.trim() || "",
-          phone: row.phone?.toString().trim() || "",
-          city: row.city?.trim() || "",
-          propertyType: row.propertyType?.trim() || "",
-          bhk: row.bhk?.trim() || "",
-          purpose: row.purpose?.trim() || "",
-          budgetMin: row.budgetMin ? parseInt(row.budgetMin) : "",
-          budgetMax: row.budgetMax ? parseInt(row.budgetMax) : "",
-          timeline: row.timeline?.trim() || "",
-          source: row.source?.trim() || "",
-          notes: row.notes?.trim() || "",
-          tags: row.tags?.trim() || "",
-          status: row.status?.trim() || "New",
-        };
-
-        // Validate with Zod schema
-        const validatedData = csvBuyerSchema.parse(transformedRow);
-
-        // Parse tags
-        const parsedTags = parseCsvTags(validatedData.tags || "");
-
-        // Prepare for database insertion
-        const buyerData = {
-          id: uuidv4(),
-          fullName: validatedData.fullName,
-          email: validatedData.email || null,
-          phone: validatedData.phone,
-          city: validatedData.city,
-          propertyType: validatedData.propertyType,
-          bhk: validatedData.bhk || null,
-          purpose: validatedData.purpose,
-          budgetMin: validatedData.budgetMin || null,
-          budgetMax: validatedData.budgetMax || null,
-          timeline: validatedData.timeline,
-          source: validatedData.source,
-          status: validatedData.status,
-          notes: validatedData.notes || null,
-          tags: parsedTags,
-          ownerId: session.user.id,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
-        validRows.push(buyerData);
-      } catch (error: any) {
-        if (error.errors) {
-          // Zod validation errors
-          error.errors.forEach((err: any) => {
-            errors.push({
-              row: rowNumber,
-              field: err.path[0] || "unknown",
-              message: err.message,
-              value: row[err.path[0]] || "unknown",
-            });
-          });
-        } else {
-          errors.push({
-            row: rowNumber,
-            field: "general",
-            message: error.message || "Unknown error",
-            value: "",
-          });
-        }
-      }
-    }
+    const mappingField = formData.get("mapping");
+    const mapping =
+      typeof mappingField === "string" && mappingField !== ""
+        ? importMappingSchema.parse(JSON.parse(mappingField))
+        : null;
 
-    // Import valid rows in a transaction
-    const importedIds: string[] = [];
-
-    if (validRows.length > 0) {
-      try {
-        // Insert buyers
-        const insertedBuyers = await db
-          .insert(buyers)
-          .values(validRows)
-          .returning({ id: buyers.id });
-
-        // Create history entries for all imported buyers
-        const historyEntries = insertedBuyers.map((buyer) => ({
-          id: uuidv4(),
-          buyerId: buyer.id,
-          changedBy: session.user.id,
-          diff: {
-            imported: {
-              old: null,
-              new: "Lead imported from CSV",
-            },
-          },
-        }));
+    if (mapping) {
+      const missingColumns = Object.keys(mapping).filter(
+        (column) => !table.headers.includes(column)
+      );
 
-        await db.insert(buyerHistory).values(historyEntries);
+      if (missingColumns.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Mapped columns not found in file",
+            missingHeaders: missingColumns,
+          },
+          { status: 400 }
+        );
+      }
+    } else {
+      const missingHeaders = IMPORT_REQUIRED_FIELDS.filter(
+        (header) => !table.headers.includes(header)
+      );
 
-        importedIds.push(...insertedBuyers.map((b) => b.id));
-      } catch (dbError: any) {
-        console.error("Database error during import:", dbError);
+      if (missingHeaders.length > 0) {
         return NextResponse.json(
-          { error: "Database error during import", details: dbError.message },
-          { status: 500 }
+          {
+            error: "Missing required headers",
+            missingHeaders,
+            expectedHeaders: IMPORT_HEADERS,
+          },
+          { status: 400 }
         );
       }
     }
 
-    const result: CsvImportResult = {
-      totalRows: rows.length,
-      validRows: validRows.length,
-      errorRows: errors.length,
-      errors,
-      importedIds,
-    };
+    if (options.dryRun) {
+      const preview = await previewImport(
+        session.user.organizationId,
+        session.user,
+        options.mode,
+        rows.map((row) => applyImportMapping(row, mapping))
+      );
+
+      return NextResponse.json(preview);
+    }
 
-    return NextResponse.json(result, { status: 200 });
+    const [job] = await db
+      .insert(importJobs)
+      .values({
+        organizationId: session.user.organizationId,
+        createdBy: session.user.id,
+        fileName: file.name.slice(0, 255),
+        // Jobs always work from CSV, whatever the upload was
+        content:
+          format === "csv"
+            ? new TextDecoder().decode(fileData)
+            : toImportCsv(table),
+        mapping,
+        mode: options.mode,
+        totalRows: rows.length,
+      })
+      .returning();
+
+    after(() => runImportJob(job.id));
+
+    return NextResponse.json(toImportJobResponse(job), { status: 202 });
   } catch (error: any) {
-    console.error("Error importing CSV:", error);
+    console.error("Error importing buyers:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid column mapping" },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error", details: error.message },
       { status: 500 }
@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../lib/auth/config";
+import { db } from "../../../../lib/db";
+import {
+  buyers,
+  buyerHistory,
+  buyerTasks,
+  buyerActivities,
+} from "../../../../lib/db/schema";
+import {
+  mergeBuyersSchema,
+  updateBuyerSchema,
+  NOTES_MAX_LENGTH,
+} from "../../../../lib/validations/buyer";
+import { buildMergedBuyer } from "../../../../lib/buyers/merge";
+import { buildBuyerDiff, isStaleUpdate } from "../../../../lib/buyers/history";
+import {
+  checkRateLimit,
+  buyerMutationRateLimiter,
+} from "../../../../lib/rate-limit";
+import { getBuyerPermissions } from "../../../../lib/auth/permissions";
+import { validateStatusChange } from "../../../../lib/pipeline";
+import { buyerEvents, dispatchWebhookEvents } from "../../../../lib/webhooks";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { ZodError } from "zod";
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await checkRateLimit(
+      request,
+      buyerMutationRateLimiter
+    );
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = mergeBuyersSchema.parse(body);
+
+    const found = await db
+      .select()
+      .from(buyers)
+      .where(
+        and(
+          inArray(buyers.id, [input.primaryId, input.secondaryId]),
+          eq(buyers.organizationId, session.user.organizationId),
+          isNull(buyers.deletedAt)
+        )
+      );
+
+    const primary = found.find((buyer) => buyer.id === input.primaryId);
+    const secondary = found.find((buyer) => buyer.id === input.secondaryId);
+
+    if (!primary || !secondary) {
+      return NextResponse.json({ error: "Buyer not found" }, { status: 404 });
+    }
+
+    // Merging deletes the secondary lead, so the caller must manage both
+    const [primaryPermissions, secondaryPermissions] = await Promise.all([
+      getBuyerPermissions(session.user, primary),
+      getBuyerPermissions(session.user, secondary),
+    ]);
+
+    if (!primaryPermissions.canEdit || !secondaryPermissions.canDelete) {
+      return NextResponse.json(
+        { error: "You don't have permission to merge these leads" },
+        { status: 403 }
+      );
+    }
+
+    if (
+      isStaleUpdate(primary, input.primaryUpdatedAt) ||
+      isStaleUpdate(secondary, input.secondaryUpdatedAt)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "One of the leads has been changed by someone else. Please refresh and try again.",
+        },
+        { status: 409 }
+      );
+    }
+
+    const merged = buildMergedBuyer(
+      primary,
+      secondary,
+      input.picks,
+      input.notes
+    );
+
+    // Both leads' notes together can outgrow the limit; the caller has to
+    // send shortened ones rather than get a bare validation error
+    if (
+      input.notes === undefined &&
+      (merged.notes?.length ?? 0) > NOTES_MAX_LENGTH
+    ) {
+      return NextResponse.json(
+        {
+          error: "Combined notes are too long",
+          details: [
+            {
+              path: ["notes"],
+              message: `The two leads' notes come to ${merged.notes?.length} characters, over the ${NOTES_MAX_LENGTH} limit. Shorten them and send them as "notes" to merge.`,
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    // The merged record has to be a valid buyer in its own right
+    const validatedData = updateBuyerSchema.parse({
+      ...merged,
+      email: merged.email ?? "",
+      bhk: merged.bhk ?? undefined,
+      budgetMin: merged.budgetMin ?? undefined,
+      budgetMax: merged.budgetMax ?? undefined,
+      notes: merged.notes ?? "",
+    });
+
+    const updateData = {
+      ...validatedData,
+      email: validatedData.email === "" ? null : validatedData.email,
+      notes: validatedData.notes === "" ? null : validatedData.notes,
+      bhk: validatedData.bhk ?? null,
+      budgetMin: validatedData.budgetMin ?? null,
+      budgetMax: validatedData.budgetMax ?? null,
+      status: validatedData.status ?? primary.status,
+    };
+    delete (updateData as { updatedAt?: Date }).updatedAt;
+
+    // Taking the secondary's status moves the primary along the pipeline,
+    // with the same rules as editing it
+    const pipelineIssues = validateStatusChange(primary, {
+      ...primary,
+      ...updateData,
+    });
+
+    if (pipelineIssues.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid status change", details: pipelineIssues },
+        { status: 400 }
+      );
+    }
+
+    // Field-level diff against the primary; what was folded in is added once
+    // the secondary's history has moved
+    const diff = buildBuyerDiff(primary, updateData);
+
+    const updatedBuyer = await db.transaction(async (tx) => {
+      const [result] = await tx
+        .update(buyers)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(buyers.id, primary.id))
+        .returning();
+
+      // Keep the secondary's history, tasks and activities by re-pointing
+      // them at the primary. The moved entries are listed on the merge entry
+      // so reverting the primary doesn't replay the secondary's edits.
+      const movedHistory = await tx
+        .update(buyerHistory)
+        .set({ buyerId: primary.id })
+        .where(eq(buyerHistory.buyerId, secondary.id))
+        .returning({ id: buyerHistory.id });
+
+      diff.merged = {
+        old: {
+          id: secondary.id,
+          fullName: secondary.fullName,
+          phone: secondary.phone,
+          email: secondary.email,
+          historyIds: movedHistory.map(({ id }) => id),
+        },
+        new: primary.id,
+      };
+
+      await tx
+        .update(buyerTasks)
+        .set({ buyerId: primary.id })
+        .where(eq(buyerTasks.buyerId, secondary.id));
+
+      await tx
+        .update(buyerActivities)
+        .set({ buyerId: primary.id })
+        .where(eq(buyerActivities.buyerId, secondary.id));
+
+      await tx.delete(buyers).where(eq(buyers.id, secondary.id));
+
+      await tx.insert(buyerHistory).values({
+        id: uuidv4(),
+        buyerId: primary.id,
+        changedBy: session.user.id,
+        organizationId: primary.organizationId,
+        diff,
+      });
+
+      return result;
+    });
+
+    // The secondary is gone for good, so receivers see it deleted
+    await dispatchWebhookEvents(primary.organizationId, [
+      ...buyerEvents(primary, updatedBuyer),
+      { event: "buyer.deleted", buyer: secondary },
+    ]);
+
+    return NextResponse.json(updatedBuyer);
+  } catch (error) {
+    console.error("Error merging buyers:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,14 +2,33 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "../../../lib/auth/config";
 import { db, authDb } from "../../../lib/db";
-import { buyers, buyerHistory, users, sessions } from "../../../lib/db/schema";
-import { CustomDrizzleAdapter } from "../../../lib/auth/custom-adapter";
 import {
-  createBuyerSchema,
-  buyerFiltersSchema,
-} from "../../../lib/validations/buyer";
-import { eq, and, or, ilike, desc, asc, sql, count } from "drizzle-orm";
+  buyers,
+  buyerHistory,
+  users,
+  sessions,
+  User,
+} from "../../../lib/db/schema";
+import { CustomDrizzleAdapter } from "../../../lib/auth/custom-adapter";
+import { createBuyerSchema } from "../../../lib/validations/buyer";
+import { and, eq, sql, count, getTableColumns } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
+import { findDuplicateBuyers } from "../../../lib/buyers/duplicates";
+import { assignOwners } from "../../../lib/assignment";
+import { buyerEvents, dispatchWebhookEvents } from "../../../lib/webhooks";
+import {
+  parseBuyerFilters,
+  buildBuyerWhere,
+  buildBuyerOrder,
+  buildBuyerSortKeys,
+  buildCursorCondition,
+  decodeBuyerCursor,
+  encodeBuyerCursor,
+  selectBuyerSortKey,
+  buyerLastContactedAt,
+} from "../../../lib/buyers/query";
+import { buildSearchSnippet } from "../../../lib/buyers/search";
+import { canManageOwner } from "../../../lib/auth/permissions";
 import {
   checkRateLimit,
   buyerMutationRateLimiter,
@@ -74,13 +93,20 @@ async function getCustomSession(request: NextRequest) {
 
     console.log("✅ Custom session validation successful:", sessionAndUser.user.email);
     
+    // The adapter returns the full user row plus the user's organization
+    const dbUser = sessionAndUser.user as typeof sessionAndUser.user &
+      Partial<User> & { organizationId: string };
+
     // Return in NextAuth format
     return {
       user: {
-        id: sessionAndUser.user.id,
-        name: sessionAndUser.user.name,
-        email: sessionAndUser.user.email,
-        image: sessionAndUser.user.image,
+        id: dbUser.id,
+        name: dbUser.name,
+        email: dbUser.email,
+        image: dbUser.image,
+        organizationId: dbUser.organizationId,
+        role: dbUser.role ?? "agent",
+        teamId: dbUser.teamId ?? null,
       },
       expires: sessionAndUser.session.expires.toISOString(),
     };
@@ -302,12 +328,38 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = createBuyerSchema.parse(body);
 
+    // Warn about likely duplicates unless the user has already confirmed
+    if (body.confirmDuplicate !== true) {
+      const [duplicates] = await findDuplicateBuyers(
+        session.user.organizationId,
+        [validatedData]
+      );
+
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          {
+            error: "A similar lead already exists",
+            duplicates,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Assignment rules may hand the lead to someone else; otherwise the
+    // creator owns it
+    const [assignedOwnerId] = await assignOwners(
+      session.user.organizationId,
+      [validatedData]
+    );
+
     // Transform empty strings to undefined for optional fields
     const buyerData = {
       ...validatedData,
       email: validatedData.email === "" ? null : validatedData.email,
       notes: validatedData.notes === "" ? null : validatedData.notes,
-      ownerId: actualUserId, // Use the resolved actual user ID
+      ownerId: assignedOwnerId || actualUserId, // Use the resolved actual user ID
+      organizationId: session.user.organizationId,
     };
     const [newBuyer] = await db.insert(buyers).values(buyerData).returning();
 
@@ -316,14 +368,23 @@ export async function POST(request: NextRequest) {
       id: uuidv4(),
       buyerId: newBuyer.id,
       changedBy: actualUserId, // Use the resolved actual user ID
+      organizationId: newBuyer.organizationId,
       diff: {
         created: {
           old: null,
           new: "Lead created",
         },
+        ...(newBuyer.ownerId !== actualUserId && {
+          ownerId: { old: actualUserId, new: newBuyer.ownerId },
+        }),
       },
     });
 
+    await dispatchWebhookEvents(
+      session.user.organizationId,
+      buyerEvents(null, newBuyer)
+    );
+
     return NextResponse.json(newBuyer, { status: 201 });
   } catch (error: any) {
     console.error("Error creating buyer:", error);
@@ -363,126 +424,84 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "10");
-    const search = searchParams.get("search") || undefined;
-    const city = searchParams.get("city") || undefined;
-    const propertyType = searchParams.get("propertyType") || undefined;
-    const status = searchParams.get("status") || undefined;
-    const timeline = searchParams.get("timeline") || undefined;
-    const sortBy = searchParams.get("sortBy") || "updatedAt";
-    const sortOrder = searchParams.get("sortOrder") || "desc";
-
-    const filters = buyerFiltersSchema.parse({
-      page,
-      limit,
-      search,
-      city,
-      propertyType,
-      status,
-      timeline,
-      sortBy,
-      sortOrder,
-    });
-
-    const offset = (filters.page - 1) * filters.limit;
+    const filters = parseBuyerFilters(searchParams);
 
-    // Build where conditions
-    const conditions = [];
-
-    if (filters.search) {
-      conditions.push(
-        or(
-          ilike(buyers.fullName, `%${filters.search}%`),
-          ilike(buyers.phone, `%${filters.search}%`),
-          ilike(buyers.email, `%${filters.search}%`)
-        )
-      );
+    const cursor = filters.cursor
+      ? decodeBuyerCursor(filters, filters.cursor)
+      : null;
+    if (filters.cursor && !cursor) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
     }
 
-    if (filters.city) {
-      conditions.push(eq(buyers.city, filters.city));
-    }
+    const whereClause = buildBuyerWhere(session.user.organizationId, filters);
+    const sortKeys = buildBuyerSortKeys(filters);
+    // Paging back walks the order in reverse from the cursor, then flips the
+    // rows into list order
+    const backwards = cursor?.direction === "before";
 
-    if (filters.propertyType) {
-      conditions.push(eq(buyers.propertyType, filters.propertyType));
-    }
-
-    if (filters.status) {
-      conditions.push(eq(buyers.status, filters.status));
-    }
-
-    if (filters.timeline) {
-      conditions.push(eq(buyers.timeline, filters.timeline));
-    }
-
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-    // Build order by clause
-    let orderClause;
-    switch (filters.sortBy) {
-      case "fullName":
-        orderClause =
-          filters.sortOrder === "asc"
-            ? asc(buyers.fullName)
-            : desc(buyers.fullName);
-        break;
-      case "phone":
-        orderClause =
-          filters.sortOrder === "asc" ? asc(buyers.phone) : desc(buyers.phone);
-        break;
-      case "city":
-        orderClause =
-          filters.sortOrder === "asc" ? asc(buyers.city) : desc(buyers.city);
-        break;
-      case "propertyType":
-        orderClause =
-          filters.sortOrder === "asc"
-            ? asc(buyers.propertyType)
-            : desc(buyers.propertyType);
-        break;
-      case "status":
-        orderClause =
-          filters.sortOrder === "asc"
-            ? asc(buyers.status)
-            : desc(buyers.status);
-        break;
-      case "updatedAt":
-      default:
-        orderClause =
-          filters.sortOrder === "asc"
-            ? asc(buyers.updatedAt)
-            : desc(buyers.updatedAt);
-        break;
-    }
-
-    // Get buyers with pagination
-    const [buyersList, totalCount] = await Promise.all([
-      db
-        .select()
-        .from(buyers)
-        .where(whereClause)
-        .orderBy(orderClause)
-        .limit(filters.limit)
-        .offset(offset),
+    // Keyset paging: one extra row tells us whether there is another page
+    const [rows, totalCount] = await Promise.all([
       db
-        .select({ count: sql`count(*)` })
+        .select({
+          ...getTableColumns(buyers),
+          searchSnippet: buildSearchSnippet(filters.search),
+          lastContactedAt: buyerLastContactedAt,
+          ownerTeamId: users.teamId,
+          sortKey: selectBuyerSortKey(sortKeys),
+        })
         .from(buyers)
-        .where(whereClause)
-        .then((result) => parseInt(result[0].count as string)),
+        .leftJoin(users, eq(buyers.ownerId, users.id))
+        .where(
+          cursor
+            ? and(whereClause, buildCursorCondition(sortKeys, cursor))
+            : whereClause
+        )
+        .orderBy(...buildBuyerOrder(sortKeys, backwards))
+        .limit(filters.limit + 1),
+      // Counting every match is the expensive part on big books, so only the
+      // first page pays for it
+      cursor
+        ? undefined
+        : db
+            .select({ count: sql`count(*)` })
+            .from(buyers)
+            .where(whereClause)
+            .then((result) => parseInt(result[0].count as string)),
     ]);
 
-    const totalPages = Math.ceil(totalCount / filters.limit);
+    const hasMore = rows.length > filters.limit;
+    const page = rows.slice(0, filters.limit);
+    if (backwards) page.reverse();
+
+    const hasNextPage = backwards || hasMore;
+    const hasPrevPage = backwards ? hasMore : !!cursor;
+    const first = page[0];
+    const last = page[page.length - 1];
 
     return NextResponse.json({
-      buyers: buyersList,
+      buyers: page.map(({ ownerTeamId, ...buyer }) => ({
+        ...buyer,
+        // Clients page with the cursors below, never the raw sort key
+        sortKey: undefined,
+        canEdit: canManageOwner(session.user, {
+          id: buyer.ownerId,
+          teamId: ownerTeamId,
+        }),
+      })),
       pagination: {
-        page: filters.page,
         limit: filters.limit,
+        // Only on the first page
         totalCount,
-        totalPages,
-        hasNextPage: filters.page < totalPages,
-        hasPrevPage: filters.page > 1,
+        hasNextPage,
+        hasPrevPage,
+        nextCursor:
+          hasNextPage && last
+            ? encodeBuyerCursor(filters, last.sortKey, "after")
+            : null,
+        prevCursor:
+          hasPrevPage && first
+            ? encodeBuyerCursor(filters, first.sortKey, "before")
+            : null,
       },
     });
   } catch (error: any) {
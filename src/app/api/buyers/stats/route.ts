@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../lib/auth/config";
+import { buyerStatsQuerySchema } from "../../../../lib/validations/buyer";
+import {
+  parseBuyerFilters,
+  buildBuyerWhere,
+} from "../../../../lib/buyers/query";
+import { getBuyerStats } from "../../../../lib/buyers/stats";
+import { ZodError } from "zod";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const filters = parseBuyerFilters(searchParams, {
+      cursor: undefined,
+      limit: 10,
+    });
+    const { weeks } = buyerStatsQuerySchema.parse({
+      weeks: searchParams.get("weeks") || undefined,
+    });
+
+    const stats = await getBuyerStats(
+      buildBuyerWhere(session.user.organizationId, filters),
+      weeks
+    );
+
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error("Error fetching buyer stats:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../../lib/auth/config";
+import { db } from "../../../../../lib/db";
+import { buyers } from "../../../../../lib/db/schema";
+import { deletedBuyerInOrganization } from "../../../../../lib/buyers/query";
+import { restoreFromTrash } from "../../../../../lib/buyers/trash";
+import { getBuyerPermissions } from "../../../../../lib/auth/permissions";
+
+// Restore a buyer from the trash
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [buyer] = await db
+      .select()
+      .from(buyers)
+      .where(deletedBuyerInOrganization(session.user.organizationId, params.id))
+      .limit(1);
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: "Buyer not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    const permissions = await getBuyerPermissions(session.user, buyer);
+    if (!permissions.canDelete) {
+      return NextResponse.json(
+        { error: "You don't have permission to restore this lead" },
+        { status: 403 }
+      );
+    }
+
+    const restored = await restoreFromTrash(buyer, session.user.id);
+
+    return NextResponse.json(restored);
+  } catch (error) {
+    console.error("Error restoring buyer:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Permanently delete a buyer that is already in the trash
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can permanently delete leads" },
+        { status: 403 }
+      );
+    }
+
+    // History, tasks and activities are cascade deleted with the buyer
+    const [purged] = await db
+      .delete(buyers)
+      .where(deletedBuyerInOrganization(session.user.organizationId, params.id))
+      .returning({ id: buyers.id });
+
+    if (!purged) {
+      return NextResponse.json(
+        { error: "Buyer not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Buyer permanently deleted" });
+  } catch (error) {
+    console.error("Error purging buyer:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../../../lib/auth/config";
+import { db } from "../../../../lib/db";
+import { buyers, users } from "../../../../lib/db/schema";
+import { trashQuerySchema } from "../../../../lib/validations/buyer";
+import {
+  getPurgeDate,
+  TRASH_RETENTION_DAYS,
+} from "../../../../lib/buyers/trash";
+import { loadOwners, permissionsFor } from "../../../../lib/auth/permissions";
+import { and, count, desc, eq, isNotNull } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Deleted buyers in the caller's organization, most recently deleted first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = trashQuerySchema.parse({
+      page: searchParams.get("page") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+
+    const whereClause = and(
+      eq(buyers.organizationId, session.user.organizationId),
+      isNotNull(buyers.deletedAt)
+    );
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: buyers.id,
+          fullName: buyers.fullName,
+          phone: buyers.phone,
+          email: buyers.email,
+          city: buyers.city,
+          status: buyers.status,
+          ownerId: buyers.ownerId,
+          deletedAt: buyers.deletedAt,
+          deletedByName: users.name,
+          deletedByEmail: users.email,
+        })
+        .from(buyers)
+        .leftJoin(users, eq(buyers.deletedBy, users.id))
+        .where(whereClause)
+        .orderBy(desc(buyers.deletedAt))
+        .limit(query.limit)
+        .offset((query.page - 1) * query.limit),
+      db.select({ total: count() }).from(buyers).where(whereClause),
+    ]);
+
+    const owners = await loadOwners(rows.map((row) => row.ownerId));
+    const totalPages = Math.ceil(total / query.limit);
+
+    return NextResponse.json({
+      buyers: rows.map(({ deletedByName, deletedByEmail, ...row }) => ({
+        ...row,
+        deletedByName: deletedByName || deletedByEmail,
+        purgeAt: row.deletedAt ? getPurgeDate(row.deletedAt) : null,
+        canRestore: permissionsFor(
+          session.user,
+          owners.get(row.ownerId) || { id: row.ownerId, teamId: null }
+        ).canDelete,
+      })),
+      retentionDays: TRASH_RETENTION_DAYS,
+      // Purging can't be undone, so it is kept to admins
+      canPurge: session.user.role === "admin",
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        totalCount: total,
+        totalPages,
+        hasNextPage: query.page < totalPages,
+        hasPrevPage: query.page > 1,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  purgeExpiredBuyers,
+  TRASH_RETENTION_DAYS,
+} from "@/lib/buyers/trash";
+
+/**
+ * Scheduled purge of buyers that have been in the trash longer than
+ * TRASH_RETENTION_DAYS. Vercel Cron calls this daily (see vercel.json) and
+ * sends CRON_SECRET as a bearer token; any other scheduler can do the same.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (
+    !secret ||
+    request.headers.get("authorization") !== `Bearer ${secret}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeExpiredBuyers();
+
+    return NextResponse.json({
+      purged,
+      retentionDays: TRASH_RETENTION_DAYS,
+    });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processWebhookQueue } from "@/lib/webhooks";
+
+export const maxDuration = 60;
+
+// Stop taking new batches after this long, leaving time to finish the last
+const RUN_BUDGET_MS = 45 * 1000;
+
+/**
+ * Scheduled webhook delivery: sends whatever is due, including retries,
+ * batch after batch until the queue is empty or the run's time is up.
+ * Vercel Cron calls this every 5 minutes (see vercel.json) with CRON_SECRET
+ * as a bearer token; any other scheduler can do the same.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (
+    !secret ||
+    request.headers.get("authorization") !== `Bearer ${secret}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const startedAt = Date.now();
+    const totals = { delivered: 0, retrying: 0, failed: 0 };
+
+    while (Date.now() - startedAt < RUN_BUDGET_MS) {
+      const batch = await processWebhookQueue();
+      totals.delivered += batch.delivered;
+      totals.retrying += batch.retrying;
+      totals.failed += batch.failed;
+
+      if (batch.delivered + batch.retrying + batch.failed === 0) break;
+    }
+
+    return NextResponse.json(totals);
+  } catch (error) {
+    console.error("Error delivering webhooks:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
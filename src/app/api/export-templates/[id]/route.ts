@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { exportTemplates } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+
+// Whoever saved a template, or an admin, can delete it
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [template] = await db
+      .select()
+      .from(exportTemplates)
+      .where(
+        and(
+          eq(exportTemplates.id, params.id),
+          eq(exportTemplates.organizationId, session.user.organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      template.createdBy !== session.user.id &&
+      session.user.role !== "admin"
+    ) {
+      return NextResponse.json(
+        { error: "Only whoever saved a template can delete it" },
+        { status: 403 }
+      );
+    }
+
+    await db.delete(exportTemplates).where(eq(exportTemplates.id, template.id));
+
+    return NextResponse.json({ message: "Template deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting export template:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
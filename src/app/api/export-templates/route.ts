@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { exportTemplates } from "@/lib/db/schema";
+import { exportTemplateSchema } from "@/lib/validations/export";
+import { asc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Export layouts saved by anyone in the organization
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const templates = await db
+      .select()
+      .from(exportTemplates)
+      .where(eq(exportTemplates.organizationId, session.user.organizationId))
+      .orderBy(asc(exportTemplates.name));
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Error fetching export templates:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Saving under an existing name replaces that template's layout
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = exportTemplateSchema.parse(body);
+
+    const [template] = await db
+      .insert(exportTemplates)
+      .values({
+        ...validatedData,
+        organizationId: session.user.organizationId,
+        createdBy: session.user.id,
+      })
+      .onConflictDoUpdate({
+        target: [exportTemplates.organizationId, exportTemplates.name],
+        set: {
+          columns: validatedData.columns,
+          labels: validatedData.labels,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error("Error saving export template:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { importTemplates } from "@/lib/db/schema";
+import { importTemplateSchema } from "@/lib/validations/import";
+import { asc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Column mappings saved by anyone in the organization
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const templates = await db
+      .select()
+      .from(importTemplates)
+      .where(eq(importTemplates.organizationId, session.user.organizationId))
+      .orderBy(asc(importTemplates.name));
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Error fetching import templates:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Saving under an existing name replaces that template's mapping
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = importTemplateSchema.parse(body);
+
+    const [template] = await db
+      .insert(importTemplates)
+      .values({
+        ...validatedData,
+        organizationId: session.user.organizationId,
+        createdBy: session.user.id,
+      })
+      .onConflictDoUpdate({
+        target: [importTemplates.organizationId, importTemplates.name],
+        set: { mapping: validatedData.mapping, updatedAt: new Date() },
+      })
+      .returning();
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error("Error saving import template:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findPendingInvite } from "@/lib/organizations";
+
+// Public lookup used by the signup page to show who the invite is from
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const params = await context.params;
+    const invite = await findPendingInvite(params.token);
+
+    if (!invite) {
+      return NextResponse.json(
+        { error: "This invite is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      email: invite.email,
+      role: invite.role,
+      organizationName: invite.organizationName,
+    });
+  } catch (error) {
+    console.error("Error fetching invite:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { leadForms } from "@/lib/db/schema";
+import { updateLeadFormSchema } from "@/lib/validations/lead-form";
+import { areOrganizationMembers } from "@/lib/organizations";
+import { toLeadFormResponse } from "@/lib/lead-forms";
+import { and, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+function formInOrganization(organizationId: string, formId: string) {
+  return and(
+    eq(leadForms.id, formId),
+    eq(leadForms.organizationId, organizationId)
+  );
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage lead forms" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateLeadFormSchema.parse(body);
+
+    if (
+      validatedData.defaultOwnerId &&
+      !(await areOrganizationMembers(session.user.organizationId, [
+        validatedData.defaultOwnerId,
+      ]))
+    ) {
+      return NextResponse.json({ error: "Owner not found" }, { status: 404 });
+    }
+
+    const [form] = await db
+      .update(leadForms)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(formInOrganization(session.user.organizationId, params.id))
+      .returning();
+
+    if (!form) {
+      return NextResponse.json({ error: "Form not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toLeadFormResponse(form));
+  } catch (error) {
+    console.error("Error updating lead form:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Websites still embedding the form get a 404 afterwards; pausing it keeps
+// the key
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage lead forms" },
+        { status: 403 }
+      );
+    }
+
+    const [form] = await db
+      .delete(leadForms)
+      .where(formInOrganization(session.user.organizationId, params.id))
+      .returning({ id: leadForms.id });
+
+    if (!form) {
+      return NextResponse.json({ error: "Form not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Form deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting lead form:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
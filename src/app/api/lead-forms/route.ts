@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { leadForms } from "@/lib/db/schema";
+import { leadFormSchema } from "@/lib/validations/lead-form";
+import { areOrganizationMembers } from "@/lib/organizations";
+import { generateLeadFormKey, toLeadFormResponse } from "@/lib/lead-forms";
+import { asc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage lead forms" },
+        { status: 403 }
+      );
+    }
+
+    const forms = await db
+      .select()
+      .from(leadForms)
+      .where(eq(leadForms.organizationId, session.user.organizationId))
+      .orderBy(asc(leadForms.name));
+
+    return NextResponse.json({ forms: forms.map(toLeadFormResponse) });
+  } catch (error) {
+    console.error("Error fetching lead forms:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage lead forms" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = leadFormSchema.parse(body);
+
+    if (
+      !(await areOrganizationMembers(session.user.organizationId, [
+        validatedData.defaultOwnerId,
+      ]))
+    ) {
+      return NextResponse.json({ error: "Owner not found" }, { status: 404 });
+    }
+
+    const [form] = await db
+      .insert(leadForms)
+      .values({
+        ...validatedData,
+        key: generateLeadFormKey(),
+        organizationId: session.user.organizationId,
+      })
+      .returning();
+
+    return NextResponse.json(toLeadFormResponse(form), { status: 201 });
+  } catch (error) {
+    console.error("Error creating lead form:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
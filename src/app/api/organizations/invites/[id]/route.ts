@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { organizationInvites } from "@/lib/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+
+// Revoke a pending invite
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage invites" },
+        { status: 403 }
+      );
+    }
+
+    const [invite] = await db
+      .delete(organizationInvites)
+      .where(
+        and(
+          eq(organizationInvites.id, params.id),
+          eq(organizationInvites.organizationId, session.user.organizationId),
+          isNull(organizationInvites.acceptedAt)
+        )
+      )
+      .returning({ id: organizationInvites.id });
+
+    if (!invite) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Invite revoked" });
+  } catch (error) {
+    console.error("Error revoking invite:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { organizationInvites, organizations, users } from "@/lib/db/schema";
+import { inviteUserSchema } from "@/lib/validations/user";
+import {
+  generateInviteToken,
+  getInviteUrl,
+  sendInviteEmail,
+  INVITE_TTL_DAYS,
+} from "@/lib/organizations";
+import { and, desc, eq, gt, isNull } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Invites in the caller's organization that haven't been used or expired
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage invites" },
+        { status: 403 }
+      );
+    }
+
+    const invites = await db
+      .select({
+        id: organizationInvites.id,
+        email: organizationInvites.email,
+        role: organizationInvites.role,
+        expiresAt: organizationInvites.expiresAt,
+        createdAt: organizationInvites.createdAt,
+      })
+      .from(organizationInvites)
+      .where(
+        and(
+          eq(organizationInvites.organizationId, session.user.organizationId),
+          isNull(organizationInvites.acceptedAt),
+          gt(organizationInvites.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(organizationInvites.createdAt));
+
+    return NextResponse.json({ invites });
+  } catch (error) {
+    console.error("Error fetching invites:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can invite users" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = inviteUserSchema.parse(body);
+
+    // A user belongs to a single organization, so existing accounts can't
+    // be invited into another one
+    const [existingUser] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.email, validatedData.email))
+      .limit(1);
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: "This email already has an account" },
+        { status: 409 }
+      );
+    }
+
+    const [organization] = await db
+      .select({ name: organizations.name })
+      .from(organizations)
+      .where(eq(organizations.id, session.user.organizationId))
+      .limit(1);
+
+    const token = generateInviteToken();
+    const expiresAt = new Date(
+      Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    // Inviting the same email again replaces the earlier link
+    await db
+      .delete(organizationInvites)
+      .where(
+        and(
+          eq(organizationInvites.organizationId, session.user.organizationId),
+          eq(organizationInvites.email, validatedData.email),
+          isNull(organizationInvites.acceptedAt)
+        )
+      );
+
+    const [invite] = await db
+      .insert(organizationInvites)
+      .values({
+        organizationId: session.user.organizationId,
+        email: validatedData.email,
+        role: validatedData.role,
+        token,
+        invitedBy: session.user.id,
+        expiresAt,
+      })
+      .returning({
+        id: organizationInvites.id,
+        email: organizationInvites.email,
+        role: organizationInvites.role,
+        expiresAt: organizationInvites.expiresAt,
+        createdAt: organizationInvites.createdAt,
+      });
+
+    // The link is returned too, so the admin can share it if email fails
+    let emailSent = true;
+    try {
+      await sendInviteEmail(
+        { email: invite.email, token },
+        organization?.name || "your organization",
+        session.user.name || session.user.email || "An admin"
+      );
+    } catch (emailError) {
+      console.error("Failed to send invite email:", emailError);
+      emailSent = false;
+    }
+
+    return NextResponse.json(
+      { ...invite, inviteUrl: getInviteUrl(token), emailSent },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating invite:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
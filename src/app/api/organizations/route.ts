@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { organizations } from "@/lib/db/schema";
+import { updateOrganizationSchema } from "@/lib/validations/user";
+import { eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// The caller's organization
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [organization] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, session.user.organizationId))
+      .limit(1);
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(organization);
+  } catch (error) {
+    console.error("Error fetching organization:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can rename the organization" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateOrganizationSchema.parse(body);
+
+    const [organization] = await db
+      .update(organizations)
+      .set(validatedData)
+      .where(eq(organizations.id, session.user.organizationId))
+      .returning();
+
+    return NextResponse.json(organization);
+  } catch (error) {
+    console.error("Error updating organization:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
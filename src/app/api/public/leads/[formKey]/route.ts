@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { publicLeadSchema } from "@/lib/validations/buyer";
+import { captureLead, findActiveLeadForm } from "@/lib/lead-forms";
+import { checkRateLimit, leadFormRateLimiter } from "@/lib/rate-limit";
+import { buyerEvents, dispatchWebhookEvents } from "@/lib/webhooks";
+import { ZodError } from "zod";
+
+// Forms are embedded on other sites, so any origin may post
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+// Every accepted enquiry gets the same answer, so the form can't be used to
+// find out who is already a lead, and bots caught by the honeypot can't tell
+const THANK_YOU = { message: "Thanks! We'll be in touch soon." };
+
+function json(body: unknown, status: number) {
+  return NextResponse.json(body, { status, headers: CORS_HEADERS });
+}
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+// Website enquiries; no session needed, the form key identifies the
+// organization
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ formKey: string }> }
+) {
+  try {
+    const params = await context.params;
+
+    const rateLimitResponse = await checkRateLimit(
+      request,
+      leadFormRateLimiter
+    );
+    if (rateLimitResponse) {
+      Object.entries(CORS_HEADERS).forEach(([name, value]) =>
+        rateLimitResponse.headers.set(name, value)
+      );
+      return rateLimitResponse;
+    }
+
+    const form = await findActiveLeadForm(params.formKey);
+
+    if (!form) {
+      return json({ error: "Form not found" }, 404);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return json({ error: "Request body must be JSON" }, 400);
+    }
+
+    const validatedData = publicLeadSchema.parse(body);
+
+    if (validatedData.website) {
+      console.warn(`Lead form ${form.id}: honeypot filled, enquiry dropped`);
+      return json(THANK_YOU, 200);
+    }
+
+    const { buyer, duplicate } = await captureLead(form, validatedData);
+
+    if (!duplicate) {
+      await dispatchWebhookEvents(
+        form.organizationId,
+        buyerEvents(null, buyer)
+      );
+    }
+
+    return json(THANK_YOU, 200);
+  } catch (error) {
+    console.error("Error capturing lead:", error);
+
+    if (error instanceof ZodError) {
+      return json({ error: "Validation failed", details: error.issues }, 400);
+    }
+
+    return json({ error: "Internal server error" }, 500);
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { savedViews } from "@/lib/db/schema";
+import { updateSavedViewSchema } from "@/lib/validations/view";
+import { getSavedView } from "@/lib/buyers/views";
+import { eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Rename, re-filter, pin or share a view; only its owner can change it
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateSavedViewSchema.parse(body);
+
+    const view = await getSavedView(
+      session.user.organizationId,
+      session.user.id,
+      params.id
+    );
+
+    if (!view) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    if (view.ownerId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the owner can change a saved view" },
+        { status: 403 }
+      );
+    }
+
+    const [updatedView] = await db
+      .update(savedViews)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(eq(savedViews.id, view.id))
+      .returning();
+
+    return NextResponse.json(updatedView);
+  } catch (error) {
+    console.error("Error updating saved view:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Owners delete their own views; admins can also remove shared ones
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const view = await getSavedView(
+      session.user.organizationId,
+      session.user.id,
+      params.id
+    );
+
+    if (!view) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    if (view.ownerId !== session.user.id && session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only the owner can delete a saved view" },
+        { status: 403 }
+      );
+    }
+
+    await db.delete(savedViews).where(eq(savedViews.id, view.id));
+
+    return NextResponse.json({ message: "View deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting saved view:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
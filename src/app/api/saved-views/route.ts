@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { savedViews, users } from "@/lib/db/schema";
+import { savedViewSchema } from "@/lib/validations/view";
+import { savedViewsVisibleTo } from "@/lib/buyers/views";
+import { asc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// The caller's own views and the ones shared within the organization
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const views = await db
+      .select({
+        id: savedViews.id,
+        name: savedViews.name,
+        filters: savedViews.filters,
+        pinned: savedViews.pinned,
+        shared: savedViews.shared,
+        ownerId: savedViews.ownerId,
+        ownerName: users.name,
+        updatedAt: savedViews.updatedAt,
+      })
+      .from(savedViews)
+      .innerJoin(users, eq(users.id, savedViews.ownerId))
+      .where(
+        savedViewsVisibleTo(session.user.organizationId, session.user.id)
+      )
+      .orderBy(asc(savedViews.name));
+
+    return NextResponse.json({ views });
+  } catch (error) {
+    console.error("Error fetching saved views:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = savedViewSchema.parse(body);
+
+    const [view] = await db
+      .insert(savedViews)
+      .values({
+        ...validatedData,
+        organizationId: session.user.organizationId,
+        ownerId: session.user.id,
+      })
+      .returning();
+
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    console.error("Error creating saved view:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { buyers, buyerTasks } from "@/lib/db/schema";
+import { myTasksQuerySchema } from "@/lib/validations/task";
+import { and, asc, eq, gte, isNull, lt } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Tasks assigned to the current user that are overdue or due today
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = myTasksQuerySchema.parse({
+      dayStart: searchParams.get("dayStart") || undefined,
+      dayEnd: searchParams.get("dayEnd") || undefined,
+    });
+
+    const dayStart = query.dayStart || new Date(new Date().setHours(0, 0, 0, 0));
+    const dayEnd =
+      query.dayEnd || new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const selection = {
+      task: buyerTasks,
+      buyerName: buyers.fullName,
+      buyerPhone: buyers.phone,
+    };
+
+    const [overdue, today] = await Promise.all([
+      db
+        .select(selection)
+        .from(buyerTasks)
+        .innerJoin(buyers, eq(buyerTasks.buyerId, buyers.id))
+        .where(
+          and(
+            eq(buyerTasks.assigneeId, session.user.id),
+            eq(buyers.organizationId, session.user.organizationId),
+            isNull(buyers.deletedAt),
+            eq(buyerTasks.done, false),
+            lt(buyerTasks.dueAt, dayStart)
+          )
+        )
+        .orderBy(asc(buyerTasks.dueAt)),
+      db
+        .select(selection)
+        .from(buyerTasks)
+        .innerJoin(buyers, eq(buyerTasks.buyerId, buyers.id))
+        .where(
+          and(
+            eq(buyerTasks.assigneeId, session.user.id),
+            eq(buyers.organizationId, session.user.organizationId),
+            isNull(buyers.deletedAt),
+            gte(buyerTasks.dueAt, dayStart),
+            lt(buyerTasks.dueAt, dayEnd)
+          )
+        )
+        .orderBy(asc(buyerTasks.done), asc(buyerTasks.dueAt)),
+    ]);
+
+    const flatten = (rows: typeof overdue) =>
+      rows.map(({ task, buyerName, buyerPhone }) => ({
+        ...task,
+        buyerName,
+        buyerPhone,
+      }));
+
+    return NextResponse.json({
+      overdue: flatten(overdue),
+      today: flatten(today),
+    });
+  } catch (error) {
+    console.error("Error fetching my tasks:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
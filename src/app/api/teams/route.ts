@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { teams } from "@/lib/db/schema";
+import { createTeamSchema } from "@/lib/validations/user";
+import { and, asc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const teamList = await db
+      .select()
+      .from(teams)
+      .where(eq(teams.organizationId, session.user.organizationId))
+      .orderBy(asc(teams.name));
+
+    return NextResponse.json({ teams: teamList });
+  } catch (error) {
+    console.error("Error fetching teams:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can create teams" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createTeamSchema.parse(body);
+
+    const [existing] = await db
+      .select({ id: teams.id })
+      .from(teams)
+      .where(
+        and(
+          eq(teams.organizationId, session.user.organizationId),
+          eq(teams.name, validatedData.name)
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "A team with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    const [team] = await db
+      .insert(teams)
+      .values({
+        ...validatedData,
+        organizationId: session.user.organizationId,
+      })
+      .returning();
+
+    return NextResponse.json(team, { status: 201 });
+  } catch (error) {
+    console.error("Error creating team:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { organizationMembers, teams, users } from "@/lib/db/schema";
+import { updateUserAccessSchema } from "@/lib/validations/user";
+import { isOrganizationMember } from "@/lib/organizations";
+import { and, eq, ne } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Admins change a user's role, team or availability
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can change roles and teams" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateUserAccessSchema.parse(body);
+
+    if (!(await isOrganizationMember(session.user.organizationId, params.id))) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (validatedData.teamId) {
+      const [team] = await db
+        .select({ id: teams.id })
+        .from(teams)
+        .where(
+          and(
+            eq(teams.id, validatedData.teamId),
+            eq(teams.organizationId, session.user.organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!team) {
+        return NextResponse.json({ error: "Team not found" }, { status: 404 });
+      }
+    }
+
+    // Never leave the organization without an admin
+    if (
+      params.id === session.user.id &&
+      validatedData.role &&
+      validatedData.role !== "admin"
+    ) {
+      const [otherAdmin] = await db
+        .select({ id: users.id })
+        .from(users)
+        .innerJoin(
+          organizationMembers,
+          eq(organizationMembers.userId, users.id)
+        )
+        .where(
+          and(
+            eq(organizationMembers.organizationId, session.user.organizationId),
+            eq(users.role, "admin"),
+            ne(users.id, session.user.id)
+          )
+        )
+        .limit(1);
+
+      if (!otherAdmin) {
+        return NextResponse.json(
+          { error: "You are the only admin; promote someone else first" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(eq(users.id, params.id))
+      .returning({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+        teamId: users.teamId,
+        available: users.available,
+      });
+
+    if (!updatedUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedUser);
+  } catch (error) {
+    console.error("Error updating user access:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { buyers, buyerHistory } from "@/lib/db/schema";
+import { updateBuyerSchema } from "@/lib/validations/buyer";
+import { apiError, authorizeApiRequest, toApiBuyer } from "@/lib/api-v1";
+import { buildBuyerDiff, isStaleUpdate } from "@/lib/buyers/history";
+import { validateStatusChange } from "@/lib/pipeline";
+import { getBuyerPermissions } from "@/lib/auth/permissions";
+import { buyerInOrganization } from "@/lib/buyers/query";
+import { moveToTrash } from "@/lib/buyers/trash";
+import { buyerEvents, dispatchWebhookEvents } from "@/lib/webhooks";
+import { eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+async function findBuyer(organizationId: string, buyerId: string) {
+  const [buyer] = await db
+    .select()
+    .from(buyers)
+    .where(buyerInOrganization(organizationId, buyerId))
+    .limit(1);
+
+  return buyer;
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const auth = await authorizeApiRequest(request, "read");
+    if (auth instanceof NextResponse) return auth;
+
+    const buyer = await findBuyer(auth.user.organizationId, params.id);
+
+    if (!buyer) {
+      return apiError(404, "not_found", "Buyer not found");
+    }
+
+    return NextResponse.json({ data: toApiBuyer(buyer) });
+  } catch (error) {
+    console.error("Error fetching buyer (v1):", error);
+    return apiError(500, "internal_error", "Internal server error");
+  }
+}
+
+// Replaces the buyer's fields, with the same permission, concurrency and
+// pipeline checks as the app
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const auth = await authorizeApiRequest(request, "write");
+    if (auth instanceof NextResponse) return auth;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(400, "invalid_request", "Request body must be JSON");
+    }
+
+    const validatedData = updateBuyerSchema.parse(body);
+
+    const currentBuyer = await findBuyer(auth.user.organizationId, params.id);
+
+    if (!currentBuyer) {
+      return apiError(404, "not_found", "Buyer not found");
+    }
+
+    const permissions = await getBuyerPermissions(auth.user, currentBuyer);
+    if (!permissions.canEdit) {
+      return apiError(
+        403,
+        "forbidden",
+        "The key's user doesn't have permission to edit this lead"
+      );
+    }
+
+    if (isStaleUpdate(currentBuyer, validatedData.updatedAt)) {
+      return apiError(
+        409,
+        "conflict",
+        "The lead has changed since updatedAt; fetch it again and retry",
+        { currentUpdatedAt: currentBuyer.updatedAt.toISOString() }
+      );
+    }
+
+    const updateData = {
+      ...validatedData,
+      email: validatedData.email || null,
+      notes: validatedData.notes || null,
+      dropReason: validatedData.dropReason || null,
+      updatedAt: new Date(),
+    };
+
+    const pipelineIssues = validateStatusChange(currentBuyer, {
+      ...currentBuyer,
+      ...Object.fromEntries(
+        Object.entries(updateData).filter(([, value]) => value !== undefined)
+      ),
+    });
+
+    if (pipelineIssues.length > 0) {
+      return apiError(
+        400,
+        "validation_failed",
+        "Invalid status change",
+        pipelineIssues
+      );
+    }
+
+    const diff = buildBuyerDiff(currentBuyer, updateData);
+
+    const updatedBuyer = await db.transaction(async (tx) => {
+      const [buyer] = await tx
+        .update(buyers)
+        .set(updateData)
+        .where(eq(buyers.id, currentBuyer.id))
+        .returning();
+
+      if (Object.keys(diff).length > 0) {
+        await tx.insert(buyerHistory).values({
+          buyerId: buyer.id,
+          changedBy: auth.user.id,
+          organizationId: buyer.organizationId,
+          diff,
+        });
+      }
+
+      return buyer;
+    });
+
+    await dispatchWebhookEvents(
+      currentBuyer.organizationId,
+      buyerEvents(currentBuyer, updatedBuyer)
+    );
+
+    return NextResponse.json({ data: toApiBuyer(updatedBuyer) });
+  } catch (error) {
+    console.error("Error updating buyer (v1):", error);
+
+    if (error instanceof ZodError) {
+      return apiError(
+        400,
+        "validation_failed",
+        "Validation failed",
+        error.issues
+      );
+    }
+
+    return apiError(500, "internal_error", "Internal server error");
+  }
+}
+
+// Moves the buyer to the trash, where it can be restored from the app
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const auth = await authorizeApiRequest(request, "write");
+    if (auth instanceof NextResponse) return auth;
+
+    const currentBuyer = await findBuyer(auth.user.organizationId, params.id);
+
+    if (!currentBuyer) {
+      return apiError(404, "not_found", "Buyer not found");
+    }
+
+    const permissions = await getBuyerPermissions(auth.user, currentBuyer);
+    if (!permissions.canDelete) {
+      return apiError(
+        403,
+        "forbidden",
+        "The key's user doesn't have permission to delete this lead"
+      );
+    }
+
+    await moveToTrash(currentBuyer, auth.user.id);
+
+    await dispatchWebhookEvents(currentBuyer.organizationId, [
+      { event: "buyer.deleted", buyer: currentBuyer },
+    ]);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting buyer (v1):", error);
+    return apiError(500, "internal_error", "Internal server error");
+  }
+}
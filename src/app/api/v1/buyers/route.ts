@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { buyers, buyerHistory } from "@/lib/db/schema";
+import { createBuyerSchema } from "@/lib/validations/buyer";
+import { apiError, authorizeApiRequest, toApiBuyer } from "@/lib/api-v1";
+import {
+  parseBuyerFilters,
+  buildBuyerWhere,
+  buildBuyerOrder,
+  buildBuyerSortKeys,
+  buildCursorCondition,
+  decodeBuyerCursor,
+  encodeBuyerCursor,
+  selectBuyerSortKey,
+} from "@/lib/buyers/query";
+import { findDuplicateBuyers } from "@/lib/buyers/duplicates";
+import { assignOwners } from "@/lib/assignment";
+import { buyerEvents, dispatchWebhookEvents } from "@/lib/webhooks";
+import { and, getTableColumns } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// Same filters, sorting and cursors as the app's buyer list
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeApiRequest(request, "read");
+    if (auth instanceof NextResponse) return auth;
+
+    const { searchParams } = new URL(request.url);
+    const filters = parseBuyerFilters(searchParams);
+
+    const cursor = filters.cursor
+      ? decodeBuyerCursor(filters, filters.cursor)
+      : null;
+    if (filters.cursor && !cursor) {
+      return apiError(400, "invalid_request", "Invalid cursor");
+    }
+
+    const whereClause = buildBuyerWhere(auth.user.organizationId, filters);
+    const sortKeys = buildBuyerSortKeys(filters);
+    const backwards = cursor?.direction === "before";
+
+    const rows = await db
+      .select({
+        ...getTableColumns(buyers),
+        sortKey: selectBuyerSortKey(sortKeys),
+      })
+      .from(buyers)
+      .where(
+        cursor
+          ? and(whereClause, buildCursorCondition(sortKeys, cursor))
+          : whereClause
+      )
+      .orderBy(...buildBuyerOrder(sortKeys, backwards))
+      .limit(filters.limit + 1);
+
+    const hasMore = rows.length > filters.limit;
+    const page = rows.slice(0, filters.limit);
+    if (backwards) page.reverse();
+
+    const hasNextPage = backwards || hasMore;
+    const hasPrevPage = backwards ? hasMore : !!cursor;
+    const first = page[0];
+    const last = page[page.length - 1];
+
+    return NextResponse.json({
+      data: page.map((buyer) => toApiBuyer(buyer)),
+      pagination: {
+        limit: filters.limit,
+        nextCursor:
+          hasNextPage && last
+            ? encodeBuyerCursor(filters, last.sortKey, "after")
+            : null,
+        prevCursor:
+          hasPrevPage && first
+            ? encodeBuyerCursor(filters, first.sortKey, "before")
+            : null,
+      },
+    });
+  } catch (error) {
+    console.error("Error listing buyers (v1):", error);
+
+    if (error instanceof ZodError) {
+      return apiError(
+        400,
+        "validation_failed",
+        "Invalid query parameters",
+        error.issues
+      );
+    }
+
+    return apiError(500, "internal_error", "Internal server error");
+  }
+}
+
+// Creates a buyer owned by the key's user, unless an assignment rule hands
+// it to someone else
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeApiRequest(request, "write");
+    if (auth instanceof NextResponse) return auth;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(400, "invalid_request", "Request body must be JSON");
+    }
+
+    const validatedData = createBuyerSchema.parse(body);
+
+    const { confirmDuplicate } = body as { confirmDuplicate?: unknown };
+    if (confirmDuplicate !== true) {
+      const [duplicates] = await findDuplicateBuyers(
+        auth.user.organizationId,
+        [validatedData]
+      );
+
+      if (duplicates.length > 0) {
+        return apiError(
+          409,
+          "duplicate",
+          "A similar lead already exists; send confirmDuplicate: true to create it anyway",
+          duplicates
+        );
+      }
+    }
+
+    const [assignedOwnerId] = await assignOwners(auth.user.organizationId, [
+      validatedData,
+    ]);
+
+    const newBuyer = await db.transaction(async (tx) => {
+      const [buyer] = await tx
+        .insert(buyers)
+        .values({
+          ...validatedData,
+          email: validatedData.email || null,
+          notes: validatedData.notes || null,
+          ownerId: assignedOwnerId || auth.user.id,
+          organizationId: auth.user.organizationId,
+        })
+        .returning();
+
+      await tx.insert(buyerHistory).values({
+        buyerId: buyer.id,
+        changedBy: auth.user.id,
+        organizationId: buyer.organizationId,
+        diff: {
+          created: {
+            old: null,
+            new: `Lead created through the API ("${auth.key.name}" key)`,
+          },
+          ...(buyer.ownerId !== auth.user.id && {
+            ownerId: { old: auth.user.id, new: buyer.ownerId },
+          }),
+        },
+      });
+
+      return buyer;
+    });
+
+    await dispatchWebhookEvents(
+      auth.user.organizationId,
+      buyerEvents(null, newBuyer)
+    );
+
+    return NextResponse.json({ data: toApiBuyer(newBuyer) }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating buyer (v1):", error);
+
+    if (error instanceof ZodError) {
+      return apiError(
+        400,
+        "validation_failed",
+        "Validation failed",
+        error.issues
+      );
+    }
+
+    return apiError(500, "internal_error", "Internal server error");
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api-v1/openapi";
+
+// Public, so API clients and code generators can fetch it without a key
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { webhookDeliveries } from "@/lib/db/schema";
+import { processWebhookQueue } from "@/lib/webhooks";
+import { and, eq } from "drizzle-orm";
+
+// Send a delivery again now, whatever happened to it before. One that had
+// used up its retries gets a single extra attempt.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ status: "pending", nextAttemptAt: new Date() })
+      .where(
+        and(
+          eq(webhookDeliveries.id, params.deliveryId),
+          eq(webhookDeliveries.endpointId, params.id),
+          eq(webhookDeliveries.organizationId, session.user.organizationId)
+        )
+      )
+      .returning();
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Delivery not found" },
+        { status: 404 }
+      );
+    }
+
+    after(() => processWebhookQueue());
+
+    return NextResponse.json(delivery);
+  } catch (error) {
+    console.error("Error retrying webhook delivery:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { webhookDeliveries } from "@/lib/db/schema";
+import { webhookDeliveriesQuerySchema } from "@/lib/validations/webhook";
+import { and, desc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+// The endpoint's delivery log, newest first
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = webhookDeliveriesQuerySchema.parse({
+      status: searchParams.get("status") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+
+    const deliveries = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.endpointId, params.id),
+          eq(webhookDeliveries.organizationId, session.user.organizationId),
+          query.status ? eq(webhookDeliveries.status, query.status) : undefined
+        )
+      )
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(query.limit);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
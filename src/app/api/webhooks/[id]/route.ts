@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { webhookEndpoints } from "@/lib/db/schema";
+import { updateWebhookEndpointSchema } from "@/lib/validations/webhook";
+import { checkWebhookUrl } from "@/lib/webhooks/address";
+import { and, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+function endpointInOrganization(organizationId: string, endpointId: string) {
+  return and(
+    eq(webhookEndpoints.id, endpointId),
+    eq(webhookEndpoints.organizationId, organizationId)
+  );
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateWebhookEndpointSchema.parse(body);
+
+    const blockedReason =
+      validatedData.url && (await checkWebhookUrl(validatedData.url));
+    if (blockedReason) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: [{ path: ["url"], message: blockedReason }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const [endpoint] = await db
+      .update(webhookEndpoints)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(endpointInOrganization(session.user.organizationId, params.id))
+      .returning();
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(endpoint);
+  } catch (error) {
+    console.error("Error updating webhook endpoint:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes the endpoint's delivery log and anything still queued for it
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const [endpoint] = await db
+      .delete(webhookEndpoints)
+      .where(endpointInOrganization(session.user.organizationId, params.id))
+      .returning({ id: webhookEndpoints.id });
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Webhook deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting webhook endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
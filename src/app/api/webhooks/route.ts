@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { webhookEndpoints } from "@/lib/db/schema";
+import { webhookEndpointSchema } from "@/lib/validations/webhook";
+import { generateWebhookSecret } from "@/lib/webhooks";
+import { checkWebhookUrl } from "@/lib/webhooks/address";
+import { asc, eq } from "drizzle-orm";
+import { ZodError } from "zod";
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const endpoints = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.organizationId, session.user.organizationId))
+      .orderBy(asc(webhookEndpoints.createdAt));
+
+    return NextResponse.json({ endpoints });
+  } catch (error) {
+    console.error("Error fetching webhook endpoints:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// The signing secret is generated here and returned with the endpoint
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = webhookEndpointSchema.parse(body);
+
+    const blockedReason = await checkWebhookUrl(validatedData.url);
+    if (blockedReason) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: [{ path: ["url"], message: blockedReason }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const [endpoint] = await db
+      .insert(webhookEndpoints)
+      .values({
+        ...validatedData,
+        secret: generateWebhookSecret(),
+        organizationId: session.user.organizationId,
+        createdBy: session.user.id,
+      })
+      .returning();
+
+    return NextResponse.json(endpoint, { status: 201 });
+  } catch (error) {
+    console.error("Error creating webhook endpoint:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, Suspense } from "react";
+import { useState, useEffect, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { signupSchema } from "@/lib/validations/buyer";
@@ -15,6 +15,27 @@ function SignUpContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get("callbackUrl") || "/buyers";
+  const inviteToken = searchParams.get("invite") || undefined;
+  const [invite, setInvite] = useState<{
+    email: string;
+    organizationName: string;
+  } | null>(null);
+
+  // Invite links fix the email and show which organization is being joined
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    fetch(`/api/invites/${encodeURIComponent(inviteToken)}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "This invite is invalid or has expired");
+        }
+        setInvite(data);
+        setFormData((prev) => ({ ...prev, email: data.email }));
+      })
+      .catch((err) => setError(err.message));
+  }, [inviteToken]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -31,7 +52,7 @@ function SignUpContent() {
 
     try {
       // Validate form data
-      const validatedData = signupSchema.parse(formData);
+      const validatedData = signupSchema.parse({ ...formData, inviteToken });
 
       // First, check if user already exists via our signup endpoint
       const response = await fetch("/api/auth/signup", {
@@ -56,7 +77,8 @@ function SignUpContent() {
         },
         body: JSON.stringify({ 
           email: validatedData.email,
-          name: validatedData.name 
+          name: validatedData.name,
+          inviteToken: validatedData.inviteToken,
         }),
       });
 
@@ -107,10 +129,14 @@ function SignUpContent() {
             <span className="text-purple-600 text-xl font-bold">E</span>
           </div>
           <h2 className="text-3xl font-extrabold text-gray-800">
-            Create your ESahayak account
+            {invite
+              ? `Join ${invite.organizationName}`
+              : "Create your ESahayak account"}
           </h2>
           <p className="mt-2 text-purple-600">
-            Join us to manage your buyer leads efficiently
+            {invite
+              ? "You've been invited to manage buyer leads with your team"
+              : "Join us to manage your buyer leads efficiently"}
           </p>
         </div>
         <form
@@ -156,6 +182,7 @@ function SignUpContent() {
                 value={formData.email}
                 onChange={handleInputChange}
                 disabled={isLoading}
+                readOnly={!!invite}
               />
             </div>
           </div>
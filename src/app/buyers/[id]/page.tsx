@@ -8,12 +8,36 @@ import Link from "next/link";
 import { Button } from "../../../components/ui/button";
 import { Input } from "../../../components/ui/input";
 import { Textarea } from "../../../components/ui/textarea";
+import { BuyerTasks } from "../../../components/tasks/BuyerTasks";
+import { BuyerTimeline } from "../../../components/activities/BuyerTimeline";
 import { formatCurrency, formatDate, formatPhone } from "../../../lib/utils";
-import { Buyer, BuyerHistory } from "../../../lib/db/schema";
+import { Buyer } from "../../../lib/db/schema";
+import type { DuplicateMatch } from "../../../lib/buyers/duplicates";
+import {
+  PIPELINE,
+  getStatusOptions,
+  DROP_REASON_SUGGESTIONS,
+} from "../../../lib/pipeline";
+import type { BuyerPermissions } from "../../../lib/auth/permissions";
+import { BUYER_FIELD_LABELS } from "../../../lib/buyers/labels";
+
+interface BuyerDetail {
+  buyer: Buyer;
+  permissions: BuyerPermissions;
+}
 
-interface BuyerWithHistory {
+// GET /api/buyers/[id]/history/[historyId]
+interface BuyerVersion {
+  historyId: string;
+  changedAt: string;
   buyer: Buyer;
-  history: BuyerHistory[];
+  changedFields: string[];
+}
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string;
 }
 
 export default function BuyerDetailPage() {
@@ -23,7 +47,17 @@ export default function BuyerDetailPage() {
   const buyerId = params.id as string;
 
   const [buyer, setBuyer] = useState<Buyer | null>(null);
-  const [history, setHistory] = useState<BuyerHistory[]>([]);
+  const [permissions, setPermissions] = useState<BuyerPermissions>({
+    canEdit: false,
+    canDelete: false,
+    canReassign: false,
+  });
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [userOptions, setUserOptions] = useState<UserOption[]>([]);
+  const [isReassigning, setIsReassigning] = useState(false);
+  const [asOf, setAsOf] = useState<BuyerVersion | null>(null);
+  const [revertFields, setRevertFields] = useState<string[]>([]);
+  const [isReverting, setIsReverting] = useState(false);
   const [loading, setLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -53,10 +87,20 @@ export default function BuyerDetailPage() {
       source: "",
       notes: "",
       status: "",
+      visitDate: "",
+      dropReason: "",
     },
   });
 
   const propertyType = watch("propertyType");
+  const selectedStatus = watch("status");
+
+  useEffect(() => {
+    fetch("/api/users")
+      .then((response) => (response.ok ? response.json() : { users: [] }))
+      .then((data) => setUserOptions(data.users))
+      .catch((error) => console.error("Error fetching users:", error));
+  }, []);
 
   // Redirect to login if not authenticated
   if (status === "loading") {
@@ -87,9 +131,9 @@ export default function BuyerDetailPage() {
         throw new Error("Failed to fetch buyer");
       }
 
-      const data: BuyerWithHistory = await response.json();
+      const data: BuyerDetail = await response.json();
       setBuyer(data.buyer);
-      setHistory(data.history);
+      setPermissions(data.permissions);
       setTags(data.buyer.tags || []);
 
       // Reset form with buyer data
@@ -107,7 +151,13 @@ export default function BuyerDetailPage() {
         source: data.buyer.source,
         notes: data.buyer.notes || "",
         status: data.buyer.status,
+        visitDate: data.buyer.visitDate
+          ? new Date(data.buyer.visitDate).toISOString().slice(0, 10)
+          : "",
+        dropReason: data.buyer.dropReason || "",
       });
+
+      fetchDuplicates();
     } catch (error) {
       console.error("Error fetching buyer:", error);
       setError("Failed to load buyer details. Please try again.");
@@ -116,6 +166,19 @@ export default function BuyerDetailPage() {
     }
   };
 
+  const fetchDuplicates = async () => {
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/duplicates`);
+      if (response.ok) {
+        const data = await response.json();
+        setDuplicates(data.duplicates);
+      }
+    } catch (error) {
+      // Duplicate hints are best-effort; the page works without them
+      console.error("Error fetching duplicates:", error);
+    }
+  };
+
   useEffect(() => {
     if (buyerId) {
       fetchBuyer();
@@ -133,7 +196,7 @@ export default function BuyerDetailPage() {
     setTags(tags.filter((tag) => tag !== tagToRemove));
   };
 
-  const canEdit = buyer && buyer.ownerId === session?.user?.id;
+  const canEdit = buyer && permissions.canEdit;
 
   const onSubmit = async (data: any) => {
     if (!buyer || !canEdit) return;
@@ -147,6 +210,7 @@ export default function BuyerDetailPage() {
         tags,
         budgetMin: data.budgetMin ? parseInt(data.budgetMin) : undefined,
         budgetMax: data.budgetMax ? parseInt(data.budgetMax) : undefined,
+        visitDate: data.visitDate ? new Date(data.visitDate).toISOString() : null,
         updatedAt: buyer.updatedAt, // For concurrency control
       };
 
@@ -200,7 +264,7 @@ export default function BuyerDetailPage() {
 
     if (
       !confirm(
-        "Are you sure you want to delete this buyer? This action cannot be undone."
+        "Move this buyer to the trash? It can be restored from the trash page."
       )
     ) {
       return;
@@ -222,6 +286,113 @@ export default function BuyerDetailPage() {
     }
   };
 
+  const handleReassign = async (ownerId: string) => {
+    if (!buyer || !permissions.canReassign || ownerId === buyer.ownerId) return;
+
+    setIsReassigning(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/owner`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ownerId, updatedAt: buyer.updatedAt }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to reassign buyer");
+      }
+
+      // Refresh on conflicts too so the owner and history are current
+      await fetchBuyer();
+    } catch (error) {
+      console.error("Error reassigning buyer:", error);
+      setError("Failed to reassign buyer. Please try again.");
+    } finally {
+      setIsReassigning(false);
+    }
+  };
+
+  const viewAsOf = async (historyId: string) => {
+    setError("");
+
+    try {
+      const response = await fetch(
+        `/api/buyers/${buyerId}/history/${historyId}`
+      );
+      if (!response.ok) {
+        throw new Error("Failed to load version");
+      }
+
+      const data = await response.json();
+      setAsOf({ historyId, ...data });
+      setRevertFields(data.changedFields);
+      setIsEditing(false);
+    } catch (error) {
+      console.error("Error loading buyer version:", error);
+      setError("Failed to load that version. Please try again.");
+    }
+  };
+
+  const toggleRevertField = (field: string) => {
+    setRevertFields(
+      revertFields.includes(field)
+        ? revertFields.filter((f) => f !== field)
+        : [...revertFields, field]
+    );
+  };
+
+  const handleRevert = async () => {
+    if (!buyer || !asOf || !canEdit || revertFields.length === 0) return;
+
+    setIsReverting(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/revert`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          historyId: asOf.historyId,
+          fields: revertFields,
+          updatedAt: buyer.updatedAt,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setError(
+          errorData.details?.[0]?.message ||
+            errorData.error ||
+            "Failed to restore this version"
+        );
+        if (response.status === 409) {
+          setAsOf(null);
+          await fetchBuyer();
+        }
+        return;
+      }
+
+      setAsOf(null);
+      await fetchBuyer();
+    } catch (error) {
+      console.error("Error restoring buyer version:", error);
+      setError("Failed to restore this version. Please try again.");
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  const getUserName = (userId: string) => {
+    const user = userOptions.find((option) => option.id === userId);
+    return user ? user.name || user.email : "Unknown user";
+  };
+
   const formatBudget = (min?: number | null, max?: number | null) => {
     if (!min && !max) return "Not specified";
     if (min && max) return `${formatCurrency(min)} - ${formatCurrency(max)}`;
@@ -243,13 +414,6 @@ export default function BuyerDetailPage() {
     return colors[status as keyof typeof colors] || "bg-gray-100 text-gray-800";
   };
 
-  const formatHistoryValue = (value: any) => {
-    if (value === null || value === undefined) return "None";
-    if (Array.isArray(value)) return value.join(", ");
-    if (typeof value === "number") return value.toString();
-    return value.toString();
-  };
-
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -290,6 +454,9 @@ export default function BuyerDetailPage() {
     );
   }
 
+  // The record shown in view mode: current, or a past version
+  const shown = asOf?.buyer ?? buyer;
+
   return (
     <div className="max-w-6xl mx-auto p-6">
       {/* Header */}
@@ -318,7 +485,7 @@ export default function BuyerDetailPage() {
             <Link href="/buyers">← Back to List</Link>
           </Button>
 
-          {canEdit && !isEditing && (
+          {canEdit && !isEditing && !asOf && (
             <Button onClick={() => setIsEditing(true)}>Edit</Button>
           )}
 
@@ -340,7 +507,7 @@ export default function BuyerDetailPage() {
             </>
           )}
 
-          {canEdit && !isEditing && (
+          {permissions.canDelete && !isEditing && (
             <Button variant="destructive" onClick={handleDelete}>
               Delete
             </Button>
@@ -354,6 +521,60 @@ export default function BuyerDetailPage() {
         </div>
       )}
 
+      {asOf && (
+        <div className="bg-purple-50 border border-purple-200 rounded-md p-4 mb-6">
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <p className="font-medium text-purple-900">
+                Viewing this lead as of {formatDate(new Date(asOf.changedAt))}
+              </p>
+              {asOf.changedFields.length === 0 ? (
+                <p className="text-sm text-purple-800">
+                  Nothing differs from the current version.
+                </p>
+              ) : canEdit ? (
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+                  {asOf.changedFields.map((field) => (
+                    <label
+                      key={field}
+                      className="flex items-center gap-1 text-sm text-purple-900"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={revertFields.includes(field)}
+                        onChange={() => toggleRevertField(field)}
+                      />
+                      {BUYER_FIELD_LABELS[field] || field}
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-purple-800">
+                  Differs in{" "}
+                  {asOf.changedFields
+                    .map((field) => BUYER_FIELD_LABELS[field] || field)
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button variant="outline" size="sm" onClick={() => setAsOf(null)}>
+                Back to Current
+              </Button>
+              {canEdit && asOf.changedFields.length > 0 && (
+                <Button
+                  size="sm"
+                  onClick={handleRevert}
+                  disabled={isReverting || revertFields.length === 0}
+                >
+                  {isReverting ? "Restoring..." : "Restore Selected"}
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main Content */}
         <div className="lg:col-span-2">
@@ -422,16 +643,59 @@ export default function BuyerDetailPage() {
                       {...register("status")}
                       className="flex h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     >
-                      <option value="New">New</option>
-                      <option value="Qualified">Qualified</option>
-                      <option value="Contacted">Contacted</option>
-                      <option value="Visited">Visited</option>
-                      <option value="Negotiation">Negotiation</option>
-                      <option value="Converted">Converted</option>
-                      <option value="Dropped">Dropped</option>
+                      {/* Only the current status and its legal next steps */}
+                      {getStatusOptions(buyer.status).map((option) => (
+                        <option key={option} value={option}>
+                          {PIPELINE[option].label}
+                        </option>
+                      ))}
                     </select>
+                    {errors.status && (
+                      <p className="text-red-600 text-sm mt-1">
+                        {errors.status.message}
+                      </p>
+                    )}
                   </div>
 
+                  {/* Visit Date - required to move into Visited */}
+                  {(selectedStatus === "Visited" || buyer.visitDate) && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Visit Date{selectedStatus === "Visited" && " *"}
+                      </label>
+                      <Input type="date" {...register("visitDate")} />
+                      {errors.visitDate && (
+                        <p className="text-red-600 text-sm mt-1">
+                          {errors.visitDate.message}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Drop Reason - required to move into Dropped */}
+                  {(selectedStatus === "Dropped" || buyer.dropReason) && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Drop Reason{selectedStatus === "Dropped" && " *"}
+                      </label>
+                      <Input
+                        {...register("dropReason")}
+                        list="drop-reasons"
+                        placeholder="Why is this lead being dropped?"
+                      />
+                      <datalist id="drop-reasons">
+                        {DROP_REASON_SUGGESTIONS.map((reason) => (
+                          <option key={reason} value={reason} />
+                        ))}
+                      </datalist>
+                      {errors.dropReason && (
+                        <p className="text-red-600 text-sm mt-1">
+                          {errors.dropReason.message}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {/* City */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -676,18 +940,18 @@ export default function BuyerDetailPage() {
                   <div className="space-y-2">
                     <p>
                       <span className="font-medium">Name:</span>{" "}
-                      {buyer.fullName}
+                      {shown.fullName}
                     </p>
                     <p>
                       <span className="font-medium">Email:</span>{" "}
-                      {buyer.email || "Not provided"}
+                      {shown.email || "Not provided"}
                     </p>
                     <p>
                       <span className="font-medium">Phone:</span>{" "}
-                      {formatPhone(buyer.phone)}
+                      {formatPhone(shown.phone)}
                     </p>
                     <p>
-                      <span className="font-medium">City:</span> {buyer.city}
+                      <span className="font-medium">City:</span> {shown.city}
                     </p>
                   </div>
                 </div>
@@ -699,20 +963,20 @@ export default function BuyerDetailPage() {
                   <div className="space-y-2">
                     <p>
                       <span className="font-medium">Property Type:</span>{" "}
-                      {buyer.propertyType}
+                      {shown.propertyType}
                     </p>
-                    {buyer.bhk && (
+                    {shown.bhk && (
                       <p>
-                        <span className="font-medium">BHK:</span> {buyer.bhk}
+                        <span className="font-medium">BHK:</span> {shown.bhk}
                       </p>
                     )}
                     <p>
                       <span className="font-medium">Purpose:</span>{" "}
-                      {buyer.purpose}
+                      {shown.purpose}
                     </p>
                     <p>
                       <span className="font-medium">Budget:</span>{" "}
-                      {formatBudget(buyer.budgetMin, buyer.budgetMax)}
+                      {formatBudget(shown.budgetMin, shown.budgetMax)}
                     </p>
                   </div>
                 </div>
@@ -724,16 +988,28 @@ export default function BuyerDetailPage() {
                   <div className="space-y-2">
                     <p>
                       <span className="font-medium">Timeline:</span>{" "}
-                      {buyer.timeline}
+                      {shown.timeline}
                     </p>
                     <p>
                       <span className="font-medium">Source:</span>{" "}
-                      {buyer.source}
+                      {shown.source}
                     </p>
                     <p>
                       <span className="font-medium">Status:</span>{" "}
-                      {buyer.status}
+                      {shown.status}
                     </p>
+                    {shown.visitDate && (
+                      <p>
+                        <span className="font-medium">Visit Date:</span>{" "}
+                        {new Date(shown.visitDate).toLocaleDateString("en-IN")}
+                      </p>
+                    )}
+                    {shown.dropReason && (
+                      <p>
+                        <span className="font-medium">Drop Reason:</span>{" "}
+                        {shown.dropReason}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -741,9 +1017,9 @@ export default function BuyerDetailPage() {
                   <h3 className="text-sm font-medium text-gray-500 mb-1">
                     Tags
                   </h3>
-                  {buyer.tags && buyer.tags.length > 0 ? (
+                  {shown.tags && shown.tags.length > 0 ? (
                     <div className="flex flex-wrap gap-2">
-                      {buyer.tags.map((tag) => (
+                      {shown.tags.map((tag) => (
                         <span
                           key={tag}
                           className="inline-flex px-2 py-1 text-xs bg-gray-100 text-gray-800 rounded-full"
@@ -758,13 +1034,13 @@ export default function BuyerDetailPage() {
                 </div>
               </div>
 
-              {buyer.notes && (
+              {shown.notes && (
                 <div className="mt-6">
                   <h3 className="text-sm font-medium text-gray-500 mb-2">
                     Notes
                   </h3>
                   <p className="text-gray-700 bg-gray-50 p-3 rounded-md">
-                    {buyer.notes}
+                    {shown.notes}
                   </p>
                 </div>
               )}
@@ -772,47 +1048,79 @@ export default function BuyerDetailPage() {
           )}
         </div>
 
-        {/* Sidebar - History */}
-        <div className="lg:col-span-1">
-          <div className="bg-white rounded-lg shadow p-6">
-            <h2 className="text-xl font-semibold mb-4">Change History</h2>
-
-            {history.length === 0 ? (
-              <p className="text-gray-500 text-sm">No changes recorded yet.</p>
-            ) : (
-              <div className="space-y-4">
-                {history.map((entry) => (
-                  <div
-                    key={entry.id}
-                    className="border-l-2 border-blue-200 pl-4 pb-4"
-                  >
-                    <div className="text-sm text-gray-500 mb-2">
-                      {formatDate(new Date(entry.changedAt))}
-                    </div>
+        {/* Sidebar - Duplicates, Owner, Tasks and Timeline */}
+        <div className="lg:col-span-1 space-y-6">
+          {duplicates.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
+              <h2 className="text-lg font-semibold text-amber-900 mb-3">
+                Possible Duplicates
+              </h2>
+              <ul className="space-y-3">
+                {duplicates.map((match) => (
+                  <li key={match.buyer.id} className="text-sm">
+                    <Link
+                      href={`/buyers/${match.buyer.id}`}
+                      className="font-medium text-amber-900 underline"
+                    >
+                      {match.buyer.fullName}
+                    </Link>
+                    <p className="text-amber-800">
+                      {formatPhone(match.buyer.phone)} • matches on{" "}
+                      {match.reasons.join(", ")}
+                    </p>
+                    {canEdit && (
+                      <Link
+                        href={`/buyers/merge?primary=${buyer.id}&secondary=${match.buyer.id}`}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Review &amp; merge
+                      </Link>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
 
-                    <div className="space-y-1">
-                      {Object.entries(entry.diff).map(([field, change]) => (
-                        <div key={field} className="text-sm">
-                          <span className="font-medium capitalize">
-                            {field}:
-                          </span>
-                          <div className="ml-2">
-                            <span className="text-red-600">
-                              {formatHistoryValue(change.old)}
-                            </span>
-                            <span className="mx-2">→</span>
-                            <span className="text-green-600">
-                              {formatHistoryValue(change.new)}
-                            </span>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-4">Assigned To</h2>
+            {permissions.canReassign ? (
+              <select
+                value={buyer.ownerId}
+                onChange={(e) => handleReassign(e.target.value)}
+                disabled={isReassigning}
+                className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+              >
+                {!userOptions.some((user) => user.id === buyer.ownerId) && (
+                  <option value={buyer.ownerId}>
+                    {getUserName(buyer.ownerId)}
+                  </option>
+                )}
+                {userOptions.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.name || user.email}
+                  </option>
                 ))}
-              </div>
+              </select>
+            ) : (
+              <p className="text-gray-700">{getUserName(buyer.ownerId)}</p>
             )}
           </div>
+
+          <BuyerTasks
+            buyerId={buyer.id}
+            canEdit={!!canEdit}
+            currentUserId={session?.user?.id}
+          />
+
+          <BuyerTimeline
+            buyerId={buyer.id}
+            canEdit={!!canEdit}
+            users={userOptions}
+            refreshKey={buyer.updatedAt}
+            activeHistoryId={asOf?.historyId}
+            onViewAsOf={viewAsOf}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,613 @@
+"use client";
+
+import { useState, useEffect, useCallback, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import { formatCurrency, formatPhone } from "../../../lib/utils";
+import { Buyer } from "../../../lib/db/schema";
+import type { BuyerListItem } from "../../../lib/buyers/query";
+import {
+  PIPELINE,
+  PIPELINE_STAGES,
+  BuyerStatus,
+  canTransition,
+  DROP_REASON_SUGGESTIONS,
+} from "../../../lib/pipeline";
+
+interface BoardColumn {
+  buyers: BuyerListItem[];
+  totalCount: number;
+}
+
+type Board = Record<BuyerStatus, BoardColumn>;
+
+// A drop onto a stage that needs extra details before the move is sent
+interface PendingMove {
+  buyer: BuyerListItem;
+  to: BuyerStatus;
+  visitDate: string;
+  dropReason: string;
+}
+
+// The API caps page size at 50; larger columns show a link to the table view
+const COLUMN_LIMIT = 50;
+
+const emptyBoard = (): Board =>
+  PIPELINE_STAGES.reduce((board, stage) => {
+    board[stage] = { buyers: [], totalCount: 0 };
+    return board;
+  }, {} as Board);
+
+const getStatusColor = (status: string) => {
+  const colors = {
+    New: "border-t-purple-400",
+    Qualified: "border-t-emerald-400",
+    Contacted: "border-t-amber-400",
+    Visited: "border-t-indigo-400",
+    Negotiation: "border-t-orange-400",
+    Converted: "border-t-green-500",
+    Dropped: "border-t-red-400",
+  };
+  return colors[status as keyof typeof colors] || "border-t-gray-300";
+};
+
+const formatBudget = (min?: number | null, max?: number | null) => {
+  if (!min && !max) return null;
+  if (min && max) return `${formatCurrency(min)} - ${formatCurrency(max)}`;
+  if (min) return `${formatCurrency(min)}+`;
+  return `Up to ${formatCurrency(max as number)}`;
+};
+
+function BuyersBoardContent() {
+  const { status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [board, setBoard] = useState<Board>(emptyBoard);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [dragging, setDragging] = useState<BuyerListItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<BuyerStatus | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [filters, setFilters] = useState({
+    city: searchParams.get("city") || "",
+    propertyType: searchParams.get("propertyType") || "",
+    timeline: searchParams.get("timeline") || "",
+  });
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchColumn = useCallback(
+    async (stage: BuyerStatus): Promise<BoardColumn> => {
+      const params = new URLSearchParams({
+        limit: COLUMN_LIMIT.toString(),
+        status: stage,
+        sortBy: "updatedAt",
+        sortOrder: "desc",
+      });
+
+      if (filters.city) params.append("city", filters.city);
+      if (filters.propertyType)
+        params.append("propertyType", filters.propertyType);
+      if (filters.timeline) params.append("timeline", filters.timeline);
+
+      const response = await fetch(`/api/buyers?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch buyers");
+      }
+
+      const data = await response.json();
+      return {
+        buyers: data.buyers,
+        totalCount: data.pagination.totalCount,
+      };
+    },
+    [filters]
+  );
+
+  const fetchBoard = useCallback(async () => {
+    setLoading(true);
+    try {
+      const columns = await Promise.all(PIPELINE_STAGES.map(fetchColumn));
+      const next = emptyBoard();
+      PIPELINE_STAGES.forEach((stage, index) => {
+        next[stage] = columns[index];
+      });
+      setBoard(next);
+    } catch (error) {
+      console.error("Error fetching board:", error);
+      setError("Failed to load the board. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchColumn]);
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      fetchBoard();
+    }
+  }, [status, fetchBoard]);
+
+  const handleFilterChange = (key: string, value: string) => {
+    setFilters({ ...filters, [key]: value });
+
+    const params = new URLSearchParams(searchParams.toString());
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    router.push(`/buyers/board?${params.toString()}`, { scroll: false });
+  };
+
+  // Move a card between columns locally; used for optimistic updates and rollback
+  const moveCard = (
+    buyer: BuyerListItem,
+    from: BuyerStatus,
+    to: BuyerListItem
+  ) => {
+    setBoard((current) => ({
+      ...current,
+      [from]: {
+        buyers: current[from].buyers.filter((b) => b.id !== buyer.id),
+        totalCount: current[from].totalCount - 1,
+      },
+      [to.status]: {
+        buyers: [to, ...current[to.status].buyers],
+        totalCount: current[to.status].totalCount + 1,
+      },
+    }));
+  };
+
+  const changeStatus = async (
+    buyer: BuyerListItem,
+    to: BuyerStatus,
+    extra: { visitDate?: string; dropReason?: string } = {}
+  ) => {
+    setError("");
+    const optimistic = { ...buyer, status: to };
+    moveCard(buyer, buyer.status, optimistic);
+
+    try {
+      const response = await fetch(`/api/buyers/${buyer.id}/status`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          status: to,
+          updatedAt: buyer.updatedAt,
+          ...(extra.visitDate && {
+            visitDate: new Date(extra.visitDate).toISOString(),
+          }),
+          ...(extra.dropReason && { dropReason: extra.dropReason }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+
+        if (response.status === 409) {
+          // Someone else changed the lead; reload so the board shows their version
+          setError(errorData.error);
+          await fetchBoard();
+          return;
+        }
+
+        throw new Error(
+          errorData.details?.[0]?.message ||
+            errorData.error ||
+            "Failed to change status"
+        );
+      }
+
+      const updatedBuyer: Buyer = await response.json();
+      setBoard((current) => ({
+        ...current,
+        [to]: {
+          ...current[to],
+          buyers: current[to].buyers.map((b) =>
+            b.id === updatedBuyer.id ? { ...b, ...updatedBuyer } : b
+          ),
+        },
+      }));
+    } catch (error) {
+      console.error("Error changing status:", error);
+      moveCard(optimistic, to, buyer);
+      setError(
+        error instanceof Error ? error.message : "Failed to change status"
+      );
+    }
+  };
+
+  const handleDrop = (to: BuyerStatus) => {
+    const buyer = dragging;
+    setDragging(null);
+    setDropTarget(null);
+
+    if (!buyer || buyer.status === to || !canTransition(buyer.status, to)) {
+      return;
+    }
+
+    // Ask for anything the target stage requires that the lead doesn't have yet
+    const missing = PIPELINE[to].requires.filter(({ field }) => !buyer[field]);
+    if (missing.length > 0) {
+      setPendingMove({
+        buyer,
+        to,
+        visitDate: new Date().toISOString().split("T")[0],
+        dropReason: "",
+      });
+      return;
+    }
+
+    changeStatus(buyer, to);
+  };
+
+  const confirmPendingMove = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingMove) return;
+
+    const { buyer, to, visitDate, dropReason } = pendingMove;
+    setPendingMove(null);
+    changeStatus(buyer, to, {
+      visitDate: to === "Visited" ? visitDate : undefined,
+      dropReason: to === "Dropped" ? dropReason : undefined,
+    });
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  if (status === "unauthenticated") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Redirecting to sign in...
+      </div>
+    );
+  }
+
+  const tableParams = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value)
+  );
+
+  return (
+    <>
+      <NavigationHeader currentPage="buyers" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-[100rem] mx-auto p-6">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800 mb-2">
+                Pipeline Board
+              </h1>
+              <p className="text-purple-600">
+                Drag your leads between stages to update their status
+              </p>
+            </div>
+            <div className="flex gap-4">
+              <Button asChild variant="outline">
+                <Link href={`/buyers?${tableParams.toString()}`}>
+                  Table View
+                </Link>
+              </Button>
+              <Button asChild className="shadow-lg">
+                <Link href="/buyers/new">Create New Lead</Link>
+              </Button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label
+                  htmlFor="city"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  City
+                </label>
+                <select
+                  id="city"
+                  value={filters.city}
+                  onChange={(e) => handleFilterChange("city", e.target.value)}
+                  className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+                >
+                  <option value="">All Cities</option>
+                  <option value="Chandigarh">Chandigarh</option>
+                  <option value="Mohali">Mohali</option>
+                  <option value="Zirakpur">Zirakpur</option>
+                  <option value="Panchkula">Panchkula</option>
+                  <option value="Other">Other</option>
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="propertyType"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Property Type
+                </label>
+                <select
+                  id="propertyType"
+                  value={filters.propertyType}
+                  onChange={(e) =>
+                    handleFilterChange("propertyType", e.target.value)
+                  }
+                  className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+                >
+                  <option value="">All Types</option>
+                  <option value="Apartment">Apartment</option>
+                  <option value="Villa">Villa</option>
+                  <option value="Plot">Plot</option>
+                  <option value="Office">Office</option>
+                  <option value="Retail">Retail</option>
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="timeline"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Timeline
+                </label>
+                <select
+                  id="timeline"
+                  value={filters.timeline}
+                  onChange={(e) =>
+                    handleFilterChange("timeline", e.target.value)
+                  }
+                  className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+                >
+                  <option value="">All Timelines</option>
+                  <option value="0-3m">0-3 months</option>
+                  <option value="3-6m">3-6 months</option>
+                  <option value=">6m">More than 6 months</option>
+                  <option value="Exploring">Just exploring</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md flex justify-between items-start">
+              <p className="text-red-800 text-sm">{error}</p>
+              <button
+                type="button"
+                onClick={() => setError("")}
+                className="text-red-400 hover:text-red-600"
+                aria-label="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading board...</p>
+            </div>
+          ) : (
+            <div className="flex gap-4 overflow-x-auto pb-4">
+              {PIPELINE_STAGES.map((stage) => {
+                const column = board[stage];
+                const isLegalTarget =
+                  dragging !== null &&
+                  dragging.status !== stage &&
+                  canTransition(dragging.status, stage);
+
+                return (
+                  <div
+                    key={stage}
+                    onDragOver={(e) => {
+                      if (!isLegalTarget) return;
+                      e.preventDefault();
+                      setDropTarget(stage);
+                    }}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(stage);
+                    }}
+                    className={`flex-shrink-0 w-72 rounded-xl border-t-4 ${getStatusColor(
+                      stage
+                    )} bg-white shadow-lg border border-purple-100 flex flex-col max-h-[70vh] transition-opacity ${
+                      dragging && !isLegalTarget && dragging.status !== stage
+                        ? "opacity-50"
+                        : ""
+                    } ${dropTarget === stage ? "ring-2 ring-purple-400" : ""}`}
+                  >
+                    <div className="flex justify-between items-center px-4 py-3 border-b border-gray-100">
+                      <h2 className="font-semibold text-gray-800">
+                        {PIPELINE[stage].label}
+                      </h2>
+                      <span className="text-xs font-medium text-gray-500 bg-gray-100 rounded-full px-2 py-0.5">
+                        {column.totalCount}
+                      </span>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                      {column.buyers.length === 0 && (
+                        <p className="text-sm text-gray-400 text-center py-4">
+                          No leads
+                        </p>
+                      )}
+
+                      {column.buyers.map((buyer) => {
+                        const canDrag =
+                          buyer.canEdit &&
+                          PIPELINE[buyer.status].next.length > 0;
+                        const budget = formatBudget(
+                          buyer.budgetMin,
+                          buyer.budgetMax
+                        );
+
+                        return (
+                          <div
+                            key={buyer.id}
+                            draggable={canDrag}
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = "move";
+                              setDragging(buyer);
+                            }}
+                            onDragEnd={() => {
+                              setDragging(null);
+                              setDropTarget(null);
+                            }}
+                            className={`rounded-lg border border-gray-200 p-3 text-sm bg-white hover:shadow-md ${
+                              canDrag ? "cursor-grab" : "cursor-default"
+                            } ${dragging?.id === buyer.id ? "opacity-40" : ""}`}
+                          >
+                            <Link
+                              href={`/buyers/${buyer.id}`}
+                              className="font-medium text-gray-900 hover:text-purple-700"
+                            >
+                              {buyer.fullName}
+                            </Link>
+                            <p className="text-gray-500">
+                              {formatPhone(buyer.phone)}
+                            </p>
+                            <p className="text-gray-500">
+                              {buyer.city} • {buyer.propertyType}
+                              {buyer.bhk && ` • ${buyer.bhk} BHK`}
+                            </p>
+                            {budget && (
+                              <p className="text-gray-700 mt-1">{budget}</p>
+                            )}
+                          </div>
+                        );
+                      })}
+
+                      {column.totalCount > column.buyers.length && (
+                        <Link
+                          href={`/buyers?${new URLSearchParams({
+                            ...Object.fromEntries(tableParams),
+                            status: stage,
+                          }).toString()}`}
+                          className="block text-center text-sm text-purple-600 hover:text-purple-800 py-2"
+                        >
+                          View all {column.totalCount} in table
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Details required by the target stage */}
+      {pendingMove && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+          <form
+            onSubmit={confirmPendingMove}
+            className="bg-white rounded-xl shadow-xl p-6 w-full max-w-md space-y-4"
+          >
+            <h2 className="text-lg font-semibold text-gray-800">
+              Move {pendingMove.buyer.fullName} to {pendingMove.to}
+            </h2>
+
+            {pendingMove.to === "Visited" && (
+              <div>
+                <label
+                  htmlFor="visitDate"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Visit Date *
+                </label>
+                <Input
+                  id="visitDate"
+                  type="date"
+                  value={pendingMove.visitDate}
+                  onChange={(e) =>
+                    setPendingMove({
+                      ...pendingMove,
+                      visitDate: e.target.value,
+                    })
+                  }
+                  required
+                />
+              </div>
+            )}
+
+            {pendingMove.to === "Dropped" && (
+              <div>
+                <label
+                  htmlFor="dropReason"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Drop Reason *
+                </label>
+                <Input
+                  id="dropReason"
+                  list="board-drop-reasons"
+                  value={pendingMove.dropReason}
+                  onChange={(e) =>
+                    setPendingMove({
+                      ...pendingMove,
+                      dropReason: e.target.value,
+                    })
+                  }
+                  maxLength={200}
+                  required
+                />
+                <datalist id="board-drop-reasons">
+                  {DROP_REASON_SUGGESTIONS.map((reason) => (
+                    <option key={reason} value={reason} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setPendingMove(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit">Move Lead</Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default function BuyersBoardPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+          <div className="text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+            <p className="mt-2 text-purple-600">Loading...</p>
+          </div>
+        </div>
+      }
+    >
+      <BuyersBoardContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,335 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Button } from "../../../components/ui/button";
+import { Textarea } from "../../../components/ui/textarea";
+import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import { formatDate, formatPhone } from "../../../lib/utils";
+import { Buyer } from "../../../lib/db/schema";
+import {
+  MERGEABLE_FIELDS,
+  combineNotes,
+  combineTags,
+} from "../../../lib/buyers/merge";
+import { NOTES_MAX_LENGTH } from "../../../lib/validations/buyer";
+import type { MergeableField } from "../../../lib/validations/buyer";
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+  fullName: "Full Name",
+  email: "Email",
+  phone: "Phone",
+  city: "City",
+  propertyType: "Property Type",
+  bhk: "BHK",
+  purpose: "Purpose",
+  budgetMin: "Budget Min",
+  budgetMax: "Budget Max",
+  timeline: "Timeline",
+  source: "Source",
+  status: "Status",
+};
+
+type Picks = Partial<Record<MergeableField, "primary" | "secondary">>;
+
+export default function MergeBuyersPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [primary, setPrimary] = useState<Buyer | null>(null);
+  const [secondary, setSecondary] = useState<Buyer | null>(null);
+  const [picks, setPicks] = useState<Picks>({});
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState("");
+
+  const primaryId = searchParams.get("primary");
+  const secondaryId = searchParams.get("secondary");
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status !== "authenticated" || !primaryId || !secondaryId) return;
+
+    const fetchBuyers = async () => {
+      setLoading(true);
+      setError("");
+
+      try {
+        const responses = await Promise.all(
+          [primaryId, secondaryId].map((id) => fetch(`/api/buyers/${id}`))
+        );
+
+        if (responses.some((response) => !response.ok)) {
+          throw new Error("One of the leads could not be loaded");
+        }
+
+        const [primaryData, secondaryData] = await Promise.all(
+          responses.map((response) => response.json())
+        );
+
+        setPrimary(primaryData.buyer);
+        setSecondary(secondaryData.buyer);
+        setPicks({});
+        setNotes(
+          combineNotes(primaryData.buyer.notes, secondaryData.buyer.notes) ||
+            ""
+        );
+      } catch (error: unknown) {
+        console.error("Error loading buyers for merge:", error);
+        setError(
+          error instanceof Error ? error.message : "Failed to load leads"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBuyers();
+  }, [status, primaryId, secondaryId]);
+
+  const swap = () => {
+    router.replace(
+      `/buyers/merge?primary=${secondaryId}&secondary=${primaryId}`
+    );
+  };
+
+  const notesTooLong = notes.length > NOTES_MAX_LENGTH;
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === "") return "—";
+    return String(value);
+  };
+
+  const handleMerge = async () => {
+    if (!primary || !secondary) return;
+
+    if (
+      !confirm(
+        `Merge "${secondary.fullName}" into "${primary.fullName}"? The second lead will be removed and its history moved to the first.`
+      )
+    ) {
+      return;
+    }
+
+    setIsMerging(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/buyers/merge", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          primaryId: primary.id,
+          secondaryId: secondary.id,
+          picks,
+          notes,
+          primaryUpdatedAt: primary.updatedAt,
+          secondaryUpdatedAt: secondary.updatedAt,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.details) {
+          setError(
+            result.details
+              .map((issue: { message: string }) => issue.message)
+              .join(", ")
+          );
+        } else {
+          setError(result.error || "Failed to merge leads");
+        }
+        return;
+      }
+
+      router.push(`/buyers/${primary.id}`);
+    } catch (error) {
+      console.error("Error merging buyers:", error);
+      setError("Failed to merge leads. Please try again.");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NavigationHeader currentPage="buyers" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-5xl mx-auto p-6">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800 mb-2">
+                Merge Leads
+              </h1>
+              <p className="text-purple-600">
+                Choose which value to keep for each field. Tags and notes from
+                both leads are combined.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={swap} disabled={loading}>
+                Swap
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href={primaryId ? `/buyers/${primaryId}` : "/buyers"}>
+                  Cancel
+                </Link>
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          {!primaryId || !secondaryId ? (
+            <p className="text-gray-600">Select two leads to merge.</p>
+          ) : loading ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading leads...</p>
+            </div>
+          ) : primary && secondary ? (
+            <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 space-y-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 w-40">Field</th>
+                    <th className="text-left p-2">
+                      Keep (primary)
+                      <p className="text-xs font-normal text-gray-500">
+                        Created {formatDate(new Date(primary.createdAt))}
+                      </p>
+                    </th>
+                    <th className="text-left p-2">
+                      Merge in (removed)
+                      <p className="text-xs font-normal text-gray-500">
+                        Created {formatDate(new Date(secondary.createdAt))}
+                      </p>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {MERGEABLE_FIELDS.map((field) => {
+                    const primaryValue =
+                      field === "phone"
+                        ? formatPhone(primary.phone)
+                        : formatValue(primary[field]);
+                    const secondaryValue =
+                      field === "phone"
+                        ? formatPhone(secondary.phone)
+                        : formatValue(secondary[field]);
+                    const differs = primary[field] !== secondary[field];
+                    const choice = picks[field] || "primary";
+
+                    return (
+                      <tr
+                        key={field}
+                        className={`border-b ${differs ? "bg-amber-50" : ""}`}
+                      >
+                        <td className="p-2 font-medium">
+                          {FIELD_LABELS[field]}
+                        </td>
+                        {(["primary", "secondary"] as const).map((side) => (
+                          <td key={side} className="p-2">
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="radio"
+                                name={field}
+                                checked={choice === side}
+                                disabled={!differs}
+                                onChange={() =>
+                                  setPicks({ ...picks, [field]: side })
+                                }
+                              />
+                              {side === "primary"
+                                ? primaryValue
+                                : secondaryValue}
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div>
+                <h3 className="text-sm font-medium text-purple-700 mb-2">
+                  Combined Tags
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {combineTags(primary.tags || [], secondary.tags || []).map(
+                    (tag) => (
+                      <span
+                        key={tag}
+                        className="inline-flex px-2 py-1 text-xs bg-purple-100 text-purple-800 rounded-full"
+                      >
+                        {tag}
+                      </span>
+                    )
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="notes"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Combined Notes
+                </label>
+                <Textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={6}
+                />
+                <p
+                  className={`text-xs mt-1 ${
+                    notesTooLong ? "text-red-600" : "text-gray-500"
+                  }`}
+                >
+                  {notes.length}/{NOTES_MAX_LENGTH} characters
+                  {notesTooLong &&
+                    ". Too long: shorten the combined notes to merge."}
+                </p>
+              </div>
+
+              <div className="flex justify-end pt-4 border-t border-purple-100">
+                <Button
+                  onClick={handleMerge}
+                  disabled={isMerging || notesTooLong}
+                >
+                  {isMerging ? "Merging..." : "Merge Leads"}
+                </Button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -13,6 +14,7 @@ import { Button } from "../../../components/ui/button";
 import { Input } from "../../../components/ui/input";
 import { Textarea } from "../../../components/ui/textarea";
 import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import type { DuplicateMatch } from "../../../lib/buyers/duplicates";
 
 export default function CreateBuyerPage() {
   const { data: session, status } = useSession();
@@ -20,6 +22,10 @@ export default function CreateBuyerPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [pendingBuyer, setPendingBuyer] = useState<CreateBuyerInput | null>(
+    null
+  );
 
   const {
     register,
@@ -71,8 +77,59 @@ export default function CreateBuyerPage() {
     setTags(tags.filter((tag) => tag !== tagToRemove));
   };
 
+  const createBuyer = async (
+    validatedData: CreateBuyerInput,
+    confirmDuplicate = false
+  ) => {
+    const response = await fetch("/api/buyers", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...validatedData, confirmDuplicate }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      if (response.status === 409 && errorData.duplicates) {
+        // Likely duplicate - let the user review before creating
+        setDuplicates(errorData.duplicates);
+        setPendingBuyer(validatedData);
+      } else if (errorData.details) {
+        // Handle Zod validation errors
+        errorData.details.forEach((error: any) => {
+          setError(error.path[0], {
+            message: error.message,
+          });
+        });
+      } else {
+        throw new Error(errorData.error || "Failed to create buyer");
+      }
+      return;
+    }
+
+    const buyer = await response.json();
+    router.push(`/buyers/${buyer.id}`);
+  };
+
+  const confirmCreate = async () => {
+    if (!pendingBuyer) return;
+
+    setIsSubmitting(true);
+    try {
+      await createBuyer(pendingBuyer, true);
+    } catch (error) {
+      console.error("Error creating buyer:", error);
+      alert("Failed to create buyer. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const onSubmit = async (data: any) => {
     setIsSubmitting(true);
+    setDuplicates([]);
+    setPendingBuyer(null);
 
     try {
       // Validate and transform data with Zod schema
@@ -89,31 +146,7 @@ export default function CreateBuyerPage() {
         // Required fields should not be converted to undefined - let them fail validation if empty
       });
 
-      const response = await fetch("/api/buyers", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(validatedData),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        if (errorData.details) {
-          // Handle Zod validation errors
-          errorData.details.forEach((error: any) => {
-            setError(error.path[0], {
-              message: error.message,
-            });
-          });
-        } else {
-          throw new Error(errorData.error || "Failed to create buyer");
-        }
-        return;
-      }
-
-      const buyer = await response.json();
-      router.push(`/buyers/${buyer.id}`);
+      await createBuyer(validatedData);
     } catch (error: any) {
       console.error("Error creating buyer:", error);
 
@@ -490,6 +523,41 @@ export default function CreateBuyerPage() {
               )}
             </div>
 
+            {/* Duplicate Warning */}
+            {duplicates.length > 0 && (
+              <div
+                className="bg-amber-50 border border-amber-200 rounded-md p-4"
+                role="alert"
+              >
+                <p className="font-medium text-amber-900 mb-2">
+                  This lead looks like an existing buyer
+                </p>
+                <ul className="space-y-1 text-sm text-amber-800 mb-4">
+                  {duplicates.map((match) => (
+                    <li key={match.buyer.id}>
+                      <Link
+                        href={`/buyers/${match.buyer.id}`}
+                        className="font-medium underline"
+                      >
+                        {match.buyer.fullName}
+                      </Link>{" "}
+                      ({match.buyer.phone}
+                      {match.buyer.email && `, ${match.buyer.email}`}) —
+                      matches on {match.reasons.join(", ")}
+                    </li>
+                  ))}
+                </ul>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={confirmCreate}
+                  disabled={isSubmitting}
+                >
+                  Create anyway
+                </Button>
+              </div>
+            )}
+
             {/* Submit Button */}
             <div className="flex justify-end space-x-4 pt-6 border-t border-purple-100">
               <Button
@@ -7,50 +7,126 @@ import Link from "next/link";
 import { Button } from "../../components/ui/button";
 import { Input } from "../../components/ui/input";
 import { formatCurrency, formatDate, formatPhone } from "../../lib/utils";
-import { Buyer } from "../../lib/db/schema";
-import { CsvManager } from "../../components/csv/CsvManager";
+import { ImportExportManager } from "../../components/import-export/ImportExportManager";
 import { NavigationHeader } from "../../components/auth/NavigationHeader";
+import { BulkActions } from "../../components/buyers/BulkActions";
+import { SearchSnippet } from "../../components/buyers/SearchSnippet";
+import {
+  SavedViews,
+  type SavedViewItem,
+} from "../../components/buyers/SavedViews";
+import type { BuyerListItem } from "../../lib/buyers/query";
 
 interface BuyersResponse {
-  buyers: Buyer[];
+  buyers: BuyerListItem[];
   pagination: {
-    page: number;
     limit: number;
-    totalCount: number;
-    totalPages: number;
+    // Only sent with the first page
+    totalCount?: number;
     hasNextPage: boolean;
     hasPrevPage: boolean;
+    nextCursor: string | null;
+    prevCursor: string | null;
   };
 }
 
+// Filters kept in the URL besides search, sort and paging. List filters are
+// comma-separated (`bhk=2,3`), dates are YYYY-MM-DD.
+const FILTER_KEYS = [
+  "city",
+  "propertyType",
+  "status",
+  "timeline",
+  "bhk",
+  "purpose",
+  "source",
+  "tags",
+  "budgetMin",
+  "budgetMax",
+  "createdFrom",
+  "createdTo",
+  "updatedFrom",
+  "updatedTo",
+] as const;
+
+type FilterKey = (typeof FILTER_KEYS)[number];
+
+const MULTI_SELECT_FILTERS: {
+  key: FilterKey;
+  label: string;
+  options: { value: string; label: string }[];
+}[] = [
+  {
+    key: "bhk",
+    label: "BHK",
+    options: ["Studio", "1", "2", "3", "4"].map((value) => ({
+      value,
+      label: value,
+    })),
+  },
+  {
+    key: "purpose",
+    label: "Purpose",
+    options: [
+      { value: "Buy", label: "Buy" },
+      { value: "Rent", label: "Rent" },
+    ],
+  },
+  {
+    key: "source",
+    label: "Source",
+    options: ["Website", "Referral", "Walk-in", "Call", "Other"].map(
+      (value) => ({ value, label: value })
+    ),
+  },
+];
+
+const ADVANCED_FILTER_KEYS = FILTER_KEYS.slice(4);
+
+function readFilters(
+  values: Partial<Record<string, string | null>>
+): Record<FilterKey, string> {
+  return Object.fromEntries(
+    FILTER_KEYS.map((key) => [key, values[key] || ""])
+  ) as Record<FilterKey, string>;
+}
+
+function splitList(value: string): string[] {
+  return value ? value.split(",") : [];
+}
+
 export default function BuyersPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const searchParams = useSearchParams();
 
-  const [buyers, setBuyers] = useState<Buyer[]>([]);
+  const [buyers, setBuyers] = useState<BuyerListItem[]>([]);
   const [pagination, setPagination] = useState({
-    page: 1,
     limit: 10,
     totalCount: 0,
-    totalPages: 0,
     hasNextPage: false,
     hasPrevPage: false,
+    nextCursor: null as string | null,
+    prevCursor: null as string | null,
   });
   const [loading, setLoading] = useState(true);
+  // Selection survives paging so bulk actions can span several pages
+  const [selected, setSelected] = useState<BuyerListItem[]>([]);
   const [search, setSearch] = useState(searchParams.get("search") || "");
-  const [filters, setFilters] = useState({
-    city: searchParams.get("city") || "",
-    propertyType: searchParams.get("propertyType") || "",
-    status: searchParams.get("status") || "",
-    timeline: searchParams.get("timeline") || "",
-  });
+  const [filters, setFilters] = useState(() =>
+    readFilters(Object.fromEntries(searchParams.entries()))
+  );
+  const [showMoreFilters, setShowMoreFilters] = useState(() =>
+    ADVANCED_FILTER_KEYS.some((key) => searchParams.get(key))
+  );
 
   // Debounced search
   const [debouncedSearch, setDebouncedSearch] = useState(search);
 
-  const currentPage = parseInt(searchParams.get("page") || "1");
-  const sortBy = searchParams.get("sortBy") || "updatedAt";
+  const activeViewId = searchParams.get("view");
+  const cursor = searchParams.get("cursor") || "";
+  const sortBy =
+    searchParams.get("sortBy") || (debouncedSearch ? "relevance" : "updatedAt");
   const sortOrder = searchParams.get("sortOrder") || "desc";
 
   // Handle authentication redirect in useEffect to avoid render-time state updates
@@ -68,23 +144,26 @@ export default function BuyersPage() {
     return () => clearTimeout(timer);
   }, [search]);
 
+  // What the list is fetched with, "Save current view" stores and the
+  // export link is built from
+  const listFilters: Record<string, string> = {
+    ...(debouncedSearch && { search: debouncedSearch }),
+    ...Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value)
+    ),
+    sortBy,
+    sortOrder,
+  };
+
   const fetchBuyers = async () => {
     setLoading(true);
     try {
       const params = new URLSearchParams({
-        page: currentPage.toString(),
+        ...listFilters,
+        ...(cursor && { cursor }),
         limit: "10",
-        sortBy,
-        sortOrder,
       });
 
-      if (debouncedSearch) params.append("search", debouncedSearch);
-      if (filters.city) params.append("city", filters.city);
-      if (filters.propertyType)
-        params.append("propertyType", filters.propertyType);
-      if (filters.status) params.append("status", filters.status);
-      if (filters.timeline) params.append("timeline", filters.timeline);
-
       const response = await fetch(`/api/buyers?${params.toString()}`);
 
       if (!response.ok) {
@@ -93,7 +172,11 @@ export default function BuyersPage() {
 
       const data: BuyersResponse = await response.json();
       setBuyers(data.buyers);
-      setPagination(data.pagination);
+      // Later pages skip the count, so keep the one from the first page
+      setPagination((current) => ({
+        ...data.pagination,
+        totalCount: data.pagination.totalCount ?? current.totalCount,
+      }));
     } catch (error) {
       console.error("Error fetching buyers:", error);
       alert("Failed to fetch buyers. Please try again.");
@@ -107,7 +190,7 @@ export default function BuyersPage() {
     if (status === "authenticated") {
       fetchBuyers();
     }
-  }, [currentPage, debouncedSearch, filters, sortBy, sortOrder, status]);
+  }, [cursor, debouncedSearch, filters, sortBy, sortOrder, status]);
 
   // Show loading while checking authentication
   if (status === "loading") {
@@ -138,25 +221,62 @@ export default function BuyersPage() {
       }
     });
 
-    // Reset to page 1 when filters change
-    if (Object.keys(newParams).some((key) => key !== "page")) {
-      params.set("page", "1");
+    // Back to the first page when filters change; the list no longer
+    // matches the saved view it was opened from either
+    if (Object.keys(newParams).some((key) => key !== "cursor")) {
+      params.delete("cursor");
+      params.delete("view");
     }
 
     router.push(`/buyers?${params.toString()}`, { scroll: false });
   };
 
-  const handleFilterChange = (key: string, value: string) => {
+  const handleFilterChange = (key: FilterKey, value: string) => {
+    if (filters[key] === value) return;
     const newFilters = { ...filters, [key]: value };
     setFilters(newFilters);
     updateURL({ [key]: value });
   };
 
+  const toggleListFilter = (key: FilterKey, value: string) => {
+    const values = splitList(filters[key]);
+    handleFilterChange(
+      key,
+      (values.includes(value)
+        ? values.filter((v) => v !== value)
+        : [...values, value]
+      ).join(",")
+    );
+  };
+
+  // Text inputs apply on blur or Enter rather than on every keystroke
+  const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  const clearFilters = () => {
+    setSearch("");
+    setDebouncedSearch("");
+    setFilters(readFilters({}));
+    router.push("/buyers", { scroll: false });
+  };
+
   const handleSearchChange = (value: string) => {
     setSearch(value);
     updateURL({ search: value });
   };
 
+  const applyView = (view: SavedViewItem) => {
+    setSearch(view.filters.search || "");
+    setDebouncedSearch(view.filters.search || "");
+    setFilters(readFilters(view.filters));
+    setShowMoreFilters(ADVANCED_FILTER_KEYS.some((key) => view.filters[key]));
+    router.push(
+      `/buyers?${new URLSearchParams({ ...view.filters, view: view.id })}`,
+      { scroll: false }
+    );
+  };
+
   const handleSort = (column: string) => {
     const newSortOrder =
       sortBy === column && sortOrder === "asc" ? "desc" : "asc";
@@ -176,6 +296,39 @@ export default function BuyersPage() {
     return "-";
   };
 
+  const isSelected = (id: string) => selected.some((b) => b.id === id);
+
+  const toggleSelected = (buyer: BuyerListItem) => {
+    setSelected((current) =>
+      current.some((b) => b.id === buyer.id)
+        ? current.filter((b) => b.id !== buyer.id)
+        : [...current, buyer]
+    );
+  };
+
+  const allOnPageSelected =
+    buyers.length > 0 && buyers.every((buyer) => isSelected(buyer.id));
+
+  const togglePageSelected = () => {
+    setSelected((current) =>
+      allOnPageSelected
+        ? current.filter((b) => !buyers.some((buyer) => buyer.id === b.id))
+        : [
+            ...current,
+            ...buyers.filter((buyer) => !current.some((b) => b.id === buyer.id)),
+          ]
+    );
+  };
+
+  const handleBulkComplete = (deletedIds: string[]) => {
+    if (deletedIds.length > 0) {
+      setSelected((current) =>
+        current.filter((b) => !deletedIds.includes(b.id))
+      );
+    }
+    fetchBuyers();
+  };
+
   const getStatusColor = (status: string) => {
     const colors = {
       New: "bg-purple-100 text-purple-800",
@@ -205,21 +358,30 @@ export default function BuyersPage() {
               </p>
             </div>
             <div className="flex gap-4">
-              <Button asChild className="shadow-lg">
-                <Link href="/buyers/new">Create New Lead</Link>
-              </Button>
-              <CsvManager
-                currentFilters={
-                  new URLSearchParams({
-                    ...(debouncedSearch && { search: debouncedSearch }),
+              <Button asChild variant="outline">
+                <Link
+                  href={`/buyers/board?${new URLSearchParams({
                     ...(filters.city && { city: filters.city }),
                     ...(filters.propertyType && {
                       propertyType: filters.propertyType,
                     }),
-                    ...(filters.status && { status: filters.status }),
                     ...(filters.timeline && { timeline: filters.timeline }),
-                    sortBy,
-                    sortOrder,
+                  }).toString()}`}
+                >
+                  Board View
+                </Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/buyers/trash">Trash</Link>
+              </Button>
+              <Button asChild className="shadow-lg">
+                <Link href="/buyers/new">Create New Lead</Link>
+              </Button>
+              <ImportExportManager
+                currentFilters={
+                  new URLSearchParams({
+                    ...listFilters,
+                    ...(activeViewId && { view: activeViewId }),
                   })
                 }
                 onImportComplete={fetchBuyers}
@@ -227,334 +389,475 @@ export default function BuyersPage() {
             </div>
           </div>
 
-          {/* Search and Filters */}
-          <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 mb-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
-              {/* Search */}
-              <div className="lg:col-span-2">
-                <label
-                  htmlFor="search"
-                  className="block text-sm font-medium text-purple-700 mb-2"
-                >
-                  Search
-                </label>
-                <Input
-                  id="search"
-                  placeholder="Search by name, phone, or email..."
-                  value={search}
-                  onChange={(e) => handleSearchChange(e.target.value)}
-                  className="border-purple-200 focus:border-purple-400 focus:ring-purple-200"
-                />
-              </div>
-
-              {/* City Filter */}
-              <div>
-                <label
-                  htmlFor="city"
-                  className="block text-sm font-medium text-purple-700 mb-2"
-                >
-                  City
-                </label>
-                <select
-                  id="city"
-                  value={filters.city}
-                  onChange={(e) => handleFilterChange("city", e.target.value)}
-                  className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
-                >
-                  <option value="">All Cities</option>
-                  <option value="Chandigarh">Chandigarh</option>
-                  <option value="Mohali">Mohali</option>
-                  <option value="Zirakpur">Zirakpur</option>
-                  <option value="Panchkula">Panchkula</option>
-                  <option value="Other">Other</option>
-                </select>
-              </div>
-
-              {/* Property Type Filter */}
-              <div>
-                <label
-                  htmlFor="propertyType"
-                  className="block text-sm font-medium text-purple-700 mb-2"
-                >
-                  Property Type
-                </label>
-                <select
-                  id="propertyType"
-                  value={filters.propertyType}
-                  onChange={(e) =>
-                    handleFilterChange("propertyType", e.target.value)
-                  }
-                  className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
-                >
-                  <option value="">All Types</option>
-                  <option value="Apartment">Apartment</option>
-                  <option value="Villa">Villa</option>
-                  <option value="Plot">Plot</option>
-                  <option value="Office">Office</option>
-                  <option value="Retail">Retail</option>
-                </select>
-              </div>
+          <div className="flex flex-col lg:flex-row gap-6">
+            <aside className="lg:w-64 shrink-0">
+              <SavedViews
+                activeViewId={activeViewId}
+                currentFilters={listFilters}
+                onApply={applyView}
+              />
+            </aside>
+
+            <div className="flex-1 min-w-0">
+              {/* Search and Filters */}
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 mb-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
+                  {/* Search */}
+                  <div className="lg:col-span-2">
+                    <label
+                      htmlFor="search"
+                      className="block text-sm font-medium text-purple-700 mb-2"
+                    >
+                      Search
+                    </label>
+                    <Input
+                      id="search"
+                      placeholder="Search name, notes, tags, email or phone digits..."
+                      value={search}
+                      onChange={(e) => handleSearchChange(e.target.value)}
+                      className="border-purple-200 focus:border-purple-400 focus:ring-purple-200"
+                    />
+                  </div>
 
-              {/* Status Filter */}
-              <div>
-                <label
-                  htmlFor="status"
-                  className="block text-sm font-medium text-purple-700 mb-2"
-                >
-                  Status
-                </label>
-                <select
-                  id="status"
-                  value={filters.status}
-                  onChange={(e) => handleFilterChange("status", e.target.value)}
-                  className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
-                >
-                  <option value="">All Statuses</option>
-                  <option value="New">New</option>
-                  <option value="Qualified">Qualified</option>
-                  <option value="Contacted">Contacted</option>
-                  <option value="Visited">Visited</option>
-                  <option value="Negotiation">Negotiation</option>
-                  <option value="Converted">Converted</option>
-                  <option value="Dropped">Dropped</option>
-                </select>
-              </div>
+                  {/* City Filter */}
+                  <div>
+                    <label
+                      htmlFor="city"
+                      className="block text-sm font-medium text-purple-700 mb-2"
+                    >
+                      City
+                    </label>
+                    <select
+                      id="city"
+                      value={filters.city}
+                      onChange={(e) => handleFilterChange("city", e.target.value)}
+                      className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+                    >
+                      <option value="">All Cities</option>
+                      <option value="Chandigarh">Chandigarh</option>
+                      <option value="Mohali">Mohali</option>
+                      <option value="Zirakpur">Zirakpur</option>
+                      <option value="Panchkula">Panchkula</option>
+                      <option value="Other">Other</option>
+                    </select>
+                  </div>
 
-              {/* Timeline Filter */}
-              <div>
-                <label
-                  htmlFor="timeline"
-                  className="block text-sm font-medium text-purple-700 mb-2"
-                >
-                  Timeline
-                </label>
-                <select
-                  id="timeline"
-                  value={filters.timeline}
-                  onChange={(e) =>
-                    handleFilterChange("timeline", e.target.value)
-                  }
-                  className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
-                >
-                  <option value="">All Timelines</option>
-                  <option value="0-3m">0-3 months</option>
-                  <option value="3-6m">3-6 months</option>
-                  <option value=">6m">More than 6 months</option>
-                  <option value="Exploring">Just exploring</option>
-                </select>
-              </div>
-            </div>
-          </div>
+                  {/* Property Type Filter */}
+                  <div>
+                    <label
+                      htmlFor="propertyType"
+                      className="block text-sm font-medium text-purple-700 mb-2"
+                    >
+                      Property Type
+                    </label>
+                    <select
+                      id="propertyType"
+                      value={filters.propertyType}
+                      onChange={(e) =>
+                        handleFilterChange("propertyType", e.target.value)
+                      }
+                      className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+                    >
+                      <option value="">All Types</option>
+                      <option value="Apartment">Apartment</option>
+                      <option value="Villa">Villa</option>
+                      <option value="Plot">Plot</option>
+                      <option value="Office">Office</option>
+                      <option value="Retail">Retail</option>
+                    </select>
+                  </div>
 
-          {/* Results */}
-          <div className="bg-white rounded-xl shadow-lg border border-purple-100">
-            {loading ? (
-              <div className="p-8 text-center">
-                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
-                <p className="mt-2 text-purple-600">Loading buyers...</p>
-              </div>
-            ) : buyers.length === 0 ? (
-              <div className="p-8 text-center">
-                <p className="text-gray-500">No buyers found.</p>
-                <Link href="/buyers/new">
-                  <Button className="mt-4">Create your first lead</Button>
-                </Link>
-              </div>
-            ) : (
-              <>
-                {/* Table */}
-                <div className="overflow-x-auto">
-                  <table className="w-full">
-                    <thead className="bg-gradient-to-r from-purple-50 to-indigo-50">
-                      <tr>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort("fullName")}
-                        >
-                          Name {getSortIcon("fullName")}
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort("phone")}
-                        >
-                          Phone {getSortIcon("phone")}
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort("city")}
-                        >
-                          City {getSortIcon("city")}
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort("propertyType")}
-                        >
-                          Property Type {getSortIcon("propertyType")}
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Budget
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Timeline
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort("status")}
-                        >
-                          Status {getSortIcon("status")}
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort("updatedAt")}
-                        >
-                          Updated {getSortIcon("updatedAt")}
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Actions
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      {buyers.map((buyer) => (
-                        <tr key={buyer.id} className="hover:bg-gray-50">
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">
-                              {buyer.fullName}
-                            </div>
-                            {buyer.email && (
-                              <div className="text-sm text-gray-500">
-                                {buyer.email}
-                              </div>
-                            )}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {formatPhone(buyer.phone)}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {buyer.city}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {buyer.propertyType}
-                            {buyer.bhk && ` (${buyer.bhk} BHK)`}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {formatBudget(buyer.budgetMin, buyer.budgetMax)}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {buyer.timeline}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <span
-                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(
-                                buyer.status
-                              )}`}
-                            >
-                              {buyer.status}
-                            </span>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {formatDate(new Date(buyer.updatedAt))}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                            <Link
-                              href={`/buyers/${buyer.id}`}
-                              className="text-blue-600 hover:text-blue-900"
-                            >
-                              View / Edit
-                            </Link>
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
+                  {/* Status Filter */}
+                  <div>
+                    <label
+                      htmlFor="status"
+                      className="block text-sm font-medium text-purple-700 mb-2"
+                    >
+                      Status
+                    </label>
+                    <select
+                      id="status"
+                      value={filters.status}
+                      onChange={(e) => handleFilterChange("status", e.target.value)}
+                      className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+                    >
+                      <option value="">All Statuses</option>
+                      <option value="New">New</option>
+                      <option value="Qualified">Qualified</option>
+                      <option value="Contacted">Contacted</option>
+                      <option value="Visited">Visited</option>
+                      <option value="Negotiation">Negotiation</option>
+                      <option value="Converted">Converted</option>
+                      <option value="Dropped">Dropped</option>
+                    </select>
+                  </div>
 
-                {/* Pagination */}
-                <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
-                  <div className="flex-1 flex justify-between sm:hidden">
-                    <Button
-                      variant="outline"
-                      onClick={() =>
-                        updateURL({ page: (currentPage - 1).toString() })
-                      }
-                      disabled={!pagination.hasPrevPage}
+                  {/* Timeline Filter */}
+                  <div>
+                    <label
+                      htmlFor="timeline"
+                      className="block text-sm font-medium text-purple-700 mb-2"
                     >
-                      Previous
-                    </Button>
-                    <Button
-                      variant="outline"
-                      onClick={() =>
-                        updateURL({ page: (currentPage + 1).toString() })
+                      Timeline
+                    </label>
+                    <select
+                      id="timeline"
+                      value={filters.timeline}
+                      onChange={(e) =>
+                        handleFilterChange("timeline", e.target.value)
                       }
-                      disabled={!pagination.hasNextPage}
+                      className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
                     >
-                      Next
-                    </Button>
+                      <option value="">All Timelines</option>
+                      <option value="0-3m">0-3 months</option>
+                      <option value="3-6m">3-6 months</option>
+                      <option value=">6m">More than 6 months</option>
+                      <option value="Exploring">Just exploring</option>
+                    </select>
                   </div>
-                  <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
+                </div>
+
+                <div className="flex justify-between items-center mt-4">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowMoreFilters(!showMoreFilters)}
+                  >
+                    {showMoreFilters ? "Fewer filters ▲" : "More filters ▼"}
+                  </Button>
+                  {(debouncedSearch ||
+                    Object.values(filters).some((value) => value)) && (
+                    <Button variant="ghost" size="sm" onClick={clearFilters}>
+                      Clear all filters
+                    </Button>
+                  )}
+                </div>
+
+                {showMoreFilters && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4 pt-4 border-t border-purple-100">
+                    {MULTI_SELECT_FILTERS.map(({ key, label, options }) => (
+                      <div key={key}>
+                        <p className="block text-sm font-medium text-purple-700 mb-2">
+                          {label}
+                        </p>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1">
+                          {options.map((option) => (
+                            <label
+                              key={option.value}
+                              className="flex items-center gap-1.5 text-sm text-gray-700"
+                            >
+                              <input
+                                type="checkbox"
+                                checked={splitList(filters[key]).includes(
+                                  option.value
+                                )}
+                                onChange={() =>
+                                  toggleListFilter(key, option.value)
+                                }
+                              />
+                              {option.label}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                    {/* Tags Filter */}
+                    <div>
+                      <label
+                        htmlFor="tags"
+                        className="block text-sm font-medium text-purple-700 mb-2"
+                      >
+                        Tags (any of)
+                      </label>
+                      <Input
+                        id="tags"
+                        key={filters.tags}
+                        defaultValue={splitList(filters.tags).join(", ")}
+                        placeholder="e.g. urgent, investor"
+                        onBlur={(e) =>
+                          handleFilterChange(
+                            "tags",
+                            e.target.value
+                              .split(",")
+                              .map((tag) => tag.trim())
+                              .filter(Boolean)
+                              .join(",")
+                          )
+                        }
+                        onKeyDown={commitOnEnter}
+                        className="border-purple-200 focus:border-purple-400 focus:ring-purple-200"
+                      />
+                    </div>
+
+                    {/* Budget Filter */}
                     <div>
+                      <p className="block text-sm font-medium text-purple-700 mb-2">
+                        Budget (₹)
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          key={`min-${filters.budgetMin}`}
+                          defaultValue={filters.budgetMin}
+                          placeholder="Min"
+                          aria-label="Minimum budget"
+                          onBlur={(e) =>
+                            handleFilterChange("budgetMin", e.target.value)
+                          }
+                          onKeyDown={commitOnEnter}
+                          className="border-purple-200 focus:border-purple-400 focus:ring-purple-200"
+                        />
+                        <span className="text-gray-400">–</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          key={`max-${filters.budgetMax}`}
+                          defaultValue={filters.budgetMax}
+                          placeholder="Max"
+                          aria-label="Maximum budget"
+                          onBlur={(e) =>
+                            handleFilterChange("budgetMax", e.target.value)
+                          }
+                          onKeyDown={commitOnEnter}
+                          className="border-purple-200 focus:border-purple-400 focus:ring-purple-200"
+                        />
+                      </div>
+                    </div>
+
+                    {(
+                      [
+                        ["Created", "createdFrom", "createdTo"],
+                        ["Last Updated", "updatedFrom", "updatedTo"],
+                      ] as const
+                    ).map(([label, fromKey, toKey]) => (
+                      <div key={fromKey}>
+                        <p className="block text-sm font-medium text-purple-700 mb-2">
+                          {label}
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="date"
+                            value={filters[fromKey]}
+                            max={filters[toKey] || undefined}
+                            aria-label={`${label} from`}
+                            onChange={(e) =>
+                              handleFilterChange(fromKey, e.target.value)
+                            }
+                            className="border-purple-200 focus:border-purple-400 focus:ring-purple-200"
+                          />
+                          <span className="text-gray-400">–</span>
+                          <Input
+                            type="date"
+                            value={filters[toKey]}
+                            min={filters[fromKey] || undefined}
+                            aria-label={`${label} to`}
+                            onChange={(e) =>
+                              handleFilterChange(toKey, e.target.value)
+                            }
+                            className="border-purple-200 focus:border-purple-400 focus:ring-purple-200"
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {selected.length > 0 && (
+                <BulkActions
+                  selected={selected}
+                  onClear={() => setSelected([])}
+                  onComplete={handleBulkComplete}
+                />
+              )}
+
+              {/* Results */}
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100">
+                {loading ? (
+                  <div className="p-8 text-center">
+                    <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+                    <p className="mt-2 text-purple-600">Loading buyers...</p>
+                  </div>
+                ) : buyers.length === 0 ? (
+                  <div className="p-8 text-center">
+                    <p className="text-gray-500">No buyers found.</p>
+                    <Link href="/buyers/new">
+                      <Button className="mt-4">Create your first lead</Button>
+                    </Link>
+                  </div>
+                ) : (
+                  <>
+                    {/* Table */}
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-gradient-to-r from-purple-50 to-indigo-50">
+                          <tr>
+                            <th className="pl-6 py-3 text-left">
+                              <input
+                                type="checkbox"
+                                checked={allOnPageSelected}
+                                onChange={togglePageSelected}
+                                aria-label="Select all buyers on this page"
+                              />
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                              onClick={() => handleSort("fullName")}
+                            >
+                              Name {getSortIcon("fullName")}
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                              onClick={() => handleSort("phone")}
+                            >
+                              Phone {getSortIcon("phone")}
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                              onClick={() => handleSort("city")}
+                            >
+                              City {getSortIcon("city")}
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                              onClick={() => handleSort("propertyType")}
+                            >
+                              Property Type {getSortIcon("propertyType")}
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Budget
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Timeline
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                              onClick={() => handleSort("status")}
+                            >
+                              Status {getSortIcon("status")}
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                              onClick={() => handleSort("updatedAt")}
+                            >
+                              Updated {getSortIcon("updatedAt")}
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                              onClick={() => handleSort("lastContactedAt")}
+                            >
+                              Last Contacted {getSortIcon("lastContactedAt")}
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Actions
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {buyers.map((buyer) => (
+                            <tr
+                              key={buyer.id}
+                              className={
+                                isSelected(buyer.id)
+                                  ? "bg-purple-50"
+                                  : "hover:bg-gray-50"
+                              }
+                            >
+                              <td className="pl-6 py-4">
+                                <input
+                                  type="checkbox"
+                                  checked={isSelected(buyer.id)}
+                                  onChange={() => toggleSelected(buyer)}
+                                  aria-label={`Select ${buyer.fullName}`}
+                                />
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm font-medium text-gray-900">
+                                  {buyer.fullName}
+                                </div>
+                                {buyer.email && (
+                                  <div className="text-sm text-gray-500">
+                                    {buyer.email}
+                                  </div>
+                                )}
+                                {buyer.searchSnippet && (
+                                  <div className="text-xs text-gray-500 mt-1 max-w-xs whitespace-normal">
+                                    <SearchSnippet snippet={buyer.searchSnippet} />
+                                  </div>
+                                )}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {formatPhone(buyer.phone)}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {buyer.city}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {buyer.propertyType}
+                                {buyer.bhk && ` (${buyer.bhk} BHK)`}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {formatBudget(buyer.budgetMin, buyer.budgetMax)}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {buyer.timeline}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <span
+                                  className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(
+                                    buyer.status
+                                  )}`}
+                                >
+                                  {buyer.status}
+                                </span>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {formatDate(new Date(buyer.updatedAt))}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {buyer.lastContactedAt
+                                  ? formatDate(new Date(buyer.lastContactedAt))
+                                  : "Never"}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                <Link
+                                  href={`/buyers/${buyer.id}`}
+                                  className="text-blue-600 hover:text-blue-900"
+                                >
+                                  View / Edit
+                                </Link>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {/* Pagination */}
+                    <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
                       <p className="text-sm text-gray-700">
-                        Showing{" "}
-                        <span className="font-medium">
-                          {(currentPage - 1) * pagination.limit + 1}
-                        </span>{" "}
-                        to{" "}
-                        <span className="font-medium">
-                          {Math.min(
-                            currentPage * pagination.limit,
-                            pagination.totalCount
-                          )}
-                        </span>{" "}
-                        of{" "}
                         <span className="font-medium">
                           {pagination.totalCount}
                         </span>{" "}
                         results
                       </p>
-                    </div>
-                    <div>
                       <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
                         <Button
                           variant="outline"
                           onClick={() =>
-                            updateURL({ page: (currentPage - 1).toString() })
+                            updateURL({ cursor: pagination.prevCursor || "" })
                           }
                           disabled={!pagination.hasPrevPage}
                           className="rounded-r-none"
                         >
                           Previous
                         </Button>
-
-                        {/* Page numbers */}
-                        {Array.from(
-                          { length: Math.min(5, pagination.totalPages) },
-                          (_, i) => {
-                            const pageNum = Math.max(1, currentPage - 2) + i;
-                            if (pageNum > pagination.totalPages) return null;
-
-                            return (
-                              <Button
-                                key={pageNum}
-                                variant={
-                                  pageNum === currentPage
-                                    ? "default"
-                                    : "outline"
-                                }
-                                onClick={() =>
-                                  updateURL({ page: pageNum.toString() })
-                                }
-                                className="rounded-none"
-                              >
-                                {pageNum}
-                              </Button>
-                            );
-                          }
-                        )}
-
                         <Button
                           variant="outline"
                           onClick={() =>
-                            updateURL({ page: (currentPage + 1).toString() })
+                            updateURL({ cursor: pagination.nextCursor || "" })
                           }
                           disabled={!pagination.hasNextPage}
                           className="rounded-l-none"
@@ -563,10 +866,10 @@ export default function BuyersPage() {
                         </Button>
                       </nav>
                     </div>
-                  </div>
-                </div>
-              </>
-            )}
+                  </>
+                )}
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Button } from "../../../components/ui/button";
+import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import { formatDate, formatPhone } from "../../../lib/utils";
+import type { Buyer } from "../../../lib/db/schema";
+
+// A row of GET /api/buyers/trash
+interface TrashedBuyer
+  extends Pick<
+    Buyer,
+    "id" | "fullName" | "phone" | "email" | "city" | "status" | "ownerId"
+  > {
+  deletedAt: string;
+  deletedByName: string | null;
+  purgeAt: string;
+  canRestore: boolean;
+}
+
+interface TrashResponse {
+  buyers: TrashedBuyer[];
+  retentionDays: number;
+  canPurge: boolean;
+  pagination: {
+    page: number;
+    totalCount: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export default function TrashPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [data, setData] = useState<TrashResponse | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/buyers/trash?page=${page}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch trash");
+      }
+      setData(await response.json());
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      setError("Failed to load the trash. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      fetchTrash();
+    }
+  }, [status, fetchTrash]);
+
+  const handleRestore = async (buyer: TrashedBuyer) => {
+    setBusyId(buyer.id);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/buyers/trash/${buyer.id}`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to restore buyer");
+      }
+
+      await fetchTrash();
+    } catch (error) {
+      console.error("Error restoring buyer:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to restore buyer"
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (buyer: TrashedBuyer) => {
+    if (
+      !confirm(
+        `Permanently delete "${buyer.fullName}" with all of its history, tasks and activities? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(buyer.id);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/buyers/trash/${buyer.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete buyer");
+      }
+
+      await fetchTrash();
+    } catch (error) {
+      console.error("Error purging buyer:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to delete buyer"
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NavigationHeader currentPage="buyers" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-6xl mx-auto p-6">
+          <div className="flex justify-between items-start mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800 mb-2">Trash</h1>
+              <p className="text-purple-600">
+                Deleted leads can be restored for{" "}
+                {data?.retentionDays ?? 30} days, then they are removed for
+                good.
+              </p>
+            </div>
+            <Button variant="outline" asChild>
+              <Link href="/buyers">← Back to List</Link>
+            </Button>
+          </div>
+
+          {error && (
+            <div className="p-4 mb-6 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-lg border border-purple-100 overflow-hidden">
+            {loading ? (
+              <div className="p-8 text-center">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+                <p className="mt-2 text-purple-600">Loading trash...</p>
+              </div>
+            ) : !data || data.buyers.length === 0 ? (
+              <p className="p-8 text-center text-gray-500">
+                The trash is empty.
+              </p>
+            ) : (
+              <>
+                <table className="w-full">
+                  <thead className="bg-gradient-to-r from-purple-50 to-indigo-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Deleted
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Purged On
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data.buyers.map((buyer) => (
+                      <tr key={buyer.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">
+                            {buyer.fullName}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {formatPhone(buyer.phone)} • {buyer.city}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {buyer.status}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatDate(new Date(buyer.deletedAt))}
+                          {buyer.deletedByName && (
+                            <div>by {buyer.deletedByName}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(buyer.purgeAt).toLocaleDateString("en-IN")}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <div className="flex gap-2">
+                            {buyer.canRestore && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRestore(buyer)}
+                                disabled={busyId === buyer.id}
+                              >
+                                Restore
+                              </Button>
+                            )}
+                            {data.canPurge && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handlePurge(buyer)}
+                                disabled={busyId === buyer.id}
+                              >
+                                Delete Forever
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {data.pagination.totalPages > 1 && (
+                  <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+                    <p className="text-sm text-gray-700">
+                      Page {data.pagination.page} of{" "}
+                      {data.pagination.totalPages} (
+                      {data.pagination.totalCount} leads)
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPage(page - 1)}
+                        disabled={!data.pagination.hasPrevPage}
+                      >
+                        Previous
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPage(page + 1)}
+                        disabled={!data.pagination.hasNextPage}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,472 @@
+"use client";
+
+import { useState, useEffect, useCallback, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Input } from "../../components/ui/input";
+import { NavigationHeader } from "../../components/auth/NavigationHeader";
+import type { BuyerStats } from "../../lib/buyers/stats";
+
+interface BarItem {
+  label: string;
+  count: number;
+  href?: string;
+}
+
+const FILTER_KEYS = ["search", "city", "propertyType", "status", "timeline"];
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400";
+
+function formatPercent(rate: number) {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+function formatWeek(weekStart: string) {
+  return new Intl.DateTimeFormat("en-IN", {
+    day: "numeric",
+    month: "short",
+  }).format(new Date(`${weekStart}T00:00:00`));
+}
+
+function BarList({ title, items }: { title: string; items: BarItem[] }) {
+  const max = Math.max(1, ...items.map((item) => item.count));
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">{title}</h2>
+      <ul className="space-y-3">
+        {items.map((item) => {
+          const label = item.href ? (
+            <Link href={item.href} className="hover:text-purple-700">
+              {item.label}
+            </Link>
+          ) : (
+            item.label
+          );
+
+          return (
+            <li key={item.label} className="text-sm">
+              <div className="flex justify-between mb-1">
+                <span className="text-gray-700">{label}</span>
+                <span className="font-medium text-gray-900">{item.count}</span>
+              </div>
+              <div className="h-2 bg-purple-50 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-500 to-indigo-500 rounded-full"
+                  style={{ width: `${(item.count / max) * 100}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function DashboardContent() {
+  const { status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [stats, setStats] = useState<BuyerStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState(searchParams.get("search") || "");
+  const [debouncedSearch, setDebouncedSearch] = useState(search);
+  const [filters, setFilters] = useState({
+    city: searchParams.get("city") || "",
+    propertyType: searchParams.get("propertyType") || "",
+    status: searchParams.get("status") || "",
+    timeline: searchParams.get("timeline") || "",
+  });
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search);
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchStats = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (debouncedSearch) params.append("search", debouncedSearch);
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+      });
+
+      const response = await fetch(`/api/buyers/stats?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch stats");
+      }
+
+      setStats(await response.json());
+    } catch (error) {
+      console.error("Error fetching stats:", error);
+      alert("Failed to fetch dashboard data. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [debouncedSearch, filters]);
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      fetchStats();
+    }
+  }, [status, fetchStats]);
+
+  const updateURL = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    router.push(`/dashboard?${params.toString()}`, { scroll: false });
+  };
+
+  const handleFilterChange = (key: string, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    updateURL(key, value);
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    updateURL("search", value);
+  };
+
+  // Link into the buyers list with the dashboard's filters plus one more
+  const listHref = (key: string, value: string) => {
+    const params = new URLSearchParams();
+    FILTER_KEYS.forEach((filterKey) => {
+      const current = searchParams.get(filterKey);
+      if (current) params.set(filterKey, current);
+    });
+    params.set(key, value);
+    return `/buyers?${params.toString()}`;
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  if (status === "unauthenticated") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Redirecting to sign in...
+      </div>
+    );
+  }
+
+  const converted =
+    stats?.byStatus.find((row) => row.status === "Converted")?.count || 0;
+  const active =
+    stats?.byStatus
+      .filter((row) => !["Converted", "Dropped"].includes(row.status))
+      .reduce((sum, row) => sum + row.count, 0) || 0;
+  const weeklyMax = Math.max(1, ...(stats?.weekly.map((w) => w.count) || []));
+
+  return (
+    <>
+      <NavigationHeader currentPage="dashboard" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-7xl mx-auto p-6">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">Dashboard</h1>
+            <p className="text-purple-600">
+              Pipeline and lead source overview
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
+              <div className="lg:col-span-2">
+                <label
+                  htmlFor="search"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Search
+                </label>
+                <Input
+                  id="search"
+                  placeholder="Search name, notes, tags, email or phone digits..."
+                  value={search}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  className="border-purple-200 focus:border-purple-400 focus:ring-purple-200"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="city"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  City
+                </label>
+                <select
+                  id="city"
+                  value={filters.city}
+                  onChange={(e) => handleFilterChange("city", e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">All Cities</option>
+                  <option value="Chandigarh">Chandigarh</option>
+                  <option value="Mohali">Mohali</option>
+                  <option value="Zirakpur">Zirakpur</option>
+                  <option value="Panchkula">Panchkula</option>
+                  <option value="Other">Other</option>
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="propertyType"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Property Type
+                </label>
+                <select
+                  id="propertyType"
+                  value={filters.propertyType}
+                  onChange={(e) =>
+                    handleFilterChange("propertyType", e.target.value)
+                  }
+                  className={selectClassName}
+                >
+                  <option value="">All Types</option>
+                  <option value="Apartment">Apartment</option>
+                  <option value="Villa">Villa</option>
+                  <option value="Plot">Plot</option>
+                  <option value="Office">Office</option>
+                  <option value="Retail">Retail</option>
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="status"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Status
+                </label>
+                <select
+                  id="status"
+                  value={filters.status}
+                  onChange={(e) => handleFilterChange("status", e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">All Statuses</option>
+                  <option value="New">New</option>
+                  <option value="Qualified">Qualified</option>
+                  <option value="Contacted">Contacted</option>
+                  <option value="Visited">Visited</option>
+                  <option value="Negotiation">Negotiation</option>
+                  <option value="Converted">Converted</option>
+                  <option value="Dropped">Dropped</option>
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="timeline"
+                  className="block text-sm font-medium text-purple-700 mb-2"
+                >
+                  Timeline
+                </label>
+                <select
+                  id="timeline"
+                  value={filters.timeline}
+                  onChange={(e) =>
+                    handleFilterChange("timeline", e.target.value)
+                  }
+                  className={selectClassName}
+                >
+                  <option value="">All Timelines</option>
+                  <option value="0-3m">0-3 months</option>
+                  <option value="3-6m">3-6 months</option>
+                  <option value=">6m">More than 6 months</option>
+                  <option value="Exploring">Just exploring</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {loading && !stats ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading dashboard...</p>
+            </div>
+          ) : stats ? (
+            <div
+              className={`space-y-6 transition-opacity ${
+                loading ? "opacity-60" : ""
+              }`}
+            >
+              {/* Summary */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                  <p className="text-sm text-gray-500">Total Leads</p>
+                  <p className="text-3xl font-bold text-gray-800">
+                    {stats.total}
+                  </p>
+                </div>
+                <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                  <p className="text-sm text-gray-500">Active in Pipeline</p>
+                  <p className="text-3xl font-bold text-gray-800">{active}</p>
+                </div>
+                <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                  <p className="text-sm text-gray-500">Conversion Rate</p>
+                  <p className="text-3xl font-bold text-green-700">
+                    {formatPercent(
+                      stats.total > 0 ? converted / stats.total : 0
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {converted} converted
+                  </p>
+                </div>
+              </div>
+
+              {/* Weekly trend */}
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">
+                  New Leads per Week
+                </h2>
+                <div className="flex items-end gap-2 h-40">
+                  {stats.weekly.map((week) => (
+                    <div
+                      key={week.weekStart}
+                      className="flex-1 flex flex-col items-center justify-end h-full"
+                      title={`Week of ${formatWeek(week.weekStart)}: ${week.count}`}
+                    >
+                      <span className="text-xs text-gray-600 mb-1">
+                        {week.count > 0 ? week.count : ""}
+                      </span>
+                      <div
+                        className="w-full bg-gradient-to-t from-purple-500 to-indigo-400 rounded-t"
+                        style={{
+                          height: `${(week.count / weeklyMax) * 100}%`,
+                          minHeight: week.count > 0 ? "2px" : 0,
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-2">
+                  {stats.weekly.map((week) => (
+                    <span
+                      key={week.weekStart}
+                      className="flex-1 text-center text-[10px] text-gray-500"
+                    >
+                      {formatWeek(week.weekStart)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <BarList
+                  title="Pipeline"
+                  items={stats.byStatus.map((row) => ({
+                    label: row.status,
+                    count: row.count,
+                    href: listHref("status", row.status),
+                  }))}
+                />
+
+                {/* Conversion by source */}
+                <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4">
+                    Conversion by Source
+                  </h2>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="py-2">Source</th>
+                        <th className="py-2 text-right">Leads</th>
+                        <th className="py-2 text-right">Converted</th>
+                        <th className="py-2 text-right">Rate</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {stats.bySource.map((row) => (
+                        <tr key={row.source}>
+                          <td className="py-2 text-gray-700">{row.source}</td>
+                          <td className="py-2 text-right">{row.total}</td>
+                          <td className="py-2 text-right">{row.converted}</td>
+                          <td className="py-2 text-right font-medium text-green-700">
+                            {row.total > 0
+                              ? formatPercent(row.conversionRate)
+                              : "-"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <BarList
+                  title="Leads by City"
+                  items={stats.byCity.map((row) => ({
+                    label: row.city,
+                    count: row.count,
+                    href: listHref("city", row.city),
+                  }))}
+                />
+
+                <BarList
+                  title="Leads by Property Type"
+                  items={stats.byPropertyType.map((row) => ({
+                    label: row.propertyType,
+                    count: row.count,
+                    href: listHref("propertyType", row.propertyType),
+                  }))}
+                />
+
+                <BarList
+                  title="Budget Ranges"
+                  items={stats.budgetRanges.map((row) => ({
+                    label: row.label,
+                    count: row.count,
+                  }))}
+                />
+              </div>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default function DashboardPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+          <div className="text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+            <p className="mt-2 text-purple-600">Loading...</p>
+          </div>
+        </div>
+      }
+    >
+      <DashboardContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,335 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { NavigationHeader } from "../../../components/auth/NavigationHeader";
+import type { ApiKeyResponse } from "../../../lib/api-keys";
+import type { ApiKeyScope } from "../../../lib/db/schema";
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  read: "Read only",
+  write: "Read and write",
+};
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400";
+
+const emptyForm = {
+  name: "",
+  scope: "read" as ApiKeyScope,
+};
+
+export default function ApiKeysPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [keys, setKeys] = useState<ApiKeyResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  // The key just created; it can't be shown again once the page is left
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const response = await fetch("/api/api-keys");
+      if (!response.ok) {
+        throw new Error("Failed to fetch API keys");
+      }
+      setKeys((await response.json()).keys);
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      setError("Failed to load API keys. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      fetchKeys();
+    }
+  }, [status, fetchKeys]);
+
+  const createKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to create key"
+        );
+      }
+
+      const { key, ...apiKey } = data;
+      setForm(emptyForm);
+      setKeys([apiKey, ...keys]);
+      setNewKey(key);
+      setCopied(false);
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      setError(error instanceof Error ? error.message : "Failed to create key");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const revokeKey = async (apiKey: ApiKeyResponse) => {
+    if (
+      !confirm(
+        `Revoke "${apiKey.name}"? Anything using it will stop working straight away.`
+      )
+    ) {
+      return;
+    }
+    setError("");
+
+    try {
+      const response = await fetch(`/api/api-keys/${apiKey.id}`, {
+        method: "DELETE",
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke key");
+      }
+
+      setKeys(keys.map((k) => (k.id === apiKey.id ? data : k)));
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      setError(error instanceof Error ? error.message : "Failed to revoke key");
+    }
+  };
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey);
+      setCopied(true);
+    } catch (error) {
+      console.error("Error copying API key:", error);
+      setError("Couldn't copy the key. Select it and copy it instead.");
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NavigationHeader currentPage="api-keys" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-5xl mx-auto p-6">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">API Keys</h1>
+            <p className="text-purple-600">
+              Let scripts and other systems work with your leads through the
+              REST API. A key acts as you, so it can only change the leads you
+              can; read-only keys can list and fetch leads but not change them.
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading keys...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-red-800 text-sm">{error}</p>
+                </div>
+              )}
+
+              {newKey && (
+                <div className="p-4 bg-green-50 border border-green-200 rounded-md space-y-2">
+                  <p className="text-green-800 text-sm font-medium">
+                    Copy your new key now. It won&apos;t be shown again.
+                  </p>
+                  <Input
+                    readOnly
+                    value={newKey}
+                    onFocus={(e) => e.target.select()}
+                    className="font-mono text-xs"
+                    aria-label="New API key"
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={copyKey}>
+                      {copied ? "Copied" : "Copy to Clipboard"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setNewKey(null)}
+                    >
+                      Done
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                  Your Keys
+                </h2>
+                {keys.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No keys yet. Create one below.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {keys.map((apiKey) => (
+                      <li
+                        key={apiKey.id}
+                        className="py-3 flex items-start justify-between gap-4"
+                      >
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {apiKey.name}
+                            <span className="ml-2 px-2 py-0.5 rounded-full bg-purple-100 text-purple-700 text-xs">
+                              {SCOPE_LABELS[apiKey.scope]}
+                            </span>
+                            {apiKey.revokedAt && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs">
+                                Revoked
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            <code>{apiKey.prefix}…</code> · Created{" "}
+                            {new Date(apiKey.createdAt).toLocaleDateString()} ·{" "}
+                            {apiKey.lastUsedAt
+                              ? `Last used ${new Date(
+                                  apiKey.lastUsedAt
+                                ).toLocaleString()}`
+                              : "Never used"}
+                          </p>
+                        </div>
+                        {!apiKey.revokedAt && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeKey(apiKey)}
+                          >
+                            Revoke
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <form
+                onSubmit={createKey}
+                className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 space-y-4"
+              >
+                <h2 className="text-xl font-semibold text-gray-800">
+                  New Key
+                </h2>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Name *
+                    </label>
+                    <Input
+                      value={form.name}
+                      onChange={(e) =>
+                        setForm({ ...form, name: e.target.value })
+                      }
+                      placeholder="e.g. Website sync"
+                      maxLength={100}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Access
+                    </label>
+                    <select
+                      value={form.scope}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          scope: e.target.value as ApiKeyScope,
+                        })
+                      }
+                      className={selectClassName}
+                    >
+                      {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map(
+                        (scope) => (
+                          <option key={scope} value={scope}>
+                            {SCOPE_LABELS[scope]}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={isSubmitting || form.name.trim().length < 2}
+                >
+                  {isSubmitting ? "Creating..." : "Create Key"}
+                </Button>
+              </form>
+
+              <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6 space-y-2 text-sm text-gray-700">
+                <h2 className="text-xl font-semibold text-gray-800">
+                  Using the API
+                </h2>
+                <p>
+                  Send the key as a bearer token to the endpoints under{" "}
+                  <code>/api/v1</code>, for example:
+                </p>
+                <pre className="rounded-md bg-gray-50 border border-purple-100 p-3 text-xs overflow-x-auto">
+                  {`curl -H "Authorization: Bearer <your key>" \\
+  "${typeof window === "undefined" ? "" : window.location.origin}/api/v1/buyers?status=New&limit=20"`}
+                </pre>
+                <p>
+                  The full reference is the{" "}
+                  <a
+                    href="/api/v1/openapi.json"
+                    className="text-purple-600 hover:underline"
+                  >
+                    OpenAPI document
+                  </a>
+                  , which most API tools and client generators can import. Each
+                  key may make 120 requests a minute.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { NavigationHeader } from "../../components/auth/NavigationHeader";
+import { formatDate, formatPhone } from "../../lib/utils";
+import { BuyerTask } from "../../lib/db/schema";
+
+interface MyTask extends BuyerTask {
+  buyerName: string;
+  buyerPhone: string;
+}
+
+interface MyTasksResponse {
+  overdue: MyTask[];
+  today: MyTask[];
+}
+
+export default function MyTasksPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [tasks, setTasks] = useState<MyTasksResponse>({
+    overdue: [],
+    today: [],
+  });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      // Send local day boundaries so "today" matches the user's timezone
+      const dayStart = new Date();
+      dayStart.setHours(0, 0, 0, 0);
+      const dayEnd = new Date(dayStart);
+      dayEnd.setDate(dayEnd.getDate() + 1);
+
+      const params = new URLSearchParams({
+        dayStart: dayStart.toISOString(),
+        dayEnd: dayEnd.toISOString(),
+      });
+
+      const response = await fetch(`/api/tasks?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch tasks");
+      }
+
+      setTasks(await response.json());
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+      alert("Failed to fetch tasks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      fetchTasks();
+    }
+  }, [status, fetchTasks]);
+
+  const toggleDone = async (task: MyTask) => {
+    try {
+      const response = await fetch(
+        `/api/buyers/${task.buyerId}/tasks/${task.id}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ done: !task.done }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to update task");
+      }
+
+      await fetchTasks();
+    } catch (error) {
+      console.error("Error updating task:", error);
+      alert("Failed to update task. Please try again.");
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  const renderSection = (title: string, list: MyTask[], overdue: boolean) => (
+    <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-6">
+      <h2
+        className={`text-xl font-semibold mb-4 ${
+          overdue ? "text-red-700" : "text-gray-800"
+        }`}
+      >
+        {title} ({list.length})
+      </h2>
+      {list.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          {overdue ? "Nothing overdue. Nice work!" : "Nothing due today."}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {list.map((task) => (
+            <li key={task.id} className="flex items-start gap-3 py-3">
+              <input
+                type="checkbox"
+                checked={task.done}
+                onChange={() => toggleDone(task)}
+                className="mt-1"
+                aria-label={`Mark "${task.title}" as done`}
+              />
+              <div className="flex-1">
+                <p
+                  className={`font-medium ${
+                    task.done ? "line-through text-gray-400" : "text-gray-900"
+                  }`}
+                >
+                  {task.title}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {task.type} •{" "}
+                  <span className={overdue ? "text-red-600" : ""}>
+                    {formatDate(new Date(task.dueAt))}
+                  </span>
+                </p>
+              </div>
+              <div className="text-right text-sm">
+                <Link
+                  href={`/buyers/${task.buyerId}`}
+                  className="text-blue-600 hover:text-blue-900 font-medium"
+                >
+                  {task.buyerName}
+                </Link>
+                <p className="text-gray-500">{formatPhone(task.buyerPhone)}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <NavigationHeader currentPage="tasks" />
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50">
+        <div className="max-w-4xl mx-auto p-6">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">My Tasks</h1>
+            <p className="text-purple-600">
+              Follow-ups assigned to you that are due today or overdue
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="p-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+              <p className="mt-2 text-purple-600">Loading tasks...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {renderSection("Overdue", tasks.overdue, true)}
+              {renderSection("Today", tasks.today, false)}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,548 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Textarea } from "../ui/textarea";
+import {
+  formatCurrency,
+  formatDate,
+  formatRelativeTime,
+} from "../../lib/utils";
+import { BuyerActivity, BuyerHistory } from "../../lib/db/schema";
+import { BUYER_FIELD_LABELS } from "../../lib/buyers/labels";
+
+interface ActivityWithAuthor extends BuyerActivity {
+  loggedByName: string | null;
+}
+
+// A row of GET /api/buyers/[id]/history
+interface HistoryEntry
+  extends Omit<BuyerHistory, "buyerId" | "organizationId"> {
+  changedByName: string | null;
+}
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface BuyerTimelineProps {
+  buyerId: string;
+  canEdit: boolean;
+  users: UserOption[];
+  // Changes whenever the buyer is saved, so new history gets picked up
+  refreshKey?: string | Date;
+  // History entry currently shown in "as of" mode on the detail page
+  activeHistoryId?: string;
+  onViewAsOf?: (historyId: string) => void;
+}
+
+type TimelineEntry =
+  | { kind: "activity"; at: Date; activity: ActivityWithAuthor }
+  | { kind: "change"; at: Date; change: HistoryEntry };
+
+const ACTIVITY_TYPES = [
+  "Call",
+  "Site Visit",
+  "Meeting",
+  "Email",
+  "Message",
+  "Other",
+];
+
+const OUTCOME_SUGGESTIONS = [
+  "Connected",
+  "No answer",
+  "Busy",
+  "Call back later",
+  "Interested",
+  "Not interested",
+];
+
+// Diff keys that record an event rather than a field change
+const EVENT_FIELDS = [
+  "created",
+  "imported",
+  "enquiry",
+  "merged",
+  "reverted",
+  "deleted",
+  "restored",
+];
+
+const PAGE_SIZE = 20;
+
+// Current time formatted for datetime-local
+function nowForInput() {
+  const now = new Date();
+  const offset = now.getTimezoneOffset() * 60 * 1000;
+  return new Date(now.getTime() - offset).toISOString().slice(0, 16);
+}
+
+const emptyForm = () => ({
+  type: "Call",
+  outcome: "",
+  occurredAt: nowForInput(),
+  durationMinutes: "",
+  notes: "",
+});
+
+function toTagList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+/**
+ * Logged activities and field changes for one buyer, newest first. History
+ * is paged from the server; activities are interleaved only as far back as
+ * the history loaded so far so the order stays truthful.
+ */
+export function BuyerTimeline({
+  buyerId,
+  canEdit,
+  users,
+  refreshKey,
+  activeHistoryId,
+  onViewAsOf,
+}: BuyerTimelineProps) {
+  const [activities, setActivities] = useState<ActivityWithAuthor[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [fieldFilter, setFieldFilter] = useState("");
+  const [userFilter, setUserFilter] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [form, setForm] = useState(emptyForm);
+
+  const fetchActivities = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/activities`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch activities");
+      }
+      const data = await response.json();
+      setActivities(data.activities);
+    } catch (error) {
+      console.error("Error fetching activities:", error);
+      setError("Failed to load activities.");
+    }
+  }, [buyerId]);
+
+  const fetchHistory = useCallback(
+    async (cursor?: string) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) params.set("cursor", cursor);
+      if (fieldFilter) params.set("field", fieldFilter);
+      if (userFilter) params.set("changedBy", userFilter);
+
+      try {
+        const response = await fetch(
+          `/api/buyers/${buyerId}/history?${params.toString()}`
+        );
+        if (!response.ok) {
+          throw new Error("Failed to fetch history");
+        }
+        const data = await response.json();
+        setHistory((prev) =>
+          cursor ? [...prev, ...data.history] : data.history
+        );
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Error fetching history:", error);
+        setError("Failed to load history.");
+      }
+    },
+    [buyerId, fieldFilter, userFilter]
+  );
+
+  useEffect(() => {
+    fetchActivities();
+  }, [fetchActivities]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchHistory().finally(() => setLoading(false));
+  }, [fetchHistory, refreshKey]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    await fetchHistory(nextCursor);
+    setLoadingMore(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/activities`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          type: form.type,
+          outcome: form.outcome,
+          occurredAt: new Date(form.occurredAt).toISOString(),
+          durationMinutes: form.durationMinutes
+            ? parseInt(form.durationMinutes)
+            : undefined,
+          notes: form.notes,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.details?.[0]?.message ||
+            errorData.error ||
+            "Failed to log activity"
+        );
+      }
+
+      setForm(emptyForm());
+      setShowForm(false);
+      await fetchActivities();
+    } catch (error) {
+      console.error("Error logging activity:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to log activity"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getUserName = (userId: string) => {
+    const user = users.find((option) => option.id === userId);
+    return user ? user.name || user.email : "Unknown user";
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === "") return "None";
+    if (field === "ownerId") return getUserName(String(value));
+    if (field.startsWith("budget") && typeof value === "number") {
+      return formatCurrency(value);
+    }
+    if (field === "visitDate") {
+      return new Date(String(value)).toLocaleDateString("en-IN");
+    }
+    if (Array.isArray(value)) return value.join(", ");
+    return String(value);
+  };
+
+  const renderChange = (
+    field: string,
+    change: { old: unknown; new: unknown }
+  ) => {
+    if (
+      field === "created" ||
+      field === "imported" ||
+      field === "enquiry" ||
+      field === "deleted" ||
+      field === "restored"
+    ) {
+      return <p className="text-sm font-medium">{String(change.new)}</p>;
+    }
+
+    if (field === "reverted") {
+      return (
+        <p className="text-sm font-medium">
+          Restored the version from {formatDate(new Date(String(change.new)))}
+        </p>
+      );
+    }
+
+    if (field === "merged") {
+      const merged = change.old as { fullName?: string } | null;
+      return (
+        <p className="text-sm font-medium">
+          Merged in {merged?.fullName || "a duplicate lead"}
+        </p>
+      );
+    }
+
+    if (field === "tags") {
+      const oldTags = toTagList(change.old);
+      const newTags = toTagList(change.new);
+      const added = newTags.filter((tag) => !oldTags.includes(tag));
+      const removed = oldTags.filter((tag) => !newTags.includes(tag));
+
+      return (
+        <div className="text-sm flex flex-wrap items-center gap-1">
+          <span className="font-medium">Tags:</span>
+          {added.map((tag) => (
+            <span
+              key={`added-${tag}`}
+              className="px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full"
+            >
+              +{tag}
+            </span>
+          ))}
+          {removed.map((tag) => (
+            <span
+              key={`removed-${tag}`}
+              className="px-2 py-0.5 text-xs bg-red-100 text-red-800 rounded-full line-through"
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <p className="text-sm">
+        <span className="font-medium">
+          {BUYER_FIELD_LABELS[field] || field}:
+        </span>{" "}
+        <span className="text-red-600">{formatValue(field, change.old)}</span>
+        <span className="mx-2">→</span>
+        <span className="text-green-600">{formatValue(field, change.new)}</span>
+      </p>
+    );
+  };
+
+  // With more history still on the server, older activities would appear
+  // out of order, so hold them back until that history is loaded
+  const oldestLoaded =
+    nextCursor && history.length > 0
+      ? new Date(history[history.length - 1].changedAt).getTime()
+      : null;
+
+  const visibleActivities = fieldFilter
+    ? []
+    : activities.filter(
+        (activity) =>
+          (!userFilter || activity.loggedBy === userFilter) &&
+          (oldestLoaded === null ||
+            new Date(activity.occurredAt).getTime() >= oldestLoaded)
+      );
+
+  const entries: TimelineEntry[] = [
+    ...visibleActivities.map((activity) => ({
+      kind: "activity" as const,
+      at: new Date(activity.occurredAt),
+      activity,
+    })),
+    ...history.map((change) => ({
+      kind: "change" as const,
+      at: new Date(change.changedAt),
+      change,
+    })),
+  ].sort((a, b) => b.at.getTime() - a.at.getTime());
+
+  const selectClassName =
+    "flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400";
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Timeline</h2>
+        {canEdit && !showForm && (
+          <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+            Log Activity
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-red-600 text-sm mb-3">{error}</p>}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="space-y-3 mb-4">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value })}
+              className={selectClassName}
+            >
+              {ACTIVITY_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={form.outcome}
+              onChange={(e) => setForm({ ...form, outcome: e.target.value })}
+              placeholder="Outcome"
+              list="activity-outcomes"
+              maxLength={100}
+            />
+            <datalist id="activity-outcomes">
+              {OUTCOME_SUGGESTIONS.map((outcome) => (
+                <option key={outcome} value={outcome} />
+              ))}
+            </datalist>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="datetime-local"
+              value={form.occurredAt}
+              onChange={(e) =>
+                setForm({ ...form, occurredAt: e.target.value })
+              }
+              required
+            />
+            <Input
+              type="number"
+              min={0}
+              max={1440}
+              value={form.durationMinutes}
+              onChange={(e) =>
+                setForm({ ...form, durationMinutes: e.target.value })
+              }
+              placeholder="Minutes"
+            />
+          </div>
+          <Textarea
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder="e.g. Site visit at Sector 70 plot, liked the corner unit"
+            rows={3}
+            maxLength={1000}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setShowForm(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Activity"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <select
+          value={fieldFilter}
+          onChange={(e) => setFieldFilter(e.target.value)}
+          className={selectClassName}
+          aria-label="Filter by field"
+        >
+          <option value="">All fields</option>
+          {Object.entries(BUYER_FIELD_LABELS).map(([field, label]) => (
+            <option key={field} value={field}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={userFilter}
+          onChange={(e) => setUserFilter(e.target.value)}
+          className={selectClassName}
+          aria-label="Filter by user"
+        >
+          <option value="">Everyone</option>
+          {users.map((user) => (
+            <option key={user.id} value={user.id}>
+              {user.name || user.email}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500 text-sm">Loading timeline...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-500 text-sm">No activity recorded yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {entries.map((entry) =>
+            entry.kind === "activity" ? (
+              <div
+                key={`activity-${entry.activity.id}`}
+                className="border-l-2 border-purple-300 pl-4 pb-4"
+              >
+                <p className="text-sm font-medium">
+                  {entry.activity.type}
+                  {entry.activity.outcome && ` — ${entry.activity.outcome}`}
+                  {entry.activity.durationMinutes !== null &&
+                    ` (${entry.activity.durationMinutes} min)`}
+                </p>
+                {entry.activity.notes && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">
+                    {entry.activity.notes}
+                  </p>
+                )}
+                <p
+                  className="text-xs text-gray-500 mt-1"
+                  title={formatDate(entry.at)}
+                >
+                  {entry.activity.loggedByName &&
+                    `by ${entry.activity.loggedByName}, `}
+                  {formatRelativeTime(entry.at)}
+                </p>
+              </div>
+            ) : (
+              <div
+                key={`change-${entry.change.id}`}
+                className="border-l-2 border-blue-200 pl-4 pb-4"
+              >
+                <div className="space-y-1">
+                  {Object.entries(entry.change.diff)
+                    .sort(
+                      ([a], [b]) =>
+                        Number(EVENT_FIELDS.includes(b)) -
+                        Number(EVENT_FIELDS.includes(a))
+                    )
+                    .map(([field, change]) => (
+                      <div key={field}>{renderChange(field, change)}</div>
+                    ))}
+                </div>
+                <p
+                  className="text-xs text-gray-500 mt-1"
+                  title={formatDate(entry.at)}
+                >
+                  {entry.change.changedByName &&
+                    `by ${entry.change.changedByName}, `}
+                  {formatRelativeTime(entry.at)}
+                  {onViewAsOf && (
+                    <>
+                      {" • "}
+                      {activeHistoryId === entry.change.id ? (
+                        <span className="text-purple-700">viewing</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => onViewAsOf(entry.change.id)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          View as of
+                        </button>
+                      )}
+                    </>
+                  )}
+                </p>
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <div className="mt-4 text-center">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={loadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore ? "Loading..." : "Load older changes"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
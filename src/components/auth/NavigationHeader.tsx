@@ -1,5 +1,6 @@
 "use client";
 
+import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
 import { SignOutButton } from "./SignOutButton";
@@ -11,6 +12,33 @@ interface NavigationHeaderProps {
 
 export function NavigationHeader({ currentPage }: NavigationHeaderProps) {
   const { data: session, status } = useSession();
+  const [dueTaskCount, setDueTaskCount] = useState(0);
+
+  // Badge with the number of open tasks that are overdue or due today
+  useEffect(() => {
+    if (status !== "authenticated") return;
+
+    const dayStart = new Date();
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    const params = new URLSearchParams({
+      dayStart: dayStart.toISOString(),
+      dayEnd: dayEnd.toISOString(),
+    });
+
+    fetch(`/api/tasks?${params.toString()}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return;
+        const openToday = data.today.filter(
+          (task: { done: boolean }) => !task.done
+        );
+        setDueTaskCount(data.overdue.length + openToday.length);
+      })
+      .catch((error) => console.error("Error fetching task count:", error));
+  }, [status, currentPage]);
 
   if (status === "loading") {
     return (
@@ -48,6 +76,16 @@ export function NavigationHeader({ currentPage }: NavigationHeaderProps) {
 
             {/* Navigation Links */}
             <div className="hidden md:flex space-x-4">
+              <Link
+                href="/dashboard"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  currentPage === "dashboard"
+                    ? "bg-purple-100 text-purple-700"
+                    : "text-gray-600 hover:text-purple-600 hover:bg-purple-50"
+                }`}
+              >
+                Dashboard
+              </Link>
               <Link
                 href="/buyers"
                 className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -68,6 +106,43 @@ export function NavigationHeader({ currentPage }: NavigationHeaderProps) {
               >
                 Create Lead
               </Link>
+              <Link
+                href="/tasks"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  currentPage === "tasks"
+                    ? "bg-purple-100 text-purple-700"
+                    : "text-gray-600 hover:text-purple-600 hover:bg-purple-50"
+                }`}
+              >
+                My Tasks
+                {dueTaskCount > 0 && (
+                  <span className="ml-2 inline-flex items-center justify-center rounded-full bg-red-500 px-2 text-xs text-white">
+                    {dueTaskCount}
+                  </span>
+                )}
+              </Link>
+              <Link
+                href="/settings/api-keys"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  currentPage === "api-keys"
+                    ? "bg-purple-100 text-purple-700"
+                    : "text-gray-600 hover:text-purple-600 hover:bg-purple-50"
+                }`}
+              >
+                API Keys
+              </Link>
+              {session?.user?.role === "admin" && (
+                <Link
+                  href="/admin/users"
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    currentPage === "admin"
+                      ? "bg-purple-100 text-purple-700"
+                      : "text-gray-600 hover:text-purple-600 hover:bg-purple-50"
+                  }`}
+                >
+                  Users
+                </Link>
+              )}
             </div>
           </div>
 
@@ -103,6 +178,16 @@ export function NavigationHeader({ currentPage }: NavigationHeaderProps) {
         {/* Mobile Navigation */}
         <div className="md:hidden mt-4 pt-4 border-t border-purple-100">
           <div className="flex space-x-4">
+            <Link
+              href="/dashboard"
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                currentPage === "dashboard"
+                  ? "bg-purple-100 text-purple-700"
+                  : "text-gray-600 hover:text-purple-600 hover:bg-purple-50"
+              }`}
+            >
+              Dashboard
+            </Link>
             <Link
               href="/buyers"
               className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -123,6 +208,39 @@ export function NavigationHeader({ currentPage }: NavigationHeaderProps) {
             >
               Create Lead
             </Link>
+            <Link
+              href="/tasks"
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                currentPage === "tasks"
+                  ? "bg-purple-100 text-purple-700"
+                  : "text-gray-600 hover:text-purple-600 hover:bg-purple-50"
+              }`}
+            >
+              My Tasks
+              {dueTaskCount > 0 && ` (${dueTaskCount})`}
+            </Link>
+            <Link
+              href="/settings/api-keys"
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                currentPage === "api-keys"
+                  ? "bg-purple-100 text-purple-700"
+                  : "text-gray-600 hover:text-purple-600 hover:bg-purple-50"
+              }`}
+            >
+              API Keys
+            </Link>
+            {session?.user?.role === "admin" && (
+              <Link
+                href="/admin/users"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  currentPage === "admin"
+                    ? "bg-purple-100 text-purple-700"
+                    : "text-gray-600 hover:text-purple-600 hover:bg-purple-50"
+                }`}
+              >
+                Users
+              </Link>
+            )}
           </div>
         </div>
       </div>
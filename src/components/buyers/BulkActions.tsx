@@ -0,0 +1,288 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import type { BuyerListItem } from "../../lib/buyers/query";
+import type { BulkActionResult } from "../../lib/buyers/bulk";
+import {
+  PIPELINE_STAGES,
+  DROP_REASON_SUGGESTIONS,
+} from "../../lib/pipeline";
+import { parseCsvTags } from "../../lib/validations/buyer";
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface BulkActionsProps {
+  selected: BuyerListItem[];
+  onClear: () => void;
+  // Called after a bulk action with the ids of any leads that were deleted
+  onComplete: (deletedIds: string[]) => void;
+}
+
+type BulkAction = "status" | "addTags" | "removeTags" | "reassign" | "delete";
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  status: "Change status",
+  addTags: "Add tags",
+  removeTags: "Remove tags",
+  reassign: "Reassign owner",
+  delete: "Delete",
+};
+
+const selectClassName =
+  "flex h-10 rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400";
+
+export function BulkActions({
+  selected,
+  onClear,
+  onComplete,
+}: BulkActionsProps) {
+  const [action, setAction] = useState<BulkAction>("status");
+  const [status, setStatus] = useState("Contacted");
+  const [visitDate, setVisitDate] = useState("");
+  const [dropReason, setDropReason] = useState("");
+  const [tags, setTags] = useState("");
+  const [ownerId, setOwnerId] = useState("");
+  const [userOptions, setUserOptions] = useState<UserOption[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState("");
+  const [report, setReport] = useState<{
+    succeeded: number;
+    failed: BulkActionResult[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (action !== "reassign" || userOptions.length > 0) return;
+
+    fetch("/api/users")
+      .then((response) => (response.ok ? response.json() : { users: [] }))
+      .then((data) => setUserOptions(data.users))
+      .catch((error) => console.error("Error fetching users:", error));
+  }, [action, userOptions.length]);
+
+  const notAllowed = selected.filter((buyer) => !buyer.canEdit);
+
+  const buildPayload = () => {
+    const ids = selected.map((buyer) => buyer.id);
+
+    switch (action) {
+      case "status":
+        return {
+          action,
+          ids,
+          status,
+          ...(status === "Visited" &&
+            visitDate && { visitDate: new Date(visitDate).toISOString() }),
+          ...(status === "Dropped" && dropReason && { dropReason }),
+        };
+      case "addTags":
+      case "removeTags":
+        return { action, ids, tags: parseCsvTags(tags) };
+      case "reassign":
+        return { action, ids, ownerId };
+      case "delete":
+        return { action, ids };
+    }
+  };
+
+  const handleApply = async () => {
+    if (
+      action === "delete" &&
+      !confirm(
+        `Move ${selected.length} lead${selected.length === 1 ? "" : "s"} to the trash? They can be restored from the trash page.`
+      )
+    ) {
+      return;
+    }
+
+    setIsApplying(true);
+    setError("");
+    setReport(null);
+
+    try {
+      const response = await fetch("/api/buyers/bulk", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(buildPayload()),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Bulk action failed"
+        );
+      }
+
+      const failed = (data.results as BulkActionResult[]).filter(
+        (result) => !result.success
+      );
+      setReport({ succeeded: data.succeeded, failed });
+      setTags("");
+      onComplete(
+        action === "delete"
+          ? (data.results as BulkActionResult[])
+              .filter((result) => result.success)
+              .map((result) => result.id)
+          : []
+      );
+    } catch (error) {
+      console.error("Error applying bulk action:", error);
+      setError(error instanceof Error ? error.message : "Bulk action failed");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const nameFor = (id: string) =>
+    selected.find((buyer) => buyer.id === id)?.fullName || id;
+
+  const canApply =
+    !isApplying &&
+    selected.length > 0 &&
+    ((action !== "addTags" && action !== "removeTags") ||
+      parseCsvTags(tags).length > 0) &&
+    (action !== "reassign" || !!ownerId);
+
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded-xl p-4 mb-6 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-purple-800">
+          {selected.length} selected
+        </span>
+
+        <select
+          aria-label="Bulk action"
+          value={action}
+          onChange={(e) => {
+            setAction(e.target.value as BulkAction);
+            setReport(null);
+            setError("");
+          }}
+          className={selectClassName}
+        >
+          {(Object.keys(ACTION_LABELS) as BulkAction[]).map((key) => (
+            <option key={key} value={key}>
+              {ACTION_LABELS[key]}
+            </option>
+          ))}
+        </select>
+
+        {action === "status" && (
+          <>
+            <select
+              aria-label="New status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className={selectClassName}
+            >
+              {PIPELINE_STAGES.map((stage) => (
+                <option key={stage} value={stage}>
+                  {stage}
+                </option>
+              ))}
+            </select>
+            {status === "Visited" && (
+              <Input
+                type="date"
+                aria-label="Visit date"
+                value={visitDate}
+                onChange={(e) => setVisitDate(e.target.value)}
+                className="w-44"
+              />
+            )}
+            {status === "Dropped" && (
+              <>
+                <Input
+                  aria-label="Drop reason"
+                  placeholder="Drop reason"
+                  list="bulk-drop-reasons"
+                  value={dropReason}
+                  onChange={(e) => setDropReason(e.target.value)}
+                  maxLength={200}
+                  className="w-56"
+                />
+                <datalist id="bulk-drop-reasons">
+                  {DROP_REASON_SUGGESTIONS.map((reason) => (
+                    <option key={reason} value={reason} />
+                  ))}
+                </datalist>
+              </>
+            )}
+          </>
+        )}
+
+        {(action === "addTags" || action === "removeTags") && (
+          <Input
+            aria-label="Tags"
+            placeholder="Comma-separated tags"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            className="w-64"
+          />
+        )}
+
+        {action === "reassign" && (
+          <select
+            aria-label="New owner"
+            value={ownerId}
+            onChange={(e) => setOwnerId(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Select owner...</option>
+            {userOptions.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name || user.email}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <Button
+          size="sm"
+          variant={action === "delete" ? "destructive" : "default"}
+          onClick={handleApply}
+          disabled={!canApply}
+        >
+          {isApplying ? "Applying..." : "Apply"}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClear}>
+          Clear selection
+        </Button>
+      </div>
+
+      {notAllowed.length > 0 && (
+        <p className="text-sm text-amber-700">
+          You don&apos;t have permission to change {notAllowed.length} of the
+          selected leads; they will be skipped.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {report && (
+        <div className="text-sm">
+          <p className="text-green-700">
+            {report.succeeded} lead{report.succeeded === 1 ? "" : "s"} updated.
+          </p>
+          {report.failed.length > 0 && (
+            <ul className="mt-1 text-red-700 list-disc list-inside">
+              {report.failed.map((result) => (
+                <li key={result.id}>
+                  {nameFor(result.id)}: {result.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
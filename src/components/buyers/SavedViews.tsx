@@ -0,0 +1,265 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+
+// A row of GET /api/saved-views
+export interface SavedViewItem {
+  id: string;
+  name: string;
+  filters: Record<string, string>;
+  pinned: boolean;
+  shared: boolean;
+  ownerId: string;
+  ownerName: string | null;
+}
+
+interface SavedViewsProps {
+  activeViewId: string | null;
+  // The list's current filters, saved as-is by "Save current view"
+  currentFilters: Record<string, string>;
+  onApply: (view: SavedViewItem) => void;
+}
+
+export function SavedViews({
+  activeViewId,
+  currentFilters,
+  onApply,
+}: SavedViewsProps) {
+  const { data: session } = useSession();
+  const [views, setViews] = useState<SavedViewItem[]>([]);
+  const [name, setName] = useState("");
+  const [pinned, setPinned] = useState(true);
+  const [shared, setShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const userId = session?.user?.id;
+
+  const fetchViews = useCallback(async () => {
+    try {
+      const response = await fetch("/api/saved-views");
+      if (!response.ok) {
+        throw new Error("Failed to fetch saved views");
+      }
+      setViews((await response.json()).views);
+    } catch (error) {
+      console.error("Error fetching saved views:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  const saveView = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/saved-views", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name,
+          filters: currentFilters,
+          pinned,
+          shared,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to save view"
+        );
+      }
+
+      setName("");
+      await fetchViews();
+      onApply({ ...data, ownerName: session?.user?.name ?? null });
+    } catch (error) {
+      console.error("Error saving view:", error);
+      setError(error instanceof Error ? error.message : "Failed to save view");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateView = async (
+    view: SavedViewItem,
+    changes: { pinned?: boolean; shared?: boolean }
+  ) => {
+    setError("");
+
+    try {
+      const response = await fetch(`/api/saved-views/${view.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update view");
+      }
+
+      setViews(views.map((v) => (v.id === view.id ? { ...v, ...changes } : v)));
+    } catch (error) {
+      console.error("Error updating view:", error);
+      setError(error instanceof Error ? error.message : "Failed to update view");
+    }
+  };
+
+  const deleteView = async (view: SavedViewItem) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    setError("");
+
+    try {
+      const response = await fetch(`/api/saved-views/${view.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete view");
+      }
+
+      setViews(views.filter((v) => v.id !== view.id));
+    } catch (error) {
+      console.error("Error deleting view:", error);
+      setError(error instanceof Error ? error.message : "Failed to delete view");
+    }
+  };
+
+  const ownViews = views.filter((view) => view.ownerId === userId);
+  const sections = [
+    { title: "Pinned", items: ownViews.filter((view) => view.pinned) },
+    { title: "My Views", items: ownViews.filter((view) => !view.pinned) },
+    {
+      title: "Shared by Teammates",
+      items: views.filter((view) => view.ownerId !== userId),
+    },
+  ];
+
+  const renderView = (view: SavedViewItem) => {
+    const isOwner = view.ownerId === userId;
+
+    return (
+      <li key={view.id} className="group">
+        <button
+          type="button"
+          onClick={() => onApply(view)}
+          className={`w-full text-left rounded-md px-2 py-1.5 text-sm ${
+            view.id === activeViewId
+              ? "bg-purple-100 text-purple-900 font-medium"
+              : "text-gray-700 hover:bg-purple-50"
+          }`}
+        >
+          {view.name}
+          {!isOwner && (
+            <span className="block text-xs text-gray-500">
+              by {view.ownerName || "a teammate"}
+            </span>
+          )}
+          {isOwner && view.shared && (
+            <span className="ml-1 text-xs text-purple-500">· shared</span>
+          )}
+        </button>
+        {isOwner && (
+          <div className="hidden group-hover:flex gap-2 px-2 pb-1 text-xs">
+            <button
+              type="button"
+              className="text-purple-600 hover:underline"
+              onClick={() => updateView(view, { pinned: !view.pinned })}
+            >
+              {view.pinned ? "Unpin" : "Pin"}
+            </button>
+            <button
+              type="button"
+              className="text-purple-600 hover:underline"
+              onClick={() => updateView(view, { shared: !view.shared })}
+            >
+              {view.shared ? "Stop sharing" : "Share"}
+            </button>
+            <button
+              type="button"
+              className="text-red-600 hover:underline"
+              onClick={() => deleteView(view)}
+            >
+              Delete
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-purple-100 p-4 space-y-4">
+      <h2 className="text-sm font-semibold text-purple-700 uppercase tracking-wider">
+        Saved Views
+      </h2>
+
+      {error && <p className="text-red-600 text-xs">{error}</p>}
+
+      {views.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Save the current filters to get back to them in one click.
+        </p>
+      ) : (
+        sections
+          .filter((section) => section.items.length > 0)
+          .map((section) => (
+            <div key={section.title}>
+              <p className="text-xs font-medium text-gray-500 mb-1">
+                {section.title}
+              </p>
+              <ul className="space-y-0.5">{section.items.map(renderView)}</ul>
+            </div>
+          ))
+      )}
+
+      <form onSubmit={saveView} className="space-y-2 border-t pt-4">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Hot Mohali villas"
+          maxLength={100}
+          aria-label="View name"
+        />
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={pinned}
+            onChange={(e) => setPinned(e.target.checked)}
+          />
+          Pin to sidebar
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={shared}
+            onChange={(e) => setShared(e.target.checked)}
+          />
+          Share with my organization
+        </label>
+        <Button
+          type="submit"
+          size="sm"
+          className="w-full"
+          disabled={isSaving || name.trim().length < 2}
+        >
+          {isSaving ? "Saving..." : "Save Current View"}
+        </Button>
+      </form>
+    </div>
+  );
+}
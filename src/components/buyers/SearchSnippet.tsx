@@ -0,0 +1,22 @@
+import { splitHighlights } from "../../lib/buyers/highlight";
+
+interface SearchSnippetProps {
+  snippet: string;
+}
+
+// Renders a search excerpt with the matched words highlighted
+export function SearchSnippet({ snippet }: SearchSnippetProps) {
+  return (
+    <span>
+      {splitHighlights(snippet).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </span>
+  );
+}
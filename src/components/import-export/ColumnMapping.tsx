@@ -0,0 +1,309 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  IMPORT_FIELD_LABELS,
+  IMPORT_HEADERS,
+  IMPORT_REQUIRED_FIELDS,
+  ImportField,
+  ImportMapping,
+  matchImportTemplate,
+  missingImportFields,
+} from "../../lib/imports/mapping";
+import type { ImportTemplate } from "../../lib/db/schema";
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-purple-200 bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400";
+
+interface ColumnMappingProps {
+  headers: string[];
+  // The first rows of the file, keyed by its own headers
+  rows: Record<string, string>[];
+  mapping: ImportMapping;
+  onChange: (mapping: ImportMapping) => void;
+}
+
+export function ColumnMapping({
+  headers,
+  rows,
+  mapping,
+  onChange,
+}: ColumnMappingProps) {
+  const { data: session } = useSession();
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  // Load the organization's templates and apply the one that fits this file
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch("/api/import-templates");
+        if (!response.ok) {
+          throw new Error("Failed to fetch import templates");
+        }
+
+        const list: ImportTemplate[] = (await response.json()).templates;
+        setTemplates(list);
+
+        const match = matchImportTemplate(headers, list);
+        if (match) {
+          onChange(match.mapping as ImportMapping);
+          setTemplateId(match.id);
+          setTemplateName(match.name);
+        }
+      } catch (error) {
+        console.error("Error fetching import templates:", error);
+      }
+    };
+
+    loadTemplates();
+  }, [headers, onChange]);
+
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+
+    // Columns this file doesn't have are dropped from the template's mapping
+    const applied: ImportMapping = {};
+    Object.entries(template.mapping).forEach(([column, field]) => {
+      if (headers.includes(column)) applied[column] = field as ImportField;
+    });
+    onChange(applied);
+    setTemplateName(template.name);
+  };
+
+  const mapColumn = (column: string, field: ImportField | "") => {
+    const next: ImportMapping = {};
+    Object.entries(mapping).forEach(([otherColumn, otherField]) => {
+      // A field comes from one column, so picking it again moves it here
+      if (otherColumn !== column && otherField !== field) {
+        next[otherColumn] = otherField;
+      }
+    });
+    if (field) next[column] = field;
+    onChange(next);
+  };
+
+  const saveTemplate = async () => {
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/import-templates", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name: templateName, mapping }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to save template"
+        );
+      }
+
+      setTemplates((prev) =>
+        [...prev.filter((t) => t.id !== data.id), data].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setTemplateId(data.id);
+    } catch (error) {
+      console.error("Error saving import template:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to save template"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTemplate = async () => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+    setError("");
+
+    try {
+      const response = await fetch(`/api/import-templates/${template.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete template");
+      }
+
+      setTemplates(templates.filter((t) => t.id !== template.id));
+      setTemplateId("");
+    } catch (error) {
+      console.error("Error deleting import template:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to delete template"
+      );
+    }
+  };
+
+  const missing = missingImportFields(mapping);
+  const mappedColumns = headers.filter((header) => mapping[header]);
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+  const canDeleteTemplate =
+    selectedTemplate &&
+    (selectedTemplate.createdBy === session?.user?.id ||
+      session?.user?.role === "admin");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Mapping template
+          </label>
+          <select
+            value={templateId}
+            onChange={(e) => applyTemplate(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">
+              {templates.length === 0 ? "No saved templates" : "Suggested"}
+            </option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {canDeleteTemplate && (
+          <Button variant="ghost" size="sm" onClick={deleteTemplate}>
+            Delete Template
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto border border-purple-100 rounded-md">
+        <table className="min-w-full text-sm">
+          <thead className="bg-purple-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">File column</th>
+              <th className="px-3 py-2 text-left font-medium">
+                Sample values
+              </th>
+              <th className="px-3 py-2 text-left font-medium w-48">
+                Buyer field
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {headers.map((header) => (
+              <tr key={header}>
+                <td className="px-3 py-2 font-medium text-gray-900">
+                  {header}
+                </td>
+                <td className="px-3 py-2 text-gray-600 max-w-xs truncate">
+                  {rows
+                    .map((row) => row[header])
+                    .filter(Boolean)
+                    .slice(0, 3)
+                    .join(" · ")}
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    value={mapping[header] ?? ""}
+                    onChange={(e) =>
+                      mapColumn(header, e.target.value as ImportField | "")
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">Ignore</option>
+                    {IMPORT_HEADERS.map((field) => (
+                      <option key={field} value={field}>
+                        {IMPORT_FIELD_LABELS[field]}
+                        {IMPORT_REQUIRED_FIELDS.includes(field) && " *"}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-amber-700">
+          Still needed:{" "}
+          {missing.map((field) => IMPORT_FIELD_LABELS[field]).join(", ")}
+        </p>
+      )}
+
+      {mappedColumns.length > 0 && (
+        <div>
+          <h3 className="font-medium mb-2">Preview</h3>
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50">
+                <tr>
+                  {mappedColumns.map((column) => (
+                    <th
+                      key={column}
+                      className="px-2 py-1 text-left font-medium whitespace-nowrap"
+                    >
+                      {IMPORT_FIELD_LABELS[mapping[column]!]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map((row, index) => (
+                  <tr key={index}>
+                    {mappedColumns.map((column) => (
+                      <td
+                        key={column}
+                        className="px-2 py-1 max-w-[12rem] truncate"
+                      >
+                        {row[column]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+        <Input
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder="Template name, e.g. 99acres"
+          maxLength={100}
+          className="max-w-xs"
+          aria-label="Template name"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={saveTemplate}
+          disabled={
+            isSaving || templateName.trim().length < 2 || missing.length > 0
+          }
+        >
+          {isSaving ? "Saving..." : "Save as Template"}
+        </Button>
+        {error && <p className="text-red-600 text-xs">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  DERIVED_EXPORT_COLUMNS,
+  EXPORT_COLUMN_NAMES,
+  EXPORT_COLUMNS,
+  ExportColumn,
+  ExportLayout,
+} from "../../lib/buyers/export-columns";
+import type { ExportTemplate } from "../../lib/db/schema";
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-purple-200 bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400";
+
+interface ExportOptionsProps {
+  layout: ExportLayout;
+  onApply: (layout: ExportLayout) => void;
+  onClose: () => void;
+}
+
+export function ExportOptions({ layout, onApply, onClose }: ExportOptionsProps) {
+  const { data: session } = useSession();
+  const [columns, setColumns] = useState<ExportColumn[]>(layout.columns);
+  const [labels, setLabels] = useState(layout.labels);
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch("/api/export-templates");
+        if (!response.ok) {
+          throw new Error("Failed to fetch export templates");
+        }
+        setTemplates((await response.json()).templates);
+      } catch (error) {
+        console.error("Error fetching export templates:", error);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
+  // Only the labels of picked columns are kept, and blank ones fall back to
+  // the column key
+  const currentLayout = (): ExportLayout => ({
+    columns,
+    labels: Object.fromEntries(
+      columns
+        .filter((column) => labels[column]?.trim())
+        .map((column) => [column, labels[column]!.trim()])
+    ),
+  });
+
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+
+    // Columns that no longer exist are dropped
+    setColumns(
+      template.columns.filter((column): column is ExportColumn =>
+        EXPORT_COLUMNS.includes(column as ExportColumn)
+      )
+    );
+    setLabels(template.labels as ExportLayout["labels"]);
+    setTemplateName(template.name);
+  };
+
+  const toggleColumn = (column: ExportColumn) => {
+    setColumns(
+      columns.includes(column)
+        ? columns.filter((c) => c !== column)
+        : [...columns, column]
+    );
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const next = [...columns];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setColumns(next);
+  };
+
+  const saveTemplate = async () => {
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/export-templates", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name: templateName, ...currentLayout() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to save template"
+        );
+      }
+
+      setTemplates((prev) =>
+        [...prev.filter((t) => t.id !== data.id), data].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setTemplateId(data.id);
+    } catch (error) {
+      console.error("Error saving export template:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to save template"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTemplate = async () => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+    setError("");
+
+    try {
+      const response = await fetch(`/api/export-templates/${template.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete template");
+      }
+
+      setTemplates(templates.filter((t) => t.id !== template.id));
+      setTemplateId("");
+    } catch (error) {
+      console.error("Error deleting export template:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to delete template"
+      );
+    }
+  };
+
+  const unpicked = EXPORT_COLUMNS.filter((column) => !columns.includes(column));
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+  const canDeleteTemplate =
+    selectedTemplate &&
+    (selectedTemplate.createdBy === session?.user?.id ||
+      session?.user?.role === "admin");
+
+  const renderName = (column: ExportColumn) => (
+    <>
+      {EXPORT_COLUMN_NAMES[column]}
+      {DERIVED_EXPORT_COLUMNS.includes(column) && (
+        <span className="ml-1 text-xs text-purple-500">derived</span>
+      )}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Export Options</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[200px]">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Export template
+              </label>
+              <select
+                value={templateId}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">
+                  {templates.length === 0 ? "No saved templates" : "Custom"}
+                </option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {canDeleteTemplate && (
+              <Button variant="ghost" size="sm" onClick={deleteTemplate}>
+                Delete Template
+              </Button>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-600">
+            Pick the columns to export and put them in order. Leave a header
+            blank to use the column name, which is also what an import expects.
+          </p>
+
+          <div className="overflow-x-auto border border-purple-100 rounded-md">
+            <table className="min-w-full text-sm">
+              <thead className="bg-purple-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Column</th>
+                  <th className="px-3 py-2 text-left font-medium">Header</th>
+                  <th className="px-3 py-2 text-left font-medium w-20">
+                    Order
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {columns.map((column, index) => (
+                  <tr key={column}>
+                    <td className="px-3 py-2">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked
+                          onChange={() => toggleColumn(column)}
+                        />
+                        {renderName(column)}
+                      </label>
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        value={labels[column] ?? ""}
+                        onChange={(e) =>
+                          setLabels({ ...labels, [column]: e.target.value })
+                        }
+                        placeholder={column}
+                        maxLength={100}
+                        className="h-9"
+                        aria-label={`Header for ${EXPORT_COLUMN_NAMES[column]}`}
+                      />
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <button
+                        type="button"
+                        className="px-1 text-purple-600 disabled:text-gray-300"
+                        onClick={() => moveColumn(index, -1)}
+                        disabled={index === 0}
+                        aria-label="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="px-1 text-purple-600 disabled:text-gray-300"
+                        onClick={() => moveColumn(index, 1)}
+                        disabled={index === columns.length - 1}
+                        aria-label="Move down"
+                      >
+                        ↓
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {unpicked.map((column) => (
+                  <tr key={column} className="text-gray-500">
+                    <td className="px-3 py-2" colSpan={3}>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={false}
+                          onChange={() => toggleColumn(column)}
+                        />
+                        {renderName(column)}
+                      </label>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {columns.length === 0 && (
+            <p className="text-sm text-amber-700">Pick at least one column.</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+            <Input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name, e.g. Owner report"
+              maxLength={100}
+              className="max-w-xs"
+              aria-label="Template name"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={saveTemplate}
+              disabled={
+                isSaving ||
+                templateName.trim().length < 2 ||
+                columns.length === 0
+              }
+            >
+              {isSaving ? "Saving..." : "Save as Template"}
+            </Button>
+            {error && <p className="text-red-600 text-xs">{error}</p>}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setColumns(DEFAULT_EXPORT_COLUMNS);
+                setLabels({});
+                setTemplateId("");
+              }}
+            >
+              Reset to Default
+            </Button>
+            <Button
+              onClick={() => onApply(currentLayout())}
+              disabled={columns.length === 0}
+            >
+              Use These Columns
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,717 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { ColumnMapping } from "./ColumnMapping";
+import { ImportPreview } from "./ImportPreview";
+import { ExportOptions } from "./ExportOptions";
+import type {
+  ImportJobResponse,
+  ImportPreview as ImportPreviewResult,
+} from "../../lib/imports";
+import type { ImportJobMode } from "../../lib/db/schema";
+import {
+  IMPORT_FIELD_LABELS,
+  IMPORT_REQUIRED_FIELDS,
+  ImportMapping,
+  missingImportFields,
+  suggestImportMapping,
+} from "../../lib/imports/mapping";
+import {
+  detectImportFormat,
+  IMPORT_ACCEPT,
+  readImportFile,
+} from "../../lib/imports/formats";
+import type { ExportFormat } from "../../lib/buyers/export";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  ExportLayout,
+} from "../../lib/buyers/export-columns";
+
+// How often a running import is polled for progress
+const POLL_INTERVAL_MS = 1500;
+
+// Rows shown in the mapping step
+const PREVIEW_ROWS = 5;
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+  json: "JSON",
+  ndjson: "NDJSON",
+};
+
+const selectClassName =
+  "h-10 rounded-md border border-purple-200 bg-white px-3 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400";
+
+interface FilePreview {
+  file: File;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+function isRunning(job: ImportJobResponse | null) {
+  return job?.status === "queued" || job?.status === "processing";
+}
+
+interface ImportExportManagerProps {
+  currentFilters: URLSearchParams;
+  onImportComplete: () => void;
+}
+
+export function ImportExportManager({
+  currentFilters,
+  onImportComplete,
+}: ImportExportManagerProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  // null exports the default columns
+  const [exportLayout, setExportLayout] = useState<ExportLayout | null>(null);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+  const [importJob, setImportJob] = useState<ImportJobResponse | null>(null);
+  const [importError, setImportError] = useState("");
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [importMode, setImportMode] = useState<ImportJobMode>("create");
+  const [dryRun, setDryRun] = useState<ImportPreviewResult | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isImporting = isUploading || isRunning(importJob);
+
+  // Follow a running import until it finishes, then refresh the list
+  useEffect(() => {
+    if (!importJob || !isRunning(importJob)) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/buyers/import/${importJob.id}`);
+        const job = await response.json();
+
+        if (!response.ok) {
+          throw new Error(job.error || "Failed to check import progress");
+        }
+
+        setImportJob(job);
+        if (
+          job.status === "completed" &&
+          job.importedRows + job.updatedRows > 0
+        ) {
+          onImportComplete();
+        }
+      } catch (error: any) {
+        console.error("Import progress error:", error);
+        setImportError(error.message || "Failed to check import progress");
+        setImportJob(null);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [importJob, onImportComplete]);
+
+  const clearFileInput = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  // Read the headers and first rows so the columns can be mapped before
+  // anything is uploaded
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setImportError("");
+    setImportJob(null);
+    setPreview(null);
+    setDryRun(null);
+
+    try {
+      const format = detectImportFormat(file.name);
+      if (!format) {
+        throw new Error(
+          "Please choose a CSV, Excel (.xlsx), JSON or NDJSON file"
+        );
+      }
+
+      const table = await readImportFile(
+        await file.arrayBuffer(),
+        format,
+        PREVIEW_ROWS
+      );
+      if (table.errors.length > 0) {
+        throw new Error(table.errors[0]);
+      }
+      if (table.headers.length === 0 || table.rows.length === 0) {
+        throw new Error("File is empty");
+      }
+
+      setMapping(suggestImportMapping(table.headers));
+      setPreview({ file, headers: table.headers, rows: table.rows });
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      setImportError(
+        error instanceof Error ? error.message : "Failed to read file"
+      );
+      clearFileInput();
+    }
+  };
+
+  const cancelMapping = () => {
+    setPreview(null);
+    setDryRun(null);
+    clearFileInput();
+  };
+
+  // A dry run comes first so the user can check what will change; the
+  // confirmed import then runs as a background job
+  const handleImport = async (isDryRun: boolean) => {
+    if (!preview) return;
+
+    setIsUploading(true);
+    setImportError("");
+
+    try {
+      const formData = new FormData();
+      formData.append("file", preview.file);
+      formData.append("mapping", JSON.stringify(mapping));
+      formData.append("mode", importMode);
+      formData.append("dryRun", String(isDryRun));
+
+      const response = await fetch("/api/buyers/import", {
+        method: "POST",
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          result.missingHeaders
+            ? `${result.error}: ${result.missingHeaders.join(", ")}`
+            : result.details?.[0]?.message || result.error || "Import failed"
+        );
+      }
+
+      if (isDryRun) {
+        setDryRun(result);
+        return;
+      }
+
+      setImportJob(result);
+      setPreview(null);
+      setDryRun(null);
+      clearFileInput();
+    } catch (error: any) {
+      console.error("Import error:", error);
+      setImportError(error.message || "Failed to import file");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+
+    try {
+      const params = new URLSearchParams(currentFilters);
+      params.set("format", exportFormat);
+      if (exportLayout) {
+        params.set("columns", exportLayout.columns.join(","));
+        if (Object.keys(exportLayout.labels).length > 0) {
+          params.set("labels", JSON.stringify(exportLayout.labels));
+        }
+      }
+      const exportUrl = `/api/buyers/export?${params.toString()}`;
+      const response = await fetch(exportUrl);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Export failed");
+      }
+
+      // Create download link
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+
+      // Get filename from response headers or use default
+      const contentDisposition = response.headers.get("content-disposition");
+      const filename = contentDisposition
+        ? contentDisposition.split("filename=")[1]?.replace(/"/g, "")
+        : `buyers-export-${new Date().toISOString().split("T")[0]}.${exportFormat}`;
+
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(link);
+    } catch (error: any) {
+      console.error("Export error:", error);
+      alert(`Export failed: ${error.message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const templateData = [
+      {
+        fullName: "John Doe",
+        email: "john@example.com",
+        phone: "9876543210",
+        city: "Chandigarh",
+        propertyType: "Apartment",
+        bhk: "2",
+        purpose: "Buy",
+        budgetMin: "5000000",
+        budgetMax: "7000000",
+        timeline: "0-3m",
+        source: "Website",
+        notes: "Looking for 2BHK in Sector 22",
+        tags: "urgent, first-time buyer",
+        status: "New",
+      },
+    ];
+
+    const csv = [
+      "fullName,email,phone,city,propertyType,bhk,purpose,budgetMin,budgetMax,timeline,source,notes,tags,status",
+      templateData
+        .map((row) =>
+          Object.values(row)
+            .map((value) =>
+              typeof value === "string" && value.includes(",")
+                ? `"${value}"`
+                : value
+            )
+            .join(",")
+        )
+        .join("\n"),
+    ].join("\n");
+
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "buyers-template.csv";
+    document.body.appendChild(link);
+    link.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(link);
+  };
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          onClick={() => setShowImportModal(true)}
+          disabled={isImporting}
+        >
+          {isImporting ? "Importing..." : "Import"}
+        </Button>
+
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          className={selectClassName}
+          aria-label="Export format"
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(
+            (format) => (
+              <option key={format} value={format}>
+                {EXPORT_FORMAT_LABELS[format]}
+              </option>
+            )
+          )}
+        </select>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? "Exporting..." : "Export"}
+        </Button>
+        <Button variant="ghost" onClick={() => setShowExportOptions(true)}>
+          {exportLayout
+            ? `Export Options (${exportLayout.columns.length} columns)`
+            : "Export Options"}
+        </Button>
+
+        <Button variant="outline" onClick={downloadTemplate}>
+          Download Template
+        </Button>
+      </div>
+
+      {showExportOptions && (
+        <ExportOptions
+          layout={
+            exportLayout ?? { columns: DEFAULT_EXPORT_COLUMNS, labels: {} }
+          }
+          onApply={(layout) => {
+            setExportLayout(layout);
+            setShowExportOptions(false);
+          }}
+          onClose={() => setShowExportOptions(false)}
+        />
+      )}
+
+      {/* Import Modal */}
+      {showImportModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">Import Buyers</h2>
+              <button
+                onClick={() => {
+                  setShowImportModal(false);
+                  if (!isRunning(importJob)) setImportJob(null);
+                  setImportError("");
+                  setPreview(null);
+                  setDryRun(null);
+                }}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm text-gray-600 mb-2">
+                  Upload a CSV, Excel (.xlsx), JSON or NDJSON file with buyer
+                  data, up to 10,000 rows. Every sheet of a workbook is read.
+                  Large files import in the background; you can close this
+                  window and the list refreshes when the import finishes.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMPORT_ACCEPT}
+                    onChange={handleFileSelect}
+                    disabled={isImporting}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={downloadTemplate}
+                    disabled={isImporting}
+                  >
+                    Get Template
+                  </Button>
+                </div>
+              </div>
+
+              {preview && dryRun ? (
+                <div className="space-y-4">
+                  <ImportPreview preview={dryRun} />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setDryRun(null)}
+                      disabled={isUploading}
+                    >
+                      Back to Mapping
+                    </Button>
+                    <Button
+                      onClick={() => handleImport(false)}
+                      disabled={
+                        isImporting ||
+                        dryRun.created.length + dryRun.updated.length === 0
+                      }
+                    >
+                      {isUploading ? "Uploading..." : "Confirm Import"}
+                    </Button>
+                  </div>
+                </div>
+              ) : preview ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Match the columns of{" "}
+                    <span className="font-medium">{preview.file.name}</span>{" "}
+                    to buyer fields. Columns set to Ignore are not imported.
+                  </p>
+                  <ColumnMapping
+                    headers={preview.headers}
+                    rows={preview.rows}
+                    mapping={mapping}
+                    onChange={setMapping}
+                  />
+                  <div className="space-y-1 text-sm text-gray-700">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="importMode"
+                        checked={importMode === "create"}
+                        onChange={() => setImportMode("create")}
+                      />
+                      Add every row as a new lead
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="importMode"
+                        checked={importMode === "upsert"}
+                        onChange={() => setImportMode("upsert")}
+                      />
+                      Update leads with the same phone or email, add the rest
+                    </label>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={cancelMapping}
+                      disabled={isUploading}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={() => handleImport(true)}
+                      disabled={
+                        isImporting || missingImportFields(mapping).length > 0
+                      }
+                    >
+                      {isUploading ? "Checking..." : "Preview Import"}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                !importJob && (
+                  <div className="bg-gray-50 p-4 rounded-md">
+                    <h3 className="font-medium mb-2">Required Fields:</h3>
+                    <p className="text-sm text-gray-600">
+                      {IMPORT_REQUIRED_FIELDS.map(
+                        (field) => IMPORT_FIELD_LABELS[field]
+                      ).join(", ")}
+                      . Your file can use its own column names; you map them
+                      to buyer fields after choosing it.
+                    </p>
+                  </div>
+                )
+              )}
+
+              {importError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <p className="text-red-600 font-medium">Import Error:</p>
+                  <p className="text-red-600 text-sm">{importError}</p>
+                </div>
+              )}
+
+              {importJob && isRunning(importJob) && (
+                <div className="bg-purple-50 border border-purple-200 rounded-md p-4">
+                  <div className="flex justify-between text-sm text-purple-900 mb-2">
+                    <span className="font-medium">
+                      {importJob.status === "queued"
+                        ? `Queued ${importJob.fileName}...`
+                        : `Importing ${importJob.fileName}...`}
+                    </span>
+                    <span>
+                      {importJob.processedRows} / {importJob.totalRows} rows
+                    </span>
+                  </div>
+                  <div className="h-2 w-full bg-purple-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-purple-600 transition-all duration-500"
+                      style={{
+                        width: `${
+                          importJob.totalRows > 0
+                            ? (importJob.processedRows / importJob.totalRows) *
+                              100
+                            : 0
+                        }%`,
+                      }}
+                    />
+                  </div>
+                  <p className="text-xs text-purple-700 mt-2">
+                    {importJob.importedRows} imported
+                    {importJob.mode === "upsert" &&
+                      `, ${importJob.updatedRows} updated`}
+                    , {importJob.errorRows} with errors so far
+                  </p>
+                </div>
+              )}
+
+              {importJob?.status === "failed" && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <p className="text-red-600 font-medium">Import Failed:</p>
+                  <p className="text-red-600 text-sm">
+                    {importJob.failureReason || "Unknown error"}. Rows before
+                    row {importJob.processedRows + 2} were imported.
+                  </p>
+                </div>
+              )}
+
+              {importJob && !isRunning(importJob) && (
+                <div className="space-y-4">
+                  <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+                    <h3 className="font-medium text-blue-900 mb-2">
+                      Import Summary:
+                    </h3>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                      <div>
+                        <span className="font-medium">Total Rows:</span>
+                        <p className="text-lg">{importJob.totalRows}</p>
+                      </div>
+                      <div>
+                        <span className="font-medium text-green-600">
+                          Successfully Imported:
+                        </span>
+                        <p className="text-lg text-green-600">
+                          {importJob.importedRows}
+                        </p>
+                      </div>
+                      {importJob.mode === "upsert" && (
+                        <>
+                          <div>
+                            <span className="font-medium text-purple-600">
+                              Updated:
+                            </span>
+                            <p className="text-lg text-purple-600">
+                              {importJob.updatedRows}
+                            </p>
+                          </div>
+                          <div>
+                            <span className="font-medium">Skipped:</span>
+                            <p className="text-lg">{importJob.skippedRows}</p>
+                          </div>
+                        </>
+                      )}
+                      <div>
+                        <span className="font-medium text-red-600">
+                          Errors:
+                        </span>
+                        <p className="text-lg text-red-600">
+                          {importJob.errorRows}
+                        </p>
+                      </div>
+                      <div>
+                        <span className="font-medium">Success Rate:</span>
+                        <p className="text-lg">
+                          {importJob.totalRows > 0
+                            ? Math.round(
+                                ((importJob.importedRows +
+                                  importJob.updatedRows) /
+                                  importJob.totalRows) *
+                                  100
+                              )
+                            : 0}
+                          %
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+
+                  {importJob.errorCount > 0 && (
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                      <div className="flex justify-between items-center mb-2">
+                        <h3 className="font-medium text-red-900">
+                          Validation Errors:
+                        </h3>
+                        <a
+                          href={`/api/buyers/import/${importJob.id}/errors`}
+                          className="text-sm text-red-700 underline"
+                        >
+                          Download error report
+                        </a>
+                      </div>
+                      <div className="max-h-64 overflow-y-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b">
+                              <th className="text-left p-2">Row</th>
+                              <th className="text-left p-2">Field</th>
+                              <th className="text-left p-2">Error</th>
+                              <th className="text-left p-2">Value</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {importJob.errors.map((error, index) => (
+                                <tr key={index} className="border-b">
+                                  <td className="p-2">{error.row}</td>
+                                  <td className="p-2">{error.field}</td>
+                                  <td className="p-2 text-red-600">
+                                    {error.message}
+                                  </td>
+                                  <td className="p-2 text-gray-600 truncate max-w-32">
+                                    {String(error.value)}
+                                  </td>
+                                </tr>
+                              ))}
+                          </tbody>
+                        </table>
+                        {importJob.errorCount > importJob.errors.length && (
+                          <p className="text-xs text-gray-500 mt-2">
+                            ... and{" "}
+                            {importJob.errorCount - importJob.errors.length}{" "}
+                            more errors in the report
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {importJob.duplicateCount > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-md p-4">
+                      <h3 className="font-medium text-amber-900 mb-2">
+                        Possible Duplicates ({importJob.duplicateCount}):
+                      </h3>
+                      <p className="text-sm text-amber-800 mb-2">
+                        These rows were imported but look like existing leads.
+                        Review them and merge where needed.
+                      </p>
+                      <ul className="max-h-64 overflow-y-auto space-y-1 text-sm">
+                        {importJob.duplicates.map((warning) => (
+                          <li key={warning.row}>
+                            <span className="font-medium">
+                              Row {warning.row}:
+                            </span>{" "}
+                            {warning.duplicateOfRow &&
+                              `repeats row ${warning.duplicateOfRow}`}
+                            {warning.duplicateOfRow &&
+                              warning.matches.length > 0 &&
+                              "; "}
+                            {warning.matches.map((match, index) => (
+                              <span key={match.buyer.id}>
+                                {index > 0 && ", "}
+                                matches{" "}
+                                {warning.buyerId ? (
+                                  <Link
+                                    href={`/buyers/merge?primary=${match.buyer.id}&secondary=${warning.buyerId}`}
+                                    className="text-blue-600 underline"
+                                  >
+                                    {match.buyer.fullName}
+                                  </Link>
+                                ) : (
+                                  match.buyer.fullName
+                                )}{" "}
+                                ({match.reasons.join(", ")})
+                              </span>
+                            ))}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={() => {
+                        setShowImportModal(false);
+                        setImportJob(null);
+                        setImportError("");
+                      }}
+                    >
+                      Close
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import Link from "next/link";
+import type { ImportPreview as ImportPreviewResult } from "../../lib/imports";
+import { IMPORT_FIELD_LABELS, ImportField } from "../../lib/imports/mapping";
+
+// Rows listed per section; the counts always cover the whole file
+const LIST_LIMIT = 100;
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.join(", ") || "—";
+  return String(value);
+}
+
+function fieldLabel(field: string) {
+  return IMPORT_FIELD_LABELS[field as ImportField] || field;
+}
+
+function MoreRows({ total }: { total: number }) {
+  if (total <= LIST_LIMIT) return null;
+  return (
+    <p className="text-xs text-gray-500 mt-2">
+      ... and {total - LIST_LIMIT} more
+    </p>
+  );
+}
+
+interface ImportPreviewProps {
+  preview: ImportPreviewResult;
+}
+
+export function ImportPreview({ preview }: ImportPreviewProps) {
+  const counts = [
+    {
+      label: "New Leads",
+      value: preview.created.length,
+      className: "text-green-600",
+    },
+    {
+      label: "Updated",
+      value: preview.updated.length,
+      className: "text-purple-600",
+    },
+    {
+      label: "Skipped",
+      value: preview.skipped.length,
+      className: "text-gray-600",
+    },
+    {
+      label: "Invalid Rows",
+      value: preview.errorRows,
+      className: "text-red-600",
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+        <h3 className="font-medium text-blue-900 mb-2">
+          Dry Run: {preview.totalRows} rows
+        </h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          {counts.map((count) => (
+            <div key={count.label}>
+              <span className="font-medium">{count.label}:</span>
+              <p className={`text-lg ${count.className}`}>{count.value}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {preview.updated.length > 0 && (
+        <div className="border border-purple-200 rounded-md p-4">
+          <h3 className="font-medium text-purple-900 mb-2">
+            Leads to Update:
+          </h3>
+          <ul className="max-h-64 overflow-y-auto space-y-2 text-sm">
+            {preview.updated.slice(0, LIST_LIMIT).map((update) => (
+              <li key={update.row}>
+                <span className="font-medium">Row {update.row}:</span>{" "}
+                <Link
+                  href={`/buyers/${update.buyerId}`}
+                  target="_blank"
+                  className="text-purple-700 underline"
+                >
+                  {update.fullName}
+                </Link>
+                <ul className="ml-4 text-xs text-gray-600">
+                  {Object.entries(update.changes).map(([field, change]) => (
+                    <li key={field}>
+                      {fieldLabel(field)}: {formatValue(change.old)} →{" "}
+                      {formatValue(change.new)}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+          <MoreRows total={preview.updated.length} />
+        </div>
+      )}
+
+      {preview.skipped.length > 0 && (
+        <div className="border border-gray-200 rounded-md p-4">
+          <h3 className="font-medium text-gray-900 mb-2">Rows to Skip:</h3>
+          <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+            {preview.skipped.slice(0, LIST_LIMIT).map((skip) => (
+              <li key={skip.row}>
+                <span className="font-medium">Row {skip.row}:</span>{" "}
+                {skip.reason}
+                {skip.buyerId && (
+                  <>
+                    {" "}
+                    (
+                    <Link
+                      href={`/buyers/${skip.buyerId}`}
+                      target="_blank"
+                      className="text-purple-700 underline"
+                    >
+                      view lead
+                    </Link>
+                    )
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+          <MoreRows total={preview.skipped.length} />
+        </div>
+      )}
+
+      {preview.created.length > 0 && (
+        <div className="border border-green-200 rounded-md p-4">
+          <h3 className="font-medium text-green-900 mb-2">
+            New Leads to Create:
+          </h3>
+          <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+            {preview.created.slice(0, LIST_LIMIT).map((create) => (
+              <li key={create.row}>
+                <span className="font-medium">Row {create.row}:</span>{" "}
+                {create.fullName} · {create.phone}
+              </li>
+            ))}
+          </ul>
+          <MoreRows total={preview.created.length} />
+          {preview.duplicates.length > 0 && (
+            <p className="text-xs text-amber-700 mt-2">
+              {preview.duplicates.length} of these look like existing leads or
+              earlier rows and will be flagged for review.
+            </p>
+          )}
+        </div>
+      )}
+
+      {preview.errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <h3 className="font-medium text-red-900 mb-2">
+            Invalid Rows (not imported):
+          </h3>
+          <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+            {preview.errors.slice(0, LIST_LIMIT).map((error, index) => (
+              <li key={index} className="text-red-700">
+                <span className="font-medium">Row {error.row}:</span>{" "}
+                {fieldLabel(error.field)} – {error.message}
+              </li>
+            ))}
+          </ul>
+          <MoreRows total={preview.errors.length} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { formatDate } from "../../lib/utils";
+import { BuyerTask } from "../../lib/db/schema";
+
+interface TaskWithAssignee extends BuyerTask {
+  assigneeName: string | null;
+}
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface BuyerTasksProps {
+  buyerId: string;
+  canEdit: boolean;
+  currentUserId?: string;
+}
+
+const TASK_TYPES = ["Call", "Visit", "Email", "Meeting", "Other"];
+
+// Default new tasks to tomorrow at 10am, formatted for datetime-local
+function defaultDueAt() {
+  const due = new Date();
+  due.setDate(due.getDate() + 1);
+  due.setHours(10, 0, 0, 0);
+  const offset = due.getTimezoneOffset() * 60 * 1000;
+  return new Date(due.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export function BuyerTasks({
+  buyerId,
+  canEdit,
+  currentUserId,
+}: BuyerTasksProps) {
+  const [tasks, setTasks] = useState<TaskWithAssignee[]>([]);
+  const [userOptions, setUserOptions] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [form, setForm] = useState({
+    title: "",
+    type: "Call",
+    dueAt: defaultDueAt(),
+    assigneeId: currentUserId || "",
+  });
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch tasks");
+      }
+      const data = await response.json();
+      setTasks(data.tasks);
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+      setError("Failed to load tasks.");
+    } finally {
+      setLoading(false);
+    }
+  }, [buyerId]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  useEffect(() => {
+    if (!showForm || userOptions.length > 0) return;
+
+    fetch("/api/users")
+      .then((response) => (response.ok ? response.json() : { users: [] }))
+      .then((data) => setUserOptions(data.users))
+      .catch((error) => console.error("Error fetching users:", error));
+  }, [showForm, userOptions.length]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          title: form.title,
+          type: form.type,
+          dueAt: new Date(form.dueAt).toISOString(),
+          assigneeId: form.assigneeId || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.details?.[0]?.message ||
+            errorData.error ||
+            "Failed to create task"
+        );
+      }
+
+      setForm({ ...form, title: "", dueAt: defaultDueAt() });
+      setShowForm(false);
+      await fetchTasks();
+    } catch (error) {
+      console.error("Error creating task:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to create task"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleDone = async (task: TaskWithAssignee) => {
+    try {
+      const response = await fetch(
+        `/api/buyers/${buyerId}/tasks/${task.id}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ done: !task.done }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to update task");
+      }
+
+      await fetchTasks();
+    } catch (error) {
+      console.error("Error updating task:", error);
+      setError("Failed to update task.");
+    }
+  };
+
+  const handleDelete = async (task: TaskWithAssignee) => {
+    if (!confirm(`Delete task "${task.title}"?`)) return;
+
+    try {
+      const response = await fetch(
+        `/api/buyers/${buyerId}/tasks/${task.id}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to delete task");
+      }
+
+      await fetchTasks();
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      setError("Failed to delete task.");
+    }
+  };
+
+  const isOverdue = (task: TaskWithAssignee) =>
+    !task.done && new Date(task.dueAt).getTime() < Date.now();
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Follow-up Tasks</h2>
+        {canEdit && !showForm && (
+          <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+            Add Task
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-red-600 text-sm mb-3">{error}</p>}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="space-y-3 mb-4">
+          <Input
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            placeholder="e.g. Call about Sector 70 plot"
+            required
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value })}
+              className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+            >
+              {TASK_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="datetime-local"
+              value={form.dueAt}
+              onChange={(e) => setForm({ ...form, dueAt: e.target.value })}
+              required
+            />
+          </div>
+          <select
+            value={form.assigneeId}
+            onChange={(e) => setForm({ ...form, assigneeId: e.target.value })}
+            className="flex h-10 w-full rounded-md border border-purple-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400"
+          >
+            <option value="">Assign to me</option>
+            {userOptions
+              .filter((user) => user.id !== currentUserId)
+              .map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.name || user.email}
+                </option>
+              ))}
+          </select>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setShowForm(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Task"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-gray-500 text-sm">Loading tasks...</p>
+      ) : tasks.length === 0 ? (
+        <p className="text-gray-500 text-sm">No follow-ups scheduled.</p>
+      ) : (
+        <ul className="space-y-3">
+          {tasks.map((task) => {
+            const canComplete = canEdit || task.assigneeId === currentUserId;
+
+            return (
+              <li key={task.id} className="flex items-start gap-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={task.done}
+                  disabled={!canComplete}
+                  onChange={() => toggleDone(task)}
+                  className="mt-1"
+                  aria-label={`Mark "${task.title}" as done`}
+                />
+                <div className="flex-1">
+                  <p
+                    className={`font-medium ${
+                      task.done ? "line-through text-gray-400" : ""
+                    }`}
+                  >
+                    {task.title}
+                  </p>
+                  <p
+                    className={
+                      isOverdue(task) ? "text-red-600" : "text-gray-500"
+                    }
+                  >
+                    {task.type} • {formatDate(new Date(task.dueAt))}
+                    {isOverdue(task) && " (overdue)"}
+                  </p>
+                  {task.assigneeName && (
+                    <p className="text-gray-500">
+                      Assigned to {task.assigneeName}
+                    </p>
+                  )}
+                </div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(task)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Delete "${task.title}"`}
+                  >
+                    ×
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
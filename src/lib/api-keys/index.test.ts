@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { ApiKey } from "../db/schema";
+import { generateApiKey, hashApiKey, hasApiKeyScope } from "./index";
+
+const apiKey = (scope: ApiKey["scope"]): ApiKey => ({
+  id: "3f1c2a4e-8b7d-4c6a-9e5f-1a2b3c4d5e6f",
+  organizationId: "5e6f7a8b-9c0d-4e1f-a2b3-c4d5e6f7a8b9",
+  userId: "8a9b0c1d-2e3f-4a5b-8c7d-9e0f1a2b3c4d",
+  name: "Website sync",
+  prefix: "esk_1a2b3c4d",
+  keyHash: "0".repeat(64),
+  scope,
+  lastUsedAt: null,
+  revokedAt: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+describe("generateApiKey", () => {
+  it("makes a prefixed key and keeps only its start in the clear", () => {
+    const { key, prefix, keyHash } = generateApiKey();
+    expect(key).toMatch(/^esk_[0-9a-f]{64}$/);
+    expect(prefix).toBe(key.slice(0, 12));
+    expect(keyHash).toBe(hashApiKey(key));
+  });
+
+  it("never hands out the same key twice", () => {
+    expect(generateApiKey().key).not.toBe(generateApiKey().key);
+  });
+});
+
+describe("hashApiKey", () => {
+  it("is the SHA-256 hex of the key", () => {
+    expect(hashApiKey("esk_test")).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey("esk_test")).toBe(hashApiKey("esk_test"));
+    expect(hashApiKey("esk_test")).not.toBe(hashApiKey("esk_other"));
+  });
+});
+
+describe("hasApiKeyScope", () => {
+  it("lets read keys read but not write", () => {
+    expect(hasApiKeyScope(apiKey("read"), "read")).toBe(true);
+    expect(hasApiKeyScope(apiKey("read"), "write")).toBe(false);
+  });
+
+  it("lets write keys do both", () => {
+    expect(hasApiKeyScope(apiKey("write"), "read")).toBe(true);
+    expect(hasApiKeyScope(apiKey("write"), "write")).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { after, NextRequest } from "next/server";
+import { and, eq, isNull } from "drizzle-orm";
+import crypto from "crypto";
+import { db } from "../db";
+import {
+  apiKeys,
+  organizationMembers,
+  users,
+  ApiKey,
+  ApiKeyScope,
+} from "../db/schema";
+import type { Actor } from "../auth/permissions";
+
+const API_KEY_PREFIX = "esk_";
+
+// Characters of the key kept in the clear, e.g. "esk_1a2b3c4d"
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// lastUsedAt is only written when it is at least this stale, so a busy key
+// doesn't cost a write per request
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+// The user an API key acts as, like the user of a session
+export interface ApiKeyPrincipal {
+  key: ApiKey;
+  user: Actor & { organizationId: string };
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+// A new key; show `key` to the user once and store the rest
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("hex")}`;
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+// Write keys can do everything read keys can
+export function hasApiKeyScope(key: ApiKey, scope: ApiKeyScope): boolean {
+  return scope === "read" || key.scope === "write";
+}
+
+/**
+ * The key from an `Authorization: Bearer <key>` header, with the user it
+ * belongs to. Null when the header is missing, the key is unknown or
+ * revoked, or its user has left the organization.
+ */
+export async function authenticateApiKey(
+  request: NextRequest
+): Promise<ApiKeyPrincipal | null> {
+  const match = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(API_KEY_PREFIX)) return null;
+
+  const [row] = await db
+    .select({
+      key: apiKeys,
+      user: { id: users.id, role: users.role, teamId: users.teamId },
+    })
+    .from(apiKeys)
+    .innerJoin(users, eq(apiKeys.userId, users.id))
+    .innerJoin(
+      organizationMembers,
+      and(
+        eq(organizationMembers.userId, apiKeys.userId),
+        eq(organizationMembers.organizationId, apiKeys.organizationId)
+      )
+    )
+    .where(
+      and(
+        eq(apiKeys.keyHash, hashApiKey(match[1])),
+        isNull(apiKeys.revokedAt)
+      )
+    )
+    .limit(1);
+
+  if (!row) return null;
+
+  const now = new Date();
+  if (
+    !row.key.lastUsedAt ||
+    now.getTime() - row.key.lastUsedAt.getTime() > LAST_USED_PRECISION_MS
+  ) {
+    after(() =>
+      db
+        .update(apiKeys)
+        .set({ lastUsedAt: now })
+        .where(eq(apiKeys.id, row.key.id))
+    );
+  }
+
+  return {
+    key: row.key,
+    user: { ...row.user, organizationId: row.key.organizationId },
+  };
+}
+
+// A key as the settings page sees it; the hash never leaves the server
+export function toApiKeyResponse(key: ApiKey) {
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.prefix,
+    scope: key.scope,
+    lastUsedAt: key.lastUsedAt,
+    revokedAt: key.revokedAt,
+    createdAt: key.createdAt,
+  };
+}
+
+export type ApiKeyResponse = ReturnType<typeof toApiKeyResponse>;
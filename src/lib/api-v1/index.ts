@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { Buyer, ApiKeyScope } from "../db/schema";
+import {
+  ApiKeyPrincipal,
+  authenticateApiKey,
+  hasApiKeyScope,
+} from "../api-keys";
+import { apiKeyRateLimiter } from "../rate-limit";
+import {
+  bhkSchema,
+  citySchema,
+  propertyTypeSchema,
+  purposeSchema,
+  sourceSchema,
+  statusSchema,
+  timelineSchema,
+} from "../validations/buyer";
+
+/**
+ * A buyer as the v1 API returns it. Columns are listed one by one so that
+ * adding one to the table doesn't change the API; dates are ISO strings.
+ */
+export const apiBuyerSchema = z.object({
+  id: z.string().uuid(),
+  fullName: z.string(),
+  email: z.string().nullable(),
+  phone: z.string(),
+  city: citySchema,
+  propertyType: propertyTypeSchema,
+  bhk: bhkSchema.nullable(),
+  purpose: purposeSchema,
+  budgetMin: z.number().int().nullable(),
+  budgetMax: z.number().int().nullable(),
+  timeline: timelineSchema,
+  source: sourceSchema,
+  status: statusSchema,
+  visitDate: z.iso.datetime().nullable(),
+  dropReason: z.string().nullable(),
+  notes: z.string().nullable(),
+  tags: z.array(z.string()),
+  ownerId: z.string().uuid(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export type ApiBuyer = z.infer<typeof apiBuyerSchema>;
+
+export function toApiBuyer(buyer: Buyer): ApiBuyer {
+  return {
+    id: buyer.id,
+    fullName: buyer.fullName,
+    email: buyer.email,
+    phone: buyer.phone,
+    city: buyer.city,
+    propertyType: buyer.propertyType,
+    bhk: buyer.bhk,
+    purpose: buyer.purpose,
+    budgetMin: buyer.budgetMin,
+    budgetMax: buyer.budgetMax,
+    timeline: buyer.timeline,
+    source: buyer.source,
+    status: buyer.status,
+    visitDate: buyer.visitDate?.toISOString() ?? null,
+    dropReason: buyer.dropReason,
+    notes: buyer.notes,
+    tags: buyer.tags ?? [],
+    ownerId: buyer.ownerId,
+    createdAt: buyer.createdAt.toISOString(),
+    updatedAt: buyer.updatedAt.toISOString(),
+  };
+}
+
+export const API_ERROR_CODES = [
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "invalid_request",
+  "validation_failed",
+  "conflict",
+  "duplicate",
+  "rate_limited",
+  "internal_error",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+// Every v1 error has this shape: { error: { code, message, details? } }
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: unknown,
+  headers?: HeadersInit
+) {
+  return NextResponse.json(
+    { error: { code, message, ...(details !== undefined && { details }) } },
+    { status, headers }
+  );
+}
+
+/**
+ * Check the request's API key and its rate limit. Returns who the key acts
+ * as, or the error response to send back.
+ */
+export async function authorizeApiRequest(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<ApiKeyPrincipal | NextResponse> {
+  const principal = await authenticateApiKey(request);
+
+  if (!principal) {
+    return apiError(
+      401,
+      "unauthorized",
+      "Send a valid API key as 'Authorization: Bearer <key>'"
+    );
+  }
+
+  const limit = await apiKeyRateLimiter.check(request);
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil((limit.resetTime - Date.now()) / 1000);
+    return apiError(
+      429,
+      "rate_limited",
+      `Too many requests. Please try again in ${retryAfter} seconds`,
+      undefined,
+      {
+        "X-RateLimit-Limit": limit.total.toString(),
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": limit.resetTime.toString(),
+        "Retry-After": retryAfter.toString(),
+      }
+    );
+  }
+
+  if (!hasApiKeyScope(principal.key, scope)) {
+    return apiError(
+      403,
+      "forbidden",
+      `This API key needs the "${scope}" scope`
+    );
+  }
+
+  return principal;
+}
@@ -0,0 +1,235 @@
+import { z } from "zod";
+import { getBaseUrl } from "../email";
+import {
+  buyerFiltersSchema,
+  createBuyerSchema,
+  updateBuyerSchema,
+} from "../validations/buyer";
+import { API_ERROR_CODES, apiBuyerSchema } from "./index";
+
+type JsonSchema = Record<string, unknown>;
+
+// JSON Schema for a zod schema, as OpenAPI 3.1 embeds it. Coerced dates
+// travel as ISO strings.
+function jsonSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const result: JsonSchema = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+    override: (context) => {
+      if (context.zodSchema._zod.def.type === "date") {
+        context.jsonSchema.type = "string";
+        context.jsonSchema.format = "date-time";
+      }
+    },
+  });
+  delete result.$schema;
+  return result;
+}
+
+const FILTER_DESCRIPTIONS: Partial<
+  Record<keyof typeof buyerFiltersSchema.shape, string>
+> = {
+  cursor: "nextCursor or prevCursor from the previous page",
+  search:
+    "Phone digits, or words matched against name, email, tags and notes",
+  bhk: "Comma-separated, e.g. 2,3",
+  purpose: "Comma-separated",
+  source: "Comma-separated",
+  tags: "Comma-separated; matches buyers with any of them",
+  budgetMin: "Buyers whose budget range overlaps budgetMin..budgetMax",
+  budgetMax: "Buyers whose budget range overlaps budgetMin..budgetMax",
+  createdFrom: "YYYY-MM-DD, inclusive",
+  createdTo: "YYYY-MM-DD, inclusive",
+  updatedFrom: "YYYY-MM-DD, inclusive",
+  updatedTo: "YYYY-MM-DD, inclusive",
+};
+
+// Query parameters of the buyer list, straight from its filter schema
+function filterParameters() {
+  return Object.entries(buyerFiltersSchema.shape).map(([name, schema]) => ({
+    name,
+    in: "query",
+    required: false,
+    ...(FILTER_DESCRIPTIONS[name as keyof typeof FILTER_DESCRIPTIONS] && {
+      description:
+        FILTER_DESCRIPTIONS[name as keyof typeof FILTER_DESCRIPTIONS],
+    }),
+    schema: jsonSchema(schema, "input"),
+  }));
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function jsonContent(schema: JsonSchema) {
+  return { content: { "application/json": { schema } } };
+}
+
+function errorResponse(description: string) {
+  return { description, ...jsonContent(ref("Error")) };
+}
+
+const buyerIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string", format: "uuid" },
+};
+
+const COMMON_ERRORS = {
+  "401": errorResponse("Missing, unknown or revoked API key"),
+  "429": errorResponse("Rate limit for the key exceeded"),
+};
+
+/**
+ * The OpenAPI document for /api/v1. Request and response bodies are
+ * generated from the same zod schemas the routes validate with, so the two
+ * can't drift apart.
+ */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "ESahayak Lead Management API",
+      version: "1.0.0",
+      description:
+        "Manage buyer leads with an API key created under API Keys in the app. Keys act as the user who created them: read keys can list and fetch buyers, write keys can also create, update and delete them.",
+    },
+    servers: [{ url: `${getBaseUrl()}/api/v1` }],
+    security: [{ apiKey: [] }],
+    paths: {
+      "/buyers": {
+        get: {
+          summary: "List buyers",
+          operationId: "listBuyers",
+          parameters: filterParameters(),
+          responses: {
+            "200": {
+              description: "A page of buyers",
+              ...jsonContent({
+                type: "object",
+                properties: {
+                  data: { type: "array", items: ref("Buyer") },
+                  pagination: ref("Pagination"),
+                },
+                required: ["data", "pagination"],
+              }),
+            },
+            "400": errorResponse("Invalid filters or cursor"),
+            ...COMMON_ERRORS,
+          },
+        },
+        post: {
+          summary: "Create a buyer",
+          description:
+            "Assignment rules decide the owner; without a match the key's user owns the buyer. Likely duplicates are rejected unless confirmDuplicate is true.",
+          operationId: "createBuyer",
+          requestBody: { required: true, ...jsonContent(ref("CreateBuyer")) },
+          responses: {
+            "201": {
+              description: "The new buyer",
+              ...jsonContent(ref("BuyerResponse")),
+            },
+            "400": errorResponse("Invalid body"),
+            "403": errorResponse("The key doesn't have the write scope"),
+            "409": errorResponse(
+              "A similar buyer exists; details lists the matches"
+            ),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/buyers/{id}": {
+        parameters: [buyerIdParameter],
+        get: {
+          summary: "Get a buyer",
+          operationId: "getBuyer",
+          responses: {
+            "200": {
+              description: "The buyer",
+              ...jsonContent(ref("BuyerResponse")),
+            },
+            "404": errorResponse("No such buyer"),
+            ...COMMON_ERRORS,
+          },
+        },
+        put: {
+          summary: "Update a buyer",
+          description:
+            "Replaces the buyer's fields. Send the updatedAt you last saw to be told about concurrent changes instead of overwriting them.",
+          operationId: "updateBuyer",
+          requestBody: { required: true, ...jsonContent(ref("UpdateBuyer")) },
+          responses: {
+            "200": {
+              description: "The updated buyer",
+              ...jsonContent(ref("BuyerResponse")),
+            },
+            "400": errorResponse("Invalid body or status change"),
+            "403": errorResponse(
+              "The key lacks the write scope, or its user can't edit this buyer"
+            ),
+            "404": errorResponse("No such buyer"),
+            "409": errorResponse("The buyer changed since updatedAt"),
+            ...COMMON_ERRORS,
+          },
+        },
+        delete: {
+          summary: "Delete a buyer",
+          description: "Moves the buyer to the trash.",
+          operationId: "deleteBuyer",
+          responses: {
+            "204": { description: "Moved to the trash" },
+            "403": errorResponse(
+              "The key lacks the write scope, or its user can't delete this buyer"
+            ),
+            "404": errorResponse("No such buyer"),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: "http", scheme: "bearer" },
+      },
+      schemas: {
+        Buyer: jsonSchema(apiBuyerSchema, "output"),
+        BuyerResponse: {
+          type: "object",
+          properties: { data: ref("Buyer") },
+          required: ["data"],
+        },
+        CreateBuyer: jsonSchema(
+          createBuyerSchema.safeExtend({
+            confirmDuplicate: z.boolean().optional(),
+          }),
+          "input"
+        ),
+        UpdateBuyer: jsonSchema(updateBuyerSchema, "input"),
+        Pagination: {
+          type: "object",
+          properties: {
+            limit: { type: "integer" },
+            nextCursor: { type: ["string", "null"] },
+            prevCursor: { type: ["string", "null"] },
+          },
+          required: ["limit", "nextCursor", "prevCursor"],
+        },
+        Error: {
+          type: "object",
+          properties: {
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "string", enum: [...API_ERROR_CODES] },
+                message: { type: "string" },
+                details: {},
+              },
+              required: ["code", "message"],
+            },
+          },
+          required: ["error"],
+        },
+      },
+    },
+  };
+}
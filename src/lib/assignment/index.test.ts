@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { nextInRotation, ruleMatches } from "./index";
+
+const buyer = {
+  city: "Mohali" as const,
+  propertyType: "Plot" as const,
+  source: "Website" as const,
+};
+
+describe("ruleMatches", () => {
+  it("treats an empty criterion as matching every value", () => {
+    expect(
+      ruleMatches({ city: null, propertyType: null, source: null }, buyer)
+    ).toBe(true);
+  });
+
+  it("needs every set criterion to match", () => {
+    expect(
+      ruleMatches(
+        { city: "Mohali", propertyType: null, source: "Website" },
+        buyer
+      )
+    ).toBe(true);
+    expect(
+      ruleMatches(
+        { city: "Mohali", propertyType: "Villa", source: null },
+        buyer
+      )
+    ).toBe(false);
+  });
+});
+
+describe("nextInRotation", () => {
+  const rotation = ["a", "b", "c"];
+  const everyone = new Set(rotation);
+
+  it("starts at the top when nobody has had a turn", () => {
+    expect(nextInRotation(rotation, null, everyone)).toBe("a");
+  });
+
+  it("moves on from the last assignee and wraps around", () => {
+    expect(nextInRotation(rotation, "a", everyone)).toBe("b");
+    expect(nextInRotation(rotation, "c", everyone)).toBe("a");
+  });
+
+  it("skips users who aren't available", () => {
+    expect(nextInRotation(rotation, "a", new Set(["a", "c"]))).toBe("c");
+  });
+
+  it("starts over when the last assignee left the rotation", () => {
+    expect(nextInRotation(rotation, "z", everyone)).toBe("a");
+  });
+
+  it("is null when nobody can take the lead", () => {
+    expect(nextInRotation(rotation, "a", new Set())).toBeNull();
+  });
+});
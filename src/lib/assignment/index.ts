@@ -0,0 +1,120 @@
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "../db";
+import {
+  assignmentRules,
+  organizationMembers,
+  users,
+  AssignmentRule,
+  Buyer,
+} from "../db/schema";
+
+// The buyer fields rules can match on
+export type AssignmentCriteria = Pick<Buyer, "city" | "propertyType" | "source">;
+
+export function ruleMatches(
+  rule: Pick<AssignmentRule, "city" | "propertyType" | "source">,
+  buyer: AssignmentCriteria
+): boolean {
+  return (
+    (!rule.city || rule.city === buyer.city) &&
+    (!rule.propertyType || rule.propertyType === buyer.propertyType) &&
+    (!rule.source || rule.source === buyer.source)
+  );
+}
+
+/**
+ * The next user in a rule's rotation after `lastAssigneeId`, skipping anyone
+ * who isn't available. Null when nobody in the rotation can take a lead.
+ */
+export function nextInRotation(
+  assigneeIds: string[],
+  lastAssigneeId: string | null,
+  available: Set<string>
+): string | null {
+  const start = lastAssigneeId ? assigneeIds.indexOf(lastAssigneeId) + 1 : 0;
+
+  for (let offset = 0; offset < assigneeIds.length; offset++) {
+    const candidate = assigneeIds[(start + offset) % assigneeIds.length];
+    if (available.has(candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pick an owner for each new buyer from the organization's assignment
+ * rules, in order. Null means no rule applied and the creator keeps the
+ * lead. Rotation cursors are locked while assigning so concurrent creates
+ * and imports don't hand out the same turn twice.
+ */
+export async function assignOwners(
+  organizationId: string,
+  candidates: AssignmentCriteria[]
+): Promise<(string | null)[]> {
+  if (candidates.length === 0) return [];
+
+  return db.transaction(async (tx) => {
+    const rules = await tx
+      .select()
+      .from(assignmentRules)
+      .where(
+        and(
+          eq(assignmentRules.organizationId, organizationId),
+          eq(assignmentRules.active, true)
+        )
+      )
+      .orderBy(asc(assignmentRules.priority), asc(assignmentRules.createdAt))
+      .for("update");
+
+    if (rules.length === 0) {
+      return candidates.map(() => null);
+    }
+
+    const availableRows = await tx
+      .select({ id: users.id })
+      .from(users)
+      .innerJoin(
+        organizationMembers,
+        eq(organizationMembers.userId, users.id)
+      )
+      .where(
+        and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(users.available, true)
+        )
+      );
+    const available = new Set(availableRows.map((row) => row.id));
+
+    const advanced = new Set<AssignmentRule>();
+
+    const owners = candidates.map((candidate) => {
+      for (const rule of rules) {
+        if (!ruleMatches(rule, candidate)) continue;
+
+        const assignee = nextInRotation(
+          rule.assigneeIds,
+          rule.lastAssigneeId,
+          available
+        );
+        if (!assignee) continue;
+
+        rule.lastAssigneeId = assignee;
+        advanced.add(rule);
+        return assignee;
+      }
+
+      return null;
+    });
+
+    for (const rule of advanced) {
+      await tx
+        .update(assignmentRules)
+        .set({ lastAssigneeId: rule.lastAssigneeId })
+        .where(eq(assignmentRules.id, rule.id));
+    }
+
+    return owners;
+  });
+}
@@ -1,7 +1,8 @@
 import { NextAuthOptions } from "next-auth";
 import { CustomDrizzleAdapter } from "./custom-adapter";
+import type { User, UserRole } from "../db/schema";
 
-// Extend the session type to include user id
+// Extend the session type to include user id, organization, role and team
 declare module "next-auth" {
   interface Session {
     user: {
@@ -9,6 +10,9 @@ declare module "next-auth" {
       name?: string | null;
       email?: string | null;
       image?: string | null;
+      organizationId: string;
+      role: UserRole;
+      teamId: string | null;
     };
   }
 }
@@ -33,7 +37,13 @@ export const authOptions: NextAuthOptions = {
     session: async ({ session, user }) => {
       // With database sessions, user object is passed directly
       if (session?.user && user?.id) {
+        // The adapter returns the full user row plus the user's organization
+        const dbUser = user as typeof user &
+          Partial<User> & { organizationId?: string };
         session.user.id = user.id;
+        session.user.organizationId = dbUser.organizationId ?? "";
+        session.user.role = dbUser.role ?? "agent";
+        session.user.teamId = dbUser.teamId ?? null;
       }
       return session;
     },
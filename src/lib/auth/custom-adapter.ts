@@ -6,8 +6,14 @@ import {
   VerificationToken,
 } from "next-auth/adapters";
 import { authDb } from "@/lib/db";
-import { users, accounts, sessions, verificationTokens } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
+import {
+  users,
+  accounts,
+  sessions,
+  verificationTokens,
+  organizationMembers,
+} from "@/lib/db/schema";
+import { eq, and, getTableColumns } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
 
 export function CustomDrizzleAdapter(): Adapter {
@@ -123,13 +129,22 @@ export function CustomDrizzleAdapter(): Adapter {
     async getSessionAndUser(sessionToken) {
       console.log("🔍 Adapter: Looking for session token:", sessionToken?.substring(0, 20) + "...");
       
+      // Every user belongs to an organization (see custom-verify), which the
+      // session callback needs for scoping
       const [sessionAndUser] = await authDb
         .select({
           session: sessions,
-          user: users,
+          user: {
+            ...getTableColumns(users),
+            organizationId: organizationMembers.organizationId,
+          },
         })
         .from(sessions)
         .innerJoin(users, eq(sessions.userId, users.id))
+        .innerJoin(
+          organizationMembers,
+          eq(organizationMembers.userId, users.id)
+        )
         .where(eq(sessions.sessionToken, sessionToken))
         .limit(1);
 
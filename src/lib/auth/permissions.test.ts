@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  Actor,
+  canAssignTo,
+  canAssignToOwner,
+  canManageOwner,
+  permissionsFor,
+} from "./permissions";
+
+const admin: Actor = { id: "admin", role: "admin", teamId: null };
+const manager: Actor = { id: "manager", role: "manager", teamId: "north" };
+const agent: Actor = { id: "agent", role: "agent", teamId: "north" };
+
+const teammate = { id: "teammate", teamId: "north" };
+const otherTeam = { id: "outsider", teamId: "south" };
+const noTeam = { id: "loner", teamId: null };
+
+describe("canManageOwner", () => {
+  it("lets admins manage anyone's leads", () => {
+    expect(canManageOwner(admin, otherTeam)).toBe(true);
+    expect(canManageOwner(admin, noTeam)).toBe(true);
+  });
+
+  it("lets managers manage their own and their team's leads only", () => {
+    expect(canManageOwner(manager, { id: "manager", teamId: "north" })).toBe(
+      true
+    );
+    expect(canManageOwner(manager, teammate)).toBe(true);
+    expect(canManageOwner(manager, otherTeam)).toBe(false);
+    expect(canManageOwner(manager, noTeam)).toBe(false);
+  });
+
+  it("doesn't treat two users without a team as teammates", () => {
+    const teamless: Actor = { ...manager, teamId: null };
+    expect(canManageOwner(teamless, noTeam)).toBe(false);
+  });
+
+  it("lets agents manage their own leads only, even within their team", () => {
+    expect(canManageOwner(agent, { id: "agent", teamId: "north" })).toBe(true);
+    expect(canManageOwner(agent, teammate)).toBe(false);
+  });
+});
+
+describe("permissionsFor", () => {
+  it("grants edit, delete and reassign together", () => {
+    expect(permissionsFor(manager, teammate)).toEqual({
+      canEdit: true,
+      canDelete: true,
+      canReassign: true,
+    });
+    expect(permissionsFor(agent, teammate)).toEqual({
+      canEdit: false,
+      canDelete: false,
+      canReassign: false,
+    });
+  });
+});
+
+describe("canAssignToOwner", () => {
+  it("lets managers assign within their team but not outside it", () => {
+    expect(canAssignToOwner(manager, teammate)).toBe(true);
+    expect(canAssignToOwner(manager, otherTeam)).toBe(false);
+    expect(canAssignToOwner(manager, noTeam)).toBe(false);
+  });
+
+  it("refuses managers an owner who doesn't exist", () => {
+    expect(canAssignToOwner(manager, undefined)).toBe(false);
+  });
+
+  it("lets admins and agents assign to anyone", () => {
+    expect(canAssignToOwner(admin, otherTeam)).toBe(true);
+    expect(canAssignToOwner(agent, otherTeam)).toBe(true);
+  });
+});
+
+describe("canAssignTo", () => {
+  it("skips the lookup for admins, agents and self-assignment", async () => {
+    await expect(canAssignTo(admin, "outsider")).resolves.toBe(true);
+    await expect(canAssignTo(agent, "outsider")).resolves.toBe(true);
+    await expect(canAssignTo(manager, "manager")).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { inArray } from "drizzle-orm";
+import type { Session } from "next-auth";
+import { db } from "../db";
+import { users, Buyer } from "../db/schema";
+
+// The parts of the signed-in user that access checks look at
+export type Actor = Pick<Session["user"], "id" | "role" | "teamId">;
+
+interface OwnerInfo {
+  id: string;
+  teamId: string | null;
+}
+
+export interface BuyerPermissions {
+  canEdit: boolean;
+  canDelete: boolean;
+  canReassign: boolean;
+}
+
+/**
+ * The single access rule for changing a buyer:
+ * - admins can change any buyer
+ * - managers can change their own and their team members' buyers
+ * - agents can only change their own
+ */
+export function canManageOwner(actor: Actor, owner: OwnerInfo): boolean {
+  if (actor.role === "admin") return true;
+  if (owner.id === actor.id) return true;
+  if (actor.role === "manager") {
+    return !!actor.teamId && owner.teamId === actor.teamId;
+  }
+  return false;
+}
+
+export function permissionsFor(
+  actor: Actor,
+  owner: OwnerInfo
+): BuyerPermissions {
+  const canManage = canManageOwner(actor, owner);
+  return { canEdit: canManage, canDelete: canManage, canReassign: canManage };
+}
+
+// Look up the teams of the given owners, keyed by user id
+export async function loadOwners(
+  ownerIds: string[]
+): Promise<Map<string, OwnerInfo>> {
+  const ids = [...new Set(ownerIds)];
+  if (ids.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: users.id, teamId: users.teamId })
+    .from(users)
+    .where(inArray(users.id, ids));
+
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+export async function getBuyerPermissions(
+  actor: Actor,
+  buyer: Pick<Buyer, "ownerId">
+): Promise<BuyerPermissions> {
+  // Only managers need the owner's team to decide
+  if (actor.role !== "manager" || buyer.ownerId === actor.id) {
+    return permissionsFor(actor, { id: buyer.ownerId, teamId: null });
+  }
+
+  const owners = await loadOwners([buyer.ownerId]);
+  return permissionsFor(
+    actor,
+    owners.get(buyer.ownerId) || { id: buyer.ownerId, teamId: null }
+  );
+}
+
+/**
+ * Whether the actor may hand a lead to `newOwner`. Admins can assign to
+ * anyone in the organization, managers only within their team, and agents
+ * can pass their own leads to anyone. Undefined means the new owner wasn't
+ * found.
+ */
+export function canAssignToOwner(
+  actor: Actor,
+  newOwner: OwnerInfo | undefined
+): boolean {
+  if (actor.role !== "manager") return true;
+  if (!newOwner) return false;
+  if (newOwner.id === actor.id) return true;
+  return !!actor.teamId && newOwner.teamId === actor.teamId;
+}
+
+// canAssignToOwner for a user id. Callers check organization membership
+// first.
+export async function canAssignTo(
+  actor: Actor,
+  newOwnerId: string
+): Promise<boolean> {
+  if (actor.role !== "manager" || newOwnerId === actor.id) return true;
+
+  const owners = await loadOwners([newOwnerId]);
+  return canAssignToOwner(actor, owners.get(newOwnerId));
+}
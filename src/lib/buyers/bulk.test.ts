@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { Buyer } from "../db/schema";
+import { buildBulkUpdate } from "./bulk";
+
+const buyer: Buyer = {
+  id: "3f1c2a4e-8b7d-4c6a-9e5f-1a2b3c4d5e6f",
+  fullName: "Rahul Sharma",
+  email: null,
+  phone: "9876543210",
+  city: "Mohali",
+  propertyType: "Plot",
+  bhk: null,
+  purpose: "Buy",
+  budgetMin: null,
+  budgetMax: null,
+  timeline: "0-3m",
+  source: "Website",
+  status: "Contacted",
+  visitDate: null,
+  dropReason: null,
+  notes: null,
+  tags: ["Hot", "investor"],
+  ownerId: "8a9b0c1d-2e3f-4a5b-8c7d-9e0f1a2b3c4d",
+  organizationId: "5e6f7a8b-9c0d-4e1f-a2b3-c4d5e6f7a8b9",
+  deletedAt: null,
+  deletedBy: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+const ids = [buyer.id];
+
+describe("buildBulkUpdate", () => {
+  it("moves a buyer along the pipeline", () => {
+    expect(
+      buildBulkUpdate(buyer, { action: "status", ids, status: "Qualified" })
+    ).toEqual({ updates: { status: "Qualified" } });
+  });
+
+  it("sets the stage's required fields along with the status", () => {
+    const visitDate = new Date("2026-02-01T10:00:00Z");
+    expect(
+      buildBulkUpdate(buyer, {
+        action: "status",
+        ids,
+        status: "Visited",
+        visitDate,
+      })
+    ).toEqual({ updates: { status: "Visited", visitDate } });
+  });
+
+  it("reports a move the pipeline doesn't allow instead of updating", () => {
+    const result = buildBulkUpdate(buyer, {
+      action: "status",
+      ids,
+      status: "Converted",
+    });
+    expect(result.updates).toBeUndefined();
+    expect(result.error).toMatch(/Cannot move a lead from Contacted/);
+  });
+
+  it("reports a missing stage requirement", () => {
+    expect(
+      buildBulkUpdate(buyer, { action: "status", ids, status: "Dropped" })
+        .error
+    ).toBe("A drop reason is required before dropping a lead");
+  });
+
+  it("adds tags without repeating ones the buyer has", () => {
+    expect(
+      buildBulkUpdate(buyer, { action: "addTags", ids, tags: ["hot", "NRI"] })
+    ).toEqual({ updates: { tags: ["Hot", "investor", "NRI"] } });
+  });
+
+  it("removes tags regardless of case", () => {
+    expect(
+      buildBulkUpdate(buyer, { action: "removeTags", ids, tags: ["HOT"] })
+    ).toEqual({ updates: { tags: ["investor"] } });
+  });
+
+  it("hands the buyer to the new owner", () => {
+    const ownerId = "1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e";
+    expect(
+      buildBulkUpdate(buyer, { action: "reassign", ids, ownerId })
+    ).toEqual({ updates: { ownerId } });
+  });
+});
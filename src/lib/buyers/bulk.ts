@@ -0,0 +1,58 @@
+import type { Buyer } from "../db/schema";
+import type { BulkActionInput } from "../validations/buyer";
+import { validateStatusChange } from "../pipeline";
+import { combineTags } from "./merge";
+
+export interface BulkActionResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+type BulkUpdate =
+  | { updates: Partial<Buyer>; error?: undefined }
+  | { updates?: undefined; error: string };
+
+/**
+ * Work out the column updates a bulk action makes to one buyer. Returns an
+ * error instead when the action isn't allowed for this row (e.g. an illegal
+ * pipeline move), so one bad row doesn't fail the whole batch. Deletes are
+ * handled by the caller.
+ */
+export function buildBulkUpdate(
+  buyer: Buyer,
+  input: Exclude<BulkActionInput, { action: "delete" }>
+): BulkUpdate {
+  switch (input.action) {
+    case "status": {
+      const updates: Partial<Buyer> = {
+        status: input.status,
+        ...(input.visitDate && { visitDate: input.visitDate }),
+        ...(input.dropReason && { dropReason: input.dropReason }),
+      };
+
+      const issues = validateStatusChange(buyer, { ...buyer, ...updates });
+      if (issues.length > 0) {
+        return { error: issues[0].message };
+      }
+      return { updates };
+    }
+
+    case "addTags":
+      return { updates: { tags: combineTags(buyer.tags || [], input.tags) } };
+
+    case "removeTags": {
+      const removed = new Set(input.tags.map((tag) => tag.toLowerCase()));
+      return {
+        updates: {
+          tags: (buyer.tags || []).filter(
+            (tag) => !removed.has(tag.toLowerCase())
+          ),
+        },
+      };
+    }
+
+    case "reassign":
+      return { updates: { ownerId: input.ownerId } };
+  }
+}
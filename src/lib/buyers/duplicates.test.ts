@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchBuyer,
+  nameSimilarity,
+  normalizeEmail,
+  normalizePhone,
+} from "./duplicates";
+
+const existing = {
+  fullName: "Rahul Sharma",
+  phone: "9876543210",
+  email: "rahul@example.com",
+};
+
+describe("normalizePhone", () => {
+  it("keeps the last 10 digits so country codes and spacing don't matter", () => {
+    expect(normalizePhone("+91 98765-43210")).toBe("9876543210");
+    expect(normalizePhone("9876543210")).toBe("9876543210");
+  });
+});
+
+describe("normalizeEmail", () => {
+  it("trims and lowercases, and treats blanks as missing", () => {
+    expect(normalizeEmail("  Rahul@Example.COM ")).toBe("rahul@example.com");
+    expect(normalizeEmail("")).toBeNull();
+    expect(normalizeEmail(null)).toBeNull();
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("is 1 for the same name in any case or token order", () => {
+    expect(nameSimilarity("Rahul Sharma", "rahul  sharma")).toBe(1);
+    expect(nameSimilarity("Sharma Rahul", "Rahul Sharma")).toBe(1);
+  });
+
+  it("scores a one-letter typo above the match threshold", () => {
+    expect(nameSimilarity("Rahul Sharma", "Rahul Sharmaa")).toBeGreaterThan(
+      0.85
+    );
+  });
+
+  it("scores unrelated names low", () => {
+    expect(nameSimilarity("Rahul Sharma", "Priya Iyer")).toBeLessThan(0.3);
+  });
+
+  it("is 0 when either name is empty", () => {
+    expect(nameSimilarity("", "Rahul Sharma")).toBe(0);
+  });
+});
+
+describe("matchBuyer", () => {
+  it("matches on phone regardless of formatting", () => {
+    const result = matchBuyer(
+      { fullName: "Someone Else", phone: "+919876543210" },
+      existing
+    );
+    expect(result.reasons).toEqual(["phone"]);
+    expect(result.score).toBe(0.6);
+  });
+
+  it("matches on email regardless of case", () => {
+    const result = matchBuyer(
+      {
+        fullName: "Someone Else",
+        phone: "9000000000",
+        email: "RAHUL@example.com",
+      },
+      existing
+    );
+    expect(result.reasons).toEqual(["email"]);
+  });
+
+  it("lists every reason and caps the score at 1", () => {
+    const result = matchBuyer(
+      {
+        fullName: "Rahul Sharma",
+        phone: "9876543210",
+        email: "rahul@example.com",
+      },
+      existing
+    );
+    expect(result.reasons).toEqual(["phone", "email", "name"]);
+    expect(result.score).toBe(1);
+  });
+
+  it("flags an exact name on its own", () => {
+    const result = matchBuyer(
+      { fullName: "Sharma Rahul", phone: "9000000000" },
+      existing
+    );
+    expect(result.reasons).toEqual(["name"]);
+  });
+
+  it("ignores a merely similar name with nothing else in common", () => {
+    const result = matchBuyer(
+      { fullName: "Rahul Sharmaa", phone: "9000000000" },
+      existing
+    );
+    expect(result).toEqual({ reasons: [], score: 0 });
+  });
+
+  it("doesn't match two buyers without an email on email", () => {
+    const result = matchBuyer(
+      { fullName: "Someone Else", phone: "9000000000", email: "" },
+      { ...existing, email: null }
+    );
+    expect(result.reasons).toEqual([]);
+  });
+});
@@ -0,0 +1,292 @@
+import { db } from "../db";
+import { buyers, Buyer } from "../db/schema";
+import {
+  and,
+  desc,
+  eq,
+  ilike,
+  inArray,
+  isNull,
+  notInArray,
+  or,
+  sql,
+  SQL,
+} from "drizzle-orm";
+
+export type DuplicateReason = "phone" | "email" | "name";
+
+export interface DuplicateCandidate {
+  fullName: string;
+  phone: string;
+  email?: string | null;
+}
+
+export interface DuplicateMatch {
+  buyer: Pick<
+    Buyer,
+    "id" | "fullName" | "phone" | "email" | "city" | "status" | "ownerId"
+  >;
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+// Rows the fuzzy name search may bring back per lookup
+const NAME_PREFILTER_LIMIT = 500;
+
+// Name similarity (0-1) above which two names are treated as the same person
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// Normalize phone to its last 10 digits so "+91 98765 43210", "098765 43210"
+// and "9876543210" all compare equal
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+export function normalizeEmail(email?: string | null): string | null {
+  const trimmed = email?.trim().toLowerCase();
+  return trimmed ? trimmed : null;
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s/g, "");
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+// Dice coefficient over character bigrams, order-insensitive for name tokens
+// so "Sharma Rahul" matches "Rahul Sharma"
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a).split(" ").sort().join(" ");
+  const right = normalizeName(b).split(" ").sort().join(" ");
+
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftBigrams.forEach((gram) => counts.set(gram, (counts.get(gram) || 0) + 1));
+
+  let overlap = 0;
+  rightBigrams.forEach((gram) => {
+    const available = counts.get(gram) || 0;
+    if (available > 0) {
+      overlap++;
+      counts.set(gram, available - 1);
+    }
+  });
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+// Compare a candidate against an existing buyer and explain why they match
+export function matchBuyer(
+  candidate: DuplicateCandidate,
+  existing: Pick<Buyer, "fullName" | "phone" | "email">
+): { reasons: DuplicateReason[]; score: number } {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  if (normalizePhone(candidate.phone) === normalizePhone(existing.phone)) {
+    reasons.push("phone");
+    score += 0.6;
+  }
+
+  const candidateEmail = normalizeEmail(candidate.email);
+  if (candidateEmail && candidateEmail === normalizeEmail(existing.email)) {
+    reasons.push("email");
+    score += 0.3;
+  }
+
+  const similarity = nameSimilarity(candidate.fullName, existing.fullName);
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+    reasons.push("name");
+    score += 0.1 + (similarity - NAME_SIMILARITY_THRESHOLD);
+  }
+
+  // A matching name alone is too weak to flag unless it is an exact match
+  if (reasons.length === 1 && reasons[0] === "name" && similarity < 1) {
+    return { reasons: [], score: 0 };
+  }
+
+  return { reasons, score: Math.min(1, Number(score.toFixed(2))) };
+}
+
+// Longest name token, used to narrow the fuzzy-name prefilter in SQL
+function nameProbe(fullName: string): string | null {
+  const tokens = normalizeName(fullName)
+    .split(" ")
+    .filter((token) => token.length >= 3)
+    .sort((a, b) => b.length - a.length);
+  return tokens[0] || null;
+}
+
+/**
+ * Find existing buyers in the organization that look like the given
+ * candidates. Returns one list of matches per candidate (same order), best
+ * match first.
+ */
+export async function findDuplicateBuyers(
+  organizationId: string,
+  candidates: DuplicateCandidate[],
+  options: { excludeIds?: string[]; limitPerCandidate?: number } = {}
+): Promise<DuplicateMatch[][]> {
+  if (candidates.length === 0) return [];
+
+  const phones = new Set<string>();
+  const emails = new Set<string>();
+  const probes = new Set<string>();
+
+  candidates.forEach((candidate) => {
+    const phone = normalizePhone(candidate.phone);
+    if (phone) phones.add(phone);
+    const email = normalizeEmail(candidate.email);
+    if (email) emails.add(email);
+    const probe = nameProbe(candidate.fullName);
+    if (probe) probes.add(probe);
+  });
+
+  const contactMatchers: SQL[] = [];
+  if (phones.size > 0) {
+    contactMatchers.push(
+      inArray(sql`right(${buyers.phone}, 10)`, Array.from(phones))
+    );
+  }
+  if (emails.size > 0) {
+    contactMatchers.push(
+      inArray(sql`lower(${buyers.email})`, Array.from(emails))
+    );
+  }
+  const nameMatchers = Array.from(probes).map((probe) =>
+    ilike(buyers.fullName, `%${probe}%`)
+  );
+
+  if (contactMatchers.length === 0 && nameMatchers.length === 0) {
+    return candidates.map(() => []);
+  }
+
+  const scope = [
+    eq(buyers.organizationId, organizationId),
+    isNull(buyers.deletedAt),
+  ];
+  if (options.excludeIds && options.excludeIds.length > 0) {
+    scope.push(notInArray(buyers.id, options.excludeIds));
+  }
+
+  const columns = {
+    id: buyers.id,
+    fullName: buyers.fullName,
+    phone: buyers.phone,
+    email: buyers.email,
+    city: buyers.city,
+    status: buyers.status,
+    ownerId: buyers.ownerId,
+  };
+
+  // Phone and email matches are exact and always fetched in full; only the
+  // fuzzy name prefilter, which common surnames can blow up, is capped
+  const [contactRows, nameRows] = await Promise.all([
+    contactMatchers.length > 0
+      ? db
+          .select(columns)
+          .from(buyers)
+          .where(and(...scope, or(...contactMatchers)))
+      : [],
+    nameMatchers.length > 0
+      ? db
+          .select(columns)
+          .from(buyers)
+          .where(and(...scope, or(...nameMatchers)))
+          .limit(NAME_PREFILTER_LIMIT)
+      : [],
+  ]);
+
+  const existing = [
+    ...new Map(
+      [...contactRows, ...nameRows].map((buyer) => [buyer.id, buyer])
+    ).values(),
+  ];
+
+  const limit = options.limitPerCandidate ?? 5;
+
+  return candidates.map((candidate) =>
+    existing
+      .map((buyer) => ({ buyer, ...matchBuyer(candidate, buyer) }))
+      .filter((match) => match.reasons.length > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  );
+}
+
+/**
+ * The existing buyer each candidate would update in an upsert: same phone
+ * (last 10 digits) or same email. A phone match wins over an email match, and
+ * the most recently updated buyer over older ones.
+ */
+export async function findBuyersByContact(
+  organizationId: string,
+  candidates: DuplicateCandidate[]
+): Promise<(Buyer | null)[]> {
+  const phones = new Set<string>();
+  const emails = new Set<string>();
+
+  candidates.forEach((candidate) => {
+    const phone = normalizePhone(candidate.phone);
+    if (phone) phones.add(phone);
+    const email = normalizeEmail(candidate.email);
+    if (email) emails.add(email);
+  });
+
+  const matchers: SQL[] = [];
+  if (phones.size > 0) {
+    matchers.push(
+      inArray(sql`right(${buyers.phone}, 10)`, Array.from(phones))
+    );
+  }
+  if (emails.size > 0) {
+    matchers.push(inArray(sql`lower(${buyers.email})`, Array.from(emails)));
+  }
+
+  if (matchers.length === 0) {
+    return candidates.map(() => null);
+  }
+
+  const existing = await db
+    .select()
+    .from(buyers)
+    .where(
+      and(
+        eq(buyers.organizationId, organizationId),
+        isNull(buyers.deletedAt),
+        or(...matchers)
+      )
+    )
+    .orderBy(desc(buyers.updatedAt));
+
+  return candidates.map((candidate) => {
+    const phone = normalizePhone(candidate.phone);
+    const email = normalizeEmail(candidate.email);
+
+    return (
+      existing.find((buyer) => phone && normalizePhone(buyer.phone) === phone) ||
+      existing.find(
+        (buyer) => email && normalizeEmail(buyer.email) === email
+      ) ||
+      null
+    );
+  });
+}
@@ -0,0 +1,72 @@
+// Columns an export can contain. Kept free of server-only imports so the
+// export options dialog can list them in the browser.
+
+export const EXPORT_COLUMNS = [
+  "fullName",
+  "email",
+  "phone",
+  "city",
+  "propertyType",
+  "bhk",
+  "purpose",
+  "budgetMin",
+  "budgetMax",
+  "timeline",
+  "source",
+  "notes",
+  "tags",
+  "status",
+  "createdAt",
+  "updatedAt",
+  // Derived from other tables, only queried when asked for
+  "ownerName",
+  "lastChangeAt",
+  "daysInStatus",
+] as const;
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+
+export const DERIVED_EXPORT_COLUMNS: ExportColumn[] = [
+  "ownerName",
+  "lastChangeAt",
+  "daysInStatus",
+];
+
+// What an export contains when no columns are picked; the headers match the
+// import field names, so it can be imported back as-is
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = EXPORT_COLUMNS.filter(
+  (column) => !DERIVED_EXPORT_COLUMNS.includes(column)
+);
+
+// Shown in the export options dialog; headers default to the column key
+export const EXPORT_COLUMN_NAMES: Record<ExportColumn, string> = {
+  fullName: "Full Name",
+  email: "Email",
+  phone: "Phone",
+  city: "City",
+  propertyType: "Property Type",
+  bhk: "BHK",
+  purpose: "Purpose",
+  budgetMin: "Budget Min",
+  budgetMax: "Budget Max",
+  timeline: "Timeline",
+  source: "Source",
+  notes: "Notes",
+  tags: "Tags",
+  status: "Status",
+  createdAt: "Created",
+  updatedAt: "Updated",
+  ownerName: "Owner Name",
+  lastChangeAt: "Last History Change",
+  daysInStatus: "Days in Current Status",
+};
+
+// The columns of an export, in order, and any header renames
+export interface ExportLayout {
+  columns: ExportColumn[];
+  labels: Partial<Record<ExportColumn, string>>;
+}
+
+export function exportHeader(layout: ExportLayout, column: ExportColumn) {
+  return layout.labels[column] || column;
+}
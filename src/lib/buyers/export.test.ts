@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import type { Buyer } from "../db/schema";
+import { exportLayoutSchema } from "../validations/export";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  exportHeader,
+  ExportLayout,
+} from "./export-columns";
+import { buyersToCsv, buyersToJson, EXPORT_JSON_END } from "./export";
+
+const buyer: Buyer = {
+  id: "3f1c2a4e-8b7d-4c6a-9e5f-1a2b3c4d5e6f",
+  fullName: "Rahul Sharma",
+  email: null,
+  phone: "9876543210",
+  city: "Mohali",
+  propertyType: "Plot",
+  bhk: null,
+  purpose: "Buy",
+  budgetMin: 5000000,
+  budgetMax: null,
+  timeline: "0-3m",
+  source: "Website",
+  status: "Contacted",
+  visitDate: null,
+  dropReason: null,
+  notes: "Wants a corner plot, near school",
+  tags: ["hot", "investor"],
+  ownerId: "8a9b0c1d-2e3f-4a5b-8c7d-9e0f1a2b3c4d",
+  organizationId: "5e6f7a8b-9c0d-4e1f-a2b3-c4d5e6f7a8b9",
+  deletedAt: null,
+  deletedBy: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-02T00:00:00Z"),
+};
+
+describe("exportLayoutSchema", () => {
+  it("keeps the picked columns in order and trims labels", () => {
+    expect(
+      exportLayoutSchema.parse({
+        columns: ["phone", "fullName"],
+        labels: { fullName: "  Name " },
+      })
+    ).toEqual({
+      columns: ["phone", "fullName"],
+      labels: { fullName: "Name" },
+    });
+  });
+
+  it("defaults to no renamed headers", () => {
+    expect(exportLayoutSchema.parse({ columns: ["phone"] }).labels).toEqual(
+      {}
+    );
+  });
+
+  it("rejects unknown, repeated or missing columns", () => {
+    expect(exportLayoutSchema.safeParse({ columns: ["id"] }).success).toBe(
+      false
+    );
+    expect(
+      exportLayoutSchema.safeParse({ columns: ["phone", "phone"] }).success
+    ).toBe(false);
+    expect(exportLayoutSchema.safeParse({ columns: [] }).success).toBe(false);
+  });
+
+  it("rejects blank labels and labels for unknown columns", () => {
+    expect(
+      exportLayoutSchema.safeParse({
+        columns: ["phone"],
+        labels: { phone: "  " },
+      }).success
+    ).toBe(false);
+    expect(
+      exportLayoutSchema.safeParse({
+        columns: ["phone"],
+        labels: { ownerId: "Owner" },
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("exportHeader", () => {
+  it("uses the label when there is one, else the column key", () => {
+    const layout: ExportLayout = {
+      columns: DEFAULT_EXPORT_COLUMNS,
+      labels: { phone: "Mobile" },
+    };
+    expect(exportHeader(layout, "phone")).toBe("Mobile");
+    expect(exportHeader(layout, "city")).toBe("city");
+  });
+});
+
+describe("buyersToCsv", () => {
+  const layout: ExportLayout = {
+    columns: ["fullName", "notes", "tags", "createdAt"],
+    labels: { fullName: "Name" },
+  };
+
+  it("writes the layout's columns under their headers", () => {
+    expect(buyersToCsv([buyer], layout, true)).toBe(
+      "Name,notes,tags,createdAt\r\n" +
+        'Rahul Sharma,"Wants a corner plot, near school","hot, investor",' +
+        "2026-01-01T00:00:00.000Z"
+    );
+  });
+
+  it("continues a previous chunk without repeating the header", () => {
+    expect(
+      buyersToCsv([buyer], { columns: ["fullName"], labels: {} }, false)
+    ).toBe("\r\nRahul Sharma");
+  });
+});
+
+describe("buyersToJson", () => {
+  const layout: ExportLayout = {
+    columns: ["fullName", "budgetMin", "email"],
+    labels: { budgetMin: "Budget" },
+  };
+
+  it("keys rows by header and keeps numbers and nulls", () => {
+    expect(buyersToJson([buyer], layout, "ndjson", true)).toBe(
+      '{"fullName":"Rahul Sharma","Budget":5000000,"email":null}\n'
+    );
+  });
+
+  it("writes one JSON array across chunks", () => {
+    const json =
+      buyersToJson([buyer], layout, "json", true) +
+      buyersToJson([buyer], layout, "json", false) +
+      EXPORT_JSON_END;
+    expect(JSON.parse(json)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,240 @@
+import { Writable } from "node:stream";
+import { and, eq, getTableColumns, sql, SQL } from "drizzle-orm";
+import ExcelJS from "exceljs";
+import Papa from "papaparse";
+import { db } from "../db";
+import {
+  buyers,
+  buyerHistory,
+  statusEnum,
+  users,
+  Buyer,
+} from "../db/schema";
+import { BuyerFilters, stringifyTags } from "../validations/buyer";
+import {
+  buildBuyerOrder,
+  buildBuyerSortKeys,
+  buildCursorCondition,
+  selectBuyerSortKey,
+} from "./query";
+import {
+  DERIVED_EXPORT_COLUMNS,
+  ExportColumn,
+  exportHeader,
+  ExportLayout,
+} from "./export-columns";
+
+// Rows fetched per round trip while exporting
+export const EXPORT_CHUNK_SIZE = 500;
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+// Derived columns, as subqueries on the buyer row
+const DERIVED_COLUMN_SQL = {
+  ownerName: sql<
+    string | null
+  >`(select ${users.name} from ${users} where ${users.id} = ${buyers.ownerId})`,
+  lastChangeAt: sql<Date | null>`(
+    select max(${buyerHistory.changedAt}) from ${buyerHistory}
+    where ${buyerHistory.buyerId} = ${buyers.id}
+  )`.mapWith(buyerHistory.changedAt),
+  // Since the last history entry that changed the status, or since the lead
+  // was created
+  daysInStatus: sql<number>`floor(extract(epoch from localtimestamp - coalesce((
+    select max(${buyerHistory.changedAt}) from ${buyerHistory}
+    where ${buyerHistory.buyerId} = ${buyers.id}
+      and ${buyerHistory.diff}::jsonb ? 'status'
+  ), ${buyers.createdAt})) / 86400)`.mapWith(Number),
+};
+
+type DerivedColumn = keyof typeof DERIVED_COLUMN_SQL;
+
+export type ExportBuyer = Buyer &
+  Partial<{ ownerName: string | null; lastChangeAt: Date | null; daysInStatus: number }>;
+
+/**
+ * Every buyer matching `where`, in the list's order, a chunk at a time.
+ * Chunks are keyset-paged like the list API, so memory use stays flat no
+ * matter how many buyers match. Derived columns among `columns` are
+ * selected alongside the buyer.
+ */
+export async function* iterateBuyers(
+  where: SQL | undefined,
+  filters: BuyerFilters,
+  columns: readonly ExportColumn[] = [],
+  chunkSize = EXPORT_CHUNK_SIZE
+): AsyncGenerator<ExportBuyer[]> {
+  const sortKeys = buildBuyerSortKeys(filters);
+  const derived = Object.fromEntries(
+    DERIVED_EXPORT_COLUMNS.filter((column) => columns.includes(column)).map(
+      (column) => [column, DERIVED_COLUMN_SQL[column as DerivedColumn]]
+    )
+  );
+  let after: string[] | null = null;
+
+  while (true) {
+    const rows = await db
+      .select({
+        ...getTableColumns(buyers),
+        ...derived,
+        sortKey: selectBuyerSortKey(sortKeys),
+      })
+      .from(buyers)
+      .where(
+        after
+          ? and(
+              where,
+              buildCursorCondition(sortKeys, { key: after, direction: "after" })
+            )
+          : where
+      )
+      .orderBy(...buildBuyerOrder(sortKeys))
+      .limit(chunkSize);
+
+    if (rows.length === 0) return;
+
+    yield rows;
+
+    if (rows.length < chunkSize) return;
+    after = JSON.parse(rows[rows.length - 1].sortKey);
+  }
+}
+
+// One cell of an export. Tags are written the way parseCsvTags reads them
+// back, so an export with the default columns can be imported again.
+function exportValue(buyer: ExportBuyer, column: ExportColumn): unknown {
+  if (column === "tags") return stringifyTags(buyer.tags || []);
+  return buyer[column] ?? null;
+}
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+// One chunk of the CSV; only the first chunk carries the header row
+export function buyersToCsv(
+  buyerList: ExportBuyer[],
+  layout: ExportLayout,
+  header: boolean
+): string {
+  const csv = Papa.unparse(
+    {
+      fields: layout.columns.map((column) => exportHeader(layout, column)),
+      data: buyerList.map((buyer) =>
+        layout.columns.map((column) => csvCell(exportValue(buyer, column)))
+      ),
+    },
+    { header }
+  );
+
+  return header ? csv : `\r\n${csv}`;
+}
+
+/**
+ * One chunk of a JSON or NDJSON export. JSON is a single array: the first
+ * chunk opens it and EXPORT_JSON_END closes it. Keys are the column headers,
+ * budgets stay numbers and dates are ISO strings.
+ */
+export function buyersToJson(
+  buyerList: ExportBuyer[],
+  layout: ExportLayout,
+  format: "json" | "ndjson",
+  first: boolean
+): string {
+  const lines = buyerList.map((buyer) =>
+    JSON.stringify(
+      Object.fromEntries(
+        layout.columns.map((column) => [
+          exportHeader(layout, column),
+          exportValue(buyer, column),
+        ])
+      )
+    )
+  );
+
+  if (format === "ndjson") return `${lines.join("\n")}\n`;
+  return `${first ? "[\n" : ",\n"}${lines.join(",\n")}`;
+}
+
+export const EXPORT_JSON_END = "\n]\n";
+
+const XLSX_NUMBER_FORMATS: Partial<Record<ExportColumn, string>> = {
+  budgetMin: "#,##0",
+  budgetMax: "#,##0",
+  createdAt: "yyyy-mm-dd hh:mm",
+  updatedAt: "yyyy-mm-dd hh:mm",
+  lastChangeAt: "yyyy-mm-dd hh:mm",
+};
+
+function xlsxColumns(layout: ExportLayout): Partial<ExcelJS.Column>[] {
+  return layout.columns.map((column) => ({
+    header: exportHeader(layout, column),
+    key: column,
+    width: column === "notes" ? 40 : XLSX_NUMBER_FORMATS[column] ? 18 : 16,
+    style: XLSX_NUMBER_FORMATS[column]
+      ? { numFmt: XLSX_NUMBER_FORMATS[column] }
+      : {},
+  }));
+}
+
+/**
+ * Stream an Excel workbook with one sheet per status into `output`. Budgets
+ * are number cells and timestamps date cells. Each status is read with its own keyset-paged query, so only
+ * one chunk is held in memory at a time.
+ */
+export async function writeBuyersXlsx(
+  where: SQL | undefined,
+  filters: BuyerFilters,
+  layout: ExportLayout,
+  output: Writable
+) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+  });
+
+  for (const status of statusEnum.enumValues) {
+    let sheet: ExcelJS.Worksheet | null = null;
+
+    for await (const chunk of iterateBuyers(
+      and(where, eq(buyers.status, status)),
+      filters,
+      layout.columns
+    )) {
+      if (!sheet) {
+        sheet = workbook.addWorksheet(status, {
+          views: [{ state: "frozen", ySplit: 1 }],
+        });
+        sheet.columns = xlsxColumns(layout);
+      }
+
+      for (const buyer of chunk) {
+        sheet
+          .addRow(
+            Object.fromEntries(
+              layout.columns.map((column) => [
+                column,
+                exportValue(buyer, column),
+              ])
+            )
+          )
+          .commit();
+      }
+    }
+
+    sheet?.commit();
+  }
+
+  await workbook.commit();
+}
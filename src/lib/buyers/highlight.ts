@@ -0,0 +1,28 @@
+// Markers ts_headline wraps around matched words in search snippets. Control
+// characters can't appear in typed notes, so they never clash with real text.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// Split a snippet into plain and matched runs so the UI can render it
+// without injecting HTML
+export function splitHighlights(snippet: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+
+  snippet.split(HIGHLIGHT_START).forEach((chunk, index) => {
+    if (index === 0) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      return;
+    }
+
+    const [matched, rest] = chunk.split(HIGHLIGHT_END);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  });
+
+  return parts;
+}
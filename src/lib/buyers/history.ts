@@ -0,0 +1,77 @@
+import type { Buyer } from "../db/schema";
+
+export type BuyerDiff = Record<string, { old: unknown; new: unknown }>;
+
+export function isSameValue(oldValue: unknown, newValue: unknown): boolean {
+  if (Array.isArray(newValue) || Array.isArray(oldValue)) {
+    return JSON.stringify(newValue) === JSON.stringify(oldValue);
+  }
+  if (newValue instanceof Date || oldValue instanceof Date) {
+    const oldTime = oldValue ? new Date(oldValue as Date).getTime() : null;
+    const newTime = newValue ? new Date(newValue as Date).getTime() : null;
+    return oldTime === newTime;
+  }
+  return oldValue === newValue;
+}
+
+/**
+ * Field-level diff between the stored buyer and the values about to be
+ * written, in the shape stored in buyer_history.diff. `updatedAt` is
+ * bookkeeping and never recorded.
+ */
+export function buildBuyerDiff(
+  current: Buyer,
+  updates: Partial<Record<keyof Buyer, unknown>>
+): BuyerDiff {
+  const diff: BuyerDiff = {};
+
+  (Object.keys(updates) as (keyof Buyer)[]).forEach((key) => {
+    if (key === "updatedAt") return;
+
+    const newValue = updates[key];
+    if (newValue === undefined) return;
+
+    const oldValue = current[key];
+    if (!isSameValue(oldValue, newValue)) {
+      diff[key] = { old: oldValue, new: newValue };
+    }
+  });
+
+  return diff;
+}
+
+// Optimistic concurrency: true when the client's copy is older than the row
+export function isStaleUpdate(current: Buyer, providedUpdatedAt?: Date | null) {
+  if (!providedUpdatedAt) return false;
+  return (
+    new Date(providedUpdatedAt).getTime() !==
+    new Date(current.updatedAt).getTime()
+  );
+}
+
+/**
+ * History pages are keyed on (changed_at, id). The timestamp is kept as
+ * Postgres prints it so microseconds survive the round trip; a JS Date would
+ * truncate them and skip or repeat rows.
+ */
+export function encodeHistoryCursor(changedAt: string, id: string) {
+  return Buffer.from(`${changedAt}|${id}`).toString("base64url");
+}
+
+// Null for anything that isn't a cursor we handed out
+export function decodeHistoryCursor(
+  cursor: string
+): { changedAt: string; id: string } | null {
+  const [changedAt, id] = Buffer.from(cursor, "base64url")
+    .toString("utf8")
+    .split("|");
+
+  if (!changedAt || !id || Number.isNaN(Date.parse(changedAt))) {
+    return null;
+  }
+  if (!/^[0-9a-f-]{36}$/i.test(id)) {
+    return null;
+  }
+
+  return { changedAt, id };
+}
@@ -0,0 +1,20 @@
+// Display names for buyer fields as they appear in history diffs
+export const BUYER_FIELD_LABELS: Record<string, string> = {
+  fullName: "Name",
+  email: "Email",
+  phone: "Phone",
+  city: "City",
+  propertyType: "Property type",
+  bhk: "BHK",
+  purpose: "Purpose",
+  budgetMin: "Min budget",
+  budgetMax: "Max budget",
+  timeline: "Timeline",
+  source: "Source",
+  status: "Status",
+  visitDate: "Visit date",
+  dropReason: "Drop reason",
+  notes: "Notes",
+  tags: "Tags",
+  ownerId: "Owner",
+};
@@ -0,0 +1,76 @@
+import { Buyer } from "../db/schema";
+import type { MergeableField } from "../validations/buyer";
+
+export const MERGEABLE_FIELDS: MergeableField[] = [
+  "fullName",
+  "email",
+  "phone",
+  "city",
+  "propertyType",
+  "bhk",
+  "purpose",
+  "budgetMin",
+  "budgetMax",
+  "timeline",
+  "source",
+  "status",
+];
+
+// Union of both tag lists, keeping the primary's order and dropping
+// case-insensitive repeats
+export function combineTags(primary: string[], secondary: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  [...primary, ...secondary].forEach((tag) => {
+    const key = tag.trim().toLowerCase();
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      result.push(tag.trim());
+    }
+  });
+
+  return result;
+}
+
+export function combineNotes(
+  primary: string | null,
+  secondary: string | null
+): string | null {
+  const parts = [primary, secondary]
+    .map((note) => note?.trim())
+    .filter((note): note is string => !!note);
+
+  // Avoid repeating notes that were copied between the two leads
+  const unique = parts.filter((note, index) => parts.indexOf(note) === index);
+
+  return unique.length > 0 ? unique.join("\n\n---\n\n") : null;
+}
+
+/**
+ * Build the merged record for `primary`. Each mergeable field comes from the
+ * primary unless `picks` says to take the secondary's value; tags are always
+ * combined and notes are combined unless an explicit value is given.
+ */
+export function buildMergedBuyer(
+  primary: Buyer,
+  secondary: Buyer,
+  picks: Partial<Record<MergeableField, "primary" | "secondary">> = {},
+  notes?: string
+) {
+  const merged: Record<string, unknown> = {};
+
+  MERGEABLE_FIELDS.forEach((field) => {
+    const source = picks[field] === "secondary" ? secondary : primary;
+    merged[field] = source[field];
+  });
+
+  return {
+    ...(merged as Pick<Buyer, MergeableField>),
+    tags: combineTags(primary.tags || [], secondary.tags || []),
+    notes:
+      notes !== undefined
+        ? notes
+        : combineNotes(primary.notes, secondary.notes),
+  };
+}
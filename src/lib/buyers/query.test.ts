@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeBuyerCursor,
+  encodeBuyerCursor,
+  parseBuyerFilters,
+} from "./query";
+
+const filters = parseBuyerFilters(new URLSearchParams("sortBy=fullName"));
+const sortKey = JSON.stringify([
+  "Rahul Sharma",
+  "3f1c2a4e-8b7d-4c6a-9e5f-1a2b3c4d5e6f",
+]);
+
+describe("buyer cursors", () => {
+  it("decode to the row and direction they were made from", () => {
+    const cursor = encodeBuyerCursor(filters, sortKey, "after");
+    expect(decodeBuyerCursor(filters, cursor)).toEqual({
+      sort: "fullName:desc:0",
+      key: JSON.parse(sortKey),
+      direction: "after",
+    });
+  });
+
+  it("are URL safe", () => {
+    const cursor = encodeBuyerCursor(filters, sortKey, "before");
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("don't carry over to a different sort", () => {
+    const cursor = encodeBuyerCursor(filters, sortKey, "after");
+    const reversed = parseBuyerFilters(
+      new URLSearchParams("sortBy=fullName&sortOrder=asc")
+    );
+    expect(decodeBuyerCursor(reversed, cursor)).toBeNull();
+  });
+
+  it("don't carry over between searching and browsing", () => {
+    const cursor = encodeBuyerCursor(filters, sortKey, "after");
+    const searching = parseBuyerFilters(
+      new URLSearchParams("sortBy=fullName&search=rahul")
+    );
+    expect(decodeBuyerCursor(searching, cursor)).toBeNull();
+  });
+
+  it("reject anything that isn't a cursor", () => {
+    expect(decodeBuyerCursor(filters, "not-a-cursor")).toBeNull();
+
+    const tampered = Buffer.from(
+      JSON.stringify({
+        sort: "fullName:desc:0",
+        key: [1, 2],
+        direction: "after",
+      })
+    ).toString("base64url");
+    expect(decodeBuyerCursor(filters, tampered)).toBeNull();
+  });
+});
+
+describe("parseBuyerFilters", () => {
+  it("orders searches by relevance unless a sort was picked", () => {
+    expect(
+      parseBuyerFilters(new URLSearchParams("search=rahul")).sortBy
+    ).toBe("relevance");
+    expect(
+      parseBuyerFilters(new URLSearchParams("search=rahul&sortBy=city")).sortBy
+    ).toBe("city");
+  });
+});
@@ -0,0 +1,340 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+  SQL,
+} from "drizzle-orm";
+import { buyers, buyerActivities, Buyer } from "../db/schema";
+import {
+  buyerFiltersSchema,
+  BuyerFilters,
+} from "../validations/buyer";
+import { buildSearchCondition, buildSearchRank } from "./search";
+
+// A row of GET /api/buyers
+export type BuyerListItem = Buyer & {
+  // Excerpt of matching notes/tags when searching
+  searchSnippet: string | null;
+  lastContactedAt: Date | null;
+  canEdit: boolean;
+};
+
+// Time of the buyer's latest logged activity, or null if nobody has been in
+// touch yet. Uses buyer_activities_buyer_occurred_idx.
+export const buyerLastContactedAt = sql<Date | null>`(
+  select max(${buyerActivities.occurredAt}) from ${buyerActivities}
+  where ${buyerActivities.buyerId} = ${buyers.id}
+)`.mapWith(buyerActivities.occurredAt);
+
+// Filters passed through as raw query string values; the schema splits the
+// lists and checks the ranges
+const RANGE_AND_LIST_FILTERS = [
+  "bhk",
+  "purpose",
+  "source",
+  "tags",
+  "budgetMin",
+  "budgetMax",
+  "createdFrom",
+  "createdTo",
+  "updatedFrom",
+  "updatedTo",
+] as const;
+
+/**
+ * Read the list filters from a request's query string. The buyers list,
+ * CSV export and stats routes all go through here so the same URL slices
+ * the data the same way everywhere.
+ */
+export function parseBuyerFilters(
+  searchParams: URLSearchParams,
+  overrides: Partial<Record<keyof BuyerFilters, unknown>> = {}
+): BuyerFilters {
+  const search = searchParams.get("search")?.trim() || undefined;
+
+  return buyerFiltersSchema.parse({
+    cursor: searchParams.get("cursor") || undefined,
+    limit: parseInt(searchParams.get("limit") || "10"),
+    search,
+    city: searchParams.get("city") || undefined,
+    propertyType: searchParams.get("propertyType") || undefined,
+    status: searchParams.get("status") || undefined,
+    timeline: searchParams.get("timeline") || undefined,
+    ...Object.fromEntries(
+      RANGE_AND_LIST_FILTERS.map((key) => [
+        key,
+        searchParams.get(key) || undefined,
+      ])
+    ),
+    // Searches are ordered by relevance unless a column sort was picked
+    sortBy: searchParams.get("sortBy") || (search ? "relevance" : "updatedAt"),
+    sortOrder: searchParams.get("sortOrder") || "desc",
+    ...overrides,
+  });
+}
+
+// One buyer by id, but only within the caller's organization, so ids from
+// another organization read as "not found". Buyers in the trash are
+// excluded too; see deletedBuyerInOrganization.
+export function buyerInOrganization(
+  organizationId: string,
+  buyerId: string
+): SQL | undefined {
+  return and(
+    eq(buyers.id, buyerId),
+    eq(buyers.organizationId, organizationId),
+    isNull(buyers.deletedAt)
+  );
+}
+
+// One buyer in the caller's organization's trash
+export function deletedBuyerInOrganization(
+  organizationId: string,
+  buyerId: string
+): SQL | undefined {
+  return and(
+    eq(buyers.id, buyerId),
+    eq(buyers.organizationId, organizationId),
+    isNotNull(buyers.deletedAt)
+  );
+}
+
+// Always scoped to one organization's live buyers; the filters narrow it
+// further
+export function buildBuyerWhere(
+  organizationId: string,
+  filters: BuyerFilters
+): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [
+    eq(buyers.organizationId, organizationId),
+    isNull(buyers.deletedAt),
+  ];
+
+  if (filters.search) {
+    conditions.push(buildSearchCondition(filters.search));
+  }
+
+  if (filters.city) {
+    conditions.push(eq(buyers.city, filters.city));
+  }
+
+  if (filters.propertyType) {
+    conditions.push(eq(buyers.propertyType, filters.propertyType));
+  }
+
+  if (filters.status) {
+    conditions.push(eq(buyers.status, filters.status));
+  }
+
+  if (filters.timeline) {
+    conditions.push(eq(buyers.timeline, filters.timeline));
+  }
+
+  if (filters.bhk) {
+    conditions.push(inArray(buyers.bhk, filters.bhk));
+  }
+
+  if (filters.purpose) {
+    conditions.push(inArray(buyers.purpose, filters.purpose));
+  }
+
+  if (filters.source) {
+    conditions.push(inArray(buyers.source, filters.source));
+  }
+
+  if (filters.tags) {
+    const tags = sql.join(
+      filters.tags.map((tag) => sql`${tag}`),
+      sql`, `
+    );
+    conditions.push(sql`${buyers.tags}::jsonb ?| array[${tags}]::text[]`);
+  }
+
+  // An open-ended budget ("5L+" or "up to 50L") overlaps everything on that
+  // side; buyers without any budget never match a budget filter
+  if (filters.budgetMin !== undefined || filters.budgetMax !== undefined) {
+    conditions.push(
+      or(isNotNull(buyers.budgetMin), isNotNull(buyers.budgetMax))
+    );
+  }
+
+  if (filters.budgetMin !== undefined) {
+    conditions.push(
+      or(isNull(buyers.budgetMax), gte(buyers.budgetMax, filters.budgetMin))
+    );
+  }
+
+  if (filters.budgetMax !== undefined) {
+    conditions.push(
+      or(isNull(buyers.budgetMin), lte(buyers.budgetMin, filters.budgetMax))
+    );
+  }
+
+  conditions.push(
+    ...dayRange(buyers.createdAt, filters.createdFrom, filters.createdTo),
+    ...dayRange(buyers.updatedAt, filters.updatedFrom, filters.updatedTo)
+  );
+
+  return and(...conditions);
+}
+
+// Conditions for a YYYY-MM-DD range; the end day is included in full
+function dayRange(
+  column: typeof buyers.createdAt | typeof buyers.updatedAt,
+  from?: string,
+  to?: string
+): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (from) {
+    conditions.push(gte(column, new Date(`${from}T00:00:00.000Z`)));
+  }
+
+  if (to) {
+    const end = new Date(`${to}T00:00:00.000Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    conditions.push(lt(column, end));
+  }
+
+  return conditions;
+}
+
+const sortColumns = {
+  fullName: buyers.fullName,
+  phone: buyers.phone,
+  city: buyers.city,
+  propertyType: buyers.propertyType,
+  status: buyers.status,
+  updatedAt: buyers.updatedAt,
+};
+
+interface BuyerSortKeys {
+  // Most significant first, ending with the id so every row has a unique
+  // position for keyset paging
+  keys: SQL[];
+  direction: "asc" | "desc";
+}
+
+export function buildBuyerSortKeys(filters: BuyerFilters): BuyerSortKeys {
+  // Relevance falls back to most recently updated
+  if (filters.sortBy === "relevance") {
+    return {
+      keys: filters.search
+        ? [
+            sql`${buildSearchRank(filters.search)}`,
+            sql`${buyers.updatedAt}`,
+            sql`${buyers.id}`,
+          ]
+        : [sql`${buyers.updatedAt}`, sql`${buyers.id}`],
+      direction: "desc",
+    };
+  }
+
+  // Never-contacted buyers sort as the longest since contact: first when
+  // ascending, last when descending
+  if (filters.sortBy === "lastContactedAt") {
+    return {
+      keys: [
+        sql`coalesce(${buyerLastContactedAt}, '-infinity'::timestamp)`,
+        sql`${buyers.id}`,
+      ],
+      direction: filters.sortOrder,
+    };
+  }
+
+  const column = sortColumns[filters.sortBy] || buyers.updatedAt;
+  return {
+    keys: [sql`${column}`, sql`${buyers.id}`],
+    direction: filters.sortOrder,
+  };
+}
+
+// Spread into orderBy()
+export function buildBuyerOrder(
+  { keys, direction }: BuyerSortKeys,
+  reverse = false
+): SQL[] {
+  const ascending = (direction === "asc") !== reverse;
+  return keys.map((key) => (ascending ? asc(key) : desc(key)));
+}
+
+// The row's sort keys as Postgres prints them, selected alongside each row
+// to build cursors from. Text keeps timestamps' microseconds and ranks'
+// full precision, which a JS round trip would lose.
+export function selectBuyerSortKey({ keys }: BuyerSortKeys) {
+  return sql<string>`json_build_array(${sql.join(
+    keys.map((key) => sql`${key}::text`),
+    sql`, `
+  )})::text`;
+}
+
+export interface BuyerCursor {
+  // Sort the cursor was made for; a cursor is only valid with the same one
+  sort: string;
+  key: string[];
+  // "after" pages forward from the row, "before" pages back
+  direction: "after" | "before";
+}
+
+function describeSort(filters: BuyerFilters) {
+  return `${filters.sortBy}:${filters.sortOrder}:${filters.search ? 1 : 0}`;
+}
+
+export function encodeBuyerCursor(
+  filters: BuyerFilters,
+  sortKey: string,
+  direction: BuyerCursor["direction"]
+): string {
+  const cursor: BuyerCursor = {
+    sort: describeSort(filters),
+    key: JSON.parse(sortKey),
+    direction,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Null for anything that isn't a cursor we handed out for this sort
+export function decodeBuyerCursor(
+  filters: BuyerFilters,
+  cursor: string
+): BuyerCursor | null {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (
+      decoded?.sort !== describeSort(filters) ||
+      !Array.isArray(decoded.key) ||
+      !decoded.key.every((value: unknown) => typeof value === "string") ||
+      (decoded.direction !== "after" && decoded.direction !== "before")
+    ) {
+      return null;
+    }
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+// Rows strictly after (or before) the cursor's row in the list's order
+export function buildCursorCondition(
+  { keys, direction }: BuyerSortKeys,
+  cursor: Pick<BuyerCursor, "key" | "direction">
+): SQL {
+  const forward = cursor.direction === "after";
+  const operator = (direction === "asc") === forward ? sql`>` : sql`<`;
+
+  return sql`(${sql.join(keys, sql`, `)}) ${operator} (${sql.join(
+    cursor.key.map((value) => sql`${value}`),
+    sql`, `
+  )})`;
+}
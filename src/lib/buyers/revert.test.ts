@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { Buyer, BuyerHistory } from "../db/schema";
+import { getChangedFields, rollBackBuyer } from "./revert";
+
+const buyer: Buyer = {
+  id: "3f1c2a4e-8b7d-4c6a-9e5f-1a2b3c4d5e6f",
+  fullName: "Rahul Sharma",
+  email: "rahul@example.com",
+  phone: "9876543210",
+  city: "Mohali",
+  propertyType: "Plot",
+  bhk: null,
+  purpose: "Buy",
+  budgetMin: null,
+  budgetMax: null,
+  timeline: "0-3m",
+  source: "Website",
+  status: "Contacted",
+  visitDate: null,
+  dropReason: null,
+  notes: null,
+  tags: [],
+  ownerId: "8a9b0c1d-2e3f-4a5b-8c7d-9e0f1a2b3c4d",
+  organizationId: "5e6f7a8b-9c0d-4e1f-a2b3-c4d5e6f7a8b9",
+  deletedAt: null,
+  deletedBy: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+describe("rollBackBuyer", () => {
+  it("undoes several edits newest first, ending on the oldest value", () => {
+    const snapshot = rollBackBuyer(buyer, [
+      { id: "third", diff: { status: { old: "Qualified", new: "Contacted" } } },
+      {
+        id: "second",
+        diff: {
+          status: { old: "New", new: "Qualified" },
+          city: { old: "Chandigarh", new: "Mohali" },
+        },
+      },
+      { id: "first", diff: { city: { old: "Panchkula", new: "Chandigarh" } } },
+    ]);
+    expect(snapshot.status).toBe("New");
+    expect(snapshot.city).toBe("Panchkula");
+    expect(snapshot.phone).toBe(buyer.phone);
+  });
+
+  it("turns a visit date from the diff back into a Date", () => {
+    const snapshot = rollBackBuyer(buyer, [
+      {
+        id: "back-to-contacted",
+        diff: {
+          status: { old: "Visited", new: "Contacted" },
+          visitDate: { old: "2026-02-01T10:00:00.000Z", new: null },
+        },
+      },
+    ]);
+    expect(snapshot.status).toBe("Visited");
+    expect(snapshot.visitDate).toEqual(new Date("2026-02-01T10:00:00Z"));
+  });
+
+  it("leaves fields alone for event-only entries", () => {
+    const snapshot = rollBackBuyer(buyer, [
+      { id: "created", diff: { created: { old: null, new: "Lead created" } } },
+      {
+        id: "merged",
+        diff: {
+          merged: { old: { id: "duplicate", historyIds: [] }, new: buyer.id },
+        },
+      },
+    ]);
+    expect(snapshot).toEqual(buyer);
+  });
+});
+
+describe("rollBackBuyer after a merge", () => {
+  // Newest first: the merge, then an edit the duplicate had before it was
+  // folded in, then the primary's own edit
+  const history: Pick<BuyerHistory, "id" | "diff">[] = [
+    {
+      id: "merge",
+      diff: {
+        notes: { old: null, new: "Wants a corner plot" },
+        merged: {
+          old: {
+            id: "duplicate",
+            fullName: "R. Sharma",
+            historyIds: ["dup-edit"],
+          },
+          new: buyer.id,
+        },
+      },
+    },
+    {
+      id: "dup-edit",
+      diff: {
+        phone: { old: "9000000000", new: "9111111111" },
+        status: { old: "New", new: "Dropped" },
+      },
+    },
+    {
+      id: "own-edit",
+      diff: { status: { old: "New", new: "Contacted" } },
+    },
+  ];
+  const current = { ...buyer, notes: "Wants a corner plot" };
+
+  it("doesn't replay the duplicate's edits onto the primary", () => {
+    const snapshot = rollBackBuyer(current, history.slice(0, 2));
+    expect(snapshot.phone).toBe("9876543210");
+    expect(snapshot.status).toBe("Contacted");
+    expect(snapshot.notes).toBeNull();
+  });
+
+  it("still undoes the primary's own edits from before the merge", () => {
+    const snapshot = rollBackBuyer(current, history);
+    expect(snapshot.phone).toBe("9876543210");
+    expect(snapshot.status).toBe("New");
+  });
+});
+
+describe("getChangedFields", () => {
+  it("lists only the fields the snapshot would change", () => {
+    const snapshot = {
+      ...buyer,
+      status: "New" as const,
+      tags: [],
+      visitDate: null,
+      city: "Panchkula" as const,
+    };
+    expect(getChangedFields(buyer, snapshot)).toEqual(["city", "status"]);
+  });
+
+  it("treats equal dates as unchanged", () => {
+    const visited = {
+      ...buyer,
+      visitDate: new Date("2026-02-01T10:00:00Z"),
+    };
+    expect(
+      getChangedFields(visited, {
+        ...visited,
+        visitDate: new Date("2026-02-01T10:00:00Z"),
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { buyerHistory, Buyer, BuyerHistory } from "../db/schema";
+import {
+  revertableFieldSchema,
+  RevertableField,
+} from "../validations/buyer";
+import { BuyerDiff, isSameValue } from "./history";
+
+export const REVERTABLE_FIELDS: RevertableField[] =
+  revertableFieldSchema.options;
+
+// History entries the merge recorded in `diff` moved over from the
+// duplicate it folded in
+export function mergedHistoryIds(diff: BuyerDiff): string[] {
+  const merged = diff.merged?.old as { historyIds?: string[] } | undefined;
+  return merged?.historyIds ?? [];
+}
+
+/**
+ * Undo `newerEntries` (newest first) on top of the current record, giving
+ * the buyer as it was right after the last change not in the list. Event
+ * entries such as "created" or "merged" carry no field values and are
+ * skipped, as are entries a merge moved over from the duplicate: those were
+ * edits to the other lead, not to this one.
+ */
+export function rollBackBuyer(
+  current: Buyer,
+  newerEntries: Pick<BuyerHistory, "id" | "diff">[]
+): Buyer {
+  const snapshot: Record<string, unknown> = { ...current };
+  const fromDuplicates = new Set<string>();
+
+  newerEntries.forEach(({ id, diff }) => {
+    if (fromDuplicates.has(id)) return;
+    mergedHistoryIds(diff).forEach((movedId) => fromDuplicates.add(movedId));
+
+    REVERTABLE_FIELDS.forEach((field) => {
+      if (field in diff) {
+        snapshot[field] = diff[field].old;
+      }
+    });
+  });
+
+  // Dates come back out of the JSON diff as strings
+  if (snapshot.visitDate) {
+    snapshot.visitDate = new Date(snapshot.visitDate as string);
+  }
+
+  return snapshot as Buyer;
+}
+
+// Revertable fields whose value in `snapshot` differs from `current`
+export function getChangedFields(
+  current: Buyer,
+  snapshot: Buyer
+): RevertableField[] {
+  return REVERTABLE_FIELDS.filter(
+    (field) => !isSameValue(current[field], snapshot[field])
+  );
+}
+
+/**
+ * Reconstruct `buyer` as of one of its history entries. Null when the entry
+ * doesn't belong to the buyer. For an entry moved over from a merged
+ * duplicate, this is the buyer as it was at that moment.
+ */
+export async function loadBuyerAsOf(
+  buyer: Buyer,
+  historyId: string
+): Promise<{ entry: BuyerHistory; snapshot: Buyer } | null> {
+  const [entry] = await db
+    .select()
+    .from(buyerHistory)
+    .where(
+      and(eq(buyerHistory.id, historyId), eq(buyerHistory.buyerId, buyer.id))
+    )
+    .limit(1);
+
+  if (!entry) return null;
+
+  // Compared in SQL so changed_at keeps its microseconds
+  const newer = await db
+    .select({ id: buyerHistory.id, diff: buyerHistory.diff })
+    .from(buyerHistory)
+    .where(
+      and(
+        eq(buyerHistory.buyerId, buyer.id),
+        sql`(${buyerHistory.changedAt}, ${buyerHistory.id}) > (select h.changed_at, h.id from buyer_history h where h.id = ${entry.id})`
+      )
+    )
+    .orderBy(desc(buyerHistory.changedAt), desc(buyerHistory.id));
+
+  return {
+    entry,
+    snapshot: rollBackBuyer(buyer, newer),
+  };
+}
+
+// The record in the shape updateBuyerSchema accepts, so a restored version
+// is held to the same rules as a normal edit
+export function toUpdateInput(record: Buyer) {
+  return {
+    fullName: record.fullName,
+    email: record.email ?? "",
+    phone: record.phone,
+    city: record.city,
+    propertyType: record.propertyType,
+    bhk: record.bhk ?? undefined,
+    purpose: record.purpose,
+    budgetMin: record.budgetMin ?? undefined,
+    budgetMax: record.budgetMax ?? undefined,
+    timeline: record.timeline,
+    source: record.source,
+    notes: record.notes ?? "",
+    tags: record.tags ?? [],
+    status: record.status,
+    visitDate: record.visitDate,
+    dropReason: record.dropReason ?? "",
+  };
+}
@@ -0,0 +1,72 @@
+import { ilike, or, sql, SQL } from "drizzle-orm";
+import { buyers, buyerSearchVector } from "../db/schema";
+import { HIGHLIGHT_START, HIGHLIGHT_END } from "./highlight";
+
+// Shortest digit string treated as a phone lookup (e.g. "last 4 digits")
+const MIN_PHONE_DIGITS = 3;
+
+const headlineOptions = [
+  `StartSel=${HIGHLIGHT_START}`,
+  `StopSel=${HIGHLIGHT_END}`,
+  "MaxWords=20",
+  "MinWords=8",
+  "MaxFragments=2",
+  'FragmentDelimiter=" … "',
+].join(", ");
+
+// Digits to match against phone numbers when the query looks like one
+function phoneDigits(search: string): string | null {
+  if (!/^[\d\s+()-]+$/.test(search)) return null;
+  const digits = search.replace(/\D/g, "");
+  return digits.length >= MIN_PHONE_DIGITS ? digits : null;
+}
+
+// websearch syntax supports "quoted phrases" and -exclusions
+function toTsQuery(search: string) {
+  return sql`websearch_to_tsquery('english', ${search})`;
+}
+
+// Notes and tags as one string, for snippets
+const snippetDocument = sql`concat_ws(' · ', ${buyers.notes}, array_to_string(array(select json_array_elements_text(${buyers.tags})), ', '))`;
+
+/**
+ * Where clause for the search box. Phone-like queries match anywhere in the
+ * number; everything else runs a full-text search over name, tags and notes,
+ * plus substring matches on name and email so partial names still work.
+ */
+export function buildSearchCondition(search: string): SQL | undefined {
+  const digits = phoneDigits(search);
+  if (digits) {
+    return ilike(buyers.phone, `%${digits}%`);
+  }
+
+  return or(
+    sql`${buyerSearchVector} @@ ${toTsQuery(search)}`,
+    ilike(buyers.fullName, `%${search}%`),
+    ilike(buyers.email, `%${search}%`)
+  );
+}
+
+// Higher is better: phone suffix matches first, then name prefix, then ts_rank
+export function buildSearchRank(search: string): SQL<number> {
+  const digits = phoneDigits(search);
+  if (digits) {
+    return sql<number>`case when ${buyers.phone} like ${`%${digits}`} then 1 else 0 end`;
+  }
+
+  return sql<number>`ts_rank(${buyerSearchVector}, ${toTsQuery(search)}) + case when ${buyers.fullName} ilike ${`${search}%`} then 1 else 0 end`;
+}
+
+/**
+ * Excerpt of the notes/tags around the matched words, with matches wrapped
+ * in the markers from ./highlight. Null when the match was only on name,
+ * email or phone.
+ */
+export function buildSearchSnippet(search?: string): SQL<string | null> {
+  if (!search || phoneDigits(search)) {
+    return sql<string | null>`null`;
+  }
+
+  const query = toTsQuery(search);
+  return sql<string | null>`case when to_tsvector('english', ${snippetDocument}) @@ ${query} then ts_headline('english', ${snippetDocument}, ${query}, ${headlineOptions}) end`;
+}
@@ -0,0 +1,165 @@
+import { and, count, gte, sql, SQL } from "drizzle-orm";
+import { db } from "../db";
+import {
+  buyers,
+  cityEnum,
+  propertyTypeEnum,
+  sourceEnum,
+  statusEnum,
+} from "../db/schema";
+
+// Budget buckets use the upper end of a lead's range, falling back to the lower
+export const BUDGET_RANGES = [
+  { key: "under50L", label: "Under ₹50L" },
+  { key: "50Lto1Cr", label: "₹50L - ₹1Cr" },
+  { key: "1Crto2Cr", label: "₹1Cr - ₹2Cr" },
+  { key: "2Crto5Cr", label: "₹2Cr - ₹5Cr" },
+  { key: "over5Cr", label: "₹5Cr+" },
+  { key: "unspecified", label: "Not specified" },
+] as const;
+
+export interface BuyerStats {
+  total: number;
+  byStatus: { status: string; count: number }[];
+  bySource: {
+    source: string;
+    total: number;
+    converted: number;
+    conversionRate: number;
+  }[];
+  byCity: { city: string; count: number }[];
+  byPropertyType: { propertyType: string; count: number }[];
+  budgetRanges: { range: string; label: string; count: number }[];
+  weekly: { weekStart: string; count: number }[];
+}
+
+// Thresholds are written inline (not bound) so GROUP BY can repeat the expression
+const budgetBucket = sql<string>`case
+  when coalesce(${buyers.budgetMax}, ${buyers.budgetMin}) is null then 'unspecified'
+  when coalesce(${buyers.budgetMax}, ${buyers.budgetMin}) < 5000000 then 'under50L'
+  when coalesce(${buyers.budgetMax}, ${buyers.budgetMin}) < 10000000 then '50Lto1Cr'
+  when coalesce(${buyers.budgetMax}, ${buyers.budgetMin}) < 20000000 then '1Crto2Cr'
+  when coalesce(${buyers.budgetMax}, ${buyers.budgetMin}) < 50000000 then '2Crto5Cr'
+  else 'over5Cr'
+end`;
+
+const weekStart = sql<string>`to_char(date_trunc('week', ${buyers.createdAt}), 'YYYY-MM-DD')`;
+
+// Monday of the week containing `date`, matching Postgres date_trunc('week')
+function startOfWeek(date: Date) {
+  const start = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+// Fill in zero counts so every known value shows up, in enum order
+function withZeros<K extends string>(
+  values: readonly string[],
+  rows: { key: string; count: number }[],
+  keyName: K
+) {
+  const counts = new Map(rows.map((row) => [row.key, row.count]));
+  return values.map(
+    (value) =>
+      ({ [keyName]: value, count: counts.get(value) || 0 }) as Record<
+        K,
+        string
+      > & { count: number }
+  );
+}
+
+/**
+ * Aggregate counts for the dashboard. `where` is the same filter clause the
+ * buyers list uses, so every widget can be sliced like the table.
+ */
+export async function getBuyerStats(
+  where: SQL | undefined,
+  weeks: number
+): Promise<BuyerStats> {
+  const firstWeek = startOfWeek(new Date());
+  firstWeek.setUTCDate(firstWeek.getUTCDate() - (weeks - 1) * 7);
+
+  const [
+    statusRows,
+    sourceRows,
+    cityRows,
+    propertyTypeRows,
+    budgetRows,
+    weeklyRows,
+  ] = await Promise.all([
+    db
+      .select({ key: buyers.status, count: count() })
+      .from(buyers)
+      .where(where)
+      .groupBy(buyers.status),
+    db
+      .select({
+        source: buyers.source,
+        total: count(),
+        converted: sql<number>`count(*) filter (where ${buyers.status} = 'Converted')`.mapWith(
+          Number
+        ),
+      })
+      .from(buyers)
+      .where(where)
+      .groupBy(buyers.source),
+    db
+      .select({ key: buyers.city, count: count() })
+      .from(buyers)
+      .where(where)
+      .groupBy(buyers.city),
+    db
+      .select({ key: buyers.propertyType, count: count() })
+      .from(buyers)
+      .where(where)
+      .groupBy(buyers.propertyType),
+    db
+      .select({ key: budgetBucket, count: count() })
+      .from(buyers)
+      .where(where)
+      .groupBy(budgetBucket),
+    db
+      .select({ key: weekStart, count: count() })
+      .from(buyers)
+      .where(and(where, gte(buyers.createdAt, firstWeek)))
+      .groupBy(weekStart),
+  ]);
+
+  const sources = new Map(sourceRows.map((row) => [row.source, row]));
+  const weeklyCounts = new Map(weeklyRows.map((row) => [row.key, row.count]));
+
+  return {
+    total: statusRows.reduce((sum, row) => sum + row.count, 0),
+    byStatus: withZeros(statusEnum.enumValues, statusRows, "status"),
+    bySource: sourceEnum.enumValues.map((source) => {
+      const row = sources.get(source);
+      const total = row?.total || 0;
+      const converted = row?.converted || 0;
+      return {
+        source,
+        total,
+        converted,
+        conversionRate: total > 0 ? converted / total : 0,
+      };
+    }),
+    byCity: withZeros(cityEnum.enumValues, cityRows, "city"),
+    byPropertyType: withZeros(
+      propertyTypeEnum.enumValues,
+      propertyTypeRows,
+      "propertyType"
+    ),
+    budgetRanges: BUDGET_RANGES.map(({ key, label }) => ({
+      range: key,
+      label,
+      count: budgetRows.find((row) => row.key === key)?.count || 0,
+    })),
+    weekly: Array.from({ length: weeks }, (_, index) => {
+      const week = new Date(firstWeek);
+      week.setUTCDate(week.getUTCDate() + index * 7);
+      const key = week.toISOString().split("T")[0];
+      return { weekStart: key, count: weeklyCounts.get(key) || 0 };
+    }),
+  };
+}
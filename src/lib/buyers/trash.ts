@@ -0,0 +1,83 @@
+import { and, eq, isNotNull, lt } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../db";
+import { buyers, buyerHistory, Buyer } from "../db/schema";
+
+// Days a deleted buyer stays restorable before the scheduled purge removes
+// it for good
+export const TRASH_RETENTION_DAYS = Math.max(
+  1,
+  parseInt(process.env.TRASH_RETENTION_DAYS || "30") || 30
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When a buyer deleted at `deletedAt` becomes eligible for purging
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(
+    new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS
+  );
+}
+
+/**
+ * Move a buyer to the trash. Its history, tasks and activities stay in place
+ * so a restore brings everything back.
+ */
+export async function moveToTrash(buyer: Buyer, userId: string) {
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(buyers)
+      .set({ deletedAt: now, deletedBy: userId, updatedAt: now })
+      .where(eq(buyers.id, buyer.id));
+
+    await tx.insert(buyerHistory).values({
+      id: uuidv4(),
+      buyerId: buyer.id,
+      changedBy: userId,
+      organizationId: buyer.organizationId,
+      diff: { deleted: { old: null, new: "Lead moved to trash" } },
+    });
+  });
+}
+
+export async function restoreFromTrash(buyer: Buyer, userId: string) {
+  const now = new Date();
+
+  const [restored] = await db.transaction(async (tx) => {
+    const result = await tx
+      .update(buyers)
+      .set({ deletedAt: null, deletedBy: null, updatedAt: now })
+      .where(eq(buyers.id, buyer.id))
+      .returning();
+
+    await tx.insert(buyerHistory).values({
+      id: uuidv4(),
+      buyerId: buyer.id,
+      changedBy: userId,
+      organizationId: buyer.organizationId,
+      diff: { restored: { old: null, new: "Lead restored from trash" } },
+    });
+
+    return result;
+  });
+
+  return restored;
+}
+
+/**
+ * Permanently delete buyers whose retention period has run out, across all
+ * organizations. History, tasks and activities go with them via the
+ * cascading foreign keys. Returns how many buyers were removed.
+ */
+export async function purgeExpiredBuyers(now: Date = new Date()) {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+
+  const purged = await db
+    .delete(buyers)
+    .where(and(isNotNull(buyers.deletedAt), lt(buyers.deletedAt, cutoff)))
+    .returning({ id: buyers.id });
+
+  return purged.length;
+}
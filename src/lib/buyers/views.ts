@@ -0,0 +1,52 @@
+import { and, eq, or, SQL } from "drizzle-orm";
+import { db } from "../db";
+import { savedViews } from "../db/schema";
+
+// Saved views a user can open: their own plus the ones teammates in the same
+// organization have shared
+export function savedViewsVisibleTo(
+  organizationId: string,
+  userId: string
+): SQL | undefined {
+  return and(
+    eq(savedViews.organizationId, organizationId),
+    or(eq(savedViews.ownerId, userId), eq(savedViews.shared, true))
+  );
+}
+
+export async function getSavedView(
+  organizationId: string,
+  userId: string,
+  viewId: string
+) {
+  const [view] = await db
+    .select()
+    .from(savedViews)
+    .where(
+      and(
+        eq(savedViews.id, viewId),
+        savedViewsVisibleTo(organizationId, userId)
+      )
+    )
+    .limit(1);
+
+  return view;
+}
+
+// Lay the query string over a view's saved filters, so a link with `view=`
+// alone reproduces the view and any extra parameters still take precedence
+export function applySavedViewFilters(
+  filters: Partial<Record<string, string>>,
+  searchParams: URLSearchParams
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  searchParams.forEach((value, key) => {
+    if (key !== "view") params.set(key, value);
+  });
+
+  return params;
+}
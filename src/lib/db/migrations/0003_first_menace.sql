@@ -0,0 +1,21 @@
+CREATE TYPE "public"."task_type" AS ENUM('Call', 'Visit', 'Email', 'Meeting', 'Other');--> statement-breakpoint
+CREATE TABLE "buyer_tasks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"buyer_id" uuid NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"type" "task_type" NOT NULL,
+	"due_at" timestamp NOT NULL,
+	"assignee_id" uuid NOT NULL,
+	"created_by" uuid NOT NULL,
+	"notes" text,
+	"done" boolean DEFAULT false NOT NULL,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "buyer_tasks" ADD CONSTRAINT "buyer_tasks_buyer_id_buyers_id_fk" FOREIGN KEY ("buyer_id") REFERENCES "public"."buyers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "buyer_tasks" ADD CONSTRAINT "buyer_tasks_assignee_id_user_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "buyer_tasks" ADD CONSTRAINT "buyer_tasks_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "buyer_tasks_buyer_idx" ON "buyer_tasks" USING btree ("buyer_id");--> statement-breakpoint
+CREATE INDEX "buyer_tasks_assignee_due_idx" ON "buyer_tasks" USING btree ("assignee_id","due_at");
\ No newline at end of file
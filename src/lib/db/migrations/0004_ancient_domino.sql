@@ -0,0 +1,2 @@
+ALTER TABLE "buyers" ADD COLUMN "visit_date" timestamp;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "drop_reason" varchar(200);
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "buyers_search_idx" ON "buyers" USING gin ((setweight(to_tsvector('english', coalesce(full_name, '')), 'A') || setweight(to_tsvector('english', coalesce(tags::text, '')), 'B') || setweight(to_tsvector('english', coalesce(notes, '')), 'C')));
\ No newline at end of file
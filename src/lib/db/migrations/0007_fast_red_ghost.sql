@@ -0,0 +1,53 @@
+CREATE TABLE "organization_invites" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" "user_role" DEFAULT 'agent' NOT NULL,
+	"token" varchar(64) NOT NULL,
+	"invited_by" uuid NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "organization_invites_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE "organization_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "organization_members_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "teams" DROP CONSTRAINT "teams_name_unique";--> statement-breakpoint
+ALTER TABLE "buyer_history" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "teams" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+-- Backfill: everyone who already shares this deployment becomes one organization
+INSERT INTO "organizations" ("name") SELECT 'Default Organization' WHERE EXISTS (SELECT 1 FROM "user");--> statement-breakpoint
+INSERT INTO "organization_members" ("organization_id", "user_id") SELECT (SELECT "id" FROM "organizations" LIMIT 1), "id" FROM "user";--> statement-breakpoint
+-- The earliest user administers the backfilled organization, so admin-only pages work straight after upgrading
+UPDATE "user" SET "role" = 'admin' WHERE "id" = (SELECT "id" FROM "user" ORDER BY "created_at", "id" LIMIT 1);--> statement-breakpoint
+UPDATE "buyers" SET "organization_id" = (SELECT "id" FROM "organizations" LIMIT 1);--> statement-breakpoint
+UPDATE "buyer_history" SET "organization_id" = (SELECT "id" FROM "organizations" LIMIT 1);--> statement-breakpoint
+UPDATE "teams" SET "organization_id" = (SELECT "id" FROM "organizations" LIMIT 1);--> statement-breakpoint
+ALTER TABLE "buyer_history" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "buyers" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "teams" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_invites" ADD CONSTRAINT "organization_invites_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_invites" ADD CONSTRAINT "organization_invites_invited_by_user_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "organization_invites_organization_idx" ON "organization_invites" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "organization_members_organization_idx" ON "organization_members" USING btree ("organization_id");--> statement-breakpoint
+ALTER TABLE "buyer_history" ADD CONSTRAINT "buyer_history_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "buyers" ADD CONSTRAINT "buyers_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "teams" ADD CONSTRAINT "teams_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "buyers_organization_idx" ON "buyers" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "teams_organization_name_idx" ON "teams" USING btree ("organization_id","name");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "assignment_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"city" "city",
+	"property_type" "property_type",
+	"source" "source",
+	"assignee_ids" json DEFAULT '[]'::json NOT NULL,
+	"last_assignee_id" uuid,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "available" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "assignment_rules" ADD CONSTRAINT "assignment_rules_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "assignment_rules_organization_idx" ON "assignment_rules" USING btree ("organization_id");
\ No newline at end of file
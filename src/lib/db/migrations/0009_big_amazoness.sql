@@ -0,0 +1,16 @@
+CREATE TYPE "public"."activity_type" AS ENUM('Call', 'Site Visit', 'Meeting', 'Email', 'Message', 'Other');--> statement-breakpoint
+CREATE TABLE "buyer_activities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"buyer_id" uuid NOT NULL,
+	"type" "activity_type" NOT NULL,
+	"outcome" varchar(100),
+	"occurred_at" timestamp NOT NULL,
+	"duration_minutes" integer,
+	"notes" text,
+	"logged_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "buyer_activities" ADD CONSTRAINT "buyer_activities_buyer_id_buyers_id_fk" FOREIGN KEY ("buyer_id") REFERENCES "public"."buyers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "buyer_activities" ADD CONSTRAINT "buyer_activities_logged_by_user_id_fk" FOREIGN KEY ("logged_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "buyer_activities_buyer_occurred_idx" ON "buyer_activities" USING btree ("buyer_id","occurred_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "buyers" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "deleted_by" uuid;--> statement-breakpoint
+ALTER TABLE "buyers" ADD CONSTRAINT "buyers_deleted_by_user_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "buyers_deleted_at_idx" ON "buyers" USING btree ("deleted_at");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "saved_views" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"owner_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"filters" json NOT NULL,
+	"pinned" boolean DEFAULT false NOT NULL,
+	"shared" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_views" ADD CONSTRAINT "saved_views_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_views" ADD CONSTRAINT "saved_views_owner_id_user_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "saved_views_organization_idx" ON "saved_views" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "saved_views_owner_idx" ON "saved_views" USING btree ("owner_id");
\ No newline at end of file
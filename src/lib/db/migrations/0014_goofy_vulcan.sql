@@ -0,0 +1,4 @@
+CREATE TYPE "public"."import_job_mode" AS ENUM('create', 'upsert');--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD COLUMN "mode" "import_job_mode" DEFAULT 'create' NOT NULL;--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD COLUMN "updated_rows" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD COLUMN "skipped_rows" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
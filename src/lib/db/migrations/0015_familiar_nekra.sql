@@ -0,0 +1,14 @@
+CREATE TABLE "export_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"created_by" uuid,
+	"name" varchar(100) NOT NULL,
+	"columns" json NOT NULL,
+	"labels" json DEFAULT '{}'::json NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "export_templates" ADD CONSTRAINT "export_templates_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "export_templates" ADD CONSTRAINT "export_templates_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "export_templates_organization_name_idx" ON "export_templates" USING btree ("organization_id","name");
\ No newline at end of file
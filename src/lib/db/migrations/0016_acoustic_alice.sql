@@ -0,0 +1,15 @@
+CREATE TABLE "lead_forms" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"key" varchar(64) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"default_owner_id" uuid NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "lead_forms_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+ALTER TABLE "lead_forms" ADD CONSTRAINT "lead_forms_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_forms" ADD CONSTRAINT "lead_forms_default_owner_id_user_id_fk" FOREIGN KEY ("default_owner_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lead_forms_organization_idx" ON "lead_forms" USING btree ("organization_id");
\ No newline at end of file
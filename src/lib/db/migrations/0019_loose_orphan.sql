@@ -0,0 +1 @@
+ALTER TABLE "buyer_history" ALTER COLUMN "changed_by" DROP NOT NULL;
\ No newline at end of file
@@ -5,11 +5,13 @@ import {
   text,
   timestamp,
   integer,
+  boolean,
   json,
   pgEnum,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // Enums
 export const cityEnum = pgEnum("city", [
@@ -57,6 +59,85 @@ export const statusEnum = pgEnum("status", [
   "Dropped",
 ]);
 
+export const taskTypeEnum = pgEnum("task_type", [
+  "Call",
+  "Visit",
+  "Email",
+  "Meeting",
+  "Other",
+]);
+
+export const activityTypeEnum = pgEnum("activity_type", [
+  "Call",
+  "Site Visit",
+  "Meeting",
+  "Email",
+  "Message",
+  "Other",
+]);
+
+// Access level; see lib/auth/permissions.ts for what each role can do
+export const userRoleEnum = pgEnum("user_role", ["admin", "manager", "agent"]);
+
+export const importJobStatusEnum = pgEnum("import_job_status", [
+  "queued",
+  "processing",
+  "completed",
+  "failed",
+]);
+
+// create: every valid row becomes a new lead. upsert: rows matching an
+// existing lead by phone or email update it instead.
+export const importJobModeEnum = pgEnum("import_job_mode", [
+  "create",
+  "upsert",
+]);
+
+// Buyer lifecycle events sent to webhook endpoints
+export const webhookEventEnum = pgEnum("webhook_event", [
+  "buyer.created",
+  "buyer.status_changed",
+  "buyer.converted",
+  "buyer.deleted",
+]);
+
+// pending: waiting for its first attempt or a retry. failed: out of retries.
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "pending",
+  "succeeded",
+  "failed",
+]);
+
+// read: list and fetch buyers. write: also create, update and delete them.
+export const apiKeyScopeEnum = pgEnum("api_key_scope", ["read", "write"]);
+
+// Each agency sharing the deployment is an organization; all buyer data is
+// scoped to one
+export const organizations = pgTable("organizations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Teams group agents under a manager
+export const teams = pgTable(
+  "teams",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationNameIdx: uniqueIndex("teams_organization_name_idx").on(
+      table.organizationId,
+      table.name
+    ),
+  })
+);
+
 // Users table for NextAuth (matching actual database - singular names)
 export const users = pgTable("user", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -64,6 +145,10 @@ export const users = pgTable("user", {
   email: varchar("email", { length: 255 }).notNull().unique(),
   emailVerified: timestamp("emailVerified"), // camelCase to match latest migration
   image: varchar("image", { length: 255 }),
+  role: userRoleEnum("role").notNull().default("agent"),
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "set null" }),
+  // Unavailable users (e.g. on leave) are skipped by round-robin assignment
+  available: boolean("available").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -71,6 +156,53 @@ export const users = pgTable("user", {
 // Alias for NextAuth adapter compatibility
 export const user = users;
 
+// Which organization a user works in. A user belongs to exactly one; it is
+// created at signup or taken from the invite they signed up with.
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull()
+      .unique(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationIdx: index("organization_members_organization_idx").on(
+      table.organizationId
+    ),
+  })
+);
+
+// Pending invitations to join an organization
+export const organizationInvites = pgTable(
+  "organization_invites",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    email: varchar("email", { length: 255 }).notNull(),
+    role: userRoleEnum("role").notNull().default("agent"),
+    token: varchar("token", { length: 64 }).notNull().unique(),
+    invitedBy: uuid("invited_by")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationIdx: index("organization_invites_organization_idx").on(
+      table.organizationId
+    ),
+  })
+);
+
 // Accounts table for NextAuth (matching actual database - singular names)
 export const accounts = pgTable("account", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -106,6 +238,15 @@ export const verificationTokens = pgTable("verification_token", {
   expires: timestamp("expires").notNull(),
 });
 
+// Weighted full-text document for buyer search: name, then tags, then notes.
+// Queries must repeat this exact expression for Postgres to use
+// buyers_search_idx, so always go through lib/buyers/search.ts.
+export const buyerSearchVector = sql.raw(
+  "(setweight(to_tsvector('english', coalesce(full_name, '')), 'A') || " +
+    "setweight(to_tsvector('english', coalesce(tags::text, '')), 'B') || " +
+    "setweight(to_tsvector('english', coalesce(notes, '')), 'C'))"
+);
+
 // Main buyers table
 export const buyers = pgTable(
   "buyers",
@@ -123,21 +264,35 @@ export const buyers = pgTable(
     timeline: timelineEnum("timeline").notNull(),
     source: sourceEnum("source").notNull(),
     status: statusEnum("status").notNull().default("New"),
+    visitDate: timestamp("visit_date"),
+    dropReason: varchar("drop_reason", { length: 200 }),
     notes: text("notes"),
     tags: json("tags").$type<string[]>().default([]),
     ownerId: uuid("owner_id")
       .references(() => users.id, { onDelete: "cascade" })
       .notNull(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    // Set when the buyer is moved to the trash; purged after the retention
+    // period (see lib/buyers/trash.ts)
+    deletedAt: timestamp("deleted_at"),
+    deletedBy: uuid("deleted_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
   (table) => ({
+    organizationIdx: index("buyers_organization_idx").on(table.organizationId),
+    deletedAtIdx: index("buyers_deleted_at_idx").on(table.deletedAt),
     ownerIdx: index("buyers_owner_idx").on(table.ownerId),
     statusIdx: index("buyers_status_idx").on(table.status),
     cityIdx: index("buyers_city_idx").on(table.city),
     propertyTypeIdx: index("buyers_property_type_idx").on(table.propertyType),
     updatedAtIdx: index("buyers_updated_at_idx").on(table.updatedAt),
     phoneIdx: index("buyers_phone_idx").on(table.phone),
+    searchIdx: index("buyers_search_idx").using("gin", buyerSearchVector),
   })
 );
 
@@ -149,8 +304,13 @@ export const buyerHistory = pgTable(
     buyerId: uuid("buyer_id")
       .references(() => buyers.id, { onDelete: "cascade" })
       .notNull(),
-    changedBy: uuid("changed_by")
-      .references(() => users.id, { onDelete: "cascade" })
+    // Null for changes nobody in the organization made, such as an enquiry
+    // arriving through a lead form
+    changedBy: uuid("changed_by").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
       .notNull(),
     changedAt: timestamp("changed_at").defaultNow().notNull(),
     diff: json("diff")
@@ -163,10 +323,433 @@ export const buyerHistory = pgTable(
   })
 );
 
+// Follow-up tasks attached to buyers
+export const buyerTasks = pgTable(
+  "buyer_tasks",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    buyerId: uuid("buyer_id")
+      .references(() => buyers.id, { onDelete: "cascade" })
+      .notNull(),
+    title: varchar("title", { length: 200 }).notNull(),
+    type: taskTypeEnum("type").notNull(),
+    dueAt: timestamp("due_at").notNull(),
+    assigneeId: uuid("assignee_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    createdBy: uuid("created_by")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    notes: text("notes"),
+    done: boolean("done").notNull().default(false),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    buyerIdx: index("buyer_tasks_buyer_idx").on(table.buyerId),
+    assigneeDueIdx: index("buyer_tasks_assignee_due_idx").on(
+      table.assigneeId,
+      table.dueAt
+    ),
+  })
+);
+
+// Logged interactions with a buyer (calls, visits, meetings). The latest
+// one is the buyer's "last contacted" time.
+export const buyerActivities = pgTable(
+  "buyer_activities",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    buyerId: uuid("buyer_id")
+      .references(() => buyers.id, { onDelete: "cascade" })
+      .notNull(),
+    type: activityTypeEnum("type").notNull(),
+    outcome: varchar("outcome", { length: 100 }),
+    occurredAt: timestamp("occurred_at").notNull(),
+    durationMinutes: integer("duration_minutes"),
+    notes: text("notes"),
+    loggedBy: uuid("logged_by")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    buyerOccurredIdx: index("buyer_activities_buyer_occurred_idx").on(
+      table.buyerId,
+      table.occurredAt
+    ),
+  })
+);
+
+// Auto-assignment of new leads. The first active rule (lowest priority)
+// whose criteria all match a new buyer hands it to the next available user
+// in its rotation. Empty criteria match everything.
+export const assignmentRules = pgTable(
+  "assignment_rules",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    city: cityEnum("city"),
+    propertyType: propertyTypeEnum("property_type"),
+    source: sourceEnum("source"),
+    assigneeIds: json("assignee_ids").$type<string[]>().notNull().default([]),
+    // Round-robin cursor: the user who received the previous lead
+    lastAssigneeId: uuid("last_assignee_id"),
+    priority: integer("priority").notNull().default(0),
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationIdx: index("assignment_rules_organization_idx").on(
+      table.organizationId
+    ),
+  })
+);
+
+export const savedViews = pgTable(
+  "saved_views",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    ownerId: uuid("owner_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    // Buyers list query parameters, validated by savedViewFiltersSchema
+    filters: json("filters")
+      .$type<Partial<Record<string, string>>>()
+      .notNull(),
+    // Pinned views are listed in the owner's sidebar
+    pinned: boolean("pinned").notNull().default(false),
+    // Shared views are visible to everyone in the organization
+    shared: boolean("shared").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationIdx: index("saved_views_organization_idx").on(
+      table.organizationId
+    ),
+    ownerIdx: index("saved_views_owner_idx").on(table.ownerId),
+  })
+);
+
+// A saved column mapping, reused for every file from the same lead source
+export const importTemplates = pgTable(
+  "import_templates",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    // Usually the portal or spreadsheet the files come from
+    name: varchar("name", { length: 100 }).notNull(),
+    // Source column -> buyer field, validated by importMappingSchema
+    mapping: json("mapping")
+      .$type<Partial<Record<string, string>>>()
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationNameIdx: uniqueIndex(
+      "import_templates_organization_name_idx"
+    ).on(table.organizationId, table.name),
+  })
+);
+
+// A saved export layout: which columns, in what order, under which headers
+export const exportTemplates = pgTable(
+  "export_templates",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    name: varchar("name", { length: 100 }).notNull(),
+    // Export column keys, validated by exportLayoutSchema
+    columns: json("columns").$type<string[]>().notNull(),
+    // Column key -> header label, for renamed columns only
+    labels: json("labels")
+      .$type<Partial<Record<string, string>>>()
+      .notNull()
+      .default({}),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationNameIdx: uniqueIndex(
+      "export_templates_organization_name_idx"
+    ).on(table.organizationId, table.name),
+  })
+);
+
+// A public web form that creates leads without signing in
+export const leadForms = pgTable(
+  "lead_forms",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    // Public identifier in the form's endpoint URL
+    key: varchar("key", { length: 64 }).notNull().unique(),
+    name: varchar("name", { length: 100 }).notNull(),
+    // Owns the leads no assignment rule picks up
+    defaultOwnerId: uuid("default_owner_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationIdx: index("lead_forms_organization_idx").on(
+      table.organizationId
+    ),
+  })
+);
+
+// A URL that receives signed POSTs for the buyer events it subscribes to
+export const webhookEndpoints = pgTable(
+  "webhook_endpoints",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    url: varchar("url", { length: 500 }).notNull(),
+    events: json("events")
+      .$type<(typeof webhookEventEnum.enumValues)[number][]>()
+      .notNull(),
+    // HMAC-SHA256 key for the X-Webhook-Signature header
+    secret: varchar("secret", { length: 100 }).notNull(),
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationIdx: index("webhook_endpoints_organization_idx").on(
+      table.organizationId
+    ),
+  })
+);
+
+// One event for one endpoint; the queue of deliveries still to be sent and
+// the log of those that were
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    endpointId: uuid("endpoint_id")
+      .references(() => webhookEndpoints.id, { onDelete: "cascade" })
+      .notNull(),
+    // Shared by every endpoint's delivery of the same event, so receivers
+    // can ignore repeats
+    eventId: uuid("event_id").notNull(),
+    event: webhookEventEnum("event").notNull(),
+    payload: json("payload").$type<Record<string, unknown>>().notNull(),
+    status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    // When the next attempt is due; also pushed ahead while one is in flight
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    queueIdx: index("webhook_deliveries_queue_idx").on(
+      table.status,
+      table.nextAttemptAt
+    ),
+    endpointIdx: index("webhook_deliveries_endpoint_idx").on(
+      table.endpointId,
+      table.createdAt
+    ),
+  })
+);
+
+// A CSV upload imported in the background, batch by batch
+export const importJobs = pgTable(
+  "import_jobs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    // Imported leads are created on behalf of this user
+    createdBy: uuid("created_by")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+    // The uploaded CSV, cleared once every row has been processed
+    content: text("content"),
+    // Source column -> buyer field chosen in the import wizard; null when the
+    // file already uses the buyer field names
+    mapping: json("mapping").$type<Partial<Record<string, string>>>(),
+    status: importJobStatusEnum("status").notNull().default("queued"),
+    mode: importJobModeEnum("mode").notNull().default("create"),
+    totalRows: integer("total_rows").notNull().default(0),
+    processedRows: integer("processed_rows").notNull().default(0),
+    // New leads created
+    importedRows: integer("imported_rows").notNull().default(0),
+    // Existing leads changed by an upsert
+    updatedRows: integer("updated_rows").notNull().default(0),
+    // Valid rows left alone, e.g. no changes or a lead the uploader can't edit
+    skippedRows: integer("skipped_rows").notNull().default(0),
+    errorRows: integer("error_rows").notNull().default(0),
+    errors: json("errors")
+      .$type<
+        { row: number; field: string; message: string; value: unknown }[]
+      >()
+      .notNull()
+      .default([]),
+    duplicates: json("duplicates")
+      .$type<
+        {
+          row: number;
+          buyerId?: string;
+          duplicateOfRow?: number;
+          matches: {
+            buyer: { id: string; fullName: string };
+            reasons: string[];
+          }[];
+        }[]
+      >()
+      .notNull()
+      .default([]),
+    failureReason: text("failure_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    // Bumped after every batch; a processing job that stops updating is
+    // picked up again
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationIdx: index("import_jobs_organization_idx").on(
+      table.organizationId
+    ),
+  })
+);
+
+// A bearer key for the /api/v1 REST API. It acts as the user who created it,
+// limited to its scope; only a hash of the key is stored.
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    // The key's first characters, shown so users can tell their keys apart
+    prefix: varchar("prefix", { length: 16 }).notNull(),
+    // SHA-256 hex of the whole key
+    keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+    scope: apiKeyScopeEnum("scope").notNull().default("read"),
+    lastUsedAt: timestamp("last_used_at"),
+    // Revoked keys are kept so the list still shows them
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: index("api_keys_user_idx").on(table.userId),
+  })
+);
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  members: many(organizationMembers),
+  invites: many(organizationInvites),
+  teams: many(teams),
+  buyers: many(buyers),
+  assignmentRules: many(assignmentRules),
+  savedViews: many(savedViews),
+  importJobs: many(importJobs),
+  importTemplates: many(importTemplates),
+  exportTemplates: many(exportTemplates),
+  leadForms: many(leadForms),
+  webhookEndpoints: many(webhookEndpoints),
+  apiKeys: many(apiKeys),
+}));
+
+export const organizationMembersRelations = relations(
+  organizationMembers,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [organizationMembers.organizationId],
+      references: [organizations.id],
+    }),
+    user: one(users, {
+      fields: [organizationMembers.userId],
+      references: [users.id],
+    }),
+  })
+);
+
+export const organizationInvitesRelations = relations(
+  organizationInvites,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [organizationInvites.organizationId],
+      references: [organizations.id],
+    }),
+    invitedBy: one(users, {
+      fields: [organizationInvites.invitedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [teams.organizationId],
+    references: [organizations.id],
+  }),
+  members: many(users),
+}));
+
+export const usersRelations = relations(users, ({ one, many }) => ({
+  team: one(teams, {
+    fields: [users.teamId],
+    references: [teams.id],
+  }),
+  membership: one(organizationMembers),
   buyers: many(buyers),
   buyerHistory: many(buyerHistory),
+  tasks: many(buyerTasks),
+  activities: many(buyerActivities),
+  savedViews: many(savedViews),
+  importJobs: many(importJobs),
+  importTemplates: many(importTemplates),
+  exportTemplates: many(exportTemplates),
+  leadForms: many(leadForms),
+  webhookEndpoints: many(webhookEndpoints),
+  apiKeys: many(apiKeys),
   accounts: many(accounts),
   sessions: many(sessions),
 }));
@@ -176,7 +759,13 @@ export const buyersRelations = relations(buyers, ({ one, many }) => ({
     fields: [buyers.ownerId],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [buyers.organizationId],
+    references: [organizations.id],
+  }),
   history: many(buyerHistory),
+  tasks: many(buyerTasks),
+  activities: many(buyerActivities),
 }));
 
 export const buyerHistoryRelations = relations(buyerHistory, ({ one }) => ({
@@ -190,6 +779,137 @@ export const buyerHistoryRelations = relations(buyerHistory, ({ one }) => ({
   }),
 }));
 
+export const buyerTasksRelations = relations(buyerTasks, ({ one }) => ({
+  buyer: one(buyers, {
+    fields: [buyerTasks.buyerId],
+    references: [buyers.id],
+  }),
+  assignee: one(users, {
+    fields: [buyerTasks.assigneeId],
+    references: [users.id],
+  }),
+}));
+
+export const buyerActivitiesRelations = relations(
+  buyerActivities,
+  ({ one }) => ({
+    buyer: one(buyers, {
+      fields: [buyerActivities.buyerId],
+      references: [buyers.id],
+    }),
+    loggedBy: one(users, {
+      fields: [buyerActivities.loggedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const assignmentRulesRelations = relations(
+  assignmentRules,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [assignmentRules.organizationId],
+      references: [organizations.id],
+    }),
+  })
+);
+
+export const savedViewsRelations = relations(savedViews, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [savedViews.organizationId],
+    references: [organizations.id],
+  }),
+  owner: one(users, {
+    fields: [savedViews.ownerId],
+    references: [users.id],
+  }),
+}));
+export const importJobsRelations = relations(importJobs, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [importJobs.organizationId],
+    references: [organizations.id],
+  }),
+  creator: one(users, {
+    fields: [importJobs.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const importTemplatesRelations = relations(
+  importTemplates,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [importTemplates.organizationId],
+      references: [organizations.id],
+    }),
+    creator: one(users, {
+      fields: [importTemplates.createdBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const exportTemplatesRelations = relations(
+  exportTemplates,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [exportTemplates.organizationId],
+      references: [organizations.id],
+    }),
+    creator: one(users, {
+      fields: [exportTemplates.createdBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const leadFormsRelations = relations(leadForms, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [leadForms.organizationId],
+    references: [organizations.id],
+  }),
+  defaultOwner: one(users, {
+    fields: [leadForms.defaultOwnerId],
+    references: [users.id],
+  }),
+}));
+
+export const webhookEndpointsRelations = relations(
+  webhookEndpoints,
+  ({ one, many }) => ({
+    organization: one(organizations, {
+      fields: [webhookEndpoints.organizationId],
+      references: [organizations.id],
+    }),
+    creator: one(users, {
+      fields: [webhookEndpoints.createdBy],
+      references: [users.id],
+    }),
+    deliveries: many(webhookDeliveries),
+  })
+);
+
+export const webhookDeliveriesRelations = relations(
+  webhookDeliveries,
+  ({ one }) => ({
+    endpoint: one(webhookEndpoints, {
+      fields: [webhookDeliveries.endpointId],
+      references: [webhookEndpoints.id],
+    }),
+  })
+);
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [apiKeys.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+}));
+
 export const accountsRelations = relations(accounts, ({ one }) => ({
   user: one(users, {
     fields: [accounts.userId],
@@ -207,7 +927,28 @@ export const sessionsRelations = relations(sessions, ({ one }) => ({
 // Type exports
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
+export type UserRole = (typeof userRoleEnum.enumValues)[number];
+export type Team = typeof teams.$inferSelect;
+export type Organization = typeof organizations.$inferSelect;
+export type OrganizationInvite = typeof organizationInvites.$inferSelect;
+export type AssignmentRule = typeof assignmentRules.$inferSelect;
+export type SavedView = typeof savedViews.$inferSelect;
+export type ImportJob = typeof importJobs.$inferSelect;
+export type ImportTemplate = typeof importTemplates.$inferSelect;
+export type ExportTemplate = typeof exportTemplates.$inferSelect;
+export type LeadForm = typeof leadForms.$inferSelect;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookEvent = (typeof webhookEventEnum.enumValues)[number];
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeyScope = (typeof apiKeyScopeEnum.enumValues)[number];
+export type ImportJobStatus = (typeof importJobStatusEnum.enumValues)[number];
+export type ImportJobMode = (typeof importJobModeEnum.enumValues)[number];
 export type Buyer = typeof buyers.$inferSelect;
 export type NewBuyer = typeof buyers.$inferInsert;
 export type BuyerHistory = typeof buyerHistory.$inferSelect;
 export type NewBuyerHistory = typeof buyerHistory.$inferInsert;
+export type BuyerTask = typeof buyerTasks.$inferSelect;
+export type NewBuyerTask = typeof buyerTasks.$inferInsert;
+export type BuyerActivity = typeof buyerActivities.$inferSelect;
+export type NewBuyerActivity = typeof buyerActivities.$inferInsert;
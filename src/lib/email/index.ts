@@ -0,0 +1,61 @@
+import nodemailer from "nodemailer";
+
+// Public URL of the app for links in emails, without a trailing slash
+export function getBaseUrl(): string {
+  if (process.env.NEXTAUTH_URL) {
+    let nextAuthUrl = process.env.NEXTAUTH_URL.trim();
+
+    // Handle malformed environment variable (sometimes it includes the variable name)
+    if (nextAuthUrl.startsWith("NEXTAUTH_URL=")) {
+      nextAuthUrl = nextAuthUrl.replace("NEXTAUTH_URL=", "");
+    }
+
+    return nextAuthUrl.endsWith("/") ? nextAuthUrl.slice(0, -1) : nextAuthUrl;
+  }
+
+  if (process.env.VERCEL_URL) {
+    return `https://${process.env.VERCEL_URL.trim()}`;
+  }
+
+  // Production fallback - use the known Vercel URL
+  if (process.env.NODE_ENV === "production") {
+    return "https://e-sahayak-lead-management-system.vercel.app";
+  }
+
+  return "http://localhost:3000";
+}
+
+// For user-provided text placed in HTML emails
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export async function sendEmail(message: {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}) {
+  const transport = nodemailer.createTransport({
+    host: process.env.EMAIL_SERVER_HOST!,
+    port: parseInt(process.env.EMAIL_SERVER_PORT!),
+    auth: {
+      user: process.env.EMAIL_SERVER_USER!,
+      pass: process.env.EMAIL_SERVER_PASSWORD!,
+    },
+  });
+
+  const result = await transport.sendMail({
+    ...message,
+    from: process.env.EMAIL_FROM!,
+  });
+
+  const failed = result.rejected.concat(result.pending).filter(Boolean);
+  if (failed.length) {
+    throw new Error(`Email(s) (${failed.join(", ")}) could not be sent`);
+  }
+}
@@ -0,0 +1,220 @@
+// Reading import files. Every format is turned into rows of strings keyed
+// by the file's own headers, so mapping and validation (csvBuyerSchema,
+// parseCsvTags) are the same whatever the file was. Kept free of
+// server-only imports so the import wizard can preview files in the
+// browser.
+import Papa from "papaparse";
+
+export const IMPORT_FORMATS = ["csv", "xlsx", "json", "ndjson"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+const IMPORT_EXTENSIONS: Record<ImportFormat, string[]> = {
+  csv: [".csv"],
+  xlsx: [".xlsx"],
+  json: [".json"],
+  ndjson: [".ndjson", ".jsonl"],
+};
+
+// File picker filter for every supported format
+export const IMPORT_ACCEPT = Object.values(IMPORT_EXTENSIONS).flat().join(",");
+
+export function detectImportFormat(fileName: string): ImportFormat | null {
+  const name = fileName.toLowerCase();
+  return (
+    IMPORT_FORMATS.find((format) =>
+      IMPORT_EXTENSIONS[format].some((extension) => name.endsWith(extension))
+    ) ?? null
+  );
+}
+
+export interface ImportTable {
+  headers: string[];
+  rows: Record<string, string>[];
+  // Problems that make the file unreadable, one message each
+  errors: string[];
+}
+
+export function parseImportFile(content: string, previewRows?: number) {
+  return Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+    ...(previewRows && { preview: previewRows }),
+  });
+}
+
+// JSON values as the text a CSV cell would hold; lists are joined the way
+// stringifyTags writes them
+function jsonValueToString(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(jsonValueToString).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function excelValueToString(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    // Rich text, hyperlinks and formulas
+    if ("richText" in value && Array.isArray(value.richText)) {
+      return value.richText.map((part: { text: string }) => part.text).join("");
+    }
+    if ("text" in value) return excelValueToString(value.text);
+    if ("result" in value) return excelValueToString(value.result);
+    return "";
+  }
+  return String(value);
+}
+
+function tableFromObjects(objects: unknown[]): ImportTable {
+  const headers: string[] = [];
+  const rows: Record<string, string>[] = [];
+  const errors: string[] = [];
+
+  objects.forEach((object, index) => {
+    if (!object || typeof object !== "object" || Array.isArray(object)) {
+      errors.push(`Record ${index + 1} is not an object`);
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    Object.entries(object).forEach(([key, value]) => {
+      const header = key.trim();
+      if (!headers.includes(header)) headers.push(header);
+      row[header] = jsonValueToString(value);
+    });
+    rows.push(row);
+  });
+
+  return { headers, rows, errors };
+}
+
+function readJson(text: string, previewRows?: number): ImportTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { headers: [], rows: [], errors: ["Invalid JSON"] };
+  }
+
+  // A bare array, as the JSON export writes, or { buyers: [...] }
+  const records = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && "buyers" in data
+      ? data.buyers
+      : null;
+
+  if (!Array.isArray(records)) {
+    return {
+      headers: [],
+      rows: [],
+      errors: ["Expected an array of buyer objects"],
+    };
+  }
+
+  return tableFromObjects(records.slice(0, previewRows));
+}
+
+function readNdjson(text: string, previewRows?: number): ImportTable {
+  const objects: unknown[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || (previewRows && objects.length >= previewRows)) return;
+    try {
+      objects.push(JSON.parse(line));
+    } catch {
+      errors.push(`Line ${index + 1} is not valid JSON`);
+    }
+  });
+
+  const table = tableFromObjects(objects);
+  return { ...table, errors: [...errors, ...table.errors] };
+}
+
+// Every worksheet is read, so a workbook exported with a sheet per status
+// comes back in whole. Row 1 of each sheet holds its headers.
+async function readXlsx(
+  data: ArrayBuffer,
+  previewRows?: number
+): Promise<ImportTable> {
+  const ExcelJS = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+
+  try {
+    // exceljs reads ArrayBuffers too, though its types only mention Buffer
+    await workbook.xlsx.load(
+      data as unknown as Parameters<typeof workbook.xlsx.load>[0]
+    );
+  } catch {
+    return { headers: [], rows: [], errors: ["Invalid Excel file"] };
+  }
+
+  const headers: string[] = [];
+  const rows: Record<string, string>[] = [];
+
+  workbook.worksheets.forEach((sheet) => {
+    const sheetHeaders: string[] = [];
+    sheet.getRow(1).eachCell((cell, column) => {
+      sheetHeaders[column] = excelValueToString(cell.value).trim();
+    });
+
+    sheet.eachRow((sheetRow, rowNumber) => {
+      if (rowNumber === 1 || (previewRows && rows.length >= previewRows)) {
+        return;
+      }
+
+      const row: Record<string, string> = {};
+      let hasValue = false;
+      sheetRow.eachCell((cell, column) => {
+        const header = sheetHeaders[column];
+        if (!header) return;
+        row[header] = excelValueToString(cell.value);
+        hasValue = hasValue || row[header].trim() !== "";
+      });
+
+      if (hasValue) rows.push(row);
+    });
+
+    sheetHeaders.forEach((header) => {
+      if (header && !headers.includes(header)) headers.push(header);
+    });
+  });
+
+  return { headers, rows, errors: [] };
+}
+
+/**
+ * Read an uploaded file into headers and rows. `previewRows` stops after
+ * that many rows, for the mapping step.
+ */
+export async function readImportFile(
+  data: ArrayBuffer,
+  format: ImportFormat,
+  previewRows?: number
+): Promise<ImportTable> {
+  if (format === "xlsx") return readXlsx(data, previewRows);
+
+  const text = new TextDecoder().decode(data);
+
+  if (format === "json") return readJson(text, previewRows);
+  if (format === "ndjson") return readNdjson(text, previewRows);
+
+  const result = parseImportFile(text, previewRows);
+  return {
+    headers: (result.meta.fields || []).filter(Boolean),
+    rows: result.data,
+    errors: result.errors.map((error) =>
+      error.row !== undefined
+        ? `Row ${error.row + 2}: ${error.message}`
+        : error.message
+    ),
+  };
+}
+
+// The rows of any format as CSV, which is how import jobs store uploads
+export function toImportCsv(table: ImportTable): string {
+  return Papa.unparse(table.rows, { columns: table.headers });
+}
@@ -0,0 +1,756 @@
+import { and, eq, lt, or, sql } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { ZodError } from "zod";
+import { db } from "../db";
+import {
+  buyers,
+  buyerHistory,
+  importJobs,
+  users,
+  Buyer,
+  ImportJob,
+  ImportJobMode,
+  NewBuyer,
+} from "../db/schema";
+import { csvBuyerSchema, parseCsvTags } from "../validations/buyer";
+import {
+  findBuyersByContact,
+  findDuplicateBuyers,
+  normalizeEmail,
+  normalizePhone,
+} from "../buyers/duplicates";
+import { buildBuyerDiff, BuyerDiff } from "../buyers/history";
+import { combineTags } from "../buyers/merge";
+import { validateStageRequirements, validateStatusChange } from "../pipeline";
+import { Actor, loadOwners, permissionsFor } from "../auth/permissions";
+import { assignOwners } from "../assignment";
+import { applyImportMapping, IMPORT_HEADERS } from "./mapping";
+import { parseImportFile } from "./formats";
+import {
+  buyerEvents,
+  BuyerEvent,
+  processWebhookQueue,
+  queueWebhookEvents,
+} from "../webhooks";
+
+export type ImportRowError = ImportJob["errors"][number];
+export type ImportDuplicateWarning = ImportJob["duplicates"][number];
+
+// Rows validated and inserted per transaction
+export const IMPORT_BATCH_SIZE = 250;
+
+export const IMPORT_MAX_ROWS = 10000;
+
+export const IMPORT_MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// A processing job whose progress hasn't moved for this long is assumed to
+// have lost its worker and may be claimed again
+export const IMPORT_STALE_MS = 2 * 60 * 1000;
+
+/**
+ * Validate one CSV row. Returns the buyer to insert (without owner and
+ * organization) or the row's errors; `rowNumber` is the line in the file.
+ */
+export function validateImportRow(
+  row: Record<string, string>,
+  rowNumber: number
+):
+  | { data: Omit<NewBuyer, "ownerId" | "organizationId">; errors?: never }
+  | { data?: never; errors: ImportRowError[] } {
+  const transformedRow = {
+    fullName: row.fullName?.trim() || "",
+    email: row.email?.trim() || "",
+    phone: row.phone?.toString().trim() || "",
+    city: row.city?.trim() || "",
+    propertyType: row.propertyType?.trim() || "",
+    bhk: row.bhk?.trim() || "",
+    purpose: row.purpose?.trim() || "",
+    budgetMin: row.budgetMin ? parseInt(row.budgetMin) : "",
+    budgetMax: row.budgetMax ? parseInt(row.budgetMax) : "",
+    timeline: row.timeline?.trim() || "",
+    source: row.source?.trim() || "",
+    notes: row.notes?.trim() || "",
+    tags: row.tags?.trim() || "",
+    status: row.status?.trim() || "New",
+  };
+
+  try {
+    const validatedData = csvBuyerSchema.parse(transformedRow);
+    const now = new Date();
+
+    return {
+      data: {
+        id: uuidv4(),
+        fullName: validatedData.fullName,
+        email: validatedData.email || null,
+        phone: validatedData.phone,
+        city: validatedData.city,
+        propertyType: validatedData.propertyType,
+        bhk: validatedData.bhk || null,
+        purpose: validatedData.purpose,
+        budgetMin: validatedData.budgetMin || null,
+        budgetMax: validatedData.budgetMax || null,
+        timeline: validatedData.timeline,
+        source: validatedData.source,
+        status: validatedData.status,
+        notes: validatedData.notes || null,
+        tags: parseCsvTags(validatedData.tags || ""),
+        createdAt: now,
+        updatedAt: now,
+      },
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        errors: error.issues.map((issue) => {
+          const field = String(issue.path[0] ?? "unknown");
+          return {
+            row: rowNumber,
+            field,
+            message: issue.message,
+            value: row[field] ?? "",
+          };
+        }),
+      };
+    }
+
+    return {
+      errors: [
+        {
+          row: rowNumber,
+          field: "general",
+          message: error instanceof Error ? error.message : "Unknown error",
+          value: "",
+        },
+      ],
+    };
+  }
+}
+
+// Claim a job that is waiting, or whose worker went quiet, so only one
+// worker processes it at a time
+async function claimImportJob(jobId: string) {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - IMPORT_STALE_MS);
+
+  const [job] = await db
+    .update(importJobs)
+    .set({
+      status: "processing",
+      startedAt: sql`coalesce(${importJobs.startedAt}, ${now})`,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(importJobs.id, jobId),
+        or(
+          eq(importJobs.status, "queued"),
+          and(
+            eq(importJobs.status, "processing"),
+            lt(importJobs.updatedAt, staleBefore)
+          )
+        )
+      )
+    )
+    .returning();
+
+  return job;
+}
+
+export function isImportJobStalled(job: ImportJob, now = new Date()) {
+  return (
+    (job.status === "queued" || job.status === "processing") &&
+    now.getTime() - new Date(job.updatedAt).getTime() > IMPORT_STALE_MS
+  );
+}
+
+type ImportRowData = Omit<NewBuyer, "ownerId" | "organizationId">;
+
+// What importing one valid row does
+export type ImportRowPlan =
+  | { action: "create"; row: number; buyer: ImportRowData }
+  | {
+      action: "update";
+      row: number;
+      buyer: Buyer;
+      updates: Partial<Buyer>;
+      diff: BuyerDiff;
+    }
+  | { action: "skip"; row: number; reason: string; buyerId?: string };
+
+// State carried from batch to batch while working through one file
+interface ImportContext {
+  organizationId: string;
+  actor: Actor;
+  mode: ImportJobMode;
+  // "phone:<digits>" / "email:<address>" -> first row that used it
+  seenContacts: Map<string, number>;
+  // Lead id -> the row that updates it, so one lead is updated once per file
+  updatedBuyers: Map<string, number>;
+}
+
+function createImportContext(
+  organizationId: string,
+  actor: Actor,
+  mode: ImportJobMode
+): ImportContext {
+  return {
+    organizationId,
+    actor,
+    mode,
+    seenContacts: new Map(),
+    updatedBuyers: new Map(),
+  };
+}
+
+// Record the row's phone and email; returns the earlier row that already
+// used either of them
+function rememberContact(
+  context: ImportContext,
+  buyer: ImportRowData,
+  rowNumber: number
+): number | undefined {
+  const keys = [
+    `phone:${normalizePhone(buyer.phone)}`,
+    ...(normalizeEmail(buyer.email)
+      ? [`email:${normalizeEmail(buyer.email)}`]
+      : []),
+  ];
+
+  const earlierRow = keys
+    .map((key) => context.seenContacts.get(key))
+    .find((row) => row !== undefined);
+
+  keys.forEach((key) => {
+    if (!context.seenContacts.has(key)) {
+      context.seenContacts.set(key, rowNumber);
+    }
+  });
+
+  return earlierRow;
+}
+
+/**
+ * The changes a row makes to the lead it matched. Empty cells leave the
+ * stored value alone, tags are added to the existing ones, and phone and
+ * email are only rewritten when they differ beyond formatting.
+ */
+function buildUpsertUpdates(
+  existing: Buyer,
+  data: ImportRowData,
+  row: Record<string, string>
+): { updates: Partial<Buyer>; error?: undefined } | { error: string } {
+  const updates: Record<string, unknown> = {};
+
+  IMPORT_HEADERS.forEach((field) => {
+    if (!row[field]?.trim()) return;
+
+    if (field === "phone") {
+      if (normalizePhone(data.phone) !== normalizePhone(existing.phone)) {
+        updates.phone = data.phone;
+      }
+    } else if (field === "email") {
+      if (normalizeEmail(data.email) !== normalizeEmail(existing.email)) {
+        updates.email = data.email;
+      }
+    } else if (field === "tags") {
+      updates.tags = combineTags(existing.tags || [], data.tags || []);
+    } else {
+      updates[field] = data[field];
+    }
+  });
+
+  const merged = { ...existing, ...updates } as Buyer;
+
+  if (
+    merged.budgetMin &&
+    merged.budgetMax &&
+    merged.budgetMax < merged.budgetMin
+  ) {
+    return {
+      error: "Budget max would be less than the lead's budget min",
+    };
+  }
+
+  const pipelineIssues = validateStatusChange(existing, merged);
+  if (pipelineIssues.length > 0) {
+    return { error: pipelineIssues[0].message };
+  }
+
+  return { updates: updates as Partial<Buyer> };
+}
+
+/**
+ * Decide what happens to each row of a batch without writing anything.
+ * Invalid rows are reported as errors. In create mode every valid row
+ * becomes a lead, with a warning when it looks like an existing one. In
+ * upsert mode a row matching a lead by phone or email updates it, and a row
+ * repeating an earlier row of the file is skipped.
+ */
+async function planImportBatch(
+  context: ImportContext,
+  rows: Record<string, string>[],
+  offset: number
+) {
+  const plans: ImportRowPlan[] = [];
+  const errors: ImportRowError[] = [];
+  const duplicates: ImportDuplicateWarning[] = [];
+  const valid: {
+    row: Record<string, string>;
+    rowNumber: number;
+    data: ImportRowData;
+    earlierRow?: number;
+  }[] = [];
+
+  rows.forEach((row, index) => {
+    // +2 for the header line and 1-based line numbers
+    const rowNumber = offset + index + 2;
+    const result = validateImportRow(row, rowNumber);
+
+    if (result.errors) {
+      errors.push(...result.errors);
+      return;
+    }
+
+    valid.push({
+      row,
+      rowNumber,
+      data: result.data,
+      earlierRow: rememberContact(context, result.data, rowNumber),
+    });
+  });
+
+  const upserting = valid.filter(
+    (item) => context.mode === "upsert" && item.earlierRow === undefined
+  );
+  const matches = await findBuyersByContact(
+    context.organizationId,
+    upserting.map((item) => item.data)
+  );
+  const matchByRow = new Map(
+    upserting.map((item, index) => [item.rowNumber, matches[index]])
+  );
+
+  // Managers may only update their team's leads
+  const owners = await loadOwners(
+    matches.flatMap((buyer) => (buyer ? [buyer.ownerId] : []))
+  );
+
+  const creating: typeof valid = [];
+
+  valid.forEach((item) => {
+    if (context.mode === "upsert" && item.earlierRow !== undefined) {
+      plans.push({
+        action: "skip",
+        row: item.rowNumber,
+        reason: `Repeats row ${item.earlierRow}`,
+      });
+      return;
+    }
+
+    const existing = matchByRow.get(item.rowNumber);
+    if (!existing) {
+      // A new lead has to meet its stage's requirements, as when it's
+      // created in the app; the file can't supply a visit date or drop reason
+      const stageIssues = validateStageRequirements({
+        status: item.data.status ?? "New",
+        visitDate: item.data.visitDate ?? null,
+        dropReason: item.data.dropReason ?? null,
+        budgetMin: item.data.budgetMin ?? null,
+        budgetMax: item.data.budgetMax ?? null,
+      });
+      if (stageIssues.length > 0) {
+        errors.push(
+          ...stageIssues.map(({ message }) => ({
+            row: item.rowNumber,
+            field: "status",
+            message,
+            value: item.row.status ?? "",
+          }))
+        );
+        return;
+      }
+
+      plans.push({ action: "create", row: item.rowNumber, buyer: item.data });
+      creating.push(item);
+      return;
+    }
+
+    const updatedBy = context.updatedBuyers.get(existing.id);
+    if (updatedBy !== undefined) {
+      plans.push({
+        action: "skip",
+        row: item.rowNumber,
+        reason: `Matches the same lead as row ${updatedBy}`,
+        buyerId: existing.id,
+      });
+      return;
+    }
+
+    const owner = owners.get(existing.ownerId) || {
+      id: existing.ownerId,
+      teamId: null,
+    };
+    if (!permissionsFor(context.actor, owner).canEdit) {
+      plans.push({
+        action: "skip",
+        row: item.rowNumber,
+        reason: "You don't have permission to edit this lead",
+        buyerId: existing.id,
+      });
+      return;
+    }
+
+    const result = buildUpsertUpdates(existing, item.data, item.row);
+    if (result.error !== undefined) {
+      plans.push({
+        action: "skip",
+        row: item.rowNumber,
+        reason: result.error,
+        buyerId: existing.id,
+      });
+      return;
+    }
+
+    const diff = buildBuyerDiff(existing, result.updates);
+    if (Object.keys(diff).length === 0) {
+      plans.push({
+        action: "skip",
+        row: item.rowNumber,
+        reason: "No changes",
+        buyerId: existing.id,
+      });
+      return;
+    }
+
+    context.updatedBuyers.set(existing.id, item.rowNumber);
+    plans.push({
+      action: "update",
+      row: item.rowNumber,
+      buyer: existing,
+      updates: result.updates,
+      diff,
+    });
+  });
+
+  // Rows that become new leads are checked against the book, and earlier
+  // rows of the file, for likely duplicates
+  const existingMatches = await findDuplicateBuyers(
+    context.organizationId,
+    creating.map((item) => item.data)
+  );
+
+  creating.forEach((item, index) => {
+    if (existingMatches[index].length > 0 || item.earlierRow !== undefined) {
+      duplicates.push({
+        row: item.rowNumber,
+        buyerId: item.data.id,
+        duplicateOfRow: item.earlierRow,
+        matches: existingMatches[index],
+      });
+    }
+  });
+
+  return { plans, errors, duplicates, errorRows: rows.length - valid.length };
+}
+
+/**
+ * Apply one batch's plan, and record its progress in the same transaction
+ * so a retried job picks up exactly where this one stopped. Webhook events
+ * for the batch are queued once it is saved.
+ */
+async function importBatch(
+  job: ImportJob,
+  context: ImportContext,
+  rows: Record<string, string>[],
+  offset: number,
+  errors: ImportRowError[],
+  duplicates: ImportDuplicateWarning[]
+) {
+  const batch = await planImportBatch(context, rows, offset);
+  errors.push(...batch.errors);
+  duplicates.push(...batch.duplicates);
+
+  const newBuyers: NewBuyer[] = [];
+  const updates: Extract<ImportRowPlan, { action: "update" }>[] = [];
+  let skippedRows = 0;
+
+  batch.plans.forEach((plan) => {
+    if (plan.action === "create") {
+      newBuyers.push({
+        ...plan.buyer,
+        ownerId: job.createdBy,
+        organizationId: job.organizationId,
+      });
+    } else if (plan.action === "update") {
+      updates.push(plan);
+    } else {
+      skippedRows++;
+    }
+  });
+
+  // Apply the organization's assignment rules to each new lead
+  const assignedOwners = await assignOwners(job.organizationId, newBuyers);
+  newBuyers.forEach((buyerData, index) => {
+    buyerData.ownerId = assignedOwners[index] || buyerData.ownerId;
+  });
+
+  const events: BuyerEvent[] = [];
+
+  await db.transaction(async (tx) => {
+    if (newBuyers.length > 0) {
+      const insertedBuyers = await tx
+        .insert(buyers)
+        .values(newBuyers)
+        .returning();
+      insertedBuyers.forEach((buyer) =>
+        events.push(...buyerEvents(null, buyer))
+      );
+
+      await tx.insert(buyerHistory).values(
+        insertedBuyers.map((buyer) => ({
+          id: uuidv4(),
+          buyerId: buyer.id,
+          changedBy: job.createdBy,
+          organizationId: job.organizationId,
+          diff: {
+            imported: {
+              old: null,
+              new: "Lead imported from CSV",
+            },
+            ...(buyer.ownerId !== job.createdBy && {
+              ownerId: { old: job.createdBy, new: buyer.ownerId },
+            }),
+          },
+        }))
+      );
+    }
+
+    for (const plan of updates) {
+      const [updatedBuyer] = await tx
+        .update(buyers)
+        .set({ ...plan.updates, updatedAt: new Date() })
+        .where(eq(buyers.id, plan.buyer.id))
+        .returning();
+      events.push(...buyerEvents(plan.buyer, updatedBuyer));
+    }
+
+    if (updates.length > 0) {
+      await tx.insert(buyerHistory).values(
+        updates.map((plan) => ({
+          id: uuidv4(),
+          buyerId: plan.buyer.id,
+          changedBy: job.createdBy,
+          organizationId: job.organizationId,
+          diff: plan.diff,
+        }))
+      );
+    }
+
+    await tx
+      .update(importJobs)
+      .set({
+        processedRows: offset + rows.length,
+        importedRows: sql`${importJobs.importedRows} + ${newBuyers.length}`,
+        updatedRows: sql`${importJobs.updatedRows} + ${updates.length}`,
+        skippedRows: sql`${importJobs.skippedRows} + ${skippedRows}`,
+        errorRows: sql`${importJobs.errorRows} + ${batch.errorRows}`,
+        errors,
+        duplicates,
+        updatedAt: new Date(),
+      })
+      .where(eq(importJobs.id, job.id));
+  });
+
+  // A lost notification shouldn't fail a batch that has been saved
+  await queueWebhookEvents(job.organizationId, events).catch((error) =>
+    console.error(`Import job ${job.id}: error queueing webhooks:`, error)
+  );
+}
+
+/**
+ * Work through an import job batch by batch. Safe to call more than once:
+ * it does nothing unless it can claim the job, and resumes after the last
+ * batch that was recorded.
+ */
+export async function runImportJob(jobId: string) {
+  const job = await claimImportJob(jobId);
+  if (!job) return;
+
+  try {
+    const rows = parseImportFile(job.content || "").data.map((row) =>
+      applyImportMapping(row, job.mapping)
+    );
+    const errors = [...job.errors];
+    const duplicates = [...job.duplicates];
+
+    // Imports act with the uploader's current role
+    const [actor] = await db
+      .select({ id: users.id, role: users.role, teamId: users.teamId })
+      .from(users)
+      .where(eq(users.id, job.createdBy))
+      .limit(1);
+
+    const context = createImportContext(job.organizationId, actor, job.mode);
+
+    // A resumed job still needs to know which contacts earlier rows used
+    rows.slice(0, job.processedRows).forEach((row, index) => {
+      const result = validateImportRow(row, index + 2);
+      if (result.data) rememberContact(context, result.data, index + 2);
+    });
+
+    for (
+      let offset = job.processedRows;
+      offset < rows.length;
+      offset += IMPORT_BATCH_SIZE
+    ) {
+      await importBatch(
+        job,
+        context,
+        rows.slice(offset, offset + IMPORT_BATCH_SIZE),
+        offset,
+        errors,
+        duplicates
+      );
+    }
+
+    await db
+      .update(importJobs)
+      .set({
+        status: "completed",
+        content: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(importJobs.id, job.id));
+
+    // Deliveries left over are sent by the webhooks cron job
+    await processWebhookQueue().catch((error) =>
+      console.error(`Import job ${job.id}: error sending webhooks:`, error)
+    );
+  } catch (error) {
+    console.error(`Import job ${job.id} failed:`, error);
+
+    await db
+      .update(importJobs)
+      .set({
+        status: "failed",
+        failureReason:
+          error instanceof Error ? error.message : "Unknown error",
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(importJobs.id, job.id));
+  }
+}
+
+/**
+ * Dry run: what importing these rows (already re-keyed by buyer field)
+ * would create, update and skip, with nothing written.
+ */
+export async function previewImport(
+  organizationId: string,
+  actor: Actor,
+  mode: ImportJobMode,
+  rows: Record<string, string>[]
+) {
+  const context = createImportContext(organizationId, actor, mode);
+  const preview = {
+    mode,
+    totalRows: rows.length,
+    created: [] as { row: number; fullName: string; phone: string }[],
+    updated: [] as {
+      row: number;
+      buyerId: string;
+      fullName: string;
+      changes: BuyerDiff;
+    }[],
+    skipped: [] as { row: number; reason: string; buyerId?: string }[],
+    errorRows: 0,
+    errors: [] as ImportRowError[],
+    duplicates: [] as ImportDuplicateWarning[],
+  };
+
+  for (let offset = 0; offset < rows.length; offset += IMPORT_BATCH_SIZE) {
+    const batch = await planImportBatch(
+      context,
+      rows.slice(offset, offset + IMPORT_BATCH_SIZE),
+      offset
+    );
+
+    batch.plans.forEach((plan) => {
+      if (plan.action === "create") {
+        preview.created.push({
+          row: plan.row,
+          fullName: plan.buyer.fullName,
+          phone: plan.buyer.phone,
+        });
+      } else if (plan.action === "update") {
+        preview.updated.push({
+          row: plan.row,
+          buyerId: plan.buyer.id,
+          fullName: plan.buyer.fullName,
+          changes: plan.diff,
+        });
+      } else {
+        preview.skipped.push({
+          row: plan.row,
+          reason: plan.reason,
+          buyerId: plan.buyerId,
+        });
+      }
+    });
+
+    preview.errorRows += batch.errorRows;
+    preview.errors.push(...batch.errors);
+    preview.duplicates.push(...batch.duplicates);
+  }
+
+  return preview;
+}
+
+export type ImportPreview = Awaited<ReturnType<typeof previewImport>>;
+
+// Errors and duplicates shown while polling; the full error list is in the
+// downloadable report
+const RESPONSE_ISSUE_LIMIT = 50;
+
+// What the import API returns for a job: progress, never the upload itself
+export function toImportJobResponse(job: ImportJob) {
+  return {
+    id: job.id,
+    fileName: job.fileName,
+    status: job.status,
+    mode: job.mode,
+    totalRows: job.totalRows,
+    processedRows: job.processedRows,
+    importedRows: job.importedRows,
+    updatedRows: job.updatedRows,
+    skippedRows: job.skippedRows,
+    errorRows: job.errorRows,
+    errorCount: job.errors.length,
+    errors: job.errors.slice(0, RESPONSE_ISSUE_LIMIT),
+    duplicateCount: job.duplicates.length,
+    duplicates: job.duplicates.slice(0, RESPONSE_ISSUE_LIMIT),
+    failureReason: job.failureReason,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+export type ImportJobResponse = ReturnType<typeof toImportJobResponse>;
+
+export function importJobInOrganization(organizationId: string, jobId: string) {
+  return and(
+    eq(importJobs.id, jobId),
+    eq(importJobs.organizationId, organizationId)
+  );
+}
+
+// Only whoever uploaded the file, or an admin, can follow an import
+export function canViewImportJob(
+  user: { id: string; role: string },
+  job: ImportJob
+) {
+  return job.createdBy === user.id || user.role === "admin";
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyImportMapping,
+  matchImportTemplate,
+  missingImportFields,
+  suggestImportMapping,
+} from "./mapping";
+
+describe("suggestImportMapping", () => {
+  it("recognises portal-style headers whatever their case and spacing", () => {
+    expect(
+      suggestImportMapping([
+        "Customer Name",
+        "Mobile No.",
+        "E-mail ID",
+        "City",
+      ])
+    ).toEqual({
+      "Customer Name": "fullName",
+      "Mobile No.": "phone",
+      "E-mail ID": "email",
+      City: "city",
+    });
+  });
+
+  it("prefers a field's own name over a looser synonym", () => {
+    expect(suggestImportMapping(["Budget", "Budget Max"])).toEqual({
+      "Budget Max": "budgetMax",
+    });
+  });
+
+  it("gives each field to one column only", () => {
+    expect(suggestImportMapping(["Phone", "Mobile"])).toEqual({
+      Phone: "phone",
+    });
+  });
+
+  it("leaves unknown columns unmapped", () => {
+    expect(suggestImportMapping(["Lead ID", "Assigned Agent"])).toEqual({});
+  });
+});
+
+describe("matchImportTemplate", () => {
+  const narrow = { name: "narrow", mapping: { Name: "fullName" } };
+  const wide = {
+    name: "wide",
+    mapping: { Name: "fullName", Mobile: "phone" },
+  };
+  const other = { name: "other", mapping: { Client: "fullName" } };
+
+  it("picks the template mapping the most of the file's columns", () => {
+    expect(
+      matchImportTemplate(["Name", "Mobile"], [narrow, wide, other])?.name
+    ).toBe("wide");
+  });
+
+  it("ignores templates that need columns the file doesn't have", () => {
+    expect(matchImportTemplate(["Name"], [wide, narrow])?.name).toBe(
+      "narrow"
+    );
+    expect(matchImportTemplate(["Phone"], [wide, other])).toBeUndefined();
+  });
+});
+
+describe("missingImportFields", () => {
+  it("lists required fields no column is mapped to", () => {
+    expect(
+      missingImportFields({
+        Name: "fullName",
+        Mobile: "phone",
+        City: "city",
+        Type: "propertyType",
+        Purpose: "purpose",
+        Timeline: "timeline",
+      })
+    ).toEqual(["source"]);
+  });
+});
+
+describe("applyImportMapping", () => {
+  it("re-keys the row by field and drops unmapped columns", () => {
+    expect(
+      applyImportMapping(
+        { Name: "Rahul Sharma", Mobile: "9876543210", Agent: "Priya" },
+        { Name: "fullName", Mobile: "phone", Email: "email" }
+      )
+    ).toEqual({ fullName: "Rahul Sharma", phone: "9876543210", email: "" });
+  });
+
+  it("takes the row as-is without a mapping", () => {
+    const row = { fullName: "Rahul Sharma" };
+    expect(applyImportMapping(row, null)).toBe(row);
+  });
+});
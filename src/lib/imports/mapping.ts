@@ -0,0 +1,181 @@
+// Column mapping for CSV imports. Kept free of server-only imports so the
+// import wizard can suggest mappings in the browser.
+
+export const IMPORT_HEADERS = [
+  "fullName",
+  "email",
+  "phone",
+  "city",
+  "propertyType",
+  "bhk",
+  "purpose",
+  "budgetMin",
+  "budgetMax",
+  "timeline",
+  "source",
+  "notes",
+  "tags",
+  "status",
+] as const;
+
+export type ImportField = (typeof IMPORT_HEADERS)[number];
+
+// Source column name -> buyer field. Columns left out are ignored.
+export type ImportMapping = Partial<Record<string, ImportField>>;
+
+// Fields every row needs a column for; the rest may be left unmapped
+export const IMPORT_REQUIRED_FIELDS: ImportField[] = [
+  "fullName",
+  "phone",
+  "city",
+  "propertyType",
+  "purpose",
+  "timeline",
+  "source",
+];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  fullName: "Full Name",
+  email: "Email",
+  phone: "Phone",
+  city: "City",
+  propertyType: "Property Type",
+  bhk: "BHK",
+  purpose: "Purpose",
+  budgetMin: "Budget Min",
+  budgetMax: "Budget Max",
+  timeline: "Timeline",
+  source: "Source",
+  notes: "Notes",
+  tags: "Tags",
+  status: "Status",
+};
+
+// Header names seen in portal and spreadsheet exports, compared after
+// normalizeHeader
+const IMPORT_FIELD_SYNONYMS: Record<ImportField, string[]> = {
+  fullName: [
+    "fullname",
+    "name",
+    "customername",
+    "clientname",
+    "buyername",
+    "leadname",
+    "contactname",
+  ],
+  email: ["email", "emailaddress", "emailid", "mail"],
+  phone: [
+    "phone",
+    "phonenumber",
+    "phoneno",
+    "mobile",
+    "mobilenumber",
+    "mobileno",
+    "contactnumber",
+    "contactno",
+    "contact",
+    "whatsapp",
+  ],
+  city: ["city", "location", "town"],
+  propertyType: [
+    "propertytype",
+    "property",
+    "propertycategory",
+    "type",
+    "unittype",
+  ],
+  bhk: ["bhk", "bedrooms", "beds", "configuration", "config"],
+  purpose: ["purpose", "intent", "buyorrent", "transactiontype"],
+  budgetMin: ["budgetmin", "minbudget", "budgetfrom", "minprice", "pricemin"],
+  budgetMax: [
+    "budgetmax",
+    "maxbudget",
+    "budgetto",
+    "maxprice",
+    "pricemax",
+    "budget",
+    "price",
+  ],
+  timeline: ["timeline", "timeframe", "purchasetimeline", "when"],
+  source: ["source", "leadsource", "channel", "portal"],
+  notes: ["notes", "note", "comments", "comment", "remarks", "message"],
+  tags: ["tags", "tag", "labels"],
+  status: ["status", "leadstatus", "stage"],
+};
+
+function normalizeHeader(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Guess a mapping from the file's headers. Each buyer field is given to at
+ * most one column, preferring exact field names over looser synonyms.
+ */
+export function suggestImportMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const taken = new Set<ImportField>();
+  const normalized = headers.map(normalizeHeader);
+
+  // One pass per synonym rank, so "Budget Max" beats a plain "Budget"
+  const maxRank = Math.max(
+    ...Object.values(IMPORT_FIELD_SYNONYMS).map((synonyms) => synonyms.length)
+  );
+
+  for (let rank = 0; rank < maxRank; rank++) {
+    headers.forEach((header, index) => {
+      if (mapping[header]) return;
+
+      const field = IMPORT_HEADERS.find(
+        (field) =>
+          !taken.has(field) &&
+          IMPORT_FIELD_SYNONYMS[field][rank] === normalized[index]
+      );
+
+      if (field) {
+        mapping[header] = field;
+        taken.add(field);
+      }
+    });
+  }
+
+  return mapping;
+}
+
+/**
+ * The saved template that best fits a file: every column it maps must be in
+ * the file, and the one mapping the most columns wins.
+ */
+export function matchImportTemplate<
+  T extends { mapping: Partial<Record<string, string>> },
+>(
+  headers: string[],
+  templates: T[]
+): T | undefined {
+  return templates
+    .filter((template) =>
+      Object.keys(template.mapping).every((column) => headers.includes(column))
+    )
+    .sort(
+      (a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length
+    )[0];
+}
+
+export function missingImportFields(mapping: ImportMapping) {
+  const mapped = new Set(Object.values(mapping));
+  return IMPORT_REQUIRED_FIELDS.filter((field) => !mapped.has(field));
+}
+
+// Re-key a parsed row by buyer field. Without a mapping the file's headers
+// are taken to be the field names already.
+export function applyImportMapping(
+  row: Record<string, string>,
+  mapping: Partial<Record<string, string>> | null
+): Record<string, string> {
+  if (!mapping) return row;
+
+  const mappedRow: Record<string, string> = {};
+  Object.entries(mapping).forEach(([column, field]) => {
+    if (field) mappedRow[field] = row[column] ?? "";
+  });
+  return mappedRow;
+}
@@ -0,0 +1,226 @@
+import { and, eq } from "drizzle-orm";
+import crypto from "crypto";
+import { db } from "../db";
+import {
+  buyers,
+  buyerHistory,
+  leadForms,
+  Buyer,
+  LeadForm,
+} from "../db/schema";
+import { escapeHtml, getBaseUrl } from "../email";
+import { assignOwners } from "../assignment";
+import { findBuyersByContact } from "../buyers/duplicates";
+import {
+  bhkSchema,
+  citySchema,
+  propertyTypeSchema,
+  purposeSchema,
+  timelineSchema,
+  PublicLeadInput,
+} from "../validations/buyer";
+
+export const UTM_PARAMETERS = [
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+] as const;
+
+export function generateLeadFormKey(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+export function leadFormEndpoint(form: Pick<LeadForm, "key">): string {
+  return `${getBaseUrl()}/api/public/leads/${form.key}`;
+}
+
+export async function findActiveLeadForm(
+  key: string
+): Promise<LeadForm | null> {
+  const [form] = await db
+    .select()
+    .from(leadForms)
+    .where(and(eq(leadForms.key, key), eq(leadForms.active, true)))
+    .limit(1);
+
+  return form ?? null;
+}
+
+// One "utm_source:google" style tag per UTM parameter the visitor came with
+export function utmTags(input: PublicLeadInput): string[] {
+  return UTM_PARAMETERS.filter((parameter) => input[parameter]).map(
+    (parameter) => `${parameter}:${input[parameter]}`.slice(0, 50)
+  );
+}
+
+/**
+ * Turn a website enquiry into a lead. Someone who is already a lead (same
+ * phone or email) isn't added again; the enquiry is noted on their history
+ * instead. New leads go through the assignment rules like any other, and
+ * fall back to the form's default owner.
+ */
+export async function captureLead(
+  form: LeadForm,
+  input: PublicLeadInput
+): Promise<{ buyer: Buyer; duplicate: boolean }> {
+  const [existing] = await findBuyersByContact(form.organizationId, [input]);
+
+  if (existing) {
+    await db.insert(buyerHistory).values({
+      buyerId: existing.id,
+      // The visitor did this, not anyone in the organization
+      changedBy: null,
+      organizationId: form.organizationId,
+      diff: {
+        enquiry: {
+          old: null,
+          new: `Enquired again through the "${form.name}" form`,
+        },
+      },
+    });
+
+    return { buyer: existing, duplicate: true };
+  }
+
+  const [assignedOwnerId] = await assignOwners(form.organizationId, [
+    { ...input, source: "Website" },
+  ]);
+  const ownerId = assignedOwnerId || form.defaultOwnerId;
+
+  const buyer = await db.transaction(async (tx) => {
+    const [newBuyer] = await tx
+      .insert(buyers)
+      .values({
+        fullName: input.fullName,
+        email: input.email || null,
+        phone: input.phone,
+        city: input.city,
+        propertyType: input.propertyType,
+        bhk: input.bhk,
+        purpose: input.purpose,
+        budgetMin: input.budgetMin,
+        budgetMax: input.budgetMax,
+        timeline: input.timeline,
+        source: "Website",
+        notes: input.notes || null,
+        tags: utmTags(input),
+        ownerId,
+        organizationId: form.organizationId,
+      })
+      .returning();
+
+    await tx.insert(buyerHistory).values({
+      buyerId: newBuyer.id,
+      changedBy: null,
+      organizationId: form.organizationId,
+      diff: {
+        created: {
+          old: null,
+          new: `Lead created from the "${form.name}" form`,
+        },
+        ...(ownerId !== form.defaultOwnerId && {
+          ownerId: { old: form.defaultOwnerId, new: ownerId },
+        }),
+      },
+    });
+
+    return newBuyer;
+  });
+
+  return { buyer, duplicate: false };
+}
+
+function renderOptions(values: readonly string[], blank?: string) {
+  const options = values.map(
+    (value) => `<option value="${escapeHtml(value)}">${escapeHtml(value)}</option>`
+  );
+  if (blank !== undefined) {
+    options.unshift(`<option value="">${escapeHtml(blank)}</option>`);
+  }
+  return options.join("");
+}
+
+/**
+ * A self-contained HTML form for a website: inline styles, no external
+ * scripts. It posts to the form's public endpoint as JSON and passes along
+ * any UTM parameters from the page's URL.
+ */
+export function leadFormSnippet(form: Pick<LeadForm, "key" | "name">): string {
+  const id = `esahayak-lead-form-${form.key.slice(0, 8)}`;
+  const field = "display:block;margin-bottom:12px;font:14px sans-serif";
+  const control =
+    "display:block;width:100%;box-sizing:border-box;margin-top:4px;padding:8px;border:1px solid #ccc;border-radius:4px;font:inherit";
+
+  const input = (label: string, attributes: string) =>
+    `  <label style="${field}">${label}<input ${attributes} style="${control}"></label>`;
+  const select = (label: string, name: string, options: string) =>
+    `  <label style="${field}">${label}<select name="${name}" style="${control}">${options}</select></label>`;
+
+  return `<!-- ${escapeHtml(form.name)} enquiry form -->
+<form id="${id}" style="max-width:420px">
+${input("Name *", 'name="fullName" required minlength="2" maxlength="80"')}
+${input("Phone *", 'name="phone" type="tel" required')}
+${input("Email", 'name="email" type="email"')}
+${select("City", "city", renderOptions(citySchema.options))}
+${select("Property type *", "propertyType", renderOptions(propertyTypeSchema.options))}
+${select("BHK", "bhk", renderOptions(bhkSchema.options, "Any"))}
+${select("Looking to", "purpose", renderOptions(purposeSchema.options))}
+${input("Budget up to (INR)", 'name="budgetMax" type="number" min="1" step="1"')}
+${select("When", "timeline", renderOptions(timelineSchema.options))}
+  <label style="${field}">Message<textarea name="notes" maxlength="1000" rows="3" style="${control}"></textarea></label>
+  <div aria-hidden="true" style="position:absolute;left:-10000px;top:auto;width:1px;height:1px;overflow:hidden">
+    <label>Website<input name="website" tabindex="-1" autocomplete="off"></label>
+  </div>
+  <button type="submit" style="padding:10px 16px;border:0;border-radius:4px;background:#7c3aed;color:#fff;font:14px sans-serif;cursor:pointer">Send enquiry</button>
+  <p data-status role="status" style="font:14px sans-serif"></p>
+</form>
+<script>
+(function () {
+  var form = document.getElementById(${JSON.stringify(id)});
+  var status = form.querySelector("[data-status]");
+  var button = form.querySelector("button");
+  form.addEventListener("submit", function (event) {
+    event.preventDefault();
+    var data = {};
+    new FormData(form).forEach(function (value, key) { data[key] = value; });
+    var params = new URLSearchParams(window.location.search);
+    ${JSON.stringify(UTM_PARAMETERS)}.forEach(function (key) {
+      if (params.get(key)) data[key] = params.get(key);
+    });
+    button.disabled = true;
+    status.textContent = "Sending...";
+    fetch(${JSON.stringify(leadFormEndpoint(form))}, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data)
+    })
+      .then(function (response) {
+        return response.json().then(function (body) {
+          if (!response.ok) {
+            throw new Error((body.details && body.details[0] && body.details[0].message) || body.error);
+          }
+          form.reset();
+          status.textContent = body.message;
+        });
+      })
+      .catch(function (error) {
+        status.textContent = error.message || "Something went wrong. Please try again.";
+      })
+      .then(function () { button.disabled = false; });
+  });
+})();
+</script>`;
+}
+
+// A form with its public endpoint and the HTML to paste into a website
+export function toLeadFormResponse(form: LeadForm) {
+  return {
+    ...form,
+    endpoint: leadFormEndpoint(form),
+    snippet: leadFormSnippet(form),
+  };
+}
+
+export type LeadFormResponse = ReturnType<typeof toLeadFormResponse>;
@@ -0,0 +1,181 @@
+import { and, eq, gt, inArray, isNull } from "drizzle-orm";
+import crypto from "crypto";
+import { db } from "../db";
+import { escapeHtml, getBaseUrl, sendEmail } from "../email";
+import {
+  organizations,
+  organizationMembers,
+  organizationInvites,
+  users,
+  OrganizationInvite,
+} from "../db/schema";
+
+// How long an invite link stays valid
+export const INVITE_TTL_DAYS = 7;
+
+export function generateInviteToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export async function isOrganizationMember(
+  organizationId: string,
+  userId: string
+): Promise<boolean> {
+  const [member] = await db
+    .select({ id: organizationMembers.id })
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      )
+    )
+    .limit(1);
+
+  return !!member;
+}
+
+// True when every one of `userIds` belongs to the organization
+export async function areOrganizationMembers(
+  organizationId: string,
+  userIds: string[]
+): Promise<boolean> {
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) return true;
+
+  const members = await db
+    .select({ userId: organizationMembers.userId })
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        inArray(organizationMembers.userId, ids)
+      )
+    );
+
+  return members.length === ids.length;
+}
+
+// An invite that can still be used, with the name of the organization
+export async function findPendingInvite(token: string): Promise<
+  (OrganizationInvite & { organizationName: string }) | null
+> {
+  const [invite] = await db
+    .select({
+      invite: organizationInvites,
+      organizationName: organizations.name,
+    })
+    .from(organizationInvites)
+    .innerJoin(
+      organizations,
+      eq(organizationInvites.organizationId, organizations.id)
+    )
+    .where(
+      and(
+        eq(organizationInvites.token, token),
+        isNull(organizationInvites.acceptedAt),
+        gt(organizationInvites.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  return invite
+    ? { ...invite.invite, organizationName: invite.organizationName }
+    : null;
+}
+
+/**
+ * Give a user who has just signed up an organization. With a valid invite
+ * for their email they join the inviting organization with the invited
+ * role; otherwise they get a new organization of their own and run it as
+ * its admin. Users who already belong to one are left alone.
+ */
+export async function ensureMembership(
+  user: { id: string; email: string; name: string | null },
+  inviteToken?: string
+): Promise<string> {
+  const [existing] = await db
+    .select({ organizationId: organizationMembers.organizationId })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.userId, user.id))
+    .limit(1);
+
+  if (existing) {
+    return existing.organizationId;
+  }
+
+  const invite = inviteToken ? await findPendingInvite(inviteToken) : null;
+
+  return db.transaction(async (tx) => {
+    if (invite && invite.email.toLowerCase() === user.email.toLowerCase()) {
+      await tx.insert(organizationMembers).values({
+        organizationId: invite.organizationId,
+        userId: user.id,
+      });
+      await tx
+        .update(users)
+        .set({ role: invite.role, updatedAt: new Date() })
+        .where(eq(users.id, user.id));
+      await tx
+        .update(organizationInvites)
+        .set({ acceptedAt: new Date() })
+        .where(eq(organizationInvites.id, invite.id));
+
+      return invite.organizationId;
+    }
+
+    const [organization] = await tx
+      .insert(organizations)
+      .values({ name: `${user.name || user.email}'s Agency`.slice(0, 100) })
+      .returning();
+    await tx.insert(organizationMembers).values({
+      organizationId: organization.id,
+      userId: user.id,
+    });
+    await tx
+      .update(users)
+      .set({ role: "admin", updatedAt: new Date() })
+      .where(eq(users.id, user.id));
+
+    return organization.id;
+  });
+}
+
+export function getInviteUrl(token: string): string {
+  return `${getBaseUrl()}/auth/signup?${new URLSearchParams({
+    invite: token,
+  }).toString()}`;
+}
+
+export async function sendInviteEmail(
+  invite: Pick<OrganizationInvite, "email" | "token">,
+  organizationName: string,
+  invitedByName: string
+) {
+  const inviteUrl = getInviteUrl(invite.token);
+  const organizationHtml = escapeHtml(organizationName);
+
+  await sendEmail({
+    to: invite.email,
+    subject: `${invitedByName} invited you to ${organizationName} on ESahayak`,
+    text: `Hello,
+
+${invitedByName} has invited you to join ${organizationName} on ESahayak. Click the link below to create your account:
+
+${inviteUrl}
+
+This invite expires in ${INVITE_TTL_DAYS} days.`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #7c3aed;">Join ${organizationHtml} on ESahayak</h1>
+        <p>${escapeHtml(invitedByName)} has invited you to join <strong>${organizationHtml}</strong>. Click the button below to create your account:</p>
+        <a href="${inviteUrl}" style="background-color: #7c3aed; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; display: inline-block; margin: 16px 0; font-weight: 500;">
+          Accept Invite
+        </a>
+        <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; background-color: #f3f4f6; padding: 12px; border-radius: 4px; font-family: monospace; font-size: 14px;">${inviteUrl}</p>
+        <p>This invite expires in ${INVITE_TTL_DAYS} days.</p>
+      </div>
+    `,
+  });
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  canTransition,
+  getStatusOptions,
+  validateStageRequirements,
+  validateStatusChange,
+} from "./index";
+
+const record = {
+  status: "New" as const,
+  visitDate: null,
+  dropReason: null,
+  budgetMin: null,
+  budgetMax: null,
+};
+
+describe("canTransition", () => {
+  it("follows the pipeline's next statuses", () => {
+    expect(canTransition("New", "Qualified")).toBe(true);
+    expect(canTransition("New", "Converted")).toBe(false);
+  });
+});
+
+describe("getStatusOptions", () => {
+  it("offers the current status first, then the allowed moves", () => {
+    expect(getStatusOptions("New")).toEqual([
+      "New",
+      "Qualified",
+      "Contacted",
+      "Dropped",
+    ]);
+  });
+});
+
+describe("validateStatusChange", () => {
+  it("allows keeping the same status", () => {
+    expect(validateStatusChange(record, record)).toEqual([]);
+  });
+
+  it("allows a legal move whose stage has no requirements", () => {
+    expect(
+      validateStatusChange(record, { ...record, status: "Contacted" })
+    ).toEqual([]);
+  });
+
+  it("rejects a move the pipeline doesn't allow and lists the allowed ones", () => {
+    expect(
+      validateStatusChange(record, { ...record, status: "Converted" })
+    ).toEqual([
+      {
+        path: ["status"],
+        message:
+          "Cannot move a lead from New to Converted. Allowed: Qualified, Contacted, Dropped",
+      },
+    ]);
+  });
+
+  it("keeps converted leads where they are", () => {
+    const converted = { ...record, status: "Converted" as const };
+    expect(
+      validateStatusChange(converted, { ...converted, status: "New" })
+    ).toEqual([
+      { path: ["status"], message: "Leads in Converted cannot change status" },
+    ]);
+  });
+
+  it("requires the visit date before a lead can be marked Visited", () => {
+    const contacted = { ...record, status: "Contacted" as const };
+
+    const issues = validateStatusChange(contacted, {
+      ...contacted,
+      status: "Visited",
+    });
+    expect(issues.map((issue) => issue.path)).toEqual([["visitDate"]]);
+
+    expect(
+      validateStatusChange(contacted, {
+        ...contacted,
+        status: "Visited",
+        visitDate: new Date("2026-01-15"),
+      })
+    ).toEqual([]);
+  });
+
+  it("requires a drop reason, treating an empty one as missing", () => {
+    const issues = validateStatusChange(record, {
+      ...record,
+      status: "Dropped",
+      dropReason: "",
+    });
+    expect(issues.map((issue) => issue.path)).toEqual([["dropReason"]]);
+  });
+});
+
+describe("validateStageRequirements", () => {
+  it("checks the record's own stage without looking at transitions", () => {
+    expect(
+      validateStageRequirements({ ...record, status: "Dropped" })
+    ).toHaveLength(1);
+    expect(validateStageRequirements(record)).toEqual([]);
+  });
+});
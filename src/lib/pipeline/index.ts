@@ -0,0 +1,140 @@
+import type { Buyer } from "../db/schema";
+
+export type BuyerStatus = Buyer["status"];
+
+// Fields a stage can require before a lead may enter it
+type PipelineRecord = Pick<
+  Buyer,
+  "status" | "visitDate" | "dropReason" | "budgetMin" | "budgetMax"
+>;
+
+interface StageDefinition {
+  label: string;
+  // Statuses a lead in this stage may move to next
+  next: BuyerStatus[];
+  // Fields that must be filled in before a lead can enter this stage
+  requires: {
+    field: keyof PipelineRecord;
+    message: string;
+  }[];
+}
+
+// Issue shape matches zod issues so API clients can handle both the same way
+export interface PipelineIssue {
+  path: string[];
+  message: string;
+}
+
+/**
+ * The lead pipeline. Change allowed transitions or per-stage requirements
+ * here; the API and the status pickers in the UI both read from it.
+ */
+export const PIPELINE: Record<BuyerStatus, StageDefinition> = {
+  New: {
+    label: "New",
+    next: ["Qualified", "Contacted", "Dropped"],
+    requires: [],
+  },
+  Qualified: {
+    label: "Qualified",
+    next: ["Contacted", "Dropped"],
+    requires: [],
+  },
+  Contacted: {
+    label: "Contacted",
+    next: ["Qualified", "Visited", "Dropped"],
+    requires: [],
+  },
+  Visited: {
+    label: "Visited",
+    next: ["Contacted", "Negotiation", "Dropped"],
+    requires: [
+      {
+        field: "visitDate",
+        message: "Visit date is required before marking a lead as Visited",
+      },
+    ],
+  },
+  Negotiation: {
+    label: "Negotiation",
+    next: ["Visited", "Converted", "Dropped"],
+    requires: [],
+  },
+  Converted: {
+    label: "Converted",
+    next: [],
+    requires: [],
+  },
+  Dropped: {
+    label: "Dropped",
+    next: ["New", "Contacted"],
+    requires: [
+      {
+        field: "dropReason",
+        message: "A drop reason is required before dropping a lead",
+      },
+    ],
+  },
+};
+
+export const PIPELINE_STAGES = Object.keys(PIPELINE) as BuyerStatus[];
+
+// Suggestions offered when dropping a lead; any free-text reason is accepted
+export const DROP_REASON_SUGGESTIONS = [
+  "Budget mismatch",
+  "Bought elsewhere",
+  "Not reachable",
+  "Not interested",
+  "Plans postponed",
+];
+
+export function getAllowedNextStatuses(status: BuyerStatus): BuyerStatus[] {
+  return PIPELINE[status]?.next || [];
+}
+
+export function canTransition(from: BuyerStatus, to: BuyerStatus): boolean {
+  return from === to || getAllowedNextStatuses(from).includes(to);
+}
+
+// Statuses to offer in a picker: the current one plus its legal next states
+export function getStatusOptions(status: BuyerStatus): BuyerStatus[] {
+  return [status, ...getAllowedNextStatuses(status)];
+}
+
+/**
+ * Check a status change against the pipeline. `next` is the record as it
+ * will look after the update. Returns an empty list when the change is legal.
+ */
+export function validateStatusChange(
+  current: PipelineRecord,
+  next: PipelineRecord
+): PipelineIssue[] {
+  if (current.status === next.status) return [];
+
+  if (!canTransition(current.status, next.status)) {
+    const allowed = getAllowedNextStatuses(current.status);
+    return [
+      {
+        path: ["status"],
+        message:
+          allowed.length > 0
+            ? `Cannot move a lead from ${current.status} to ${next.status}. Allowed: ${allowed.join(", ")}`
+            : `Leads in ${current.status} cannot change status`,
+      },
+    ];
+  }
+
+  return validateStageRequirements(next);
+}
+
+// Fields the record's current stage requires but that are still empty
+export function validateStageRequirements(
+  record: PipelineRecord
+): PipelineIssue[] {
+  return PIPELINE[record.status].requires
+    .filter(({ field }) => {
+      const value = record[field];
+      return value === null || value === undefined || value === "";
+    })
+    .map(({ field, message }) => ({ path: [field], message }));
+}
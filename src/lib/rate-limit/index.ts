@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import crypto from "crypto";
 
 interface RateLimitOptions {
   maxRequests: number;
@@ -134,6 +135,35 @@ export const authRateLimiter = new RateLimiter({
   },
 });
 
+// Rate limiter for public lead forms, per form and visitor
+export const leadFormRateLimiter = new RateLimiter({
+  maxRequests: 5, // 5 enquiries
+  windowMs: 10 * 60 * 1000, // per 10 minutes
+  keyGenerator: (request) => {
+    const ip =
+      request.headers.get("x-forwarded-for") ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    // The form key is the last segment of /api/public/leads/[formKey]
+    const formKey = request.nextUrl.pathname.split("/").pop();
+    return `lead-form:${formKey}:${ip}`;
+  },
+});
+
+// Rate limiter for the v1 REST API, per API key
+export const apiKeyRateLimiter = new RateLimiter({
+  maxRequests: 120, // 120 requests
+  windowMs: 60 * 1000, // per minute
+  keyGenerator: (request) => {
+    // Hashed so raw keys aren't kept in memory
+    const authorization = request.headers.get("authorization") || "";
+    return `api-key:${crypto
+      .createHash("sha256")
+      .update(authorization)
+      .digest("hex")}`;
+  },
+});
+
 // Utility function to check rate limit and return response if exceeded
 export async function checkRateLimit(
   request: NextRequest,
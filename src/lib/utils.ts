@@ -20,6 +20,17 @@ export function formatDate(date: Date): string {
   }).format(date);
 }
 
+// Short "5m ago" style for recent times, falling back to the full date
+export function formatRelativeTime(date: Date, now: Date = new Date()): string {
+  const seconds = Math.round((now.getTime() - date.getTime()) / 1000);
+
+  if (seconds < 60) return "just now";
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 7 * 24 * 60 * 60) return `${Math.floor(seconds / 86400)}d ago`;
+  return formatDate(date);
+}
+
 export function formatPhone(phone: string): string {
   // Format as +91 XXXXX XXXXX
   if (phone.length === 10) {
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+export const activityTypeSchema = z.enum([
+  "Call",
+  "Site Visit",
+  "Meeting",
+  "Email",
+  "Message",
+  "Other",
+]);
+
+// Schema for logging an interaction with a buyer
+export const createActivitySchema = z.object({
+  type: activityTypeSchema,
+  outcome: z
+    .string()
+    .max(100, "Outcome must be at most 100 characters")
+    .trim()
+    .optional()
+    .or(z.literal("")),
+  // Defaults to now; activities can be logged after the fact but not ahead
+  occurredAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() <= Date.now() + 5 * 60 * 1000, {
+      message: "Activity time can't be in the future",
+    })
+    .optional(),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(0, "Duration can't be negative")
+    .max(24 * 60, "Duration must be at most 24 hours")
+    .optional(),
+  notes: z
+    .string()
+    .max(1000, "Notes must be at most 1000 characters")
+    .optional()
+    .or(z.literal("")),
+});
+
+export type CreateActivityInput = z.infer<typeof createActivitySchema>;
+export type ActivityType = z.infer<typeof activityTypeSchema>;
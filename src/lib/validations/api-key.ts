@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+// Schema for creating an API key
+export const apiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Key name must be at least 2 characters")
+    .max(100, "Key name must be at most 100 characters"),
+  scope: z.enum(["read", "write"]).default("read"),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeySchema>;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignmentRuleSchema,
+  updateAssignmentRuleSchema,
+} from "./assignment";
+
+const assigneeId = "3f1c2a4e-8b7d-4c6a-9e5f-1a2b3c4d5e6f";
+
+describe("assignmentRuleSchema", () => {
+  it("defaults a new rule to active with priority 0", () => {
+    const rule = assignmentRuleSchema.parse({
+      name: "Chandigarh leads",
+      city: "Chandigarh",
+      assigneeIds: [assigneeId],
+    });
+    expect(rule.active).toBe(true);
+    expect(rule.priority).toBe(0);
+  });
+
+  it("needs at least one assignee", () => {
+    const result = assignmentRuleSchema.safeParse({
+      name: "Nobody",
+      assigneeIds: [],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("updateAssignmentRuleSchema", () => {
+  it("leaves out fields that weren't sent", () => {
+    expect(updateAssignmentRuleSchema.parse({ active: false })).toEqual({
+      active: false,
+    });
+    expect(updateAssignmentRuleSchema.parse({ priority: 5 })).toEqual({
+      priority: 5,
+    });
+  });
+
+  it("still validates the fields that were sent", () => {
+    expect(
+      updateAssignmentRuleSchema.safeParse({ priority: 5000 }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { citySchema, propertyTypeSchema, sourceSchema } from "./buyer";
+
+const assignmentRuleFields = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Rule name must be at least 2 characters")
+    .max(100, "Rule name must be at most 100 characters"),
+  city: citySchema.nullable().optional(),
+  propertyType: propertyTypeSchema.nullable().optional(),
+  source: sourceSchema.nullable().optional(),
+  assigneeIds: z
+    .array(z.string().uuid("Invalid assignee"))
+    .min(1, "Pick at least one user to assign leads to")
+    .max(50, "A rule can rotate between at most 50 users"),
+  priority: z.number().int().min(0).max(1000),
+  active: z.boolean(),
+});
+
+// Schema for an auto-assignment rule. Leaving a criterion empty matches
+// every value.
+export const assignmentRuleSchema = assignmentRuleFields.extend({
+  priority: assignmentRuleFields.shape.priority.default(0),
+  active: z.boolean().default(true),
+});
+
+// No defaults, so pausing a rule doesn't reset its priority
+export const updateAssignmentRuleSchema = assignmentRuleFields.partial();
+
+export type AssignmentRuleInput = z.infer<typeof assignmentRuleSchema>;
+export type UpdateAssignmentRuleInput = z.infer<
+  typeof updateAssignmentRuleSchema
+>;
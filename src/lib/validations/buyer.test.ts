@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buyerFiltersSchema } from "./buyer";
+
+describe("buyerFiltersSchema", () => {
+  it("defaults to the first 10 buyers, most recently updated first", () => {
+    expect(buyerFiltersSchema.parse({})).toEqual({
+      limit: 10,
+      sortBy: "updatedAt",
+      sortOrder: "desc",
+    });
+  });
+
+  it("splits comma-separated lists and drops empty entries", () => {
+    const filters = buyerFiltersSchema.parse({
+      bhk: "2, 3,,",
+      tags: "hot,investor",
+    });
+    expect(filters.bhk).toEqual(["2", "3"]);
+    expect(filters.tags).toEqual(["hot", "investor"]);
+  });
+
+  it("rejects list entries that aren't valid values", () => {
+    expect(buyerFiltersSchema.safeParse({ bhk: "2,7" }).success).toBe(false);
+  });
+
+  it("reads budgets from the query string as whole numbers", () => {
+    const filters = buyerFiltersSchema.parse({
+      budgetMin: "5000000",
+      budgetMax: "8000000",
+    });
+    expect(filters.budgetMin).toBe(5000000);
+    expect(filters.budgetMax).toBe(8000000);
+  });
+
+  it("rejects a budget range that ends before it starts", () => {
+    const result = buyerFiltersSchema.safeParse({
+      budgetMin: "8000000",
+      budgetMax: "5000000",
+    });
+    expect(result.error?.issues[0].path).toEqual(["budgetMax"]);
+  });
+
+  it("accepts a one-day date range and rejects a reversed one", () => {
+    expect(
+      buyerFiltersSchema.safeParse({
+        createdFrom: "2026-03-01",
+        createdTo: "2026-03-01",
+      }).success
+    ).toBe(true);
+
+    const result = buyerFiltersSchema.safeParse({
+      updatedFrom: "2026-03-02",
+      updatedTo: "2026-03-01",
+    });
+    expect(result.error?.issues[0].path).toEqual(["updatedTo"]);
+  });
+
+  it("only takes dates as YYYY-MM-DD", () => {
+    expect(
+      buyerFiltersSchema.safeParse({ createdFrom: "01/03/2026" }).success
+    ).toBe(false);
+  });
+});
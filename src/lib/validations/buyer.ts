@@ -41,6 +41,9 @@ export const statusSchema = z.enum([
   "Dropped",
 ]);
 
+// Longest notes a buyer can have
+export const NOTES_MAX_LENGTH = 1000;
+
 // Phone validation - numeric 10-15 digits
 const phoneRegex = /^\d{10,15}$/;
 
@@ -94,7 +97,10 @@ export const createBuyerSchema = z
     source: sourceSchema,
     notes: z
       .string()
-      .max(1000, "Notes must be at most 1000 characters")
+      .max(
+        NOTES_MAX_LENGTH,
+        `Notes must be at most ${NOTES_MAX_LENGTH} characters`
+      )
       .optional()
       .or(z.literal("")),
     tags: z.array(z.string()).default([]),
@@ -150,12 +156,22 @@ export const updateBuyerSchema = z
     source: sourceSchema,
     notes: z
       .string()
-      .max(1000, "Notes must be at most 1000 characters")
+      .max(
+        NOTES_MAX_LENGTH,
+        `Notes must be at most ${NOTES_MAX_LENGTH} characters`
+      )
       .optional()
       .or(z.literal("")),
     tags: z.array(z.string()).default([]),
     status: statusSchema.optional(),
-    updatedAt: z.date().optional(),
+    visitDate: z.coerce.date().optional().nullable(),
+    dropReason: z
+      .string()
+      .max(200, "Drop reason must be at most 200 characters")
+      .optional()
+      .or(z.literal("")),
+    // Sent back as an ISO string by clients for optimistic concurrency
+    updatedAt: z.coerce.date().optional(),
   })
   .refine(
     (data) => {
@@ -184,19 +200,130 @@ export const updateBuyerSchema = z
     }
   );
 
-// Schema for filtering/searching buyers
-export const buyerFiltersSchema = z.object({
-  page: z.number().int().positive().default(1),
-  limit: z.number().int().positive().max(50).default(10),
-  search: z.string().optional(),
-  city: citySchema.optional(),
-  propertyType: propertyTypeSchema.optional(),
-  status: statusSchema.optional(),
-  timeline: timelineSchema.optional(),
-  sortBy: z
-    .enum(["fullName", "phone", "city", "propertyType", "status", "updatedAt"])
-    .default("updatedAt"),
-  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+// Schema for a status-only change (e.g. dragging a card on the board)
+export const statusChangeSchema = z.object({
+  status: statusSchema,
+  visitDate: z.coerce.date().optional().nullable(),
+  dropReason: z
+    .string()
+    .max(200, "Drop reason must be at most 200 characters")
+    .optional(),
+  updatedAt: z.coerce.date().optional(),
+});
+
+// Schema for handing a buyer to another user from the detail page
+export const reassignBuyerSchema = z.object({
+  ownerId: z.string().uuid("Invalid owner id"),
+  updatedAt: z.coerce.date().optional(),
+});
+
+// Multi-select filters travel in the URL as comma-separated lists, e.g.
+// `bhk=2,3`
+function commaListSchema<T extends z.ZodType<string, string>>(item: T) {
+  return z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(item).min(1).max(20));
+}
+
+// Whole days, inclusive at both ends of a range
+const filterDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+const filterBudgetSchema = z.coerce
+  .number()
+  .int()
+  .min(0, "Budget can't be negative");
+
+// Schema for filtering/searching buyers. Everything except the page size is
+// read from query string values, so a filtered list's URL can be shared, saved
+// and exported as-is.
+export const buyerFiltersSchema = z
+  .object({
+    // From the previous response's nextCursor/prevCursor; none for the first
+    // page
+    cursor: z.string().max(1000).optional(),
+    limit: z.number().int().positive().max(50).default(10),
+    search: z.string().optional(),
+    city: citySchema.optional(),
+    propertyType: propertyTypeSchema.optional(),
+    status: statusSchema.optional(),
+    timeline: timelineSchema.optional(),
+    bhk: commaListSchema(bhkSchema).optional(),
+    purpose: commaListSchema(purposeSchema).optional(),
+    source: commaListSchema(sourceSchema).optional(),
+    // Matches buyers with any of the tags
+    tags: commaListSchema(z.string().max(50)).optional(),
+    // Buyers whose budget range overlaps budgetMin..budgetMax
+    budgetMin: filterBudgetSchema.optional(),
+    budgetMax: filterBudgetSchema.optional(),
+    createdFrom: filterDateSchema.optional(),
+    createdTo: filterDateSchema.optional(),
+    updatedFrom: filterDateSchema.optional(),
+    updatedTo: filterDateSchema.optional(),
+    sortBy: z
+      .enum([
+        "fullName",
+        "phone",
+        "city",
+        "propertyType",
+        "status",
+        "updatedAt",
+        "lastContactedAt",
+        "relevance",
+      ])
+      .default("updatedAt"),
+    sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  })
+  .refine(
+    (data) =>
+      data.budgetMin === undefined ||
+      data.budgetMax === undefined ||
+      data.budgetMax >= data.budgetMin,
+    {
+      message: "Budget max must be greater than or equal to budget min",
+      path: ["budgetMax"],
+    }
+  )
+  .refine(
+    (data) =>
+      !data.createdFrom || !data.createdTo || data.createdTo >= data.createdFrom,
+    { message: "Created range ends before it starts", path: ["createdTo"] }
+  )
+  .refine(
+    (data) =>
+      !data.updatedFrom || !data.updatedTo || data.updatedTo >= data.updatedFrom,
+    { message: "Updated range ends before it starts", path: ["updatedTo"] }
+  );
+
+// Query for a buyer's change history; `cursor` comes from the previous page
+export const buyerHistoryQuerySchema = z.object({
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  // Only entries that touched this field, e.g. "status" or "tags"
+  field: z
+    .string()
+    .regex(/^[a-zA-Z]+$/, "Invalid field")
+    .max(50)
+    .optional(),
+  changedBy: z.string().uuid("Invalid user id").optional(),
+});
+
+// Paging for the trash page
+export const trashQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(50).default(20),
+});
+
+// Extra options for the dashboard stats; filters come from buyerFiltersSchema
+export const buyerStatsQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).default(12),
 });
 
 // Schema for CSV import
@@ -267,6 +394,180 @@ export const csvBuyerSchema = z
     }
   );
 
+// Form fields left blank arrive as empty strings
+const blankToUndefined = (value: unknown) =>
+  value === "" || value === null ? undefined : value;
+
+const utmSchema = z.preprocess(
+  blankToUndefined,
+  z.string().trim().max(40).optional().catch(undefined)
+);
+
+/**
+ * Schema for enquiries from public lead forms: a relaxed createBuyerSchema.
+ * Visitors only need a name, a phone number and a property type. Phone
+ * numbers may carry spaces and dashes, budgets may be numeric strings,
+ * unknown cities become "Other", and BHK is never required. The source is
+ * always Website, so it isn't accepted here.
+ */
+export const publicLeadSchema = z
+  .object({
+    fullName: createBuyerSchema.shape.fullName,
+    email: createBuyerSchema.shape.email,
+    phone: z.preprocess(
+      (value) =>
+        typeof value === "string" ? value.replace(/[\s()+-]/g, "") : value,
+      phoneSchema
+    ),
+    city: citySchema.catch("Other"),
+    propertyType: propertyTypeSchema,
+    bhk: z.preprocess(blankToUndefined, bhkSchema.optional().catch(undefined)),
+    purpose: z.preprocess(blankToUndefined, purposeSchema.default("Buy")),
+    budgetMin: z.preprocess(
+      blankToUndefined,
+      z.coerce.number().int().positive().optional()
+    ),
+    budgetMax: z.preprocess(
+      blankToUndefined,
+      z.coerce.number().int().positive().optional()
+    ),
+    timeline: z.preprocess(
+      blankToUndefined,
+      timelineSchema.default("Exploring")
+    ),
+    notes: createBuyerSchema.shape.notes,
+    utm_source: utmSchema,
+    utm_medium: utmSchema,
+    utm_campaign: utmSchema,
+    utm_term: utmSchema,
+    utm_content: utmSchema,
+    // Honeypot: hidden from people, so only bots fill it in
+    website: z.string().optional(),
+  })
+  .refine(
+    (data) => {
+      if (data.budgetMin && data.budgetMax) {
+        return data.budgetMax >= data.budgetMin;
+      }
+      return true;
+    },
+    {
+      message: "Budget max must be greater than or equal to budget min",
+      path: ["budgetMax"],
+    }
+  );
+
+// Schema for merging two buyers into one
+export const mergeableFieldSchema = z.enum([
+  "fullName",
+  "email",
+  "phone",
+  "city",
+  "propertyType",
+  "bhk",
+  "purpose",
+  "budgetMin",
+  "budgetMax",
+  "timeline",
+  "source",
+  "status",
+]);
+
+export const mergeBuyersSchema = z
+  .object({
+    primaryId: z.string().uuid("Invalid primary buyer id"),
+    secondaryId: z.string().uuid("Invalid secondary buyer id"),
+    // Per-field choice of which buyer's value to keep (defaults to primary)
+    picks: z
+      .partialRecord(mergeableFieldSchema, z.enum(["primary", "secondary"]))
+      .default({}),
+    // Overrides the automatically combined notes
+    notes: z
+      .string()
+      .max(
+        NOTES_MAX_LENGTH,
+        `Notes must be at most ${NOTES_MAX_LENGTH} characters`
+      )
+      .optional(),
+    primaryUpdatedAt: z.coerce.date().optional(),
+    secondaryUpdatedAt: z.coerce.date().optional(),
+  })
+  .refine((data) => data.primaryId !== data.secondaryId, {
+    message: "Cannot merge a buyer with itself",
+    path: ["secondaryId"],
+  });
+
+// Fields a buyer can be rolled back on. Ownership isn't one of them; use
+// the reassign endpoint so team rules apply.
+export const revertableFieldSchema = z.enum([
+  "fullName",
+  "email",
+  "phone",
+  "city",
+  "propertyType",
+  "bhk",
+  "purpose",
+  "budgetMin",
+  "budgetMax",
+  "timeline",
+  "source",
+  "notes",
+  "tags",
+  "status",
+  "visitDate",
+  "dropReason",
+]);
+
+// Roll a buyer back to how it looked right after a history entry
+export const revertBuyerSchema = z.object({
+  historyId: z.string().uuid("Invalid history entry"),
+  // Every field that differs when omitted
+  fields: z.array(revertableFieldSchema).min(1).optional(),
+  updatedAt: z.coerce.date().optional(),
+});
+
+// Schema for bulk actions from the buyers list
+const bulkIdsSchema = z
+  .array(z.string().uuid("Invalid buyer id"))
+  .min(1, "Select at least one buyer")
+  .max(100, "You can update at most 100 buyers at a time");
+
+const bulkTagsSchema = z
+  .array(z.string().trim().min(1).max(50))
+  .min(1, "Enter at least one tag");
+
+export const bulkActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("status"),
+    ids: bulkIdsSchema,
+    status: statusSchema,
+    visitDate: z.coerce.date().optional(),
+    dropReason: z
+      .string()
+      .max(200, "Drop reason must be at most 200 characters")
+      .optional(),
+  }),
+  z.object({
+    action: z.literal("addTags"),
+    ids: bulkIdsSchema,
+    tags: bulkTagsSchema,
+  }),
+  z.object({
+    action: z.literal("removeTags"),
+    ids: bulkIdsSchema,
+    tags: bulkTagsSchema,
+  }),
+  z.object({
+    action: z.literal("reassign"),
+    ids: bulkIdsSchema,
+    ownerId: z.string().uuid("Invalid owner id"),
+  }),
+  z.object({
+    action: z.literal("delete"),
+    ids: bulkIdsSchema,
+  }),
+]);
+
 // Rate limiting schema
 export const rateLimitSchema = z.object({
   maxRequests: z.number().int().positive().default(10),
@@ -286,13 +587,25 @@ export const signupSchema = z.object({
     .max(80, "Name must be at most 80 characters")
     .trim(),
   email: z.string().email("Invalid email format"),
+  // From an invite link; joins the inviting organization instead of
+  // creating a new one
+  inviteToken: z.string().optional(),
 });
 
 // Export types
 export type CreateBuyerInput = z.infer<typeof createBuyerSchema>;
 export type UpdateBuyerInput = z.infer<typeof updateBuyerSchema>;
+export type StatusChangeInput = z.infer<typeof statusChangeSchema>;
+export type ReassignBuyerInput = z.infer<typeof reassignBuyerSchema>;
+export type BuyerHistoryQuery = z.infer<typeof buyerHistoryQuerySchema>;
 export type BuyerFilters = z.infer<typeof buyerFiltersSchema>;
 export type CsvBuyerInput = z.infer<typeof csvBuyerSchema>;
+export type MergeableField = z.infer<typeof mergeableFieldSchema>;
+export type MergeBuyersInput = z.infer<typeof mergeBuyersSchema>;
+export type RevertableField = z.infer<typeof revertableFieldSchema>;
+export type RevertBuyerInput = z.infer<typeof revertBuyerSchema>;
+export type BulkActionInput = z.infer<typeof bulkActionSchema>;
+export type PublicLeadInput = z.infer<typeof publicLeadSchema>;
 export type AuthInput = z.infer<typeof authSchema>;
 export type SignupInput = z.infer<typeof signupSchema>;
 
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { EXPORT_COLUMNS } from "../buyers/export-columns";
+
+export const exportColumnSchema = z.enum(EXPORT_COLUMNS);
+
+// Which columns an export writes, in order, and what their headers say
+export const exportLayoutSchema = z.object({
+  columns: z
+    .array(exportColumnSchema)
+    .min(1, "Pick at least one column")
+    .refine(
+      (columns) => new Set(columns).size === columns.length,
+      "Each column can only be exported once"
+    ),
+  labels: z
+    .partialRecord(
+      exportColumnSchema,
+      z
+        .string()
+        .trim()
+        .min(1, "Header labels can't be empty")
+        .max(100, "Header labels must be at most 100 characters")
+    )
+    .default({}),
+});
+
+// Schema for saving an export layout under a name
+export const exportTemplateSchema = exportLayoutSchema.extend({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Template name must be at least 2 characters")
+    .max(100, "Template name must be at most 100 characters"),
+});
+
+export type ExportLayoutInput = z.infer<typeof exportLayoutSchema>;
+export type ExportTemplateInput = z.infer<typeof exportTemplateSchema>;
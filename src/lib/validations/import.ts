@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { IMPORT_HEADERS, missingImportFields } from "../imports/mapping";
+
+// Source column -> buyer field. Each field can come from one column only,
+// and every required field needs a column.
+export const importMappingSchema = z
+  .record(z.string().trim().min(1).max(255), z.enum(IMPORT_HEADERS))
+  .superRefine((mapping, ctx) => {
+    const seen = new Set<string>();
+    Object.entries(mapping).forEach(([column, field]) => {
+      if (seen.has(field)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `More than one column is mapped to ${field}`,
+          path: [column],
+        });
+      }
+      seen.add(field);
+    });
+
+    const missing = missingImportFields(mapping);
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Map a column to ${missing.join(", ")}`,
+      });
+    }
+  });
+
+// Schema for saving a mapping under a name, usually the lead source
+export const importTemplateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Template name must be at least 2 characters")
+    .max(100, "Template name must be at most 100 characters"),
+  mapping: importMappingSchema,
+});
+
+// Form fields sent with the upload besides the file and mapping
+export const importOptionsSchema = z.object({
+  mode: z.enum(["create", "upsert"]).default("create"),
+  // "true" returns what the import would do instead of starting it
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export type ImportMappingInput = z.infer<typeof importMappingSchema>;
+export type ImportTemplateInput = z.infer<typeof importTemplateSchema>;
+export type ImportOptionsInput = z.infer<typeof importOptionsSchema>;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { publicLeadSchema } from "./buyer";
+import { leadFormSchema, updateLeadFormSchema } from "./lead-form";
+
+const ownerId = "3f1c2a4e-8b7d-4c6a-9e5f-1a2b3c4d5e6f";
+
+describe("leadFormSchema", () => {
+  it("creates forms active", () => {
+    expect(
+      leadFormSchema.parse({ name: "Website form", defaultOwnerId: ownerId })
+        .active
+    ).toBe(true);
+  });
+});
+
+describe("updateLeadFormSchema", () => {
+  it("leaves a paused form paused when only its owner changes", () => {
+    expect(updateLeadFormSchema.parse({ defaultOwnerId: ownerId })).toEqual({
+      defaultOwnerId: ownerId,
+    });
+  });
+
+  it("still validates the fields that were sent", () => {
+    expect(
+      updateLeadFormSchema.safeParse({ defaultOwnerId: "someone" }).success
+    ).toBe(false);
+  });
+});
+
+describe("publicLeadSchema", () => {
+  const enquiry = {
+    fullName: "Rahul Sharma",
+    phone: "+91 98765-43210",
+    propertyType: "Apartment",
+  };
+
+  it("accepts a bare enquiry and fills in the rest", () => {
+    expect(publicLeadSchema.parse(enquiry)).toMatchObject({
+      phone: "919876543210",
+      purpose: "Buy",
+      timeline: "Exploring",
+    });
+  });
+
+  it("forgives form-style values instead of rejecting the lead", () => {
+    const lead = publicLeadSchema.parse({
+      ...enquiry,
+      city: "Delhi",
+      bhk: "",
+      budgetMin: "5000000",
+      utm_source: "  google ",
+    });
+    expect(lead.city).toBe("Other");
+    expect(lead.bhk).toBeUndefined();
+    expect(lead.budgetMin).toBe(5000000);
+    expect(lead.utm_source).toBe("google");
+  });
+
+  it("still needs a usable phone number", () => {
+    expect(
+      publicLeadSchema.safeParse({ ...enquiry, phone: "12345" }).success
+    ).toBe(false);
+  });
+});
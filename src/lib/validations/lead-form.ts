@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+const leadFormFields = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Form name must be at least 2 characters")
+    .max(100, "Form name must be at most 100 characters"),
+  defaultOwnerId: z.string().uuid("Pick who owns the form's leads"),
+  active: z.boolean(),
+});
+
+// Schema for a public lead form
+export const leadFormSchema = leadFormFields.extend({
+  active: z.boolean().default(true),
+});
+
+// No defaults, so changing a paused form's owner leaves it paused
+export const updateLeadFormSchema = leadFormFields.partial();
+
+export type LeadFormInput = z.infer<typeof leadFormSchema>;
+export type UpdateLeadFormInput = z.infer<typeof updateLeadFormSchema>;
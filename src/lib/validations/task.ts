@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+export const taskTypeSchema = z.enum([
+  "Call",
+  "Visit",
+  "Email",
+  "Meeting",
+  "Other",
+]);
+
+// Schema for creating a follow-up task on a buyer
+export const createTaskSchema = z.object({
+  title: z
+    .string()
+    .min(2, "Title must be at least 2 characters")
+    .max(200, "Title must be at most 200 characters")
+    .trim(),
+  type: taskTypeSchema,
+  dueAt: z.coerce.date({ error: "Due date is required" }),
+  // Defaults to the user creating the task
+  assigneeId: z.string().uuid("Invalid assignee").optional(),
+  notes: z
+    .string()
+    .max(1000, "Notes must be at most 1000 characters")
+    .optional()
+    .or(z.literal("")),
+});
+
+// Schema for updating a task (all fields optional, plus the done flag)
+export const updateTaskSchema = createTaskSchema.partial().extend({
+  done: z.boolean().optional(),
+});
+
+// Schema for the "my tasks" view; the client sends its own day boundaries
+// so "today" matches the user's timezone rather than the server's
+export const myTasksQuerySchema = z.object({
+  dayStart: z.coerce.date().optional(),
+  dayEnd: z.coerce.date().optional(),
+});
+
+export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type TaskType = z.infer<typeof taskTypeSchema>;
@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+export const userRoleSchema = z.enum(["admin", "manager", "agent"]);
+
+// Schema for an admin changing a user's role, team or availability
+export const updateUserAccessSchema = z
+  .object({
+    role: userRoleSchema.optional(),
+    teamId: z.string().uuid("Invalid team").nullable().optional(),
+    available: z.boolean().optional(),
+  })
+  .refine(
+    (data) =>
+      data.role !== undefined ||
+      data.teamId !== undefined ||
+      data.available !== undefined,
+    { message: "Nothing to update" }
+  );
+
+export const createTeamSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Team name must be at least 2 characters")
+    .max(100, "Team name must be at most 100 characters"),
+});
+
+// Schema for an admin inviting someone into their organization
+export const inviteUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email format"),
+  role: userRoleSchema.default("agent"),
+});
+
+export const updateOrganizationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Organization name must be at least 2 characters")
+    .max(100, "Organization name must be at most 100 characters"),
+});
+
+export type UpdateUserAccessInput = z.infer<typeof updateUserAccessSchema>;
+export type CreateTeamInput = z.infer<typeof createTeamSchema>;
+export type InviteUserInput = z.infer<typeof inviteUserSchema>;
+export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
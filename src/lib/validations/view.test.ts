@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  savedViewFiltersSchema,
+  savedViewSchema,
+  updateSavedViewSchema,
+} from "./view";
+
+describe("savedViewSchema", () => {
+  it("saves a new view unpinned and private", () => {
+    const view = savedViewSchema.parse({
+      name: "Hot Mohali leads",
+      filters: { city: "Mohali", status: "Negotiation" },
+    });
+    expect(view.pinned).toBe(false);
+    expect(view.shared).toBe(false);
+  });
+});
+
+describe("updateSavedViewSchema", () => {
+  it("doesn't unshare a view when only pinning it", () => {
+    expect(updateSavedViewSchema.parse({ pinned: true })).toEqual({
+      pinned: true,
+    });
+  });
+
+  it("doesn't unpin a view when only renaming it", () => {
+    expect(updateSavedViewSchema.parse({ name: "  Renamed  " })).toEqual({
+      name: "Renamed",
+    });
+  });
+});
+
+describe("savedViewFiltersSchema", () => {
+  it("keeps filters as query string values", () => {
+    expect(
+      savedViewFiltersSchema.parse({ bhk: "2,3", budgetMin: "5000000" })
+    ).toEqual({ bhk: "2,3", budgetMin: "5000000" });
+  });
+
+  it("rejects filters the buyers list would refuse", () => {
+    const result = savedViewFiltersSchema.safeParse({
+      budgetMin: "9000000",
+      budgetMax: "1000000",
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(["budgetMax"]);
+  });
+});
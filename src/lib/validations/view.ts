@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { buyerFiltersSchema } from "./buyer";
+
+// Raw query string value of a list or range filter
+const filterParamSchema = z.string().max(500).optional();
+
+// The part of the buyers list query a saved view remembers, kept as query
+// string values. Paging is left out so a view always opens on its first
+// page.
+export const savedViewFiltersSchema = z
+  .object({
+    search: z
+      .string()
+      .trim()
+      .max(100, "Search must be at most 100 characters")
+      .optional(),
+    city: buyerFiltersSchema.shape.city,
+    propertyType: buyerFiltersSchema.shape.propertyType,
+    status: buyerFiltersSchema.shape.status,
+    timeline: buyerFiltersSchema.shape.timeline,
+    bhk: filterParamSchema,
+    purpose: filterParamSchema,
+    source: filterParamSchema,
+    tags: filterParamSchema,
+    budgetMin: filterParamSchema,
+    budgetMax: filterParamSchema,
+    createdFrom: filterParamSchema,
+    createdTo: filterParamSchema,
+    updatedFrom: filterParamSchema,
+    updatedTo: filterParamSchema,
+    sortBy: buyerFiltersSchema.shape.sortBy.unwrap().optional(),
+    sortOrder: buyerFiltersSchema.shape.sortOrder.unwrap().optional(),
+  })
+  // Reject views the buyers list would refuse to load
+  .superRefine((filters, ctx) => {
+    const result = buyerFiltersSchema.safeParse(filters);
+    if (!result.success) {
+      result.error.issues.forEach((issue) =>
+        ctx.addIssue({
+          code: "custom",
+          message: issue.message,
+          path: issue.path,
+        })
+      );
+    }
+  });
+
+const savedViewFields = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "View name must be at least 2 characters")
+    .max(100, "View name must be at most 100 characters"),
+  filters: savedViewFiltersSchema,
+  pinned: z.boolean(),
+  shared: z.boolean(),
+});
+
+// Schema for saving the current buyers list filters under a name
+export const savedViewSchema = savedViewFields.extend({
+  pinned: z.boolean().default(false),
+  shared: z.boolean().default(false),
+});
+
+// No defaults, so pinning a view doesn't unshare it and vice versa
+export const updateSavedViewSchema = savedViewFields.partial();
+
+export type SavedViewFilters = z.infer<typeof savedViewFiltersSchema>;
+export type SavedViewInput = z.infer<typeof savedViewSchema>;
+export type UpdateSavedViewInput = z.infer<typeof updateSavedViewSchema>;
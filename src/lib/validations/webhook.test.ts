@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  updateWebhookEndpointSchema,
+  webhookEndpointSchema,
+} from "./webhook";
+
+describe("webhookEndpointSchema", () => {
+  it("registers endpoints active, with each event once", () => {
+    expect(
+      webhookEndpointSchema.parse({
+        url: " https://example.com/hooks ",
+        events: ["buyer.created", "buyer.created", "buyer.converted"],
+      })
+    ).toEqual({
+      url: "https://example.com/hooks",
+      events: ["buyer.created", "buyer.converted"],
+      active: true,
+    });
+  });
+
+  it("only takes http and https URLs", () => {
+    expect(
+      webhookEndpointSchema.safeParse({
+        url: "ftp://example.com/hooks",
+        events: ["buyer.created"],
+      }).success
+    ).toBe(false);
+  });
+
+  it("needs at least one event", () => {
+    expect(
+      webhookEndpointSchema.safeParse({
+        url: "https://example.com/hooks",
+        events: [],
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("updateWebhookEndpointSchema", () => {
+  it("doesn't reactivate a disabled endpoint when its URL changes", () => {
+    expect(
+      updateWebhookEndpointSchema.parse({ url: "https://example.com/new" })
+    ).toEqual({ url: "https://example.com/new" });
+  });
+
+  it("leaves the URL alone when only toggling the endpoint", () => {
+    expect(updateWebhookEndpointSchema.parse({ active: false })).toEqual({
+      active: false,
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+export const webhookEventSchema = z.enum([
+  "buyer.created",
+  "buyer.status_changed",
+  "buyer.converted",
+  "buyer.deleted",
+]);
+
+const webhookEndpointFields = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("Enter a valid URL")
+    .max(500, "URL must be at most 500 characters")
+    .refine(
+      (url) => /^https?:\/\//i.test(url),
+      "URL must start with http:// or https://"
+    ),
+  events: z
+    .array(webhookEventSchema)
+    .min(1, "Pick at least one event")
+    .transform((events) => [...new Set(events)]),
+  active: z.boolean(),
+});
+
+// Schema for registering a webhook endpoint
+export const webhookEndpointSchema = webhookEndpointFields.extend({
+  active: z.boolean().default(true),
+});
+
+// No defaults, so fields left out of an update keep their saved values
+export const updateWebhookEndpointSchema = webhookEndpointFields.partial();
+
+// Delivery log paging for one endpoint
+export const webhookDeliveriesQuerySchema = z.object({
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+export type UpdateWebhookEndpointInput = z.infer<
+  typeof updateWebhookEndpointSchema
+>;
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { checkWebhookUrl, isPublicAddress } from "./address";
+
+describe("isPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fe80::1",
+    "fd00::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+  ])("rejects %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(["8.8.8.8", "172.32.0.1", "2606:4700::1111"])(
+    "accepts %s",
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  );
+
+  it("rejects things that aren't addresses", () => {
+    expect(isPublicAddress("example.com")).toBe(false);
+  });
+});
+
+describe("checkWebhookUrl", () => {
+  it("accepts a public address", async () => {
+    await expect(checkWebhookUrl("https://8.8.8.8/hooks")).resolves.toBeNull();
+  });
+
+  it("refuses loopback, including bracketed and mapped IPv6 forms", async () => {
+    for (const url of [
+      "http://localhost:3000/hooks",
+      "http://127.0.0.1/hooks",
+      "http://[::1]/hooks",
+      "http://[::ffff:127.0.0.1]/hooks",
+    ]) {
+      await expect(checkWebhookUrl(url)).resolves.toBe(
+        "Webhook URLs must point to a public address"
+      );
+    }
+  });
+
+  it("refuses the cloud metadata service", async () => {
+    await expect(
+      checkWebhookUrl("http://169.254.169.254/latest/meta-data")
+    ).resolves.toBe("Webhook URLs must point to a public address");
+  });
+
+  it("explains a URL it can't parse", async () => {
+    await expect(checkWebhookUrl("not a url")).resolves.toBe("Invalid URL");
+  });
+});
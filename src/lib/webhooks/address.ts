@@ -0,0 +1,72 @@
+import { lookup } from "dns/promises";
+import net from "net";
+
+// Addresses a webhook must never reach: this machine, private networks,
+// cloud metadata services and other special-purpose ranges
+const BLOCKED_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  // NAT64 form of any IPv4 address. IPv4-mapped ones (::ffff:a.b.c.d) need
+  // no rule: BlockList checks them against the IPv4 ranges above.
+  ["64:ff9b::", 96, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockList = new net.BlockList();
+BLOCKED_RANGES.forEach(([network, prefix, type]) =>
+  blockList.addSubnet(network, prefix, type)
+);
+
+// False for loopback, private, link-local and other non-public addresses
+export function isPublicAddress(address: string): boolean {
+  const type = net.isIP(address);
+  if (type === 0) return false;
+  return !blockList.check(address, type === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Why the URL can't be used as a webhook endpoint, or null if it can. The
+ * host is resolved and every address it points at must be public. Checked
+ * when an endpoint is saved and again before each delivery, since DNS
+ * records can change in between.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return "Invalid URL";
+  }
+
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map(
+        (entry) => entry.address
+      );
+    } catch {
+      return `Couldn't resolve ${hostname}`;
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return "Webhook URLs must point to a public address";
+  }
+
+  return null;
+}
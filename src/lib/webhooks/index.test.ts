@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import type { Buyer } from "../db/schema";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  buyerEvents,
+  nextWebhookAttemptAt,
+  signWebhookPayload,
+} from "./index";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const buyer: Buyer = {
+  id: "3f1c2a4e-8b7d-4c6a-9e5f-1a2b3c4d5e6f",
+  fullName: "Rahul Sharma",
+  email: null,
+  phone: "9876543210",
+  city: "Mohali",
+  propertyType: "Plot",
+  bhk: null,
+  purpose: "Buy",
+  budgetMin: null,
+  budgetMax: null,
+  timeline: "0-3m",
+  source: "Website",
+  status: "Negotiation",
+  visitDate: null,
+  dropReason: null,
+  notes: null,
+  tags: [],
+  ownerId: "8a9b0c1d-2e3f-4a5b-8c7d-9e0f1a2b3c4d",
+  organizationId: "5e6f7a8b-9c0d-4e1f-a2b3-c4d5e6f7a8b9",
+  deletedAt: null,
+  deletedBy: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+describe("signWebhookPayload", () => {
+  it("is the hex HMAC-SHA256 of the timestamp and body", () => {
+    const body = JSON.stringify({ event: "buyer.created" });
+    const expected = crypto
+      .createHmac("sha256", "whsec_test")
+      .update(`1767225600.${body}`)
+      .digest("hex");
+
+    expect(signWebhookPayload("whsec_test", 1767225600, body)).toBe(expected);
+  });
+
+  it("changes when the timestamp, body or secret does", () => {
+    const signature = signWebhookPayload("whsec_test", 1, "{}");
+    expect(signWebhookPayload("whsec_test", 2, "{}")).not.toBe(signature);
+    expect(signWebhookPayload("whsec_test", 1, "{ }")).not.toBe(signature);
+    expect(signWebhookPayload("whsec_other", 1, "{}")).not.toBe(signature);
+  });
+});
+
+describe("nextWebhookAttemptAt", () => {
+  const failedAt = new Date("2026-01-01T00:00:00Z");
+  const delay = (attempts: number) =>
+    nextWebhookAttemptAt(attempts, failedAt).getTime() - failedAt.getTime();
+
+  it("backs off further after each failure", () => {
+    expect([1, 2, 3, 4, 5].map(delay)).toEqual([
+      MINUTE,
+      5 * MINUTE,
+      30 * MINUTE,
+      2 * HOUR,
+      12 * HOUR,
+    ]);
+  });
+
+  it("stays at the longest delay past the end of the schedule", () => {
+    expect(delay(WEBHOOK_MAX_ATTEMPTS + 1)).toBe(12 * HOUR);
+  });
+});
+
+describe("buyerEvents", () => {
+  it("raises created for a new buyer", () => {
+    expect(buyerEvents(null, buyer)).toEqual([
+      { event: "buyer.created", buyer },
+    ]);
+  });
+
+  it("raises nothing when the status didn't change", () => {
+    expect(buyerEvents(buyer, { ...buyer, notes: "Called back" })).toEqual([]);
+  });
+
+  it("raises status_changed with the previous status", () => {
+    const visited = { ...buyer, status: "Visited" as const };
+    expect(buyerEvents(buyer, visited)).toEqual([
+      {
+        event: "buyer.status_changed",
+        buyer: visited,
+        previousStatus: "Negotiation",
+      },
+    ]);
+  });
+
+  it("also raises converted when the buyer converts", () => {
+    const converted = { ...buyer, status: "Converted" as const };
+    expect(buyerEvents(buyer, converted).map(({ event }) => event)).toEqual([
+      "buyer.status_changed",
+      "buyer.converted",
+    ]);
+  });
+});
@@ -0,0 +1,307 @@
+import { after } from "next/server";
+import { and, asc, eq, inArray, lte } from "drizzle-orm";
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../db";
+import {
+  webhookDeliveries,
+  webhookEndpoints,
+  Buyer,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+} from "../db/schema";
+import { checkWebhookUrl } from "./address";
+
+// Attempts before a delivery is given up on
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+// Wait after each failed attempt: 1 minute, 5 minutes, 30 minutes, 2 hours,
+// then 12 hours
+const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+
+// How long a receiver has to answer
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// A claimed delivery is left alone this long, so one whose worker died
+// mid-send is picked up again
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+
+const DELIVERY_BATCH_SIZE = 25;
+
+// When to try again after the given number of failed attempts
+export function nextWebhookAttemptAt(attempts: number, failedAt: Date): Date {
+  return new Date(
+    failedAt.getTime() +
+      RETRY_DELAYS_MS[Math.min(attempts - 1, RETRY_DELAYS_MS.length - 1)]
+  );
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+export interface BuyerEvent {
+  event: WebhookEvent;
+  buyer: Buyer;
+  previousStatus?: Buyer["status"];
+}
+
+/**
+ * The events a saved buyer raises: created when there was no `previous`
+ * version, otherwise status_changed when the status moved, plus converted
+ * when it moved to Converted.
+ */
+export function buyerEvents(
+  previous: Buyer | null,
+  current: Buyer
+): BuyerEvent[] {
+  if (!previous) return [{ event: "buyer.created", buyer: current }];
+  if (previous.status === current.status) return [];
+
+  const events: BuyerEvent[] = [
+    {
+      event: "buyer.status_changed",
+      buyer: current,
+      previousStatus: previous.status,
+    },
+  ];
+  if (current.status === "Converted") {
+    events.push({
+      event: "buyer.converted",
+      buyer: current,
+      previousStatus: previous.status,
+    });
+  }
+  return events;
+}
+
+/**
+ * Queue a delivery of each event to every active endpoint of the
+ * organization that subscribes to it. Returns how many were queued; send
+ * them with processWebhookQueue.
+ */
+export async function queueWebhookEvents(
+  organizationId: string,
+  events: BuyerEvent[]
+): Promise<number> {
+  if (events.length === 0) return 0;
+
+  const endpoints = await db
+    .select({ id: webhookEndpoints.id, events: webhookEndpoints.events })
+    .from(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.organizationId, organizationId),
+        eq(webhookEndpoints.active, true)
+      )
+    );
+
+  const createdAt = new Date().toISOString();
+  const deliveries = events.flatMap(({ event, buyer, previousStatus }) => {
+    const eventId = uuidv4();
+    const payload = {
+      id: eventId,
+      event,
+      createdAt,
+      data: { buyer, ...(previousStatus && { previousStatus }) },
+    };
+
+    return endpoints
+      .filter((endpoint) => endpoint.events.includes(event))
+      .map((endpoint) => ({
+        organizationId,
+        endpointId: endpoint.id,
+        eventId,
+        event,
+        payload,
+      }));
+  });
+
+  if (deliveries.length > 0) {
+    await db.insert(webhookDeliveries).values(deliveries);
+  }
+
+  return deliveries.length;
+}
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>"; receivers recompute it with the
+// endpoint's secret and compare
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+async function sendDelivery(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint
+): Promise<{ responseStatus: number | null; error: string | null }> {
+  // The host may have been repointed since the endpoint was saved
+  const blocked = await checkWebhookUrl(endpoint.url);
+  if (blocked) return { responseStatus: null, error: blocked };
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ESahayak-Webhooks/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(
+          endpoint.secret,
+          timestamp,
+          body
+        )}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return { responseStatus: response.status, error: null };
+    }
+
+    // Only the status is kept; the body is whatever the receiver sent and
+    // isn't ours to show
+    return {
+      responseStatus: response.status,
+      error: `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : "Delivery failed",
+    };
+  }
+}
+
+/**
+ * Send the deliveries that are due, oldest first. Each one is claimed by
+ * pushing its next attempt past a lease, so the cron job and requests
+ * sending their own events never send the same delivery at once. Failed
+ * attempts are retried with backoff until WEBHOOK_MAX_ATTEMPTS.
+ */
+export async function processWebhookQueue(limit = DELIVERY_BATCH_SIZE) {
+  const now = new Date();
+
+  const claimed = await db
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) })
+    .where(
+      inArray(
+        webhookDeliveries.id,
+        db
+          .select({ id: webhookDeliveries.id })
+          .from(webhookDeliveries)
+          .where(
+            and(
+              eq(webhookDeliveries.status, "pending"),
+              lte(webhookDeliveries.nextAttemptAt, now)
+            )
+          )
+          .orderBy(asc(webhookDeliveries.nextAttemptAt))
+          .limit(limit)
+          .for("update", { skipLocked: true })
+      )
+    )
+    .returning();
+
+  const summary = { delivered: 0, retrying: 0, failed: 0 };
+  if (claimed.length === 0) return summary;
+
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(
+      inArray(
+        webhookEndpoints.id,
+        [...new Set(claimed.map((delivery) => delivery.endpointId))]
+      )
+    );
+  const endpointsById = new Map(
+    endpoints.map((endpoint) => [endpoint.id, endpoint])
+  );
+
+  await Promise.all(
+    claimed.map(async (delivery) => {
+      const endpoint = endpointsById.get(delivery.endpointId);
+
+      // Paused endpoints drop what was still queued for them
+      if (!endpoint?.active) {
+        await db
+          .update(webhookDeliveries)
+          .set({ status: "failed", lastError: "Endpoint paused" })
+          .where(eq(webhookDeliveries.id, delivery.id));
+        summary.failed++;
+        return;
+      }
+
+      const result = await sendDelivery(delivery, endpoint);
+      const attempts = delivery.attempts + 1;
+      const attemptedAt = new Date();
+
+      let status: WebhookDelivery["status"] = "succeeded";
+      let nextAttemptAt = attemptedAt;
+      if (result.error) {
+        if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+          status = "failed";
+        } else {
+          status = "pending";
+          nextAttemptAt = nextWebhookAttemptAt(attempts, attemptedAt);
+        }
+      }
+
+      await db
+        .update(webhookDeliveries)
+        .set({
+          status,
+          attempts,
+          nextAttemptAt,
+          lastAttemptAt: attemptedAt,
+          responseStatus: result.responseStatus,
+          lastError: result.error,
+        })
+        .where(eq(webhookDeliveries.id, delivery.id));
+
+      if (status === "succeeded") summary.delivered++;
+      else if (status === "pending") summary.retrying++;
+      else summary.failed++;
+    })
+  );
+
+  return summary;
+}
+
+// For route handlers: queue the events, then send them once the response
+// is out. Anything not delivered then is retried by the cron job.
+export async function dispatchWebhookEvents(
+  organizationId: string,
+  events: BuyerEvent[]
+) {
+  try {
+    const queued = await queueWebhookEvents(organizationId, events);
+    if (queued > 0) after(() => processWebhookQueue());
+  } catch (error) {
+    // The change itself has been saved; a lost notification shouldn't undo
+    // the request
+    console.error("Error queueing webhook events:", error);
+  }
+}
@@ -0,0 +1,18 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+    env: {
+      // Modules that import the db need a URL to load; tests never connect
+      DATABASE_URL: "postgres://test@localhost:5432/test",
+    },
+  },
+});